@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import auth from "@/lib/auth"
+import { clearSessionCookie, getSessionToken } from "@/lib/auth/session"
+
+// POST /api/auth/logout ends the session server-side and clears the cookie
+export async function POST(request: Request) {
+  try {
+    const token = getSessionToken(request)
+    if (token) {
+      await auth.deleteSession(token)
+    }
+
+    const response = NextResponse.json({ signedOut: true })
+    clearSessionCookie(response)
+    return response
+  } catch (error) {
+    console.error("❌ Error signing out:", error)
+    return NextResponse.json({ error: "Failed to sign out. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import auth, { MagicLinkRequestSchema, MagicLinkUnavailableError } from "@/lib/auth"
+import rateLimiter, { rateLimitedResponse, withRateLimit } from "@/lib/rate-limit"
+
+// POST /api/auth/magic-link with { email, next }
+// Always reports success for a valid address, so the form can't be used to probe for accounts.
+// Limited per IP by the wrapper and per address below, since every request sends an email.
+export const POST = withRateLimit("auth/magic-link", async (request: Request) => {
+  try {
+    const input = MagicLinkRequestSchema.parse(await request.json())
+
+    const perEmail = await rateLimiter.check("auth/magic-link/email", input.email)
+    if (!perEmail.allowed) {
+      return rateLimitedResponse("auth/magic-link/email", perEmail)
+    }
+
+    await auth.requestMagicLink(input, new URL(request.url).origin)
+    return NextResponse.json({ sent: true })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid email address" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+    if (error instanceof MagicLinkUnavailableError) {
+      console.error("❌ SMTP_HOST is not set; can't send sign-in links")
+      return NextResponse.json({ error: "Email sign-in isn't available on this server." }, { status: 503 })
+    }
+
+    console.error("❌ Error sending sign-in link:", error)
+    return NextResponse.json({ error: "Failed to send sign-in link. Please try again." }, { status: 500 })
+  }
+})
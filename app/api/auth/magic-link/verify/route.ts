@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import auth, { InvalidMagicLinkError } from "@/lib/auth"
+import { setSessionCookie } from "@/lib/auth/session"
+
+// GET /api/auth/magic-link/verify?token= (the link in the email)
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+
+  try {
+    const { user, next } = await auth.verifyMagicLink(url.searchParams.get("token") || "")
+    const { token } = await auth.createSession(user, request.headers.get("user-agent"))
+    console.log(`✅ Signed in ${user.email} with a magic link`)
+
+    const response = NextResponse.redirect(new URL(next, url.origin))
+    setSessionCookie(response, token)
+    return response
+  } catch (error) {
+    const reason = error instanceof InvalidMagicLinkError ? "expired" : "failed"
+    if (reason === "failed") {
+      console.error("❌ Error verifying sign-in link:", error)
+    }
+    return NextResponse.redirect(new URL(`/login?error=${reason}`, url.origin))
+  }
+}
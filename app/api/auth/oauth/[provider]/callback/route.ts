@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import auth, { OAUTH_STATE_COOKIE, readCookie, safeRedirectPath } from "@/lib/auth"
+import { OAuthError, callbackUrl, fetchOAuthProfile, isOAuthProvider, isProviderConfigured } from "@/lib/auth/oauth"
+import { setSessionCookie } from "@/lib/auth/session"
+
+interface RouteContext {
+  params: { provider: string }
+}
+
+function readState(request: Request): { state: string; next: string } | null {
+  try {
+    const value = JSON.parse(readCookie(request.headers.get("cookie"), OAUTH_STATE_COOKIE) || "null")
+    return typeof value?.state === "string" ? { state: value.state, next: safeRedirectPath(value.next) } : null
+  } catch {
+    return null
+  }
+}
+
+// GET /api/auth/oauth/:provider/callback?code=&state=
+export async function GET(request: Request, { params }: RouteContext) {
+  const url = new URL(request.url)
+  const fail = (reason: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${reason}`, url.origin))
+    response.cookies.set(OAUTH_STATE_COOKIE, "", { path: "/api/auth/oauth", maxAge: 0 })
+    return response
+  }
+
+  if (!isOAuthProvider(params.provider) || !isProviderConfigured(params.provider)) {
+    return fail("provider")
+  }
+
+  // Denied consent comes back as ?error=access_denied
+  const code = url.searchParams.get("code")
+  if (!code) {
+    return fail("cancelled")
+  }
+
+  const stored = readState(request)
+  if (!stored || stored.state !== url.searchParams.get("state")) {
+    return fail("state")
+  }
+
+  try {
+    const profile = await fetchOAuthProfile(params.provider, code, callbackUrl(params.provider, url.origin))
+    const user = await auth.signInWithOAuth(profile, params.provider)
+    const { token } = await auth.createSession(user, request.headers.get("user-agent"))
+    console.log(`✅ Signed in ${user.email} with ${params.provider}`)
+
+    const response = NextResponse.redirect(new URL(stored.next, url.origin))
+    response.cookies.set(OAUTH_STATE_COOKIE, "", { path: "/api/auth/oauth", maxAge: 0 })
+    setSessionCookie(response, token)
+    return response
+  } catch (error) {
+    console.error(`❌ Error signing in with ${params.provider}:`, error)
+    return fail(error instanceof OAuthError ? "unverified" : "failed")
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { OAUTH_STATE_COOKIE, OAUTH_STATE_MAX_AGE_SECONDS, safeRedirectPath } from "@/lib/auth"
+import { authorizationUrl, callbackUrl, isOAuthProvider, isProviderConfigured } from "@/lib/auth/oauth"
+import { createToken } from "@/lib/auth/tokens"
+
+interface RouteContext {
+  params: { provider: string }
+}
+
+// GET /api/auth/oauth/:provider?next= starts the provider's consent flow
+// The state cookie ties the callback to this browser and carries where to land afterwards
+export async function GET(request: Request, { params }: RouteContext) {
+  const url = new URL(request.url)
+
+  if (!isOAuthProvider(params.provider) || !isProviderConfigured(params.provider)) {
+    return NextResponse.redirect(new URL("/login?error=provider", url.origin))
+  }
+
+  const state = createToken()
+  const next = safeRedirectPath(url.searchParams.get("next"))
+  const response = NextResponse.redirect(
+    authorizationUrl(params.provider, state, callbackUrl(params.provider, url.origin)),
+  )
+
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, next }), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/api/auth/oauth",
+    maxAge: OAUTH_STATE_MAX_AGE_SECONDS,
+  })
+  return response
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { getSessionUser } from "@/lib/auth/session"
+
+// GET /api/auth/session returns the signed-in user, or { user: null }
+export async function GET(request: Request) {
+  try {
+    const user = await getSessionUser(request)
+    return NextResponse.json({ user })
+  } catch (error) {
+    console.error("❌ Error loading session:", error)
+    return NextResponse.json({ error: "Failed to load session. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import history from "@/lib/history"
+import { compose, ComposeRequestSchema, PLATFORM_SPECS } from "@/lib/composer"
+import type { User } from "@/lib/auth"
+import { withAuth } from "@/lib/auth/session"
+import { withRateLimit } from "@/lib/rate-limit"
+import usage, { isComplexRequest, quotaExceededResponse, selectModelTier } from "@/lib/usage"
+import voiceProfiles, { VoiceProfileNotFoundError } from "@/lib/voice-profiles"
+
+// Generates X, LinkedIn and Instagram variants of one topic or draft.
+// Pass a single platform to regenerate just that variant.
+export const POST = withAuth(withRateLimit("compose", async (request: Request, user: User) => {
+  try {
+    const composeRequest = ComposeRequestSchema.parse(await request.json())
+
+    const voiceProfile = await voiceProfiles.resolve(composeRequest.voiceProfileId, user.id)
+
+    // Each platform variant counts as a post; platforms that fail are refunded
+    const quota = await usage.consume(request, "posts", composeRequest.platforms.length)
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    const { variants, failures } = await compose(composeRequest, voiceProfile, {
+      signal: request.signal,
+      tier: selectModelTier(quota.plan, isComplexRequest(composeRequest.source, composeRequest.instructions)),
+    })
+    await usage.refund(quota, failures.length)
+
+    if (variants.length === 0) {
+      return NextResponse.json(
+        {
+          error: "Failed to compose posts. Our AI service is experiencing issues. Please try again shortly.",
+          failures,
+        },
+        { status: 500 },
+      )
+    }
+
+    // One history entry per platform, so each variant can be found and regenerated on its own
+    await Promise.all(
+      variants.map((variant) =>
+        history.record(user.id, {
+          kind: "post",
+          platform: PLATFORM_SPECS[variant.platform].historyPlatform,
+          route: "/api/compose",
+          request: { ...composeRequest, platforms: [variant.platform] },
+          input: {
+            url: null,
+            content: composeRequest.source,
+            tone: composeRequest.tone,
+            options: {
+              sourceType: composeRequest.sourceType,
+              format: variant.format,
+              useEmoji: composeRequest.useEmoji,
+              instructions: composeRequest.instructions || null,
+              voiceProfile: voiceProfile?.name || null,
+            },
+          },
+          outputs: variant.published,
+          outputTone: composeRequest.tone,
+          metadata: { ...variant.metadata, composer: true },
+        }),
+      ),
+    )
+
+    return NextResponse.json({
+      variants,
+      failures,
+      source: composeRequest.source,
+      tone: composeRequest.tone,
+      voiceProfile: voiceProfile ? { id: voiceProfile.id, name: voiceProfile.name } : null,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid compose request" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+    if (error instanceof VoiceProfileNotFoundError) {
+      return NextResponse.json({ error: "Voice profile not found. It may have been deleted." }, { status: 400 })
+    }
+
+    console.error("Error composing posts:", error)
+    return NextResponse.json({ error: "Post composition failed. Please try again." }, { status: 500 })
+  }
+}))
@@ -1,10 +1,6 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+import { withAuth } from "@/lib/auth/session"
+import llm from "@/lib/llm"
 
 interface ProfileData {
   name: string | null
@@ -12,7 +8,7 @@ interface ProfileData {
   source: "parsed" | "scraped" | "fallback"
 }
 
-export async function POST(request: Request) {
+export const POST = withAuth(async (request: Request) => {
   try {
     const { profileData, profileUrl } = await request.json()
 
@@ -39,8 +35,7 @@ export async function POST(request: Request) {
     }
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      const { content: suggestedTone } = await llm.complete("detect-tone", {
         messages: [
           {
             role: "system",
@@ -67,17 +62,11 @@ Return ONLY a short descriptive phrase (2-4 words) that captures the optimal ton
           },
         ],
         temperature: 0.7,
-        max_tokens: 50,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
+        maxTokens: 50,
+        presencePenalty: 0.1,
+        frequencyPenalty: 0.1,
       })
 
-      const suggestedTone = response.choices[0].message.content?.trim()
-
-      if (!suggestedTone) {
-        throw new Error("No tone suggestion returned from OpenAI")
-      }
-
       // Clean up the response (remove quotes, extra punctuation)
       const cleanTone = suggestedTone
         .replace(/^["']|["']$/g, "") // Remove surrounding quotes
@@ -89,8 +78,8 @@ Return ONLY a short descriptive phrase (2-4 words) that captures the optimal ton
         profileContext,
         reasoning: `Based on the professional context: "${profileContext}"`,
       })
-    } catch (openaiError) {
-      console.error("OpenAI API error:", openaiError)
+    } catch (llmError) {
+      console.error("LLM API error:", llmError)
 
       // Fallback tone suggestions based on simple heuristics
       let fallbackTone = "Professional but warm"
@@ -125,4 +114,4 @@ Return ONLY a short descriptive phrase (2-4 words) that captures the optimal ton
     console.error("Error detecting tone:", error)
     return NextResponse.json({ error: "Failed to detect tone. Please try again." }, { status: 500 })
   }
-}
+})
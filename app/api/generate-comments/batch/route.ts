@@ -0,0 +1,267 @@
+import { NextResponse } from "next/server"
+import llm, { CommentResponseSchema, generationEnvelope, type GenerationMetadata } from "@/lib/llm"
+import { buildCommentCompletion } from "@/lib/comment-generator"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { extractUrlsFromCsv } from "@/lib/csv"
+import { parsePost, PostParseError } from "@/lib/post-parser"
+import { toHistoryPlatform } from "@/lib/history"
+import { generateWithQualityChecks, type QualityReport } from "@/lib/quality"
+import type { User } from "@/lib/auth"
+import { withAuth } from "@/lib/auth/session"
+import { withRateLimit } from "@/lib/rate-limit"
+import { recordGeneration, type ReviewSummary } from "@/lib/review"
+import { createSSEResponse, isAbortError, type SSESend } from "@/lib/sse"
+import usage from "@/lib/usage"
+import voiceProfiles, { findBannedPhrases, VoiceProfileNotFoundError, type VoiceProfile } from "@/lib/voice-profiles"
+
+const MAX_BATCH_SIZE = 50
+const DEFAULT_CONCURRENCY = 3
+const MAX_CONCURRENCY = 5
+
+type BatchItemStatus = "queued" | "parsing" | "generating" | "done" | "failed"
+
+interface BatchItem {
+  index: number
+  url: string
+  status: BatchItemStatus
+  title?: string | null
+  tone?: string
+  comment?: string
+  flaggedPhrases?: string[]
+  error?: string
+  retryable?: boolean
+  metadata?: GenerationMetadata & { quality: QualityReport | null }
+  review?: ReviewSummary | null
+}
+
+interface BatchOptions {
+  urls: string[]
+  platform: string
+  useSmartTone: boolean
+  selectedTone?: string
+  voiceProfileId?: string
+  concurrency: number
+  submitForReview?: boolean
+}
+
+class BatchRequestError extends Error {}
+
+// Accepts either JSON ({ urls: [...] }) or a multipart CSV upload (file field "file")
+async function readBatchOptions(request: Request): Promise<BatchOptions> {
+  const contentType = request.headers.get("content-type") || ""
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData()
+    const file = form.get("file")
+
+    if (!file || typeof file === "string") {
+      throw new BatchRequestError("CSV file is required")
+    }
+
+    return {
+      urls: extractUrlsFromCsv(await file.text()),
+      platform: (form.get("platform") as string | null) || "LinkedIn",
+      useSmartTone: form.get("useSmartTone") !== "false",
+      selectedTone: (form.get("selectedTone") as string | null) || undefined,
+      voiceProfileId: (form.get("voiceProfileId") as string | null) || undefined,
+      concurrency: Number(form.get("concurrency")) || DEFAULT_CONCURRENCY,
+      submitForReview: form.has("submitForReview") ? form.get("submitForReview") === "true" : undefined,
+    }
+  }
+
+  const body = await request.json()
+
+  return {
+    urls: Array.isArray(body.urls) ? body.urls.filter((url: unknown) => typeof url === "string") : [],
+    platform: body.platform || "LinkedIn",
+    useSmartTone: body.useSmartTone !== false,
+    selectedTone: body.selectedTone,
+    voiceProfileId: body.voiceProfileId,
+    concurrency: Number(body.concurrency) || DEFAULT_CONCURRENCY,
+    submitForReview: body.submitForReview,
+  }
+}
+
+// Parses and comments on a single post, reporting each step; never throws except on abort.
+// Each post is charged one comment up front and refunded unless a comment is generated, retries included.
+async function processItem(
+  url: string,
+  index: number,
+  options: BatchOptions,
+  voiceProfile: VoiceProfile | null,
+  request: Request,
+  user: User,
+  send: SSESend,
+  signal: AbortSignal,
+): Promise<BatchItem> {
+  const item: BatchItem = { index, url, status: "parsing" }
+
+  const quota = await usage.consume(request, "comments")
+  if (!quota.allowed) {
+    return fail(item, "Monthly comment quota reached", false, send)
+  }
+  send("item", item)
+
+  let generated = false
+  try {
+    const { postContent, message } = await parsePost(url, signal)
+
+    if (!postContent) {
+      return fail(item, message || "No content could be extracted from this URL", false, send)
+    }
+
+    item.title = postContent.title
+    item.status = "generating"
+    send("item", item)
+
+    const { completionOptions, optimizedPostContent } = buildCommentCompletion({
+      platform: options.platform,
+      postContent,
+      useSmartTone: options.useSmartTone,
+      selectedTone: options.selectedTone,
+      voiceProfile,
+      plan: quota.plan,
+    })
+
+    const { result, quality } = await generateWithQualityChecks({
+      options: { ...completionOptions, signal },
+      generate: (completion) => llm.completeStructured("generate-comments", CommentResponseSchema, completion),
+      texts: (result) => (result.data ? [result.data.comment] : null),
+      context: { platform: options.platform, kind: "comment", voiceProfile },
+    })
+
+    if (!result.data) {
+      return fail(item, "The generated comment could not be validated", true, send)
+    }
+
+    const done: BatchItem = generationEnvelope(
+      {
+        ...item,
+        status: "done" as const,
+        tone: options.useSmartTone ? result.data.tone : options.selectedTone,
+        comment: result.data.comment,
+        flaggedPhrases: voiceProfile ? findBannedPhrases(result.data.comment, voiceProfile.bannedPhrases) : [],
+      },
+      result,
+      { quality },
+    )
+
+    generated = true
+
+    // Recorded like a single generation so "regenerate" can replay it through /api/generate-comments,
+    // and queued for review the same way
+    done.review = await recordGeneration(
+      {
+        kind: "comment",
+        platform: toHistoryPlatform(options.platform),
+        route: "/api/generate-comments",
+        request: {
+          platform: options.platform,
+          url,
+          postContent,
+          useSmartTone: options.useSmartTone,
+          selectedTone: options.selectedTone,
+          voiceProfileId: options.voiceProfileId,
+        },
+        input: {
+          url,
+          content: optimizedPostContent,
+          tone: options.useSmartTone ? null : options.selectedTone || null,
+          options: { useSmartTone: options.useSmartTone, batch: true, voiceProfile: voiceProfile?.name || null },
+        },
+        outputs: [result.data.comment],
+        outputTone: done.tone || null,
+        metadata: {
+          ...done.metadata,
+          voiceProfile: voiceProfile ? { id: voiceProfile.id, name: voiceProfile.name } : null,
+        },
+      },
+      { submitForReview: options.submitForReview },
+      user,
+    )
+
+    send("item", done)
+    return done
+  } catch (error) {
+    if (signal.aborted || isAbortError(error)) throw error
+
+    if (error instanceof PostParseError) {
+      // Invalid or internal URLs won't succeed on retry; fetch failures might
+      return fail(item, error.message, error.code !== "invalid-url" && error.code !== "blocked-url", send)
+    }
+
+    console.error(`❌ Batch item ${index} failed:`, error)
+    return fail(item, "Comment generation failed", true, send)
+  } finally {
+    if (!generated) await usage.refund(quota)
+  }
+}
+
+function fail(item: BatchItem, error: string, retryable: boolean, send: SSESend): BatchItem {
+  const failed: BatchItem = { ...item, status: "failed", error, retryable }
+  send("item", failed)
+  return failed
+}
+
+export const POST = withAuth(withRateLimit("generate-comments/batch", async (request: Request, user: User) => {
+  let options: BatchOptions
+  try {
+    options = await readBatchOptions(request)
+  } catch (error) {
+    if (error instanceof BatchRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+  }
+
+  // Duplicate URLs would only burn generations
+  const urls = Array.from(new Set(options.urls.map((url) => url.trim()).filter(Boolean)))
+
+  if (urls.length === 0) {
+    return NextResponse.json({ error: "At least one post URL is required" }, { status: 400 })
+  }
+
+  if (urls.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `Batches are limited to ${MAX_BATCH_SIZE} URLs. Please split the list and try again.` },
+      { status: 400 },
+    )
+  }
+
+  if (!llm.isConfigured("generate-comments")) {
+    console.error("❌ LLM provider is not configured")
+    return NextResponse.json({ error: "Service configuration error. Please try again later." }, { status: 500 })
+  }
+
+  let voiceProfile: VoiceProfile | null
+  try {
+    voiceProfile = await voiceProfiles.resolve(options.voiceProfileId, user.id)
+  } catch (error) {
+    if (error instanceof VoiceProfileNotFoundError) {
+      return NextResponse.json({ error: "Voice profile not found. It may have been deleted." }, { status: 400 })
+    }
+    throw error
+  }
+
+  const concurrency = Math.min(Math.max(1, Math.floor(options.concurrency)), MAX_CONCURRENCY)
+  console.log(`🚀 Starting batch of ${urls.length} post(s) with concurrency ${concurrency}`)
+
+  return createSSEResponse(request, async (send, signal) => {
+    send("batch", {
+      total: urls.length,
+      items: urls.map((url, index): BatchItem => ({ index, url, status: "queued" })),
+    })
+
+    const results = await mapWithConcurrency(
+      urls,
+      concurrency,
+      (url, index) => processItem(url, index, options, voiceProfile, request, user, send, signal),
+      signal,
+    )
+
+    const succeeded = results.filter((item) => item?.status === "done").length
+    console.log(`✅ Batch finished: ${succeeded}/${urls.length} succeeded`)
+
+    send("done", { total: urls.length, succeeded, failed: urls.length - succeeded })
+  })
+}))
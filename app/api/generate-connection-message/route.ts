@@ -1,18 +1,21 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
-
-// Initialize OpenAI client with error handling
-let openai: OpenAI | null = null
-
-try {
-  if (process.env.OPENAI_API_KEY) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  }
-} catch (error) {
-  console.error("❌ Failed to initialize OpenAI client:", error)
-}
+import llm, {
+  ConnectionMessageResponseSchema,
+  generationEnvelope,
+  invalidOutputBody,
+  type CompletionOptions,
+  type ConnectionMessageResponse,
+  type StructuredResult,
+  type StructuredStreamOptions,
+} from "@/lib/llm"
+import { generateWithQualityChecks, type QualityReport } from "@/lib/quality"
+import type { User } from "@/lib/auth"
+import { withAuth } from "@/lib/auth/session"
+import { withRateLimit } from "@/lib/rate-limit"
+import { recordGeneration } from "@/lib/review"
+import { createSSEResponse } from "@/lib/sse"
+import usage, { isComplexRequest, quotaExceededResponse, selectModelTier } from "@/lib/usage"
+import voiceProfiles, { applyVoiceProfile, findBannedPhrases, VoiceProfileNotFoundError } from "@/lib/voice-profiles"
 
 interface RecentPost {
   title: string
@@ -38,54 +41,6 @@ interface ProfileData {
   }
 }
 
-// In-memory rate limiter
-const rateLimitMap = new Map<string, number>()
-const RATE_LIMIT_WINDOW = 5000 // 5 seconds in milliseconds
-
-function getClientId(request: Request): string {
-  try {
-    const forwarded = request.headers.get("x-forwarded-for")
-    const realIp = request.headers.get("x-real-ip")
-    const cfConnectingIp = request.headers.get("cf-connecting-ip")
-
-    const clientIp = forwarded?.split(",")[0] || realIp || cfConnectingIp || "unknown"
-    return clientIp.trim()
-  } catch (error) {
-    console.error("❌ Error getting client ID:", error)
-    return "unknown"
-  }
-}
-
-function checkRateLimit(clientId: string): { allowed: boolean; timeRemaining?: number } {
-  try {
-    const now = Date.now()
-    const lastRequest = rateLimitMap.get(clientId)
-
-    if (lastRequest) {
-      const timeSinceLastRequest = now - lastRequest
-
-      if (timeSinceLastRequest < RATE_LIMIT_WINDOW) {
-        const timeRemaining = RATE_LIMIT_WINDOW - timeSinceLastRequest
-        return { allowed: false, timeRemaining }
-      }
-    }
-
-    rateLimitMap.set(clientId, now)
-
-    // Clean up old entries
-    for (const [id, timestamp] of rateLimitMap.entries()) {
-      if (now - timestamp > 60000) {
-        rateLimitMap.delete(id)
-      }
-    }
-
-    return { allowed: true }
-  } catch (error) {
-    console.error("❌ Error in rate limit check:", error)
-    return { allowed: true } // Allow on error
-  }
-}
-
 // Enhanced profile context builder with recent posts
 function buildEnhancedProfileContext(profileData: ProfileData | null, profileUrl: string): string {
   try {
@@ -153,67 +108,11 @@ function buildEnhancedProfileContext(profileData: ProfileData | null, profileUrl
   }
 }
 
-// Parse GPT response in the format "Tone: [tone]\nMessage: [message]"
-function parseGPTResponse(content: string): { tone: string; message: string } | null {
-  try {
-    // Default values in case parsing fails
-    let tone = "Professional but warm"
-    let message = ""
-
-    // Try to parse as JSON first (in case GPT returns JSON despite instructions)
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0])
-        if (parsed.tone && parsed.message) {
-          return { tone: parsed.tone, message: parsed.message }
-        }
-      }
-    } catch (jsonError) {
-      // Continue with text parsing
-    }
-
-    // Parse the expected format: "Tone: [tone]\nMessage: [message]"
-    const toneMatch = content.match(/Tone:\s*(.+?)(?:\n|$)/i)
-    const messageMatch = content.match(/Message:\s*([\s\S]+?)(?:\n\n|$)/i)
-
-    if (toneMatch) {
-      tone = toneMatch[1].trim()
-    }
-
-    if (messageMatch) {
-      message = messageMatch[1].trim()
-    } else {
-      // If no message match, try to extract everything after "Message:" line
-      const lines = content.split("\n")
-      const messageIndex = lines.findIndex((line) => line.toLowerCase().startsWith("message:"))
-
-      if (messageIndex !== -1 && messageIndex < lines.length - 1) {
-        message = lines
-          .slice(messageIndex + 1)
-          .join(" ")
-          .trim()
-      }
-    }
-
-    // If we still don't have a message, try alternative parsing
-    if (!message && content) {
-      const afterTone = content.replace(/Tone:\s*.+?(?:\n|$)/i, "").trim()
-      if (afterTone) {
-        message = afterTone.replace(/^Message:\s*/i, "").trim()
-      }
-    }
-
-    // Ensure we have at least some content
-    if (message) {
-      return { tone, message }
-    }
-
-    return null
-  } catch (error) {
-    console.error("❌ Error parsing GPT response:", error)
-    return null
-  }
+function cleanMessage(message: string): string {
+  return message
+    .replace(/^["']|["']$/g, "") // Remove surrounding quotes
+    .replace(/\n+/g, " ") // Replace newlines with spaces
+    .trim()
 }
 
 // Generate fallback message
@@ -270,21 +169,16 @@ function generateFallbackMessage(
   }
 }
 
-export async function POST(request: Request) {
+export const POST = withAuth(withRateLimit("generate-connection-message", async (request: Request, user: User) => {
   console.log("🔄 Starting connection message generation...")
 
   try {
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("❌ OpenAI API key is not configured")
+    // Validate LLM provider configuration
+    if (!llm.isConfigured("generate-connection-message")) {
+      console.error("❌ LLM provider is not configured")
       return NextResponse.json({ error: "Service configuration error. Please try again later." }, { status: 500 })
     }
 
-    if (!openai) {
-      console.error("❌ OpenAI client not initialized")
-      return NextResponse.json({ error: "Service initialization error. Please try again later." }, { status: 500 })
-    }
-
     // Parse request body with error handling
     let requestData
     try {
@@ -296,7 +190,16 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Invalid request format. Please try again." }, { status: 400 })
     }
 
-    const { profileData, useSmartTone = true, manualTone, profileUrl, existingMessages = [] } = requestData
+    const {
+      profileData,
+      useSmartTone = true,
+      manualTone,
+      profileUrl,
+      existingMessages = [],
+      voiceProfileId,
+      stream = false,
+      submitForReview,
+    } = requestData
 
     console.log("📊 Request data:", {
       hasProfileData: !!profileData,
@@ -310,26 +213,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Profile data or URL is required" }, { status: 400 })
     }
 
-    // Rate limiting check
-    const clientId = getClientId(request)
-    const rateLimitResult = checkRateLimit(clientId)
+    const voiceProfile = await voiceProfiles.resolve(voiceProfileId, user.id)
 
-    if (!rateLimitResult.allowed) {
-      const secondsRemaining = Math.ceil((rateLimitResult.timeRemaining || 0) / 1000)
-      return NextResponse.json(
-        {
-          error: `Please wait a moment before generating another message. Try again in ${secondsRemaining} second${secondsRemaining !== 1 ? "s" : ""}.`,
-          rateLimited: true,
-          retryAfter: secondsRemaining,
-        },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": secondsRemaining.toString(),
-          },
-        },
-      )
+    // Charged once the request is known to be valid; template fallbacks are refunded below
+    const quota = await usage.consume(request, "connection-messages")
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
     }
+    const voiceMetadata = voiceProfile ? { id: voiceProfile.id, name: voiceProfile.name } : null
+    const flagBannedPhrases = (text: string) => (voiceProfile ? findBannedPhrases(text, voiceProfile.bannedPhrases) : [])
 
     // Build enhanced context using all available data including recent posts
     const profileContext = buildEnhancedProfileContext(profileData, profileUrl || "")
@@ -380,9 +272,11 @@ Then, write a short, personalized LinkedIn connection request that:
 - Uses concrete details rather than placeholder text
 - Is distinctly different from any previous messages shown above
 
-Return the output in this exact format:
-Tone: [descriptive tone]
-Message: [connection message with specific profile references]`
+Return the output as a JSON object in this exact format:
+{
+  "tone": "descriptive tone",
+  "message": "connection message with specific profile references"
+}`
     } else {
       userPrompt = `Given this LinkedIn profile information:
 
@@ -398,66 +292,81 @@ Write a short, personalized LinkedIn connection request with a "${manualTone}" t
 - Uses concrete details rather than placeholder text
 - Is distinctly different from any previous messages shown above
 
-Return the output in this exact format:
-Tone: ${manualTone}
-Message: [connection message with specific profile references]`
+Return the output as a JSON object in this exact format:
+{
+  "tone": "${manualTone}",
+  "message": "connection message with specific profile references"
+}`
     }
 
-    console.log("🤖 Calling OpenAI API...")
-
-    try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
+    const completionOptions: CompletionOptions = {
+      tier: selectModelTier(quota.plan, isComplexRequest(profileContext)),
+      messages: applyVoiceProfile(
+        [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt },
         ],
-        temperature: 0.8,
-        max_tokens: 300,
-        presence_penalty: 0.6,
-        frequency_penalty: 0.4,
-      })
-
-      console.log("✅ OpenAI API response received")
-
-      const messageText = response.choices[0]?.message?.content?.trim()
-
-      if (!messageText) {
-        console.error("❌ No content returned from OpenAI")
-        throw new Error("No content generated from AI")
-      }
-
-      console.log("📝 Raw AI response length:", messageText.length)
+        voiceProfile,
+      ),
+      temperature: 0.8,
+      maxTokens: 300,
+      presencePenalty: 0.6,
+      frequencyPenalty: 0.4,
+    }
 
-      // Parse the combined response
-      const parsed = parseGPTResponse(messageText)
+    // Regenerates messages that are too long, generic or repeat an earlier message
+    const generateMessage = (signal?: AbortSignal, streamOptions?: StructuredStreamOptions) =>
+      generateWithQualityChecks({
+        options: { ...completionOptions, signal },
+        generate: (options) =>
+          llm.completeStructured("generate-connection-message", ConnectionMessageResponseSchema, options, streamOptions),
+        texts: (result) => (result.data ? [cleanMessage(result.data.message)] : null),
+        context: { platform: "linkedin", kind: "connection-message", existing: existingMessages, voiceProfile },
+      })
 
-      if (!parsed) {
-        console.warn("⚠️ Failed to parse GPT response, using fallback")
-        const fallbackTone = useSmartTone ? "Professional but warm" : manualTone || "Professional but warm"
-        const fallbackMessage = generateFallbackMessage(profileData, profileUrl || "", fallbackTone, existingMessages)
+    // Template message used when the model call itself fails
+    const buildFallbackBody = () => {
+      const fallbackTone = useSmartTone ? "Professional but warm" : manualTone || "Professional but warm"
+      const fallbackMessage = generateFallbackMessage(profileData, profileUrl || "", fallbackTone, existingMessages)
 
-        return NextResponse.json({
+      return generationEnvelope(
+        {
           message: fallbackMessage,
           characterCount: fallbackMessage.length,
           suggestedTone: fallbackTone,
           truncated: false,
           fallback: true,
+          flaggedPhrases: flagBannedPhrases(fallbackMessage),
+        },
+        undefined,
+        { voiceProfile: voiceMetadata, quality: null },
+      )
+    }
+
+    const invalidOutput = (result: StructuredResult<ConnectionMessageResponse>) =>
+      invalidOutputBody(result, "The AI returned a message we couldn't read. Please try again.")
+
+    // Shared by the JSON and streaming responses
+    const buildResponseBody = (
+      result: StructuredResult<ConnectionMessageResponse>,
+      parsed: ConnectionMessageResponse,
+      quality: QualityReport | null,
+    ) => {
+      const envelope = (body: { message: string; characterCount: number; suggestedTone: string; truncated: boolean }) =>
+        generationEnvelope({ ...body, flaggedPhrases: flagBannedPhrases(body.message) }, result, {
+          voiceProfile: voiceMetadata,
+          quality,
         })
-      }
 
       // Clean up the message
-      const cleanMessage = parsed.message
-        .replace(/^["']|["']$/g, "") // Remove surrounding quotes
-        .replace(/\n+/g, " ") // Replace newlines with spaces
-        .trim()
+      const message = cleanMessage(parsed.message)
 
-      console.log("✨ Generated message length:", cleanMessage.length)
+      console.log("✨ Generated message length:", message.length)
 
-      // Check character limit
-      if (cleanMessage.length > 300) {
+      // Still over the limit after quality retries
+      if (message.length > 300) {
         // Try to truncate at a sentence boundary
-        const sentences = cleanMessage.split(/[.!?]+/)
+        const sentences = message.split(/[.!?]+/)
         let truncated = ""
 
         for (const sentence of sentences) {
@@ -471,7 +380,7 @@ Message: [connection message with specific profile references]`
 
         if (truncated && truncated.length > 50) {
           const finalMessage = truncated + (truncated.endsWith(".") ? "" : ".")
-          return NextResponse.json({
+          return envelope({
             message: finalMessage,
             characterCount: finalMessage.length,
             suggestedTone: parsed.tone,
@@ -479,8 +388,8 @@ Message: [connection message with specific profile references]`
           })
         } else {
           // Fallback: hard truncate
-          const hardTruncated = cleanMessage.substring(0, 297) + "..."
-          return NextResponse.json({
+          const hardTruncated = message.substring(0, 297) + "..."
+          return envelope({
             message: hardTruncated,
             characterCount: 300,
             suggestedTone: parsed.tone,
@@ -489,32 +398,96 @@ Message: [connection message with specific profile references]`
         }
       }
 
-      return NextResponse.json({
-        message: cleanMessage,
-        characterCount: cleanMessage.length,
+      return envelope({
+        message,
+        characterCount: message.length,
         suggestedTone: parsed.tone,
         truncated: false,
       })
-    } catch (openaiError) {
-      console.error("❌ OpenAI API error:", openaiError)
+    }
 
-      // Generate fallback message
-      const fallbackTone = useSmartTone ? "Professional but warm" : manualTone || "Professional but warm"
-      const fallbackMessage = generateFallbackMessage(profileData, profileUrl || "", fallbackTone, existingMessages)
+    const recordResult = (body: ReturnType<typeof buildResponseBody>) =>
+      recordGeneration(
+        {
+          kind: "connection-message",
+          platform: "linkedin",
+          route: "/api/generate-connection-message",
+          request: { profileData, useSmartTone, manualTone, profileUrl, voiceProfileId },
+          input: {
+            url: profileUrl || null,
+            content: profileContext,
+            tone: useSmartTone ? null : manualTone || null,
+            options: { useSmartTone, isAdditional: existingMessages.length > 0, voiceProfile: voiceProfile?.name || null },
+          },
+          outputs: [body.message],
+          outputTone: body.suggestedTone || null,
+          metadata: { ...body.metadata, fallback: "fallback" in body ? body.fallback : false, truncated: body.truncated },
+        },
+        { submitForReview },
+        user,
+      )
 
-      return NextResponse.json({
-        message: fallbackMessage,
-        characterCount: fallbackMessage.length,
-        suggestedTone: fallbackTone,
-        truncated: false,
-        fallback: true,
+    // Streaming mode: tone and message arrive as separate events, then the full response body
+    if (stream) {
+      return createSSEResponse(request, async (send, signal) => {
+        try {
+          const { result, quality } = await generateMessage(signal, {
+            onField: ([field], value) => {
+              if (field === "tone") send("tone", { tone: value })
+              if (field === "message") send("variation", { index: 0, text: value })
+            },
+          })
+          if (!result.data) {
+            await usage.refund(quota)
+            send("error", invalidOutput(result))
+            return
+          }
+          const body = buildResponseBody(result, result.data, quality)
+          const review = await recordResult(body)
+          send("done", { ...body, review })
+        } catch (llmError) {
+          await usage.refund(quota)
+          if (signal.aborted) return
+          console.error("❌ LLM API error:", llmError)
+          const body = buildFallbackBody()
+          const review = await recordResult(body)
+          send("done", { ...body, review })
+        }
       })
     }
+
+    console.log("🤖 Calling LLM gateway...")
+
+    try {
+      const { result, quality } = await generateMessage()
+
+      console.log("✅ LLM response received")
+
+      if (!result.data) {
+        await usage.refund(quota)
+        return NextResponse.json(invalidOutput(result), { status: 502 })
+      }
+      const body = buildResponseBody(result, result.data, quality)
+      const review = await recordResult(body)
+      return NextResponse.json({ ...body, review })
+    } catch (llmError) {
+      console.error("❌ LLM API error:", llmError)
+      await usage.refund(quota)
+
+      // Generate fallback message
+      const body = buildFallbackBody()
+      const review = await recordResult(body)
+      return NextResponse.json({ ...body, review })
+    }
   } catch (error) {
     console.error("❌ Unexpected error in connection message generation:", error)
 
     // Always return valid JSON, even for unexpected errors
     try {
+      if (error instanceof VoiceProfileNotFoundError) {
+        return NextResponse.json({ error: "Voice profile not found. It may have been deleted." }, { status: 400 })
+      }
+
       if (error instanceof SyntaxError) {
         return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
       }
@@ -529,4 +502,4 @@ Message: [connection message with specific profile references]`
       return new Response("Internal server error", { status: 500 })
     }
   }
-}
+}))
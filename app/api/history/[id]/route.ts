@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import history from "@/lib/history"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Other users' entries are reported as not found
+export const GET = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const entry = await history.get(user.id, params.id)
+
+    if (!entry) {
+      return NextResponse.json({ error: "History entry not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ entry })
+  } catch (error) {
+    console.error("❌ Error loading history entry:", error)
+    return NextResponse.json({ error: "Failed to load history entry. Please try again." }, { status: 500 })
+  }
+})
+
+export const DELETE = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const deleted = await history.delete(user.id, params.id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "History entry not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("❌ Error deleting history entry:", error)
+    return NextResponse.json({ error: "Failed to delete history entry. Please try again." }, { status: 500 })
+  }
+})
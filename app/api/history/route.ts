@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import history, { type HistoryKind, type HistoryPlatform, type HistoryQuery } from "@/lib/history"
+
+const PLATFORMS: HistoryPlatform[] = ["linkedin", "twitter", "instagram", "facebook"]
+const KINDS: HistoryKind[] = ["comment", "connection-message", "reply", "post"]
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+// GET /api/history?search=&platform=&kind=&tone=&from=&to=&limit=&offset=
+// Only the signed-in user's own entries
+export const GET = withAuth(async (request: Request, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const platform = searchParams.get("platform") as HistoryPlatform | null
+    const kind = searchParams.get("kind") as HistoryKind | null
+
+    const query: HistoryQuery = {
+      search: searchParams.get("search")?.trim() || undefined,
+      platform: platform && PLATFORMS.includes(platform) ? platform : undefined,
+      kind: kind && KINDS.includes(kind) ? kind : undefined,
+      tone: searchParams.get("tone")?.trim() || undefined,
+      from: parseDate(searchParams.get("from")),
+      to: parseDate(searchParams.get("to")),
+      limit: Number(searchParams.get("limit")) || undefined,
+      offset: Number(searchParams.get("offset")) || undefined,
+    }
+
+    const page = await history.list(user.id, query)
+
+    return NextResponse.json({ ...page, backend: history.backend })
+  } catch (error) {
+    console.error("❌ Error loading history:", error)
+    return NextResponse.json({ error: "Failed to load history. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import browserPool from "@/lib/browser-pool"
+import { isCronAuthorized } from "@/lib/cron"
+
+// GET /api/internal/browser-pool: pool stats for this server instance, behind the same bearer secret as the crons
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return NextResponse.json({ stats: browserPool.getStats(), at: new Date().toISOString() })
+}
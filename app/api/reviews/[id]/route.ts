@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { displayName, withAuth } from "@/lib/auth/session"
+import reviews, { isReviewer, ReviewItemNotFoundError, ReviewStateError, SelfReviewError } from "@/lib/review"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export const GET = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const item = await reviews.get(params.id)
+
+    // Submitters can follow their own items; anything else looks missing to them
+    if (!item || (!isReviewer(user) && item.submittedById !== user.id)) {
+      return NextResponse.json({ error: "Review item not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ item })
+  } catch (error) {
+    console.error("❌ Error loading review item:", error)
+    return NextResponse.json({ error: "Failed to load review item. Please try again." }, { status: 500 })
+  }
+})
+
+// PATCH /api/reviews/:id with { action: "approve" | "reject" | "edit" | "reopen", note, outputs }
+// Reviewers only; the signed-in user is recorded as the actor
+export const PATCH = withAuth(async (request: Request, user, { params }: RouteContext) => {
+  if (!isReviewer(user)) {
+    return NextResponse.json({ error: "Only reviewers can decide on review items." }, { status: 403 })
+  }
+
+  try {
+    const item = await reviews.decide(params.id, {
+      ...(await request.json()),
+      actor: displayName(user),
+      actorId: user.id,
+    })
+    console.log(`✅ Review ${item.id} is now ${item.status}`)
+    return NextResponse.json({ item })
+  } catch (error) {
+    if (error instanceof ReviewItemNotFoundError) {
+      return NextResponse.json({ error: "Review item not found" }, { status: 404 })
+    }
+    if (error instanceof SelfReviewError) {
+      return NextResponse.json({ error: "You can't review content you generated." }, { status: 403 })
+    }
+    if (error instanceof ReviewStateError) {
+      const message =
+        error.status === "pending"
+          ? "This item is still pending review"
+          : `This item has already been ${error.status}. Reopen it to change the decision.`
+      return NextResponse.json({ error: message }, { status: 409 })
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid review decision" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error updating review item:", error)
+    return NextResponse.json({ error: "Failed to save review decision. Please try again." }, { status: 500 })
+  }
+})
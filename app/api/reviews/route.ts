@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import type { HistoryKind } from "@/lib/history"
+import reviews, { isReviewer, isReviewRequired, REVIEW_STATUSES, type ReviewStatus } from "@/lib/review"
+
+const KINDS: HistoryKind[] = ["comment", "connection-message", "reply", "post"]
+
+// GET /api/reviews?status=&kind=&limit=
+// Reviewers see the whole queue; everyone else sees what they submitted
+export const GET = withAuth(async (request: Request, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status") as ReviewStatus | null
+    const kind = searchParams.get("kind") as HistoryKind | null
+
+    const canReview = isReviewer(user)
+    const { items, counts } = await reviews.list({
+      submittedById: canReview ? undefined : user.id,
+      status: status && REVIEW_STATUSES.includes(status) ? status : undefined,
+      kind: kind && KINDS.includes(kind) ? kind : undefined,
+      limit: Number(searchParams.get("limit")) || undefined,
+    })
+
+    return NextResponse.json({ items, counts, required: isReviewRequired(), canReview, userId: user.id })
+  } catch (error) {
+    console.error("❌ Error loading review queue:", error)
+    return NextResponse.json({ error: "Failed to load review queue. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import schedule, { ScheduledPostLockedError, ScheduledPostNotFoundError } from "@/lib/schedule"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// POST /api/schedule/:id/publish sends the post now; a publisher failure comes back as a failed post, not an error
+export const POST = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const post = await schedule.publish(params.id, user.id)
+    return NextResponse.json({ post })
+  } catch (error) {
+    if (error instanceof ScheduledPostNotFoundError) {
+      return NextResponse.json({ error: "Scheduled post not found" }, { status: 404 })
+    }
+    if (error instanceof ScheduledPostLockedError) {
+      return NextResponse.json({ error: "This post has already been published" }, { status: 409 })
+    }
+
+    console.error("❌ Error publishing scheduled post:", error)
+    return NextResponse.json({ error: "Failed to publish post. Please try again." }, { status: 500 })
+  }
+})
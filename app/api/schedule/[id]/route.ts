@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import schedule, { ScheduledPostLockedError, ScheduledPostNotFoundError } from "@/lib/schedule"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Other users' posts are reported as not found
+export const GET = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const post = await schedule.get(params.id, user.id)
+
+    if (!post) {
+      return NextResponse.json({ error: "Scheduled post not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ post })
+  } catch (error) {
+    console.error("❌ Error loading scheduled post:", error)
+    return NextResponse.json({ error: "Failed to load scheduled post. Please try again." }, { status: 500 })
+  }
+})
+
+export const PUT = withAuth(async (request: Request, user, { params }: RouteContext) => {
+  try {
+    const post = await schedule.update(params.id, await request.json(), user.id)
+    return NextResponse.json({ post })
+  } catch (error) {
+    if (error instanceof ScheduledPostNotFoundError) {
+      return NextResponse.json({ error: "Scheduled post not found" }, { status: 404 })
+    }
+    if (error instanceof ScheduledPostLockedError) {
+      return NextResponse.json({ error: "This post has already been published" }, { status: 409 })
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid scheduled post" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error updating scheduled post:", error)
+    return NextResponse.json({ error: "Failed to save scheduled post. Please try again." }, { status: 500 })
+  }
+})
+
+export const DELETE = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const deleted = await schedule.delete(params.id, user.id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Scheduled post not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("❌ Error deleting scheduled post:", error)
+    return NextResponse.json({ error: "Failed to delete scheduled post. Please try again." }, { status: 500 })
+  }
+})
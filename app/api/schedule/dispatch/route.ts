@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { isCronAuthorized } from "@/lib/cron"
+import scheduleDispatcher from "@/lib/schedule/dispatcher"
+
+// Due posts are published one at a time
+export const maxDuration = 60
+
+// GET /api/schedule/dispatch (scheduled in vercel.json)
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const results = await scheduleDispatcher.runOnce()
+    const failed = results.filter((result) => result.status === "failed").length
+
+    return NextResponse.json({ results, published: results.length - failed, failed })
+  } catch (error) {
+    console.error("❌ Error dispatching scheduled posts:", error)
+    return NextResponse.json({ error: "Failed to dispatch scheduled posts" }, { status: 500 })
+  }
+}
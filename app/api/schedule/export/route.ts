@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import schedule, { parseScheduleQuery, toICS, toWebhookPayload } from "@/lib/schedule"
+
+// GET /api/schedule/export?format=ics|json&from=&to=&status=
+// ics is a calendar file for Google Calendar, Outlook and the like; json is the payload the webhook publisher sends
+export const GET = withAuth(async (request: Request, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = parseScheduleQuery(searchParams)
+    // Published and failed posts are history; export what's still queued unless a status is asked for
+    const posts = (await schedule.list(user.id, query)).filter(
+      (post) => query.status || post.status === "scheduled" || post.status === "draft",
+    )
+
+    if (searchParams.get("format") === "json") {
+      return NextResponse.json({ items: posts.map((post) => toWebhookPayload(post)) })
+    }
+
+    return new NextResponse(toICS(posts), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="altreach-schedule.ics"',
+      },
+    })
+  } catch (error) {
+    console.error("❌ Error exporting schedule:", error)
+    return NextResponse.json({ error: "Failed to export schedule. Please try again." }, { status: 500 })
+  }
+})
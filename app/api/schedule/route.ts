@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import schedule, { parseScheduleQuery } from "@/lib/schedule"
+
+// GET /api/schedule?from=&to=&status=
+// Only the signed-in user's posts
+export const GET = withAuth(async (request: Request, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const posts = await schedule.list(user.id, parseScheduleQuery(searchParams))
+
+    return NextResponse.json({ posts, publisher: schedule.publisherName })
+  } catch (error) {
+    console.error("❌ Error loading scheduled posts:", error)
+    return NextResponse.json({ error: "Failed to load scheduled posts. Please try again." }, { status: 500 })
+  }
+})
+
+export const POST = withAuth(async (request: Request, user) => {
+  try {
+    const post = await schedule.create(await request.json(), user.id)
+    console.log(`✅ Queued ${post.platform} post as ${post.status}:`, post.scheduledAt || "no date")
+    return NextResponse.json({ post }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid scheduled post" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error scheduling post:", error)
+    return NextResponse.json({ error: "Failed to schedule post. Please try again." }, { status: 500 })
+  }
+})
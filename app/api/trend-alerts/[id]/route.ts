@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import trendAlerts, { TrendAlertRuleNotFoundError } from "@/lib/trend-alerts"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Other users' rules are reported as not found
+export const GET = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const rule = await trendAlerts.getRule(params.id, user.id)
+
+    if (!rule) {
+      return NextResponse.json({ error: "Trend alert not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error("❌ Error loading trend alert:", error)
+    return NextResponse.json({ error: "Failed to load trend alert. Please try again." }, { status: 500 })
+  }
+})
+
+export const PUT = withAuth(async (request: Request, user, { params }: RouteContext) => {
+  try {
+    const rule = await trendAlerts.updateRule(params.id, await request.json(), user)
+    return NextResponse.json({ rule })
+  } catch (error) {
+    if (error instanceof TrendAlertRuleNotFoundError) {
+      return NextResponse.json({ error: "Trend alert not found" }, { status: 404 })
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid trend alert" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error updating trend alert:", error)
+    return NextResponse.json({ error: "Failed to save trend alert. Please try again." }, { status: 500 })
+  }
+})
+
+export const DELETE = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const deleted = await trendAlerts.deleteRule(params.id, user.id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Trend alert not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("❌ Error deleting trend alert:", error)
+    return NextResponse.json({ error: "Failed to delete trend alert. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { isCronAuthorized } from "@/lib/cron"
+import trendAlertScheduler from "@/lib/trend-alerts/scheduler"
+
+// Each country/category the rules watch is one trend lookup
+export const maxDuration = 60
+
+// GET /api/trend-alerts/evaluate (scheduled in vercel.json)
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const results = await trendAlertScheduler.runOnce()
+    const triggered = results.filter((result) => result.status === "triggered").length
+
+    return NextResponse.json({ results, triggered })
+  } catch (error) {
+    console.error("❌ Error evaluating trend alerts:", error)
+    return NextResponse.json({ error: "Failed to evaluate trend alerts" }, { status: 500 })
+  }
+}
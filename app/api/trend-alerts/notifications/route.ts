@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { z, ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import trendAlerts from "@/lib/trend-alerts"
+
+// Omitting ids marks the whole inbox as read
+const MarkReadSchema = z.object({
+  ids: z.array(z.string()).min(1).optional(),
+})
+
+// GET /api/trend-alerts/notifications?limit=50
+export const GET = withAuth(async (request: Request, user) => {
+  const limit = Number(new URL(request.url).searchParams.get("limit")) || 50
+
+  try {
+    const inbox = await trendAlerts.listNotifications(user.id, Math.min(Math.max(limit, 1), 200))
+    return NextResponse.json(inbox)
+  } catch (error) {
+    console.error("❌ Error loading trend alert notifications:", error)
+    return NextResponse.json({ error: "Failed to load notifications. Please try again." }, { status: 500 })
+  }
+})
+
+export const PATCH = withAuth(async (request: Request, user) => {
+  try {
+    const { ids } = MarkReadSchema.parse(await request.json())
+    const updated = await trendAlerts.markNotificationsRead(ids || null, user.id)
+    return NextResponse.json({ updated })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid request" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error updating trend alert notifications:", error)
+    return NextResponse.json({ error: "Failed to update notifications. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import trendAlerts from "@/lib/trend-alerts"
+
+// Only the signed-in user's rules
+export const GET = withAuth(async (_request: Request, user) => {
+  try {
+    const rules = await trendAlerts.listRules(user.id)
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error("❌ Error loading trend alerts:", error)
+    return NextResponse.json({ error: "Failed to load trend alerts. Please try again." }, { status: 500 })
+  }
+})
+
+export const POST = withAuth(async (request: Request, user) => {
+  try {
+    const rule = await trendAlerts.createRule(await request.json(), user)
+    console.log("✅ Created trend alert:", rule.name)
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid trend alert" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error creating trend alert:", error)
+    return NextResponse.json({ error: "Failed to save trend alert. Please try again." }, { status: 500 })
+  }
+})
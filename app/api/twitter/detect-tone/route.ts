@@ -1,27 +1,14 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
+import { withAuth } from "@/lib/auth/session"
+import llm, { LLMProviderError } from "@/lib/llm"
 
-// Initialize OpenAI client
-let openai: OpenAI
-try {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
-} catch (initError) {
-  console.error("Failed to initialize OpenAI client:", initError)
-}
-
-export async function POST(request: Request) {
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("OpenAI API key is missing")
-    return NextResponse.json({ error: "OpenAI API key is not configured" }, { status: 500 })
+export const POST = withAuth(async (request: Request) => {
+  if (!llm.isConfigured("twitter/detect-tone")) {
+    console.error("LLM provider is not configured")
+    return NextResponse.json({ error: "LLM provider is not configured" }, { status: 500 })
   }
 
   try {
-    // Add debugging for API key
-    console.log("OPENAI_API_KEY exists:", !!process.env.OPENAI_API_KEY)
-    console.log("OPENAI_API_KEY length:", process.env.OPENAI_API_KEY?.length || 0)
-
     const { tweetContent } = await request.json()
 
     if (!tweetContent || !tweetContent.text) {
@@ -29,8 +16,7 @@ export async function POST(request: Request) {
     }
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      const { content: suggestedTone } = await llm.complete("twitter/detect-tone", {
         messages: [
           {
             role: "system",
@@ -57,17 +43,11 @@ Return ONLY a short descriptive phrase (2-4 words) that captures the optimal ton
           },
         ],
         temperature: 0.7,
-        max_tokens: 50,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
+        maxTokens: 50,
+        presencePenalty: 0.1,
+        frequencyPenalty: 0.1,
       })
 
-      const suggestedTone = response.choices[0].message.content?.trim()
-
-      if (!suggestedTone) {
-        throw new Error("No tone suggestion returned from OpenAI")
-      }
-
       // Clean up the response (remove quotes, extra punctuation)
       const cleanTone = suggestedTone
         .replace(/^["']|["']$/g, "") // Remove surrounding quotes
@@ -79,12 +59,11 @@ Return ONLY a short descriptive phrase (2-4 words) that captures the optimal ton
         tweetContext: tweetContent.text,
         reasoning: `Based on the tweet content: "${tweetContent.text.substring(0, 100)}${tweetContent.text.length > 100 ? "..." : ""}"`,
       })
-    } catch (openaiError: any) {
-      console.error("OpenAI API error details:", {
-        message: openaiError?.message,
-        type: openaiError?.type,
-        code: openaiError?.code,
-        status: openaiError?.status,
+    } catch (llmError) {
+      console.error("LLM API error details:", {
+        message: llmError instanceof Error ? llmError.message : String(llmError),
+        provider: llmError instanceof LLMProviderError ? llmError.provider : undefined,
+        status: llmError instanceof LLMProviderError ? llmError.status : undefined,
       })
 
       // Fallback tone suggestions based on simple heuristics
@@ -112,4 +91,4 @@ Return ONLY a short descriptive phrase (2-4 words) that captures the optimal ton
     console.error("Error detecting tone:", error)
     return NextResponse.json({ error: "Failed to detect tone. Please try again." }, { status: 500 })
   }
-}
+})
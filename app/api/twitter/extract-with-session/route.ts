@@ -1,26 +1,41 @@
 import { NextResponse } from "next/server"
-import browserPool from "@/lib/browser-pool"
+import { withAuth } from "@/lib/auth/session"
+import {
+  DEFAULT_MAX_REPLIES,
+  extractConversation,
+  MAX_REPLIES,
+  withSessionPage,
+} from "@/lib/twitter/session-extractor"
+import type { TweetContent } from "@/lib/twitter/types"
+import twitterSessions, {
+  TwitterSessionNotFoundError,
+  TwitterSessionUnavailableError,
+  type TwitterSessionStatus,
+} from "@/lib/twitter/vault"
 
 interface TweetExtractionResult {
   content?: string
   source: string
   error?: string
   images?: string[] // Added images array
+  author?: string | null
+  username?: string | null
+  timestamp?: string | null
+  tweet?: TweetContent
+  sessionStatus?: TwitterSessionStatus
 }
 
-export async function POST(request: Request) {
-  let browser = null
-  let page = null
-
+// sessionId is a vault handle for one of the user's X accounts; the cookies never leave the server
+export const POST = withAuth(async (request: Request, user) => {
   try {
-    const { url, authToken } = await request.json()
+    const { url, sessionId, maxReplies = DEFAULT_MAX_REPLIES } = await request.json()
 
     if (!url) {
       return NextResponse.json({ error: "URL is required" }, { status: 400 })
     }
 
-    if (!authToken) {
-      return NextResponse.json({ error: "Authentication token is required" }, { status: 400 })
+    if (!sessionId || typeof sessionId !== "string") {
+      return NextResponse.json({ error: "Connect an X account first" }, { status: 400 })
     }
 
     // Validate URL format
@@ -42,114 +57,56 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Not a valid Twitter/X URL" }, { status: 400 })
     }
 
+    const replyLimit = Math.min(Math.max(0, Math.floor(Number(maxReplies) || 0)), MAX_REPLIES)
+
     console.log("🚀 Starting tweet extraction for:", url)
 
-    // Get browser from pool instead of launching new one
-    browser = await browserPool.acquire()
-    page = await browserPool.createPage(browser)
-
-    console.log("🍪 Injecting authentication token...")
-
-    // Inject auth_token cookie into Twitter domain
-    await page.setCookie(
-      {
-        name: "auth_token",
-        value: authToken,
-        domain: ".twitter.com",
-        path: "/",
-        httpOnly: true,
-        secure: true,
-        sameSite: "None",
-      },
-      {
-        name: "auth_token",
-        value: authToken,
-        domain: ".x.com",
-        path: "/",
-        httpOnly: true,
-        secure: true,
-        sameSite: "None",
-      },
-    )
+    const session = await twitterSessions.resolve(user.id, sessionId)
+    const tweet = await withSessionPage(session, (page) => extractConversation(page, url, replyLimit), request.signal)
 
-    console.log("🔗 Navigating to tweet URL...")
-
-    // Navigate to the tweet URL with timeout
-    await page.goto(url, {
-      waitUntil: "networkidle2",
-      timeout: 20000, // Reduced timeout
-    })
-
-    console.log("⏳ Waiting for tweet content to render...")
-
-    // Wait for the main tweet content to render
-    await page.waitForSelector('div[data-testid="tweetText"]', {
-      timeout: 10000, // Reduced timeout
-    })
-
-    console.log("📝 Extracting tweet content...")
-
-    // Extract the main tweet text and images in parallel
-    const [tweetContent, imageUrls] = await Promise.all([
-      page.evaluate(() => {
-        const tweetElement = document.querySelector('div[data-testid="tweetText"]')
-        return tweetElement ? tweetElement.textContent?.trim() || null : null
-      }),
-      page.evaluate(() => {
-        const images: string[] = []
-        const imageContainers = document.querySelectorAll('div[data-testid="tweetPhoto"]')
-        imageContainers.forEach((container) => {
-          const img = container.querySelector("img")
-          if (img && img.src) {
-            const highResUrl = img.src.replace(/&name=\w+$/, "&name=large")
-            images.push(highResUrl)
-          }
-        })
-        return images
-      }),
-    ])
-
-    console.log("🖼️ Extracted images:", imageUrls)
-
-    // Validate extracted content
-    if (!tweetContent) {
+    // Validate extracted content; an empty page usually means X signed the session out, so check it
+    if (!tweet || !tweet.text) {
+      const checked = await twitterSessions.check(user.id, sessionId).catch(() => null)
       return NextResponse.json({
-        error: "Unable to extract tweet content. Possibly due to invalid or expired session cookie.",
+        error:
+          checked?.status === "revoked"
+            ? "Your X session has been signed out. Please reconnect your account."
+            : "Unable to extract tweet content. Possibly due to invalid or expired session cookie.",
+        sessionStatus: checked?.status,
       } as TweetExtractionResult)
     }
 
-    console.log("✅ Tweet content extracted successfully")
+    console.log(
+      `✅ Tweet content extracted (thread: ${tweet.thread.length}, replies: ${tweet.replies.length}, quote: ${!!tweet.quoted})`,
+    )
 
-    // Return successful extraction
+    // Top-level fields are kept for older clients; tweet carries the full conversation
     return NextResponse.json({
-      content: tweetContent,
+      content: tweet.text,
       source: url,
-      images: imageUrls.length > 0 ? imageUrls : undefined,
+      images: tweet.images.length > 0 ? tweet.images : undefined,
+      author: tweet.author,
+      username: tweet.username,
+      timestamp: tweet.timestamp,
+      tweet,
     } as TweetExtractionResult)
   } catch (error) {
+    if (error instanceof TwitterSessionNotFoundError) {
+      return NextResponse.json({ error: "X account not found. Please reconnect it." }, { status: 404 })
+    }
+
+    if (error instanceof TwitterSessionUnavailableError) {
+      const reason = error.status === "expired" ? "expired" : "been signed out"
+      return NextResponse.json(
+        { error: `Your X session has ${reason}. Please reconnect your account.`, sessionStatus: error.status },
+        { status: 409 },
+      )
+    }
+
     console.error("❌ Error during tweet extraction:", error)
 
     return NextResponse.json({
       error: "Unable to extract tweet content. Possibly due to invalid or expired session cookie.",
     } as TweetExtractionResult)
-  } finally {
-    // Clean up page and release browser back to pool
-    if (page) {
-      try {
-        await page.close()
-        console.log("📄 Page closed successfully")
-      } catch (closeError) {
-        console.error("⚠️ Error closing page:", closeError)
-      }
-    }
-
-    if (browser) {
-      try {
-        await browserPool.release(browser)
-        console.log("🔄 Browser released back to pool")
-      } catch (releaseError) {
-        console.error("⚠️ Error releasing browser:", releaseError)
-      }
-    }
   }
-}
+})
@@ -1,117 +1,50 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-// In-memory rate limiter
-const rateLimitMap = new Map<string, number>()
-const RATE_LIMIT_WINDOW = 3000 // 3 seconds in milliseconds
-
-// Helper function to get client identifier (IP address)
-function getClientId(request: Request): string {
-  const forwarded = request.headers.get("x-forwarded-for")
-  const realIp = request.headers.get("x-real-ip")
-  const cfConnectingIp = request.headers.get("cf-connecting-ip")
-  const clientIp = forwarded?.split(",")[0] || realIp || cfConnectingIp || "unknown"
-  return clientIp.trim()
-}
-
-// Rate limiting function
-function checkRateLimit(clientId: string): { allowed: boolean; timeRemaining?: number } {
-  const now = Date.now()
-  const lastRequest = rateLimitMap.get(clientId)
-
-  if (lastRequest) {
-    const timeSinceLastRequest = now - lastRequest
-    if (timeSinceLastRequest < RATE_LIMIT_WINDOW) {
-      const timeRemaining = RATE_LIMIT_WINDOW - timeSinceLastRequest
-      return { allowed: false, timeRemaining }
-    }
-  }
-
-  rateLimitMap.set(clientId, now)
-
-  // Clean up old entries to prevent memory leaks
-  for (const [id, timestamp] of rateLimitMap.entries()) {
-    if (now - timestamp > 60000) {
-      rateLimitMap.delete(id)
-    }
-  }
-
-  return { allowed: true }
-}
-
-interface GenerateCommentsRequest {
-  tweetContent: {
-    text: string
-    author?: string | null
-    username?: string | null
-  }
+import llm, {
+  TwitterCommentsResponseSchema,
+  generationEnvelope,
+  invalidOutputBody,
+  type CompletionOptions,
+  type StructuredResult,
+  type StructuredStreamOptions,
+  type TwitterCommentsResponse,
+} from "@/lib/llm"
+import { generateWithQualityChecks, type QualityReport } from "@/lib/quality"
+import { buildConversationContext, type TweetContentInput } from "@/lib/twitter/conversation"
+import type { User } from "@/lib/auth"
+import { withAuth } from "@/lib/auth/session"
+import { withRateLimit } from "@/lib/rate-limit"
+import { recordGeneration, type ReviewRequest } from "@/lib/review"
+import { createSSEResponse } from "@/lib/sse"
+import usage, { isComplexRequest, quotaExceededResponse, selectModelTier } from "@/lib/usage"
+import voiceProfiles, { applyVoiceProfile, findBannedPhrases, VoiceProfileNotFoundError } from "@/lib/voice-profiles"
+
+interface GenerateCommentsRequest extends ReviewRequest {
+  tweetContent: TweetContentInput
   tone: string
   length: "shorter" | "longer"
   useEmoji: boolean
   variations: number
   instructions?: string
+  voiceProfileId?: string
+  stream?: boolean
 }
 
 interface GeneratedComment {
   text: string
   isRecommended: boolean
+  flaggedPhrases: string[]
 }
 
-// Helper function to determine the appropriate model based on content complexity
-function determineOptimalModel(text: string, isComplexRequest: boolean): string {
-  // Default to GPT-3.5-turbo for most requests
-  let model = "gpt-3.5-turbo-1106"
-
-  // Check for complexity indicators
-  const isComplex =
-    isComplexRequest ||
-    text.length > 500 ||
-    text.includes("code") ||
-    text.includes("technical") ||
-    /\b(analyze|analyse|explain|compare|contrast)\b/i.test(text)
-
-  if (isComplex) {
-    model = "gpt-4o" // Use more capable model for complex requests
-    console.log("Using GPT-4o for complex request")
-  } else {
-    console.log("Using GPT-3.5-turbo for standard request")
-  }
-
-  return model
+// Remove quotes the model sometimes wraps replies in
+function cleanComment(text: string): string {
+  return text.trim().replace(/^["']|["']$/g, "")
 }
 
-export async function POST(request: Request) {
+export const POST = withAuth(withRateLimit("twitter/generate-comments", async (request: Request, user: User) => {
   try {
-    // Rate limiting check
-    const clientId = getClientId(request)
-    const rateLimitResult = checkRateLimit(clientId)
-
-    if (!rateLimitResult.allowed) {
-      const secondsRemaining = Math.ceil((rateLimitResult.timeRemaining || 0) / 1000)
-      return NextResponse.json(
-        {
-          error: `Please wait a moment before generating another comment. Try again in ${secondsRemaining} second${
-            secondsRemaining !== 1 ? "s" : ""
-          }.`,
-          rateLimited: true,
-          retryAfter: secondsRemaining,
-        },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": secondsRemaining.toString(),
-          },
-        },
-      )
-    }
-
     const requestData: GenerateCommentsRequest = await request.json()
-    const { tweetContent, tone, length, useEmoji, variations, instructions } = requestData
+    const { tweetContent, tone, length, useEmoji, variations, instructions, voiceProfileId, stream = false } =
+      requestData
 
     if (!tweetContent || !tweetContent.text) {
       return NextResponse.json({ error: "Tweet content is required" }, { status: 400 })
@@ -127,6 +60,14 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Number of variations must be between 1 and 5" }, { status: 400 })
     }
 
+    const voiceProfile = await voiceProfiles.resolve(voiceProfileId, user.id)
+
+    // Charged once the request is known to be valid; refunded below when nothing is generated
+    const quota = await usage.consume(request, "comments")
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     try {
       // Build the system prompt
       const systemPrompt = `You are a social media copywriter specializing in Twitter/X replies. 
@@ -155,108 +96,160 @@ Return your response as a JSON object with the following structure:
 }
 `
 
+      // Thread, quoted tweet and existing replies when the session extractor captured them
+      const conversationContext = buildConversationContext(tweetContent)
+
       // Create the user prompt with the tweet content
       const userPrompt = `Tweet${tweetContent.author ? ` by ${tweetContent.author}` : ""}:
 "${tweetContent.text.substring(0, 280)}${tweetContent.text.length > 280 ? "..." : ""}"
-
+${conversationContext ? `\n${conversationContext}\n\nWrite replies that fit this conversation.\n` : ""}
 ${tone ? `Generate ${numVariations} ${tone} reply variation${numVariations > 1 ? "s" : ""}.` : `Determine the best tone for replying, then generate ${numVariations} reply variation${numVariations > 1 ? "s" : ""} using that tone.`}`
 
-      // Determine if this is a complex request
-      const isComplexRequest =
-        !!instructions &&
-        (instructions.length > 100 || instructions.includes("technical") || instructions.includes("analyze"))
-
-      // Determine the optimal model
-      const modelToUse = determineOptimalModel(tweetContent.text, isComplexRequest)
-
-      // Call OpenAI API
-      const response = await openai.chat.completions.create({
-        model: modelToUse,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
+      // The plan decides whether complex tweets get the smart tier
+      const tier = selectModelTier(quota.plan, isComplexRequest(tweetContent.text, instructions))
+      console.log(`Using ${tier} tier on the ${quota.plan.name} plan`)
+
+      const completionOptions: CompletionOptions = {
+        tier,
+        messages: applyVoiceProfile(
+          [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt },
+          ],
+          voiceProfile,
+        ),
         temperature: 0.8,
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
-      })
-
-      const content = response.choices[0].message.content
-
-      if (!content) {
-        throw new Error("No content returned from OpenAI")
+        maxTokens: 1000,
       }
 
-      // Parse the JSON response
-      let comments: string[] = []
-      let detectedTone: string | null = null
-      try {
-        const parsedResponse = JSON.parse(content)
-
-        // Extract detected tone if available
-        if (parsedResponse.detectedTone && !tone) {
-          detectedTone = parsedResponse.detectedTone
-        }
-
-        // Handle different possible JSON structures
-        if (Array.isArray(parsedResponse)) {
-          comments = parsedResponse
-        } else if (parsedResponse.comments && Array.isArray(parsedResponse.comments)) {
-          comments = parsedResponse.comments
-        } else if (parsedResponse.replies && Array.isArray(parsedResponse.replies)) {
-          comments = parsedResponse.replies
-        } else if (parsedResponse.variations && Array.isArray(parsedResponse.variations)) {
-          comments = parsedResponse.variations
-        } else {
-          // Try to extract any array property
-          const arrayProps = Object.values(parsedResponse).filter((val) => Array.isArray(val))
-          if (arrayProps.length > 0 && Array.isArray(arrayProps[0])) {
-            comments = arrayProps[0] as string[]
+      // Regenerates when a reply is over 280 characters, generic, or repeats another variation
+      const generateComments = (signal?: AbortSignal, streamOptions?: StructuredStreamOptions) =>
+        generateWithQualityChecks({
+          options: { ...completionOptions, signal },
+          generate: (options) =>
+            llm.completeStructured("twitter/generate-comments", TwitterCommentsResponseSchema, options, streamOptions),
+          texts: (result) => (result.data ? result.data.comments.slice(0, numVariations).map(cleanComment) : null),
+          context: {
+            platform: "twitter",
+            kind: "reply",
+            existing: tweetContent.replies?.map((reply) => reply.text), // Don't echo replies already posted
+            useEmoji,
+            voiceProfile,
+          },
+        })
+
+      const invalidOutput = (result: StructuredResult<TwitterCommentsResponse>) =>
+        invalidOutputBody(result, "The AI returned replies we couldn't read. Please try again.")
+
+      // Shared by the JSON and streaming responses
+      const buildResponseBody = (
+        result: StructuredResult<TwitterCommentsResponse>,
+        data: TwitterCommentsResponse,
+        quality: QualityReport | null,
+      ) => {
+        const comments = data.comments.slice(0, numVariations)
+        const detectedTone = !tone ? data.detectedTone || null : null
+
+        // Format the comments
+        const formattedComments: GeneratedComment[] = comments.map((comment, index) => {
+          const text = cleanComment(comment)
+          return {
+            text,
+            isRecommended: index === 0, // First comment is recommended
+            flaggedPhrases: voiceProfile ? findBannedPhrases(text, voiceProfile.bannedPhrases) : [],
           }
-        }
-      } catch (parseError) {
-        console.error("Error parsing OpenAI response:", parseError)
+        })
+
+        return generationEnvelope(
+          {
+            comments: formattedComments,
+            tweetContext: tweetContent.text,
+            tone: detectedTone || tone,
+            detectedTone: detectedTone,
+          },
+          result,
+          {
+            length,
+            useEmoji,
+            variations: numVariations,
+            hasInstructions: !!instructions,
+            hasConversationContext: !!conversationContext,
+            voiceProfile: voiceProfile ? { id: voiceProfile.id, name: voiceProfile.name } : null,
+            quality,
+          },
+        )
+      }
+
+      const recordResult = (body: ReturnType<typeof buildResponseBody>) =>
+        recordGeneration(
+          {
+            kind: "reply",
+            platform: "twitter",
+            route: "/api/twitter/generate-comments",
+            request: { tweetContent, tone, length, useEmoji, variations: numVariations, instructions, voiceProfileId },
+            input: {
+              url: tweetContent.url || null,
+              content: tweetContent.text,
+              tone: tone || null,
+              options: {
+                length,
+                useEmoji,
+                variations: numVariations,
+                instructions: instructions || null,
+                voiceProfile: voiceProfile?.name || null,
+              },
+            },
+            outputs: body.comments.map((comment) => comment.text),
+            outputTone: body.tone || null,
+            metadata: body.metadata,
+          },
+          requestData,
+          user,
+        )
 
-        // Fallback: try to extract an array from the content
-        const arrayMatch = content.match(/\[(.*)\]/s)
-        if (arrayMatch && arrayMatch[1]) {
+      // Streaming mode: each variation is sent as soon as it is complete, then the full response body
+      if (stream) {
+        return createSSEResponse(request, async (send, signal) => {
           try {
-            comments = JSON.parse(`[${arrayMatch[1]}]`)
-          } catch {
-            // If all parsing fails, split by newlines and clean up
-            comments = content
-              .split("\n")
-              .filter((line) => line.trim().startsWith('"') || line.trim().startsWith("'"))
-              .map((line) => line.trim().replace(/^["']|["'],?$/g, ""))
+            const { result, quality } = await generateComments(signal, {
+              onField: ([field, index], value) => {
+                if (field === "detectedTone" && !tone) send("tone", { tone: value })
+                if (field === "comments" && typeof index === "number" && index < numVariations) {
+                  send("variation", { index, text: cleanComment(value) })
+                }
+              },
+            })
+            if (!result.data) {
+              await usage.refund(quota)
+              send("error", invalidOutput(result))
+              return
+            }
+            const body = buildResponseBody(result, result.data, quality)
+            const review = await recordResult(body)
+            send("done", { ...body, review })
+          } catch (llmError) {
+            await usage.refund(quota)
+            if (signal.aborted) return
+            console.error("LLM API error:", llmError)
+            send("error", {
+              error: "Failed to generate comments. Our AI service is experiencing issues. Please try again shortly.",
+            })
           }
-        }
+        })
       }
 
-      // Ensure we have at least one comment
-      if (!comments.length) {
-        throw new Error("Failed to generate comments")
+      // Call the LLM gateway, validated against the comments schema
+      const { result, quality } = await generateComments()
+      if (!result.data) {
+        await usage.refund(quota)
+        return NextResponse.json(invalidOutput(result), { status: 502 })
       }
-
-      // Format the comments
-      const formattedComments: GeneratedComment[] = comments.map((text, index) => ({
-        text: text.trim().replace(/^["']|["']$/g, ""), // Remove quotes if present
-        isRecommended: index === 0, // First comment is recommended
-      }))
-
-      return NextResponse.json({
-        comments: formattedComments,
-        tweetContext: tweetContent.text,
-        tone: detectedTone || tone,
-        detectedTone: detectedTone,
-        metadata: {
-          length,
-          useEmoji,
-          variations: numVariations,
-          hasInstructions: !!instructions,
-        },
-      })
-    } catch (openaiError) {
-      console.error("OpenAI API error:", openaiError)
+      const body = buildResponseBody(result, result.data, quality)
+      const review = await recordResult(body)
+      return NextResponse.json({ ...body, review })
+    } catch (llmError) {
+      console.error("LLM API error:", llmError)
+      await usage.refund(quota)
       return NextResponse.json(
         {
           error: "Failed to generate comments. Our AI service is experiencing issues. Please try again shortly.",
@@ -265,7 +258,11 @@ ${tone ? `Generate ${numVariations} ${tone} reply variation${numVariations > 1 ?
       )
     }
   } catch (error) {
+    if (error instanceof VoiceProfileNotFoundError) {
+      return NextResponse.json({ error: "Voice profile not found. It may have been deleted." }, { status: 400 })
+    }
+
     console.error("Error generating comments:", error)
     return NextResponse.json({ error: "Comment generation failed. Please try again." }, { status: 500 })
   }
-}
+}))
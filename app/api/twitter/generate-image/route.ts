@@ -1,79 +1,16 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-// In-memory rate limiter
-const rateLimitMap = new Map<string, number>()
-const RATE_LIMIT_WINDOW = 5000 // 5 seconds in milliseconds for image generation
-
-// Helper function to get client identifier (IP address)
-function getClientId(request: Request): string {
-  const forwarded = request.headers.get("x-forwarded-for")
-  const realIp = request.headers.get("x-real-ip")
-  const cfConnectingIp = request.headers.get("cf-connecting-ip")
-  const clientIp = forwarded?.split(",")[0] || realIp || cfConnectingIp || "unknown"
-  return clientIp.trim()
-}
-
-// Rate limiting function
-function checkRateLimit(clientId: string): { allowed: boolean; timeRemaining?: number } {
-  const now = Date.now()
-  const lastRequest = rateLimitMap.get(clientId)
-
-  if (lastRequest) {
-    const timeSinceLastRequest = now - lastRequest
-    if (timeSinceLastRequest < RATE_LIMIT_WINDOW) {
-      const timeRemaining = RATE_LIMIT_WINDOW - timeSinceLastRequest
-      return { allowed: false, timeRemaining }
-    }
-  }
-
-  rateLimitMap.set(clientId, now)
-
-  // Clean up old entries to prevent memory leaks
-  for (const [id, timestamp] of rateLimitMap.entries()) {
-    if (now - timestamp > 60000) {
-      rateLimitMap.delete(id)
-    }
-  }
-
-  return { allowed: true }
-}
+import llm from "@/lib/llm"
+import { withAuth } from "@/lib/auth/session"
+import { withRateLimit } from "@/lib/rate-limit"
+import usage, { quotaExceededResponse } from "@/lib/usage"
 
 interface GenerateImageRequest {
   content: string
   style?: string
 }
 
-export async function POST(request: Request) {
+export const POST = withAuth(withRateLimit("twitter/generate-image", async (request: Request) => {
   try {
-    // Rate limiting check
-    const clientId = getClientId(request)
-    const rateLimitResult = checkRateLimit(clientId)
-
-    if (!rateLimitResult.allowed) {
-      const secondsRemaining = Math.ceil((rateLimitResult.timeRemaining || 0) / 1000)
-      return NextResponse.json(
-        {
-          error: `Please wait a moment before generating another image. Try again in ${secondsRemaining} second${
-            secondsRemaining !== 1 ? "s" : ""
-          }.`,
-          rateLimited: true,
-          retryAfter: secondsRemaining,
-        },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": secondsRemaining.toString(),
-          },
-        },
-      )
-    }
-
     const requestData: GenerateImageRequest = await request.json()
     const { content, style = "social-media" } = requestData
 
@@ -81,41 +18,38 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Content is required" }, { status: 400 })
     }
 
+    const quota = await usage.consume(request, "images")
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     try {
       // Create a prompt for DALL-E based on the content
       const imagePrompt = createImagePrompt(content.trim(), style)
 
       console.log("🎨 Generating image with prompt:", imagePrompt)
 
-      // Call DALL-E 2 API (more cost-efficient than DALL-E 3)
-      const response = await openai.images.generate({
-        model: "dall-e-2",
+      // Image model comes from config (DALL-E 2 by default, more cost-efficient than DALL-E 3)
+      const { url: imageUrl, model } = await llm.generateImage("twitter/generate-image", {
         prompt: imagePrompt,
         size: "512x512", // Smaller size for cost efficiency
-        // quality: "standard",
-        n: 1,
       })
 
-      const imageUrl = response.data[0]?.url
-
-      if (!imageUrl) {
-        throw new Error("No image URL returned from DALL-E")
-      }
-
       console.log("✅ Image generated successfully")
 
       return NextResponse.json({
         imageUrl,
         prompt: imagePrompt,
-        model: "dall-e-2",
+        model,
         size: "512x512",
       })
-    } catch (openaiError) {
-      console.error("OpenAI API error:", openaiError)
+    } catch (llmError) {
+      console.error("LLM API error:", llmError)
+      await usage.refund(quota)
 
-      // Handle specific DALL-E errors
-      if (openaiError instanceof Error) {
-        if (openaiError.message.includes("content_policy_violation")) {
+      // Handle specific image generation errors
+      if (llmError instanceof Error) {
+        if (llmError.message.includes("content_policy_violation")) {
           return NextResponse.json(
             {
               error: "The content violates OpenAI's usage policies. Please try a different topic.",
@@ -124,7 +58,7 @@ export async function POST(request: Request) {
           )
         }
 
-        if (openaiError.message.includes("rate_limit")) {
+        if (llmError.message.includes("rate_limit")) {
           return NextResponse.json(
             {
               error: "Rate limit exceeded for image generation. Please try again later.",
@@ -145,7 +79,7 @@ export async function POST(request: Request) {
     console.error("Error generating image:", error)
     return NextResponse.json({ error: "Image generation failed. Please try again." }, { status: 500 })
   }
-}
+}))
 
 // Helper function to create optimized prompts for DALL-E
 function createImagePrompt(content: string, style: string): string {
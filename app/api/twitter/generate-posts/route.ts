@@ -1,90 +1,311 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-// In-memory rate limiter
-const rateLimitMap = new Map<string, number>()
-const RATE_LIMIT_WINDOW = 3000 // 3 seconds in milliseconds
-
-// Helper function to get client identifier (IP address)
-function getClientId(request: Request): string {
-  const forwarded = request.headers.get("x-forwarded-for")
-  const realIp = request.headers.get("x-real-ip")
-  const cfConnectingIp = request.headers.get("cf-connecting-ip")
-  const clientIp = forwarded?.split(",")[0] || realIp || cfConnectingIp || "unknown"
-  return clientIp.trim()
-}
-
-// Rate limiting function
-function checkRateLimit(clientId: string): { allowed: boolean; timeRemaining?: number } {
-  const now = Date.now()
-  const lastRequest = rateLimitMap.get(clientId)
-
-  if (lastRequest) {
-    const timeSinceLastRequest = now - lastRequest
-    if (timeSinceLastRequest < RATE_LIMIT_WINDOW) {
-      const timeRemaining = RATE_LIMIT_WINDOW - timeSinceLastRequest
-      return { allowed: false, timeRemaining }
-    }
-  }
-
-  rateLimitMap.set(clientId, now)
-
-  // Clean up old entries to prevent memory leaks
-  for (const [id, timestamp] of rateLimitMap.entries()) {
-    if (now - timestamp > 60000) {
-      rateLimitMap.delete(id)
-    }
-  }
-
-  return { allowed: true }
-}
+import llm, {
+  GeneratedPostsResponseSchema,
+  GeneratedThreadPostSchema,
+  GeneratedThreadResponseSchema,
+  generationEnvelope,
+  invalidOutputBody,
+  type ModelTier,
+} from "@/lib/llm"
+import { generateWithQualityChecks } from "@/lib/quality"
+import type { User } from "@/lib/auth"
+import { withAuth } from "@/lib/auth/session"
+import { withRateLimit } from "@/lib/rate-limit"
+import { recordGeneration, type ReviewRequest } from "@/lib/review"
+import usage, { isComplexRequest, quotaExceededResponse, selectModelTier } from "@/lib/usage"
+import { fitThread, formatThread, threadPostLimit, truncateToFit } from "@/lib/twitter/text"
+import {
+  buildThreadMessages,
+  buildThreadPostMessages,
+  DEFAULT_THREAD_POSTS,
+  HOOK_STYLES,
+  MAX_THREAD_POSTS,
+  MIN_THREAD_POSTS,
+  type HookStyle,
+  type ThreadPost,
+  type ThreadPromptOptions,
+} from "@/lib/twitter/thread"
+import voiceProfiles, {
+  applyVoiceProfile,
+  findBannedPhrases,
+  VoiceProfileNotFoundError,
+  type VoiceProfile,
+} from "@/lib/voice-profiles"
 
-interface GeneratePostsRequest {
+interface GeneratePostsRequest extends ReviewRequest {
+  mode?: "posts" | "thread"
   topic: string
   tone: string
   length: "shorter" | "longer"
   useEmoji: boolean
   variations: number
   instructions?: string
+  voiceProfileId?: string
+  // Thread mode
+  postCount?: number // Including the closing call-to-action post
+  hookStyle?: HookStyle
+  numbering?: boolean
+  regenerate?: { index: number; posts: ThreadPost[] } // Rewrite one post of an existing thread
 }
 
 interface GeneratedPost {
   content: string
   hashtags: string[]
+  flaggedPhrases: string[]
 }
 
-export async function POST(request: Request) {
+// The post as it would be published: content followed by its hashtags
+function formatPost(post: { content: string; hashtags: string[] }): string {
+  const hashtags = post.hashtags.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`))
+  return `${post.content}\n\n${hashtags.join(" ")}`.trim()
+}
+
+// Thread mode: an ordered thread ending in a call-to-action post, or one rewritten post of an existing thread.
+// Posts are returned without numbering; every post fits in 280 weighted characters once numbering is added.
+async function generateThread(
+  request: Request,
+  requestData: GeneratePostsRequest,
+  voiceProfile: VoiceProfile | null,
+  user: User,
+) {
+  const { topic, tone, useEmoji, instructions, regenerate } = requestData
+  const numbering = requestData.numbering !== false
+  const hookStyle = requestData.hookStyle || "bold-claim"
+  const postCount = requestData.postCount ?? DEFAULT_THREAD_POSTS
+
+  if (!HOOK_STYLES.includes(hookStyle)) {
+    return NextResponse.json({ error: `Hook style must be one of: ${HOOK_STYLES.join(", ")}` }, { status: 400 })
+  }
+
+  if (!Number.isInteger(postCount) || postCount < MIN_THREAD_POSTS || postCount > MAX_THREAD_POSTS) {
+    return NextResponse.json(
+      { error: `Threads must have between ${MIN_THREAD_POSTS} and ${MAX_THREAD_POSTS} posts` },
+      { status: 400 },
+    )
+  }
+
+  if (regenerate) {
+    const { index, posts } = regenerate
+    if (!Array.isArray(posts) || posts.length === 0 || !Number.isInteger(index) || index < 0 || index >= posts.length) {
+      return NextResponse.json({ error: "Choose a post of the thread to regenerate" }, { status: 400 })
+    }
+  }
+
+  // A thread, or one rewritten post of it, counts as a single post; refunded when generation fails
+  const quota = await usage.consume(request, "posts")
+  if (!quota.allowed) {
+    return quotaExceededResponse(quota)
+  }
+
+  const options: ThreadPromptOptions = {
+    topic: topic.trim(),
+    tone,
+    postCount,
+    hookStyle,
+    numbering,
+    useEmoji: useEmoji !== false,
+    instructions,
+  }
+
   try {
-    // Rate limiting check
-    const clientId = getClientId(request)
-    const rateLimitResult = checkRateLimit(clientId)
+    const tier = selectModelTier(quota.plan, isComplexRequest(topic, instructions))
+    const response = await writeThread(requestData, options, tier, voiceProfile, user)
+    // Invalid output comes back as a 502 rather than a throw
+    if (!response.ok) await usage.refund(quota)
+    return response
+  } catch (error) {
+    await usage.refund(quota)
+    throw error
+  }
+}
+
+// Generates and records the thread, or the rewritten post, once the request has been validated and charged
+async function writeThread(
+  requestData: GeneratePostsRequest,
+  options: ThreadPromptOptions,
+  tier: ModelTier,
+  voiceProfile: VoiceProfile | null,
+  user: User,
+) {
+  const { topic, tone, useEmoji, instructions, regenerate } = requestData
+  const { numbering, hookStyle, postCount } = options
 
-    if (!rateLimitResult.allowed) {
-      const secondsRemaining = Math.ceil((rateLimitResult.timeRemaining || 0) / 1000)
+  if (regenerate) {
+    const { index, posts } = regenerate
+    const limit = threadPostLimit(posts.length, numbering)
+    const { result, quality } = await generateWithQualityChecks({
+      options: {
+        tier,
+        messages: applyVoiceProfile(buildThreadPostMessages(options, posts, index), voiceProfile),
+        temperature: 0.9,
+        maxTokens: 400,
+      },
+      generate: (options) => llm.completeStructured("twitter/generate-posts", GeneratedThreadPostSchema, options),
+      texts: (result) => (result.data ? [result.data.post] : null),
+      context: {
+        platform: "twitter",
+        kind: "post",
+        useEmoji: options.useEmoji,
+        voiceProfile,
+        maxLength: limit,
+        existing: posts.map((post) => post.content),
+      },
+    })
+
+    if (!result.data) {
       return NextResponse.json(
-        {
-          error: `Please wait a moment before generating another post. Try again in ${secondsRemaining} second${
-            secondsRemaining !== 1 ? "s" : ""
-          }.`,
-          rateLimited: true,
-          retryAfter: secondsRemaining,
+        invalidOutputBody(result, "The AI returned a post we couldn't read. Please try again."),
+        { status: 502 },
+      )
+    }
+
+    // A replacement must stay a single post, so it is shortened rather than split
+    const content = truncateToFit(result.data.post, limit)
+    const body = generationEnvelope(
+      {
+        index,
+        post: {
+          content,
+          isCta: !!posts[index].isCta,
+          flaggedPhrases: voiceProfile ? findBannedPhrases(content, voiceProfile.bannedPhrases) : [],
         },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": secondsRemaining.toString(),
+      },
+      result,
+      { mode: "thread", regenerated: index, quality },
+    )
+
+    // Reviewed and kept like any other generation; the entry holds the rewritten post on its own
+    const review = await recordGeneration(
+      {
+        kind: "post",
+        platform: "twitter",
+        route: "/api/twitter/generate-posts",
+        request: {
+          mode: "thread",
+          topic,
+          tone,
+          useEmoji,
+          hookStyle,
+          numbering,
+          instructions,
+          voiceProfileId: requestData.voiceProfileId,
+          regenerate,
+        },
+        input: {
+          url: null,
+          content: topic.trim(),
+          tone,
+          options: {
+            mode: "thread",
+            regenerate: index,
+            numbering,
+            useEmoji,
+            instructions: instructions || null,
+            voiceProfile: voiceProfile?.name || null,
           },
         },
-      )
-    }
+        outputs: [content],
+        outputTone: tone,
+        metadata: body.metadata,
+      },
+      requestData,
+      user,
+    )
+
+    return NextResponse.json({ ...body, review })
+  }
+
+  const { result, quality } = await generateWithQualityChecks({
+    options: {
+      tier,
+      messages: applyVoiceProfile(buildThreadMessages(options), voiceProfile),
+      temperature: 0.8,
+      maxTokens: 3000,
+    },
+    generate: (options) => llm.completeStructured("twitter/generate-posts", GeneratedThreadResponseSchema, options),
+    texts: (result) => (result.data ? [...result.data.posts, result.data.cta] : null),
+    context: {
+      platform: "twitter",
+      kind: "post",
+      useEmoji: options.useEmoji,
+      voiceProfile,
+      maxLength: threadPostLimit(postCount, numbering),
+      maxHashtags: 1,
+    },
+  })
+
+  if (!result.data) {
+    return NextResponse.json(
+      invalidOutputBody(result, "The AI returned a thread we couldn't read. Please try again."),
+      { status: 502 },
+    )
+  }
 
+  // Posts that still don't fit after the quality retries are split; the last post stays the call to action
+  const contents = fitThread([...result.data.posts, result.data.cta], numbering)
+  const posts = contents.map((content, index) => ({
+    content,
+    isCta: index === contents.length - 1,
+    flaggedPhrases: voiceProfile ? findBannedPhrases(content, voiceProfile.bannedPhrases) : [],
+  }))
+  const published = formatThread(contents, numbering)
+
+  const body = generationEnvelope({ thread: { posts, numbering, published }, topic: topic.trim(), tone }, result, {
+    mode: "thread",
+    postCount: posts.length,
+    hookStyle,
+    numbering,
+    useEmoji: options.useEmoji,
+    hasInstructions: !!instructions,
+    voiceProfile: voiceProfile ? { id: voiceProfile.id, name: voiceProfile.name } : null,
+    quality,
+  })
+
+  const review = await recordGeneration(
+    {
+      kind: "post",
+      platform: "twitter",
+      route: "/api/twitter/generate-posts",
+      request: {
+        mode: "thread",
+        topic,
+        tone,
+        useEmoji,
+        postCount,
+        hookStyle,
+        numbering,
+        instructions,
+        voiceProfileId: requestData.voiceProfileId,
+      },
+      input: {
+        url: null,
+        content: topic.trim(),
+        tone,
+        options: {
+          mode: "thread",
+          postCount,
+          hookStyle,
+          numbering,
+          useEmoji,
+          instructions: instructions || null,
+          voiceProfile: voiceProfile?.name || null,
+        },
+      },
+      outputs: published,
+      outputTone: tone,
+      metadata: body.metadata,
+    },
+    requestData,
+    user,
+  )
+
+  return NextResponse.json({ ...body, review })
+}
+
+export const POST = withAuth(withRateLimit("twitter/generate-posts", async (request: Request, user: User) => {
+  try {
     const requestData: GeneratePostsRequest = await request.json()
-    const { topic, tone, length, useEmoji, variations, instructions } = requestData
+    const { topic, tone, length, useEmoji, variations, instructions, voiceProfileId } = requestData
 
     if (!topic || !topic.trim()) {
       return NextResponse.json({ error: "Topic is required" }, { status: 400 })
@@ -94,12 +315,33 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Tone is required" }, { status: 400 })
     }
 
+    if (requestData.mode === "thread") {
+      try {
+        return await generateThread(request, requestData, await voiceProfiles.resolve(voiceProfileId, user.id), user)
+      } catch (llmError) {
+        if (llmError instanceof VoiceProfileNotFoundError) throw llmError
+        console.error("LLM API error:", llmError)
+        return NextResponse.json(
+          { error: "Failed to generate thread. Our AI service is experiencing issues. Please try again shortly." },
+          { status: 500 },
+        )
+      }
+    }
+
     // Validate variations
     const numVariations = variations || 3
     if (numVariations < 1 || numVariations > 5) {
       return NextResponse.json({ error: "Number of variations must be between 1 and 5" }, { status: 400 })
     }
 
+    const voiceProfile = await voiceProfiles.resolve(voiceProfileId, user.id)
+
+    // Charged once the request is known to be valid; refunded below when nothing is generated
+    const quota = await usage.consume(request, "posts")
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     try {
       // Build the system prompt
       const systemPrompt = `You are a viral social media content creator specializing in Twitter/X posts. 
@@ -136,76 +378,80 @@ You MUST respond with a valid JSON object in this exact format:
 
 Make each post unique, engaging, and optimized for maximum reach and engagement. Include relevant hashtags that will help the posts get discovered by the right audience.`
 
-      // Call OpenAI API
-      const response = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo-1106", // Using a model with JSON mode support
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.8,
-        response_format: { type: "json_object" },
-        max_tokens: 1500,
+      // Call the LLM gateway, validated against the posts schema. Posts are checked as published:
+      // content plus hashtags must fit in 280 characters
+      const { result, quality } = await generateWithQualityChecks({
+        options: {
+          tier: selectModelTier(quota.plan, isComplexRequest(topic, instructions)),
+          messages: applyVoiceProfile(
+            [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: userPrompt },
+            ],
+            voiceProfile,
+          ),
+          temperature: 0.8,
+          maxTokens: 1500,
+        },
+        generate: (options) => llm.completeStructured("twitter/generate-posts", GeneratedPostsResponseSchema, options),
+        texts: (result) => result.data?.posts.map(formatPost) || null,
+        context: { platform: "twitter", kind: "post", useEmoji, voiceProfile },
       })
 
-      const content = response.choices[0].message.content
-
-      if (!content) {
-        throw new Error("No content returned from OpenAI")
+      if (!result.data) {
+        await usage.refund(quota)
+        return NextResponse.json(
+          invalidOutputBody(result, "The AI returned posts we couldn't read. Please try again."),
+          { status: 502 },
+        )
       }
 
-      // Parse the JSON response
-      let posts: GeneratedPost[] = []
-      try {
-        const parsedResponse = JSON.parse(content)
-
-        // Handle different possible JSON structures
-        if (parsedResponse.posts && Array.isArray(parsedResponse.posts)) {
-          posts = parsedResponse.posts
-        } else if (Array.isArray(parsedResponse)) {
-          posts = parsedResponse
-        } else {
-          console.error("Unexpected response structure:", parsedResponse)
-          throw new Error("Invalid response format from AI")
-        }
-      } catch (parseError) {
-        console.error("Error parsing OpenAI response:", parseError)
-        console.error("Raw content:", content)
-        throw new Error("Failed to parse AI response")
-      }
+      // Normalize hashtags
+      const validPosts: GeneratedPost[] = result.data.posts.map((post) => ({
+        content: post.content,
+        hashtags: post.hashtags.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`)),
+        flaggedPhrases: voiceProfile ? findBannedPhrases(post.content, voiceProfile.bannedPhrases) : [],
+      }))
 
-      // Validate and clean up posts
-      const validPosts = posts
-        .filter((post) => post && typeof post === "object" && post.content && typeof post.content === "string")
-        .map((post) => ({
-          content: post.content.trim(),
-          hashtags: Array.isArray(post.hashtags)
-            ? post.hashtags
-                .filter((tag) => typeof tag === "string" && tag.trim().length > 0)
-                .map((tag) => (tag.startsWith("#") ? tag : `#${tag}`))
-            : [],
-        }))
-        .filter((post) => post.content.length > 0)
-
-      // Ensure we have at least one post
-      if (!validPosts.length) {
-        console.error("No valid posts generated. Original posts:", posts)
-        throw new Error("AI failed to generate valid content. Please try again with a different topic.")
-      }
+      const body = generationEnvelope({ posts: validPosts, topic: topic.trim(), tone }, result, {
+        length,
+        useEmoji,
+        variations: numVariations,
+        hasInstructions: !!instructions,
+        voiceProfile: voiceProfile ? { id: voiceProfile.id, name: voiceProfile.name } : null,
+        quality,
+      })
 
-      return NextResponse.json({
-        posts: validPosts,
-        topic: topic.trim(),
-        tone,
-        metadata: {
-          length,
-          useEmoji,
-          variations: numVariations,
-          hasInstructions: !!instructions,
+      const review = await recordGeneration(
+        {
+          kind: "post",
+          platform: "twitter",
+          route: "/api/twitter/generate-posts",
+          request: { topic, tone, length, useEmoji, variations: numVariations, instructions, voiceProfileId },
+          input: {
+            url: null,
+            content: topic.trim(),
+            tone,
+            options: {
+              length,
+              useEmoji,
+              variations: numVariations,
+              instructions: instructions || null,
+              voiceProfile: voiceProfile?.name || null,
+            },
+          },
+          outputs: validPosts.map(formatPost),
+          outputTone: tone,
+          metadata: body.metadata,
         },
-      })
-    } catch (openaiError) {
-      console.error("OpenAI API error:", openaiError)
+        requestData,
+        user,
+      )
+
+      return NextResponse.json({ ...body, review })
+    } catch (llmError) {
+      console.error("LLM API error:", llmError)
+      await usage.refund(quota)
       return NextResponse.json(
         {
           error: "Failed to generate posts. Our AI service is experiencing issues. Please try again shortly.",
@@ -214,7 +460,11 @@ Make each post unique, engaging, and optimized for maximum reach and engagement.
       )
     }
   } catch (error) {
+    if (error instanceof VoiceProfileNotFoundError) {
+      return NextResponse.json({ error: "Voice profile not found. It may have been deleted." }, { status: 400 })
+    }
+
     console.error("Error generating posts:", error)
     return NextResponse.json({ error: "Post generation failed. Please try again." }, { status: 500 })
   }
-}
+}))
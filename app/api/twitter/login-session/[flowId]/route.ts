@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import twitterLogin, { LoginFlowNotFoundError, LoginFlowStateError } from "@/lib/twitter/login"
+
+interface RouteContext {
+  params: { flowId: string }
+}
+
+// Submits the current step's value ({ step, value }) and returns the next step, or the connected session when done
+export const POST = withAuth(async (request: Request, user, { params }: RouteContext) => {
+  try {
+    const flow = await twitterLogin.submit(user.id, params.flowId, await request.json())
+    return NextResponse.json({ flow })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid login step" }, { status: 400 })
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    if (error instanceof LoginFlowNotFoundError) {
+      return NextResponse.json({ error: "This login has expired. Please start again." }, { status: 404 })
+    }
+
+    if (error instanceof LoginFlowStateError) {
+      return NextResponse.json({ error: "This step has already been submitted.", step: error.step }, { status: 409 })
+    }
+
+    console.error("❌ Error during X login step:", error)
+    return NextResponse.json({ error: "Failed to complete this step. Please try again." }, { status: 500 })
+  }
+})
+
+export const DELETE = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    await twitterLogin.cancel(user.id, params.flowId)
+    return NextResponse.json({ cancelled: true })
+  } catch (error) {
+    if (error instanceof LoginFlowNotFoundError) {
+      return NextResponse.json({ cancelled: true })
+    }
+
+    console.error("❌ Error cancelling X login flow:", error)
+    return NextResponse.json({ error: "Failed to cancel login. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import twitterSessions, { TwitterSessionNotFoundError, VaultKeyError } from "@/lib/twitter/vault"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Probes X with the stored cookies and returns the updated status (revoked when X has signed the session out)
+export const POST = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const session = await twitterSessions.check(user.id, params.id)
+    return NextResponse.json({ session })
+  } catch (error) {
+    if (error instanceof TwitterSessionNotFoundError) {
+      return NextResponse.json({ error: "X account not found" }, { status: 404 })
+    }
+
+    if (error instanceof VaultKeyError) {
+      console.error("❌ Twitter session vault is not configured:", error.message)
+      return NextResponse.json({ error: "Connecting X accounts isn't configured on this server." }, { status: 500 })
+    }
+
+    console.error("❌ Error checking Twitter session:", error)
+    return NextResponse.json({ error: "Failed to check X account. Please try again." }, { status: 500 })
+  }
+})
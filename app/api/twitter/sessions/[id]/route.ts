@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth/session"
+import twitterSessions, { TwitterSessionNotFoundError } from "@/lib/twitter/vault"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Disconnects an X account: the encrypted cookies are deleted, not just hidden
+export const DELETE = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    await twitterSessions.revoke(user.id, params.id)
+
+    console.log(`✅ Twitter session ${params.id} revoked`)
+    return NextResponse.json({ revoked: true })
+  } catch (error) {
+    if (error instanceof TwitterSessionNotFoundError) {
+      return NextResponse.json({ error: "X account not found" }, { status: 404 })
+    }
+
+    console.error("❌ Error revoking Twitter session:", error)
+    return NextResponse.json({ error: "Failed to disconnect X account. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import twitterSessions, { VaultKeyError } from "@/lib/twitter/vault"
+
+// The signed-in user's connected X accounts; only handles and metadata, never cookies
+export const GET = withAuth(async (_request: Request, user) => {
+  try {
+    const sessions = await twitterSessions.list(user.id)
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error("❌ Error listing Twitter sessions:", error)
+    return NextResponse.json({ error: "Failed to load X accounts. Please try again." }, { status: 500 })
+  }
+})
+
+// Manual entry: stores an auth_token the user copied from their browser and checks it with X straight away
+export const POST = withAuth(async (request: Request, user) => {
+  try {
+    const stored = await twitterSessions.store(user.id, await request.json())
+    const session = await twitterSessions.check(user.id, stored.id)
+
+    console.log(`✅ Twitter session stored for user ${user.id} (${session.status})`)
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid session" }, { status: 400 })
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    if (error instanceof VaultKeyError) {
+      console.error("❌ Twitter session vault is not configured:", error.message)
+      return NextResponse.json({ error: "Connecting X accounts isn't configured on this server." }, { status: 500 })
+    }
+
+    console.error("❌ Error storing Twitter session:", error)
+    return NextResponse.json({ error: "Failed to connect X account. Please try again." }, { status: 500 })
+  }
+})
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import trendSnapshots from "@/lib/trends"
+
+const DEFAULT_DAYS = 7
+const MAX_DAYS = 90
+
+// GET /api/twitter/trends/history?hashtag=&country=&days=
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const hashtag = searchParams.get("hashtag")?.trim()
+    const country = searchParams.get("country")?.trim() || "worldwide"
+    const days = Math.min(MAX_DAYS, Math.max(1, Number(searchParams.get("days")) || DEFAULT_DAYS))
+
+    if (!hashtag) {
+      return NextResponse.json({ error: "Hashtag is required" }, { status: 400 })
+    }
+
+    const trendHistory = await trendSnapshots.getHistory(country, hashtag, days)
+
+    return NextResponse.json({ ...trendHistory, days, backend: trendSnapshots.backend })
+  } catch (error) {
+    console.error("❌ Error loading trend history:", error)
+    return NextResponse.json({ error: "Failed to load trend history. Please try again." }, { status: 500 })
+  }
+}
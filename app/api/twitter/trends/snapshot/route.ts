@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { isCronAuthorized } from "@/lib/cron"
+import trendSnapshotter from "@/lib/trends/snapshotter"
+
+// Scraping several countries can take a while
+export const maxDuration = 60
+
+// GET /api/twitter/trends/snapshot (scheduled in vercel.json)
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const results = await trendSnapshotter.runOnce()
+    const saved = results.filter((result) => result.status === "saved").length
+
+    return NextResponse.json({ results }, { status: saved > 0 ? 200 : 502 })
+  } catch (error) {
+    console.error("❌ Error running trend snapshot:", error)
+    return NextResponse.json({ error: "Failed to record trend snapshot" }, { status: 500 })
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import usage, { PLANS } from "@/lib/usage"
+
+// GET /api/usage returns this month's usage against the caller's plan, plus every plan's quotas
+export async function GET(request: Request) {
+  try {
+    const summary = await usage.summary(request)
+    return NextResponse.json({ ...summary, plans: Object.values(PLANS) })
+  } catch (error) {
+    console.error("❌ Error loading usage:", error)
+    return NextResponse.json({ error: "Failed to load usage. Please try again." }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import voiceProfiles, { VoiceProfileNotFoundError } from "@/lib/voice-profiles"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Other users' profiles are reported as not found
+export const GET = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const profile = await voiceProfiles.get(params.id, user.id)
+
+    if (!profile) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    console.error("❌ Error loading voice profile:", error)
+    return NextResponse.json({ error: "Failed to load voice profile. Please try again." }, { status: 500 })
+  }
+})
+
+export const PUT = withAuth(async (request: Request, user, { params }: RouteContext) => {
+  try {
+    const profile = await voiceProfiles.update(params.id, await request.json(), user.id)
+    return NextResponse.json({ profile })
+  } catch (error) {
+    if (error instanceof VoiceProfileNotFoundError) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 })
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid voice profile" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error updating voice profile:", error)
+    return NextResponse.json({ error: "Failed to save voice profile. Please try again." }, { status: 500 })
+  }
+})
+
+export const DELETE = withAuth(async (_request: Request, user, { params }: RouteContext) => {
+  try {
+    const deleted = await voiceProfiles.delete(params.id, user.id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("❌ Error deleting voice profile:", error)
+    return NextResponse.json({ error: "Failed to delete voice profile. Please try again." }, { status: 500 })
+  }
+})
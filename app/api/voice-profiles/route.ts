@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { withAuth } from "@/lib/auth/session"
+import voiceProfiles from "@/lib/voice-profiles"
+
+// Only the signed-in user's profiles
+export const GET = withAuth(async (_request: Request, user) => {
+  try {
+    const profiles = await voiceProfiles.list(user.id)
+    return NextResponse.json({ profiles })
+  } catch (error) {
+    console.error("❌ Error loading voice profiles:", error)
+    return NextResponse.json({ error: "Failed to load voice profiles. Please try again." }, { status: 500 })
+  }
+})
+
+export const POST = withAuth(async (request: Request, user) => {
+  try {
+    const profile = await voiceProfiles.create(await request.json(), user.id)
+    console.log("✅ Created voice profile:", profile.name)
+    return NextResponse.json({ profile }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Invalid voice profile" }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Failed to parse request data. Please try again." }, { status: 400 })
+    }
+
+    console.error("❌ Error creating voice profile:", error)
+    return NextResponse.json({ error: "Failed to save voice profile. Please try again." }, { status: 500 })
+  }
+})
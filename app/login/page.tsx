@@ -0,0 +1,46 @@
+import { Zap } from "lucide-react"
+import { ThemeToggle } from "@/components/theme-toggle"
+import SignInForm from "@/components/auth/sign-in-form"
+import { safeRedirectPath } from "@/lib/auth/cookies"
+import { configuredProviders } from "@/lib/auth/oauth"
+
+export const metadata = {
+  title: "Sign in – Altreach",
+  description: "Sign in to Altreach",
+}
+
+// Provider credentials are read at request time
+export const dynamic = "force-dynamic"
+
+interface LoginPageProps {
+  searchParams: { next?: string; error?: string }
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  return (
+    <div className="min-h-screen bg-[#F3F4F6] dark:bg-slate-900 transition-colors duration-200">
+      {/* Brand Bar */}
+      <header className="border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-950 shadow-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-gradient-to-br from-blue-600 to-cyan-600 rounded-lg flex items-center justify-center">
+              <Zap className="h-4 w-4 text-white" />
+            </div>
+            <h1 className="text-lg sm:text-xl font-bold text-[#1E293B] dark:text-white">Altreach</h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="py-6 px-4 sm:py-8 sm:px-4 lg:py-12">
+        <div className="container max-w-md mx-auto">
+          <SignInForm
+            providers={configuredProviders()}
+            next={safeRedirectPath(searchParams.next)}
+            error={searchParams.error || null}
+          />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
@@ -26,20 +27,34 @@ import {
   Bell,
   Instagram,
   Facebook,
+  History,
+  CalendarDays,
+  ClipboardCheck,
 } from "lucide-react"
 import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ThemeToggle } from "@/components/theme-toggle"
+import UserMenu from "@/components/auth/user-menu"
+import UsageMeter from "@/components/usage/usage-meter"
 import TwitterInput from "@/components/twitter/twitter-input"
+import BatchComments from "@/components/linkedin/batch-comments"
+import PostComposer from "@/components/composer/post-composer"
+import VoiceProfileSelect from "@/components/voice-profiles/voice-profile-select"
+import FlaggedPhrases from "@/components/voice-profiles/flagged-phrases"
+import PendingReview from "@/components/review/pending-review"
+import { isAbortError, readSSEStream, type GenerationStreamEvents } from "@/lib/sse"
+import type { ReviewSummary } from "@/lib/review/types"
 
 // Platform types
 type Platform = "linkedin" | "twitter" | "instagram" | "facebook"
-type LinkedInView = "comments" | "connections"
+type LinkedInView = "comments" | "batch" | "connections" | "compose"
 
 // Existing interfaces
 interface GeneratedComment {
   text: string
   isRecommended: boolean
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
 }
 
 interface PostContent {
@@ -84,8 +99,28 @@ interface ConnectionMessage {
   text: string
   suggestedTone: string
   characterCount: number
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
 }
 
+// Final response bodies of the generation routes, also sent as the stream's done event
+interface CommentResponseBody {
+  comment?: GeneratedComment
+  toneAnalysis?: ToneAnalysis
+  review?: ReviewSummary | null
+}
+
+interface ConnectionMessageResponseBody {
+  message?: string
+  suggestedTone?: string
+  characterCount?: number
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
+}
+
+type CommentStreamEvents = GenerationStreamEvents<CommentResponseBody>
+type ConnectionMessageStreamEvents = GenerationStreamEvents<ConnectionMessageResponseBody>
+
 // Platform Selector Component
 const PlatformSelector = ({
   selectedPlatform,
@@ -167,6 +202,16 @@ const LinkedInViewToggle = ({
           >
             Comments
           </button>
+          <button
+            onClick={() => onViewChange("batch")}
+            className={`px-4 sm:px-6 py-4 text-sm font-medium border-b-2 transition-colors duration-200 flex-1 sm:flex-initial min-h-[48px] touch-manipulation ${
+              currentView === "batch"
+                ? "border-[#3B82F6] text-[#3B82F6] bg-blue-50/50 dark:bg-blue-900/10"
+                : "border-transparent text-slate-500 dark:text-slate-400 hover:text-[#1E293B] dark:hover:text-white hover:border-slate-300 dark:hover:border-slate-600"
+            }`}
+          >
+            Batch
+          </button>
           <button
             onClick={() => onViewChange("connections")}
             className={`px-4 sm:px-6 py-4 text-sm font-medium border-b-2 transition-colors duration-200 flex-1 sm:flex-initial min-h-[48px] touch-manipulation ${
@@ -177,6 +222,16 @@ const LinkedInViewToggle = ({
           >
             Connections
           </button>
+          <button
+            onClick={() => onViewChange("compose")}
+            className={`px-4 sm:px-6 py-4 text-sm font-medium border-b-2 transition-colors duration-200 flex-1 sm:flex-initial min-h-[48px] touch-manipulation ${
+              currentView === "compose"
+                ? "border-[#3B82F6] text-[#3B82F6] bg-blue-50/50 dark:bg-blue-900/10"
+                : "border-transparent text-slate-500 dark:text-slate-400 hover:text-[#1E293B] dark:hover:text-white hover:border-slate-300 dark:hover:border-slate-600"
+            }`}
+          >
+            Compose
+          </button>
         </div>
       </div>
     </div>
@@ -414,6 +469,9 @@ export default function HomePage() {
   const [useSmartTone, setUseSmartTone] = useState(true)
   const [selectedTone, setSelectedTone] = useState<string>("supportive")
 
+  // Brand voice shared by the comment and connection message generators
+  const [voiceProfileId, setVoiceProfileId] = useState<string | null>(null)
+
   // Connections view state
   const [profileUrl, setProfileUrl] = useState("")
   const [isDetectingProfile, setIsDetectingProfile] = useState(false)
@@ -436,6 +494,17 @@ export default function HomePage() {
   const [isRateLimited, setIsRateLimited] = useState(false)
   const [rateLimitTimeRemaining, setRateLimitTimeRemaining] = useState(0)
 
+  // In-flight streaming requests, aborted when a new one starts or the page unmounts
+  const commentRequestRef = useRef<AbortController | null>(null)
+  const messageRequestRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    return () => {
+      commentRequestRef.current?.abort()
+      messageRequestRef.current?.abort()
+    }
+  }, [])
+
   const [currentLinkedInView, setCurrentLinkedInView] = useState<LinkedInView>("comments")
   const [currentView, setCurrentView] = useState<"comments" | "create" | "hashtags">("comments")
 
@@ -524,7 +593,16 @@ export default function HomePage() {
     url: string,
     postContent: PostContent | null,
     isAdditional = false,
-  ) => {
+    onPartial?: (text: string) => void,
+  ): Promise<GeneratedComment | null | undefined> => {
+    // Cancel any comment still streaming so only the latest request updates the page
+    commentRequestRef.current?.abort()
+    setIsGenerating(false)
+    setIsGeneratingAnother(false)
+
+    const controller = new AbortController()
+    commentRequestRef.current = controller
+
     const setLoadingState = isAdditional ? setIsGeneratingAnother : setIsGenerating
     setLoadingState(true)
     setError(null)
@@ -554,7 +632,10 @@ export default function HomePage() {
           existingComments: comments.map((c) => c.text),
           useSmartTone,
           selectedTone: !useSmartTone ? selectedTone : undefined,
+          voiceProfileId: voiceProfileId || undefined,
+          stream: true,
         }),
+        signal: controller.signal,
       })
 
       if (response.status === 429) {
@@ -574,17 +655,41 @@ export default function HomePage() {
       }
 
       const contentType = response.headers.get("content-type")
-      if (!contentType || !contentType.includes("application/json")) {
+      let data: CommentResponseBody | undefined
+
+      if (contentType && contentType.includes("text/event-stream")) {
+        // Show the tone and comment as they arrive, then use the final response body
+        let streamError: string | null = null
+
+        await readSSEStream<CommentStreamEvents>(response, ({ event, data: eventData }) => {
+          if (event === "tone" && !isAdditional) {
+            setToneAnalysis({ recommendedTone: eventData.tone, reasoning: "AI-determined optimal tone for this post" })
+          } else if (event === "variation") {
+            onPartial?.(eventData.text)
+          } else if (event === "done") {
+            data = eventData
+          } else if (event === "error") {
+            streamError = eventData.error
+          }
+        })
+
+        if (streamError) {
+          throw new Error(streamError)
+        }
+      } else if (contentType && contentType.includes("application/json")) {
+        try {
+          data = await response.json()
+        } catch (jsonError) {
+          console.error("Failed to parse JSON response:", jsonError)
+          throw new Error("Failed to parse response. Please try again.")
+        }
+      } else {
         console.warn("Comment generation returned non-JSON response")
         throw new Error("Invalid response format. Please try again.")
       }
 
-      let data
-      try {
-        data = await response.json()
-      } catch (jsonError) {
-        console.error("Failed to parse JSON response:", jsonError)
-        throw new Error("Failed to parse response. Please try again.")
+      if (!data) {
+        throw new Error("Comment generation was interrupted. Please try again.")
       }
 
       if (!data.comment || typeof data.comment.text !== "string") {
@@ -596,13 +701,21 @@ export default function HomePage() {
         setToneAnalysis(data.toneAnalysis)
       }
 
-      return data.comment
+      return { ...data.comment, review: data.review } as GeneratedComment
     } catch (error) {
+      // Cancelled by a newer request or by leaving the page
+      if (controller.signal.aborted || isAbortError(error)) {
+        return undefined
+      }
+
       console.error("Error generating comment:", error)
       setError(error instanceof Error ? error.message : "Comment generation failed. Please try again.")
       return null
     } finally {
-      setLoadingState(false)
+      if (commentRequestRef.current === controller) {
+        commentRequestRef.current = null
+        setLoadingState(false)
+      }
     }
   }
 
@@ -634,11 +747,16 @@ export default function HomePage() {
     setToneAnalysis(null)
 
     try {
-      const generatedComment = await generateComment("LinkedIn", url, postContent, false)
+      const generatedComment = await generateComment("LinkedIn", url, postContent, false, (text) =>
+        setComments([{ text, isRecommended: true }]),
+      )
+
+      if (generatedComment === undefined) return
 
       if (generatedComment) {
         setComments([generatedComment])
       } else {
+        setComments([])
         setError("No comment was generated. Please try again.")
       }
     } catch (error) {
@@ -648,13 +766,21 @@ export default function HomePage() {
   }
 
   const handleGenerateAnother = async () => {
+    // The streamed comment replaces anything after the existing ones
+    const existingCount = comments.length
+
     try {
-      const generatedComment = await generateComment("LinkedIn", url, postContent, true)
+      const generatedComment = await generateComment("LinkedIn", url, postContent, true, (text) =>
+        setComments((prev) => [...prev.slice(0, existingCount), { text, isRecommended: false }]),
+      )
+
+      if (generatedComment === undefined) return
 
       if (generatedComment) {
         const newComment = { ...generatedComment, isRecommended: false }
-        setComments((prev) => [...prev, newComment])
+        setComments((prev) => [...prev.slice(0, existingCount), newComment])
       } else {
+        setComments((prev) => prev.slice(0, existingCount))
         setError("No additional comment was generated. Please try again.")
       }
     } catch (error) {
@@ -796,6 +922,14 @@ export default function HomePage() {
       return
     }
 
+    // Cancel any message still streaming so only the latest request updates the page
+    messageRequestRef.current?.abort()
+    setIsGeneratingMessage(false)
+    setIsGeneratingAnotherMessage(false)
+
+    const controller = new AbortController()
+    messageRequestRef.current = controller
+
     const setLoadingState = isAdditional ? setIsGeneratingAnotherMessage : setIsGeneratingMessage
     setLoadingState(true)
     setMessageGenerationError(null)
@@ -811,6 +945,8 @@ export default function HomePage() {
         manualTone: !useSmartConnectionTone ? selectedConnectionTone : undefined,
         profileUrl,
         existingMessages: connectionMessages.map((msg) => msg.text),
+        voiceProfileId: voiceProfileId || undefined,
+        stream: true,
       }
 
       const response = await fetch("/api/generate-connection-message", {
@@ -819,6 +955,7 @@ export default function HomePage() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify(requestBody),
+        signal: controller.signal,
       })
 
       if (response.status === 429) {
@@ -863,20 +1000,50 @@ export default function HomePage() {
       }
 
       const contentType = response.headers.get("content-type")
-      if (!contentType || !contentType.includes("application/json")) {
+      const existingCount = connectionMessages.length
+      let data: ConnectionMessageResponseBody | undefined
+
+      if (contentType && contentType.includes("text/event-stream")) {
+        // Show the message as soon as it arrives, then use the final response body
+        let streamedTone: string | null = null
+        let streamError: string | null = null
+
+        await readSSEStream<ConnectionMessageStreamEvents>(response, ({ event, data: eventData }) => {
+          if (event === "tone") {
+            streamedTone = eventData.tone
+          } else if (event === "variation") {
+            const partialMessage: ConnectionMessage = {
+              text: eventData.text,
+              suggestedTone: streamedTone || "Professional but warm",
+              characterCount: eventData.text.length,
+            }
+            setConnectionMessages((prev) => [...prev.slice(0, existingCount), partialMessage])
+          } else if (event === "done") {
+            data = eventData
+          } else if (event === "error") {
+            streamError = eventData.error
+          }
+        })
+
+        // Drop the provisional message; the final one is appended below
+        setConnectionMessages((prev) => prev.slice(0, existingCount))
+
+        if (streamError) {
+          throw new Error(streamError)
+        }
+      } else if (contentType && contentType.includes("application/json")) {
+        try {
+          const responseText = await response.text()
+          data = JSON.parse(responseText)
+        } catch (jsonError) {
+          console.error("Failed to parse JSON response:", jsonError)
+          throw new Error("Failed to parse response. Please try again.")
+        }
+      } else {
         console.error("Non-JSON response received:", contentType)
         throw new Error("Invalid response format. Please try again.")
       }
 
-      let data
-      try {
-        const responseText = await response.text()
-        data = JSON.parse(responseText)
-      } catch (jsonError) {
-        console.error("Failed to parse JSON response:", jsonError)
-        throw new Error("Failed to parse response. Please try again.")
-      }
-
       if (!data || typeof data !== "object") {
         console.error("Invalid response data:", data)
         throw new Error("Invalid response data. Please try again.")
@@ -891,12 +1058,19 @@ export default function HomePage() {
         text: data.message,
         suggestedTone: data.suggestedTone || "Professional but warm",
         characterCount: data.characterCount || data.message.length,
+        flaggedPhrases: data.flaggedPhrases,
+        review: data.review,
       }
 
       setConnectionMessages((prev) => [...prev, newMessage])
       setMessageCopiedStates((prev) => [...prev, false])
       setMessageGenerationError(null)
     } catch (error) {
+      // Cancelled by a newer request or by leaving the page
+      if (controller.signal.aborted || isAbortError(error)) {
+        return
+      }
+
       console.error("❌ Error generating connection message:", error)
 
       let userMessage = "Couldn't generate message. Please try again."
@@ -915,7 +1089,10 @@ export default function HomePage() {
 
       setMessageGenerationError(userMessage)
     } finally {
-      setLoadingState(false)
+      if (messageRequestRef.current === controller) {
+        messageRequestRef.current = null
+        setLoadingState(false)
+      }
     }
   }
 
@@ -961,7 +1138,29 @@ export default function HomePage() {
             </div>
             <h1 className="text-lg sm:text-xl font-bold text-[#1E293B] dark:text-white">Altreach</h1>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-2">
+            <UsageMeter />
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/reviews">
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Reviews
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/schedule">
+                <CalendarDays className="mr-2 h-4 w-4" />
+                Schedule
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/history">
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Link>
+            </Button>
+            <ThemeToggle />
+            <UserMenu />
+          </div>
         </div>
       </header>
 
@@ -1170,6 +1369,8 @@ export default function HomePage() {
                                 </p>
                               </div>
                             )}
+
+                            <VoiceProfileSelect value={voiceProfileId} onChange={setVoiceProfileId} />
                           </div>
                         </div>
 
@@ -1248,6 +1449,8 @@ export default function HomePage() {
                                   <p className="text-[#1E293B] dark:text-slate-100 leading-relaxed pr-12">
                                     {comment.text}
                                   </p>
+                                  <FlaggedPhrases phrases={comment.flaggedPhrases} className="mt-3" />
+                                  <PendingReview review={comment.review} className="mt-3" />
                                   <Button
                                     variant="ghost"
                                     size="icon"
@@ -1293,6 +1496,10 @@ export default function HomePage() {
                         )}
                       </CardContent>
                     </Card>
+                  ) : currentLinkedInView === "batch" ? (
+                    <BatchComments toneOptions={toneOptions} />
+                  ) : currentLinkedInView === "compose" ? (
+                    <PostComposer toneOptions={toneOptions} />
                   ) : (
                     // Connections UI
                     <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl overflow-hidden">
@@ -1445,6 +1652,8 @@ export default function HomePage() {
                                   AI will determine the optimal tone based on the profile
                                 </p>
                               )}
+
+                              <VoiceProfileSelect value={voiceProfileId} onChange={setVoiceProfileId} />
                             </div>
                           </div>
                         )}
@@ -1534,6 +1743,8 @@ export default function HomePage() {
                                   <p className="text-[#1E293B] dark:text-slate-100 leading-relaxed pr-12">
                                     {message.text}
                                   </p>
+                                  <FlaggedPhrases phrases={message.flaggedPhrases} className="mt-3" />
+                                  <PendingReview review={message.review} className="mt-3" />
                                   <Button
                                     variant="ghost"
                                     size="icon"
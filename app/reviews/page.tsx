@@ -0,0 +1,51 @@
+import Link from "next/link"
+import { ArrowLeft, Zap } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ThemeToggle } from "@/components/theme-toggle"
+import UserMenu from "@/components/auth/user-menu"
+import ReviewQueue from "@/components/review/review-queue"
+
+export const metadata = {
+  title: "Reviews – Altreach",
+  description: "Approve generated content before it's used",
+}
+
+export default function ReviewsPage() {
+  return (
+    <div className="min-h-screen bg-[#F3F4F6] dark:bg-slate-900 transition-colors duration-200">
+      {/* Brand Bar */}
+      <header className="border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-950 shadow-sm">
+        <div className="container max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-gradient-to-br from-blue-600 to-cyan-600 rounded-lg flex items-center justify-center">
+              <Zap className="h-4 w-4 text-white" />
+            </div>
+            <h1 className="text-lg sm:text-xl font-bold text-[#1E293B] dark:text-white">Altreach</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Link>
+            </Button>
+            <ThemeToggle />
+            <UserMenu />
+          </div>
+        </div>
+      </header>
+
+      <main className="py-6 px-4 sm:py-8 sm:px-4 lg:py-12">
+        <div className="container max-w-5xl mx-auto space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-[#1E293B] dark:text-white">Reviews</h2>
+            <p className="text-slate-500 dark:text-slate-400">
+              Approve, edit or reject generated content before it goes to clients
+            </p>
+          </div>
+          <ReviewQueue />
+        </div>
+      </main>
+    </div>
+  )
+}
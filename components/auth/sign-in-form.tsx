@@ -0,0 +1,133 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Separator } from "@/components/ui/separator"
+import { AlertCircle, Github, Loader2, Mail, MailCheck } from "lucide-react"
+import type { OAuthProviderName } from "@/lib/auth/types"
+
+// Reasons the auth routes redirect back to /login with
+const ERROR_MESSAGES: Record<string, string> = {
+  expired: "That sign-in link is invalid or has expired. Request a new one below.",
+  provider: "That sign-in option isn't available.",
+  cancelled: "Sign-in was cancelled.",
+  state: "Your sign-in attempt timed out. Please try again.",
+  unverified: "Your account needs a verified email address to sign in.",
+  failed: "Sign-in failed. Please try again.",
+}
+
+interface SignInFormProps {
+  providers: { id: OAuthProviderName; label: string }[]
+  next: string
+  error: string | null
+}
+
+export default function SignInForm({ providers, next, error: initialError }: SignInFormProps) {
+  const [email, setEmail] = useState("")
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(
+    initialError ? ERROR_MESSAGES[initialError] || ERROR_MESSAGES.failed : null,
+  )
+
+  const requestLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSending(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, next }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send sign-in link")
+      }
+
+      setSentTo(email.trim())
+    } catch (error) {
+      console.error("❌ Error requesting sign-in link:", error)
+      setError(error instanceof Error ? error.message : "Failed to send sign-in link")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl">
+      <CardHeader>
+        <CardTitle className="text-[#1E293B] dark:text-white">Sign in</CardTitle>
+        <CardDescription>Use your email or a connected account. New here? Signing in creates your account.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {sentTo ? (
+          <div className="flex flex-col items-center text-center gap-2 py-4">
+            <MailCheck className="h-8 w-8 text-[#1DA1F2]" />
+            <p className="font-medium text-[#1E293B] dark:text-white">Check your email</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              We sent a sign-in link to {sentTo}. It expires in 15 minutes.
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setSentTo(null)}>
+              Use a different email
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={requestLink} className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                placeholder="you@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isSending || !email.trim()}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+              Email me a sign-in link
+            </Button>
+          </form>
+        )}
+
+        {providers.length > 0 && (
+          <>
+            <div className="flex items-center gap-3">
+              <Separator className="flex-1" />
+              <span className="text-xs text-slate-400 dark:text-slate-500">or</span>
+              <Separator className="flex-1" />
+            </div>
+            <div className="space-y-2">
+              {providers.map((provider) => (
+                <Button key={provider.id} variant="outline" className="w-full" asChild>
+                  {/* A full navigation: the provider's consent screen can't load in a fetch */}
+                  <a href={`/api/auth/oauth/${provider.id}?next=${encodeURIComponent(next)}`}>
+                    {provider.id === "github" && <Github className="mr-2 h-4 w-4" />}
+                    Continue with {provider.label}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
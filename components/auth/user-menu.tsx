@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { LogOut, User as UserIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { User } from "@/lib/auth/types"
+
+export default function UserMenu() {
+  const router = useRouter()
+  const [user, setUser] = useState<User | null>(null)
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then((data) => setUser(data.user || null))
+      .catch((error) => console.error("❌ Error loading session:", error))
+  }, [])
+
+  const signOut = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" })
+    } catch (error) {
+      console.error("❌ Error signing out:", error)
+    }
+    router.push("/login")
+    router.refresh()
+  }
+
+  if (!user) return null
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-9 w-9 rounded-full overflow-hidden">
+          {user.image ? (
+            <img src={user.image} alt="" className="h-full w-full object-cover" />
+          ) : (
+            <UserIcon className="h-4 w-4" />
+          )}
+          <span className="sr-only">Account</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal">
+          {user.name && <p className="text-sm font-medium">{user.name}</p>}
+          <p className="text-xs text-slate-500 dark:text-slate-400">{user.email}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={signOut}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
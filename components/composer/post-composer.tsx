@@ -0,0 +1,258 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AlertCircle, Loader2, PenLine } from "lucide-react"
+import VoiceProfileSelect from "@/components/voice-profiles/voice-profile-select"
+import VariantEditor from "./variant-editor"
+import { PLATFORM_SPECS } from "@/lib/composer/platforms"
+import {
+  COMPOSER_PLATFORMS,
+  type ComposedVariant,
+  type ComposeFailure,
+  type ComposerPlatform,
+  type ComposeSourceType,
+  type XFormat,
+} from "@/lib/composer/types"
+
+interface ToneOption {
+  value: string
+  label: string
+}
+
+interface PostComposerProps {
+  toneOptions: ToneOption[]
+}
+
+export default function PostComposer({ toneOptions }: PostComposerProps) {
+  const [source, setSource] = useState("")
+  const [sourceType, setSourceType] = useState<ComposeSourceType>("topic")
+  const [tone, setTone] = useState<string>("professional")
+  const [platforms, setPlatforms] = useState<ComposerPlatform[]>([...COMPOSER_PLATFORMS])
+  const [xFormat, setXFormat] = useState<XFormat>("single")
+  const [useEmoji, setUseEmoji] = useState(true)
+  const [voiceProfileId, setVoiceProfileId] = useState<string | null>(null)
+
+  const [variants, setVariants] = useState<ComposedVariant[]>([])
+  const [isComposing, setIsComposing] = useState(false)
+  const [regenerating, setRegenerating] = useState<ComposerPlatform | null>(null)
+  // Bumped whenever a variant is replaced, so its editor starts fresh instead of keeping local input
+  const [revisions, setRevisions] = useState<Partial<Record<ComposerPlatform, number>>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const bumpRevisions = (targets: ComposerPlatform[]) => {
+    setRevisions((prev) => {
+      const next = { ...prev }
+      targets.forEach((platform) => (next[platform] = (next[platform] || 0) + 1))
+      return next
+    })
+  }
+
+  const togglePlatform = (platform: ComposerPlatform, checked: boolean) => {
+    setPlatforms((prev) =>
+      checked
+        ? COMPOSER_PLATFORMS.filter((option) => option === platform || prev.includes(option))
+        : prev.filter((option) => option !== platform),
+    )
+  }
+
+  const requestVariants = async (targets: ComposerPlatform[]) => {
+    const response = await fetch("/api/compose", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ source, sourceType, tone, platforms: targets, xFormat, useEmoji, voiceProfileId }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to compose posts")
+    }
+
+    return data as { variants: ComposedVariant[]; failures: ComposeFailure[] }
+  }
+
+  const describeFailures = (failures: ComposeFailure[]) =>
+    failures.length > 0
+      ? `Couldn't generate ${failures.map((failure) => PLATFORM_SPECS[failure.platform].label).join(", ")}. Try regenerating it.`
+      : null
+
+  const composeAll = async () => {
+    if (!source.trim()) {
+      setError(sourceType === "draft" ? "Paste a draft to adapt" : "Enter a topic")
+      return
+    }
+
+    setIsComposing(true)
+    setError(null)
+
+    try {
+      const data = await requestVariants(platforms)
+      setVariants(data.variants)
+      bumpRevisions(data.variants.map((variant) => variant.platform))
+      setError(describeFailures(data.failures))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compose posts")
+    } finally {
+      setIsComposing(false)
+    }
+  }
+
+  // Replaces one variant and leaves any edits to the others alone
+  const regenerateVariant = async (platform: ComposerPlatform) => {
+    setRegenerating(platform)
+    setError(null)
+
+    try {
+      const data = await requestVariants([platform])
+      const [variant] = data.variants
+
+      if (!variant) {
+        setError(describeFailures(data.failures))
+        return
+      }
+
+      setVariants((prev) => prev.map((existing) => (existing.platform === platform ? variant : existing)))
+      bumpRevisions([platform])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to regenerate variant")
+    } finally {
+      setRegenerating(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl overflow-hidden">
+        <CardHeader className="pb-6 border-b border-slate-100 dark:border-slate-800">
+          <CardTitle className="text-2xl font-bold text-[#1E293B] dark:text-white">Compose</CardTitle>
+          <CardDescription className="text-slate-500 dark:text-slate-400">
+            Turn one topic or draft into posts tailored for X, LinkedIn and Instagram
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="p-6 space-y-6">
+          <div className="space-y-2">
+            <Tabs value={sourceType} onValueChange={(value) => setSourceType(value as ComposeSourceType)}>
+              <TabsList>
+                <TabsTrigger value="topic">Topic</TabsTrigger>
+                <TabsTrigger value="draft">Draft</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={
+                sourceType === "draft"
+                  ? "Paste a draft; each platform keeps its message and adapts the format"
+                  : "e.g. What we learned shipping our first product in 6 weeks"
+              }
+              className={sourceType === "draft" ? "min-h-[180px]" : "min-h-[80px]"}
+              maxLength={5000}
+              disabled={isComposing}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            {COMPOSER_PLATFORMS.map((platform) => (
+              <label key={platform} className="flex items-center gap-2 text-sm font-medium text-[#1E293B] dark:text-slate-200">
+                <Checkbox
+                  checked={platforms.includes(platform)}
+                  onCheckedChange={(checked) => togglePlatform(platform, checked === true)}
+                  disabled={isComposing}
+                />
+                {PLATFORM_SPECS[platform].label}
+              </label>
+            ))}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Select value={tone} onValueChange={setTone}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select tone" />
+              </SelectTrigger>
+              <SelectContent>
+                {toneOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={xFormat}
+              onValueChange={(value) => setXFormat(value as XFormat)}
+              disabled={!platforms.includes("x")}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">X: single post</SelectItem>
+                <SelectItem value="thread">X: thread</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-3">
+              <Switch id="compose-emoji" checked={useEmoji} onCheckedChange={setUseEmoji} />
+              <label htmlFor="compose-emoji" className="text-sm font-medium text-[#1E293B] dark:text-slate-200">
+                Use emojis
+              </label>
+            </div>
+          </div>
+
+          <VoiceProfileSelect value={voiceProfileId} onChange={setVoiceProfileId} className="sm:max-w-sm" />
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            className="w-full h-12 font-semibold bg-[#3B82F6] hover:bg-[#2563EB] text-white"
+            onClick={composeAll}
+            disabled={isComposing || platforms.length === 0 || !source.trim()}
+          >
+            {isComposing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Composing...
+              </>
+            ) : (
+              <>
+                <PenLine className="mr-2 h-4 w-4" />
+                Compose {platforms.length} variant{platforms.length !== 1 ? "s" : ""}
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {variants.length > 0 && (
+        <div className={`grid gap-4 ${variants.length > 1 ? "lg:grid-cols-3 md:grid-cols-2" : ""}`}>
+          {variants.map((variant) => (
+            <VariantEditor
+              key={`${variant.platform}-${revisions[variant.platform] || 0}`}
+              variant={variant}
+              onChange={(updated) =>
+                setVariants((prev) => prev.map((existing) => (existing.platform === updated.platform ? updated : existing)))
+              }
+              onRegenerate={() => regenerateVariant(variant.platform)}
+              isRegenerating={regenerating === variant.platform}
+              disabled={isComposing || (regenerating !== null && regenerating !== variant.platform)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
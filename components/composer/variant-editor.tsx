@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Check, Copy, Instagram, Linkedin, Loader2, RotateCw, Twitter } from "lucide-react"
+import FlaggedPhrases from "@/components/voice-profiles/flagged-phrases"
+import { formatVariant, PLATFORM_SPECS, toHashtags } from "@/lib/composer/platforms"
+import type { ComposedVariant, ComposerPlatform } from "@/lib/composer/types"
+import { countCharacters } from "@/lib/quality/checks"
+
+const PLATFORM_STYLES: Record<ComposerPlatform, { icon: typeof Twitter; color: string }> = {
+  x: { icon: Twitter, color: "text-[#1DA1F2]" },
+  linkedin: { icon: Linkedin, color: "text-[#0A66C2]" },
+  instagram: { icon: Instagram, color: "text-[#E4405F]" },
+}
+
+interface VariantEditorProps {
+  variant: ComposedVariant
+  onChange: (variant: ComposedVariant) => void
+  onRegenerate: () => void
+  isRegenerating: boolean
+  disabled?: boolean
+}
+
+export default function VariantEditor({ variant, onChange, onRegenerate, isRegenerating, disabled }: VariantEditorProps) {
+  const [hashtagInput, setHashtagInput] = useState(variant.hashtags.join(" "))
+  const [copied, setCopied] = useState(false)
+
+  const spec = PLATFORM_SPECS[variant.platform]
+  const { icon: Icon, color } = PLATFORM_STYLES[variant.platform]
+  const published = formatVariant(variant)
+
+  const update = (changes: Partial<ComposedVariant>) => {
+    const next = { ...variant, ...changes }
+    onChange({ ...next, published: formatVariant(next) })
+  }
+
+  const updatePart = (index: number, value: string) => {
+    update({ parts: variant.parts.map((part, partIndex) => (partIndex === index ? value : part)) })
+  }
+
+  const updateHashtags = (value: string) => {
+    setHashtagInput(value)
+    update({ hashtags: toHashtags(value.split(/[\s,]+/)) })
+  }
+
+  const copyVariant = async () => {
+    try {
+      await navigator.clipboard.writeText(published.join("\n\n"))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy text:", error)
+    }
+  }
+
+  return (
+    <Card className="flex flex-col border-slate-200 dark:border-slate-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className={`text-base flex items-center gap-2 ${color}`}>
+            <Icon className="h-4 w-4" />
+            {spec.label}
+            {variant.format === "thread" && (
+              <Badge variant="secondary" className="text-xs">
+                Thread · {variant.parts.length}
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={onRegenerate}
+              disabled={disabled || isRegenerating}
+              title="Regenerate this variant"
+            >
+              {isRegenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+              <span className="sr-only">Regenerate {spec.label} variant</span>
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={copyVariant}>
+              {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4 text-slate-500" />}
+              <span className="sr-only">Copy {spec.label} variant</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex-1 space-y-3">
+        {variant.parts.map((part, index) => {
+          const length = countCharacters(published[index] || part)
+          return (
+            <div key={index} className="space-y-1">
+              {variant.format === "thread" && (
+                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Post {index + 1}</span>
+              )}
+              <Textarea
+                value={part}
+                onChange={(e) => updatePart(index, e.target.value)}
+                className={variant.format === "thread" ? "min-h-[96px] text-sm" : "min-h-[260px] text-sm"}
+                disabled={isRegenerating}
+              />
+              <p
+                className={`text-xs text-right ${
+                  length > spec.maxLength ? "text-red-600 dark:text-red-400" : "text-slate-500 dark:text-slate-400"
+                }`}
+              >
+                {length}/{spec.maxLength}
+              </p>
+            </div>
+          )
+        })}
+
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-slate-500 dark:text-slate-400">
+            Hashtags (up to {spec.maxHashtags})
+          </label>
+          <Input
+            value={hashtagInput}
+            onChange={(e) => updateHashtags(e.target.value)}
+            placeholder="#example"
+            className="text-sm"
+            disabled={isRegenerating}
+          />
+          {variant.hashtags.length > spec.maxHashtags && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {variant.hashtags.length} hashtags is more than {spec.label} posts usually carry
+            </p>
+          )}
+        </div>
+
+        <FlaggedPhrases phrases={variant.flaggedPhrases} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,364 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { format } from "date-fns"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Check, Copy, ExternalLink, History, Loader2, RotateCw, Search, Trash2 } from "lucide-react"
+import type { HistoryEntry, HistoryKind, HistoryPlatform } from "@/lib/history/types"
+
+const PAGE_SIZE = 20
+
+const PLATFORM_LABELS: Record<HistoryPlatform, string> = {
+  linkedin: "LinkedIn",
+  twitter: "Twitter/X",
+  instagram: "Instagram",
+  facebook: "Facebook",
+}
+
+const KIND_LABELS: Record<HistoryKind, string> = {
+  comment: "Comment",
+  "connection-message": "Connection message",
+  reply: "Reply",
+  post: "Post",
+}
+
+export default function HistoryView() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // Filters
+  const [search, setSearch] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [platform, setPlatform] = useState<HistoryPlatform | "all">("all")
+  const [kind, setKind] = useState<HistoryKind | "all">("all")
+  const [tone, setTone] = useState("")
+  const [debouncedTone, setDebouncedTone] = useState("")
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+
+  const [copied, setCopied] = useState<string | null>(null)
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+
+  // Debounce the free-text filters
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(search), 400)
+    return () => clearTimeout(timeoutId)
+  }, [search])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedTone(tone), 400)
+    return () => clearTimeout(timeoutId)
+  }, [tone])
+
+  const loadHistory = useCallback(
+    async (offset = 0) => {
+      setIsLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (debouncedSearch.trim()) params.set("search", debouncedSearch.trim())
+      if (platform !== "all") params.set("platform", platform)
+      if (kind !== "all") params.set("kind", kind)
+      if (debouncedTone.trim()) params.set("tone", debouncedTone.trim())
+      if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString())
+      if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString())
+
+      try {
+        const response = await fetch(`/api/history?${params.toString()}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load history")
+        }
+
+        setEntries((prev) => (offset === 0 ? data.entries : [...prev, ...data.entries]))
+        setTotal(data.total)
+      } catch (error) {
+        console.error("❌ Error loading history:", error)
+        setError(error instanceof Error ? error.message : "Failed to load history")
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [debouncedSearch, platform, kind, debouncedTone, fromDate, toDate],
+  )
+
+  useEffect(() => {
+    loadHistory(0)
+  }, [loadHistory])
+
+  const copyToClipboard = async (text: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(key)
+      setTimeout(() => setCopied(null), 2000)
+    } catch (error) {
+      console.error("Failed to copy text:", error)
+    }
+  }
+
+  // Replays the original request; the route records the new generation itself
+  const regenerate = async (entry: HistoryEntry) => {
+    setRegeneratingId(entry.id)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const response = await fetch(entry.route, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry.request),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || "Regeneration failed. Please try again.")
+      }
+
+      setNotice("Regenerated with the same settings. The new result is at the top of your history.")
+      await loadHistory(0)
+    } catch (error) {
+      console.error("❌ Error regenerating:", error)
+      setError(error instanceof Error ? error.message : "Regeneration failed. Please try again.")
+    } finally {
+      setRegeneratingId(null)
+    }
+  }
+
+  const deleteEntry = async (entry: HistoryEntry) => {
+    try {
+      const response = await fetch(`/api/history/${entry.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to delete entry")
+      }
+
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id))
+      setTotal((prev) => Math.max(0, prev - 1))
+    } catch (error) {
+      console.error("❌ Error deleting history entry:", error)
+      setError(error instanceof Error ? error.message : "Failed to delete entry")
+    }
+  }
+
+  const clearFilters = () => {
+    setSearch("")
+    setPlatform("all")
+    setKind("all")
+    setTone("")
+    setFromDate("")
+    setToDate("")
+  }
+
+  const hasFilters = search || platform !== "all" || kind !== "all" || tone || fromDate || toDate
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl">
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder="Search generated text, URLs and content..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+            <Select value={platform} onValueChange={(value) => setPlatform(value as HistoryPlatform | "all")}>
+              <SelectTrigger>
+                <SelectValue placeholder="Platform" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All platforms</SelectItem>
+                {Object.entries(PLATFORM_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={kind} onValueChange={(value) => setKind(value as HistoryKind | "all")}>
+              <SelectTrigger>
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input placeholder="Tone (e.g. witty)" value={tone} onChange={(e) => setTone(e.target.value)} />
+
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              aria-label="From date"
+            />
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To date" />
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-slate-500 dark:text-slate-400">
+            <span>
+              {total} result{total !== 1 ? "s" : ""}
+            </span>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+          <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+          <AlertDescription className="text-red-600 dark:text-red-400">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
+          <AlertDescription className="text-blue-700 dark:text-blue-300">{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Entries */}
+      {entries.length === 0 && !isLoading ? (
+        <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl">
+          <CardContent className="p-10 text-center">
+            <History className="h-10 w-10 mx-auto text-slate-300 dark:text-slate-600 mb-3" />
+            <p className="text-slate-500 dark:text-slate-400">
+              {hasFilters ? "No history matches these filters." : "Nothing generated yet. Your history will appear here."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {entries.map((entry) => (
+            <Card
+              key={entry.id}
+              className="shadow-md border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl overflow-hidden"
+            >
+              <CardContent className="p-4 sm:p-6 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className="bg-gradient-to-r from-blue-600 to-cyan-600 text-white text-xs">
+                        {PLATFORM_LABELS[entry.platform]}
+                      </Badge>
+                      <Badge variant="secondary" className="text-xs">
+                        {KIND_LABELS[entry.kind]}
+                      </Badge>
+                      {entry.outputTone && (
+                        <Badge variant="outline" className="text-xs">
+                          {entry.outputTone}
+                        </Badge>
+                      )}
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        {format(new Date(entry.createdAt), "MMM d, yyyy · h:mm a")}
+                      </span>
+                    </div>
+                    {entry.input.url && (
+                      <a
+                        href={entry.input.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline break-all"
+                      >
+                        {entry.input.url}
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                      </a>
+                    )}
+                    {entry.input.content && (
+                      <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2">{entry.input.content}</p>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => regenerate(entry)}
+                      disabled={regeneratingId !== null}
+                    >
+                      {regeneratingId === entry.id ? (
+                        <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                      ) : (
+                        <RotateCw className="mr-2 h-3 w-3" />
+                      )}
+                      Regenerate
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => deleteEntry(entry)}>
+                      <Trash2 className="h-4 w-4 text-slate-500" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {entry.outputs.map((output, index) => {
+                    const copyKey = `${entry.id}-${index}`
+                    return (
+                      <div
+                        key={copyKey}
+                        className="relative p-4 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700"
+                      >
+                        <p className="text-sm text-[#1E293B] dark:text-slate-100 leading-relaxed pr-10 whitespace-pre-wrap">
+                          {output}
+                        </p>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="absolute top-2 right-2 h-8 w-8"
+                          onClick={() => copyToClipboard(output, copyKey)}
+                        >
+                          {copied === copyKey ? (
+                            <Check className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <Copy className="h-4 w-4 text-slate-500" />
+                          )}
+                          <span className="sr-only">Copy</span>
+                        </Button>
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          )}
+
+          {!isLoading && entries.length < total && (
+            <Button variant="outline" className="w-full" onClick={() => loadHistory(entries.length)}>
+              Load more
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
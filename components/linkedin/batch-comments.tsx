@@ -0,0 +1,565 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useRef } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Progress } from "@/components/ui/progress"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, Check, Copy, Download, FileUp, Loader2, RotateCw, Square, X, Zap } from "lucide-react"
+import VoiceProfileSelect from "@/components/voice-profiles/voice-profile-select"
+import FlaggedPhrases from "@/components/voice-profiles/flagged-phrases"
+import PendingReview from "@/components/review/pending-review"
+import { toCsv } from "@/lib/csv"
+import type { ReviewSummary } from "@/lib/review/types"
+import { isAbortError, readSSEStream } from "@/lib/sse"
+
+type BatchItemStatus = "queued" | "parsing" | "generating" | "done" | "failed"
+
+interface BatchRow {
+  url: string
+  status: BatchItemStatus
+  title?: string | null
+  tone?: string
+  comment?: string
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
+  error?: string
+  retryable?: boolean
+}
+
+// Events sent by /api/generate-comments/batch
+type BatchStreamEvents = {
+  batch: { total: number; items: BatchRow[] }
+  item: BatchRow & { index: number }
+  done: { total: number; succeeded: number; failed: number }
+  error: { error: string }
+}
+
+interface ToneOption {
+  value: string
+  label: string
+}
+
+interface BatchCommentsProps {
+  toneOptions: ToneOption[]
+}
+
+const MAX_BATCH_SIZE = 50
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  parsing: "Parsing",
+  generating: "Generating",
+  done: "Done",
+  failed: "Failed",
+}
+
+// Pulls URLs out of pasted text (one per line, or separated by spaces/commas)
+const extractUrls = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,]+/).filter((part) => /^https?:\/\//i.test(part))))
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export default function BatchComments({ toneOptions }: BatchCommentsProps) {
+  const [urlInput, setUrlInput] = useState("")
+  const [csvFile, setCsvFile] = useState<File | null>(null)
+  const [useSmartTone, setUseSmartTone] = useState(true)
+  const [selectedTone, setSelectedTone] = useState<string>("supportive")
+  const [voiceProfileId, setVoiceProfileId] = useState<string | null>(null)
+
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState<number | null>(null)
+
+  const batchRequestRef = useRef<AbortController | null>(null)
+  const retryRequestsRef = useRef(new Set<AbortController>())
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Cancel anything still streaming on unmount
+  useEffect(() => {
+    const retryRequests = retryRequestsRef.current
+    return () => {
+      batchRequestRef.current?.abort()
+      retryRequests.forEach((controller) => controller.abort())
+    }
+  }, [])
+
+  const pastedUrls = extractUrls(urlInput)
+  const finishedCount = rows.filter((row) => row.status === "done" || row.status === "failed").length
+  const succeededRows = rows.filter((row) => row.status === "done")
+  const failedCount = rows.filter((row) => row.status === "failed").length
+
+  const updateRow = (index: number, update: Partial<BatchRow>) => {
+    setRows((prev) => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)))
+  }
+
+  const readErrorResponse = async (response: Response): Promise<string> => {
+    try {
+      const data = await response.json()
+      return data.error || `Batch request failed (${response.status})`
+    } catch {
+      return `Batch request failed (${response.status}). Please try again.`
+    }
+  }
+
+  const toneSettings = () => ({
+    useSmartTone,
+    selectedTone: !useSmartTone ? selectedTone : undefined,
+    voiceProfileId: voiceProfileId || undefined,
+  })
+
+  const startBatch = async () => {
+    if (!csvFile && pastedUrls.length === 0) {
+      setError("Paste at least one post URL or upload a CSV file.")
+      return
+    }
+
+    if (!csvFile && pastedUrls.length > MAX_BATCH_SIZE) {
+      setError(`Batches are limited to ${MAX_BATCH_SIZE} URLs. Please split the list and try again.`)
+      return
+    }
+
+    batchRequestRef.current?.abort()
+    const controller = new AbortController()
+    batchRequestRef.current = controller
+
+    setIsRunning(true)
+    setError(null)
+    setRows(csvFile ? [] : pastedUrls.map((url) => ({ url, status: "queued" })))
+
+    try {
+      let body: BodyInit
+      const headers: HeadersInit = {}
+
+      if (csvFile) {
+        const form = new FormData()
+        form.append("file", csvFile)
+        form.append("useSmartTone", String(useSmartTone))
+        if (!useSmartTone) form.append("selectedTone", selectedTone)
+        if (voiceProfileId) form.append("voiceProfileId", voiceProfileId)
+        body = form
+      } else {
+        headers["Content-Type"] = "application/json"
+        body = JSON.stringify({ urls: pastedUrls, ...toneSettings() })
+      }
+
+      const response = await fetch("/api/generate-comments/batch", {
+        method: "POST",
+        headers,
+        body,
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        setRows([])
+        setError(await readErrorResponse(response))
+        return
+      }
+
+      await readSSEStream<BatchStreamEvents>(response, ({ event, data }) => {
+        if (event === "batch") {
+          setRows(data.items.map((item) => ({ url: item.url, status: item.status })))
+        } else if (event === "item") {
+          const { index, ...update } = data
+          updateRow(index, update)
+        } else if (event === "error") {
+          setError(data.error)
+        }
+      })
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return
+
+      console.error("❌ Batch generation failed:", error)
+      setError("Batch generation was interrupted. Retry the failed posts or start again.")
+    } finally {
+      if (batchRequestRef.current === controller) {
+        batchRequestRef.current = null
+        setIsRunning(false)
+
+        // Anything still in flight when the stream ended can be retried individually
+        setRows((prev) =>
+          prev.map((row) =>
+            row.status === "done" || row.status === "failed"
+              ? row
+              : { ...row, status: "failed", error: "Not processed", retryable: true },
+          ),
+        )
+      }
+    }
+  }
+
+  const cancelBatch = () => {
+    batchRequestRef.current?.abort()
+  }
+
+  // Re-runs the given rows as one small batch so retries share a single rate-limited request
+  const retryRows = async (indices: number[]) => {
+    const rowIndexByUrl = new Map(indices.map((index) => [rows[index].url, index]))
+    if (rowIndexByUrl.size === 0) return
+
+    const controller = new AbortController()
+    retryRequestsRef.current.add(controller)
+    setError(null)
+    setRows((prev) =>
+      prev.map((row) =>
+        rowIndexByUrl.has(row.url) ? { ...row, status: "queued", error: undefined, retryable: undefined } : row,
+      ),
+    )
+
+    const failPending = (message: string) =>
+      setRows((prev) =>
+        prev.map((row) =>
+          rowIndexByUrl.has(row.url) && row.status !== "done" && row.status !== "failed"
+            ? { ...row, status: "failed", error: message, retryable: true }
+            : row,
+        ),
+      )
+
+    try {
+      const response = await fetch("/api/generate-comments/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ urls: Array.from(rowIndexByUrl.keys()), ...toneSettings() }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        failPending(await readErrorResponse(response))
+        return
+      }
+
+      await readSSEStream<BatchStreamEvents>(response, ({ event, data }) => {
+        if (event === "item") {
+          const rowIndex = rowIndexByUrl.get(data.url)
+          if (rowIndex === undefined) return
+
+          const { index: _itemIndex, ...update } = data
+          updateRow(rowIndex, update)
+        }
+      })
+
+      failPending("Retry was interrupted")
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return
+
+      console.error("❌ Retry failed:", error)
+      failPending("Retry failed. Please try again.")
+    } finally {
+      retryRequestsRef.current.delete(controller)
+    }
+  }
+
+  const retryAllFailed = () => {
+    retryRows(rows.flatMap((row, index) => (row.status === "failed" && row.retryable ? [index] : [])))
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null
+    setCsvFile(file)
+    setError(null)
+  }
+
+  const clearFile = () => {
+    setCsvFile(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""
+    }
+  }
+
+  const copyComment = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(index)
+      setTimeout(() => setCopied(null), 2000)
+    } catch (error) {
+      console.error("Failed to copy text:", error)
+    }
+  }
+
+  const exportResults = (format: "csv" | "json") => {
+    const results = succeededRows.map((row) => ({
+      title: row.title || "",
+      url: row.url,
+      tone: row.tone || "",
+      comment: row.comment || "",
+      // Exports travel further than the screen, so pending comments stay marked there too
+      review: row.review?.status ?? "",
+    }))
+    const date = new Date().toISOString().slice(0, 10)
+
+    if (format === "csv") {
+      const csv = toCsv([
+        ["title", "url", "tone", "comment", "review"],
+        ...results.map((result) => [result.title, result.url, result.tone, result.comment, result.review]),
+      ])
+      downloadFile(csv, `altreach-comments-${date}.csv`, "text/csv;charset=utf-8")
+    } else {
+      downloadFile(JSON.stringify(results, null, 2), `altreach-comments-${date}.json`, "application/json")
+    }
+  }
+
+  const statusBadge = (status: BatchItemStatus) => {
+    const styles: Record<BatchItemStatus, string> = {
+      queued: "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300",
+      parsing: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300",
+      generating: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300",
+      done: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+      failed: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+    }
+
+    return (
+      <Badge variant="secondary" className={`text-xs whitespace-nowrap ${styles[status]}`}>
+        {(status === "parsing" || status === "generating") && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+        {STATUS_LABELS[status]}
+      </Badge>
+    )
+  }
+
+  return (
+    <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl overflow-hidden">
+      <CardHeader className="pb-6 border-b border-slate-100 dark:border-slate-800">
+        <CardTitle className="text-2xl font-bold text-[#1E293B] dark:text-white">Batch Comments</CardTitle>
+        <CardDescription className="text-slate-500 dark:text-slate-400">
+          Paste up to {MAX_BATCH_SIZE} LinkedIn post URLs or upload a CSV and generate a comment for each
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-6">
+        {/* URL input */}
+        <div className="space-y-2">
+          <label htmlFor="batch-urls" className="text-sm font-medium text-[#1E293B] dark:text-slate-200">
+            Post URLs
+          </label>
+          <Textarea
+            id="batch-urls"
+            placeholder={"https://www.linkedin.com/posts/...\nhttps://www.linkedin.com/posts/..."}
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            disabled={isRunning || !!csvFile}
+            className="min-h-[140px] font-mono text-sm"
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {pastedUrls.length} URL{pastedUrls.length !== 1 ? "s" : ""} detected, one per line
+          </p>
+        </div>
+
+        {/* CSV upload */}
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isRunning}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Upload CSV
+          </Button>
+          {csvFile ? (
+            <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              <span className="truncate max-w-[220px]">{csvFile.name}</span>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={clearFile} disabled={isRunning}>
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove file</span>
+              </Button>
+            </div>
+          ) : (
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Uses a &quot;url&quot; column if present, otherwise any cell containing a link
+            </span>
+          )}
+        </div>
+
+        {/* Tone settings */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="flex items-center gap-3">
+            <Switch id="batch-smart-tone" checked={useSmartTone} onCheckedChange={setUseSmartTone} />
+            <label htmlFor="batch-smart-tone" className="text-sm font-medium text-[#1E293B] dark:text-slate-200">
+              Smart tone per post
+            </label>
+          </div>
+          {!useSmartTone && (
+            <Select value={selectedTone} onValueChange={setSelectedTone}>
+              <SelectTrigger className="w-full sm:w-[200px]">
+                <SelectValue placeholder="Select tone" />
+              </SelectTrigger>
+              <SelectContent>
+                {toneOptions.map((tone) => (
+                  <SelectItem key={tone.value} value={tone.value}>
+                    {tone.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <VoiceProfileSelect value={voiceProfileId} onChange={setVoiceProfileId} className="sm:max-w-sm" />
+
+        {/* Actions */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            className="flex-1 h-12 font-semibold bg-[#3B82F6] hover:bg-[#2563EB] text-white"
+            onClick={startBatch}
+            disabled={isRunning || (!csvFile && pastedUrls.length === 0)}
+          >
+            {isRunning ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Processing {finishedCount}/{rows.length || "…"}
+              </>
+            ) : (
+              <>
+                <Zap className="mr-2 h-4 w-4" />
+                Generate Comments
+              </>
+            )}
+          </Button>
+          {isRunning && (
+            <Button variant="outline" className="h-12" onClick={cancelBatch}>
+              <Square className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+            <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+            <AlertDescription className="text-red-600 dark:text-red-400">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Results */}
+        {rows.length > 0 && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-300">
+                <span>
+                  {succeededRows.length} done · {failedCount} failed · {rows.length} total
+                </span>
+                <div className="flex gap-2">
+                  {failedCount > 0 && !isRunning && (
+                    <Button variant="outline" size="sm" onClick={retryAllFailed}>
+                      <RotateCw className="mr-2 h-3 w-3" />
+                      Retry failed
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportResults("csv")}
+                    disabled={succeededRows.length === 0}
+                  >
+                    <Download className="mr-2 h-3 w-3" />
+                    CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportResults("json")}
+                    disabled={succeededRows.length === 0}
+                  >
+                    <Download className="mr-2 h-3 w-3" />
+                    JSON
+                  </Button>
+                </div>
+              </div>
+              <Progress value={(finishedCount / rows.length) * 100} className="h-2" />
+            </div>
+
+            <div className="rounded-lg border border-slate-200 dark:border-slate-800 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">#</TableHead>
+                    <TableHead className="min-w-[180px]">Post</TableHead>
+                    <TableHead className="w-28">Status</TableHead>
+                    <TableHead className="min-w-[280px]">Comment</TableHead>
+                    <TableHead className="w-20" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={`${row.url}-${index}`}>
+                      <TableCell className="text-slate-500">{index + 1}</TableCell>
+                      <TableCell>
+                        <div className="font-medium text-[#1E293B] dark:text-slate-100 line-clamp-2">
+                          {row.title || "Untitled post"}
+                        </div>
+                        <a
+                          href={row.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline break-all line-clamp-1"
+                        >
+                          {row.url}
+                        </a>
+                      </TableCell>
+                      <TableCell>{statusBadge(row.status)}</TableCell>
+                      <TableCell>
+                        {row.comment ? (
+                          <div className="space-y-1">
+                            <p className="text-sm text-[#1E293B] dark:text-slate-100 leading-relaxed">{row.comment}</p>
+                            {row.tone && <p className="text-xs text-slate-500 dark:text-slate-400">Tone: {row.tone}</p>}
+                            <FlaggedPhrases phrases={row.flaggedPhrases} />
+                            <PendingReview review={row.review} />
+                          </div>
+                        ) : row.error ? (
+                          <p className="text-sm text-red-600 dark:text-red-400">{row.error}</p>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.comment && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => copyComment(row.comment as string, index)}
+                          >
+                            {copied === index ? (
+                              <Check className="h-4 w-4 text-green-600" />
+                            ) : (
+                              <Copy className="h-4 w-4 text-slate-500" />
+                            )}
+                            <span className="sr-only">Copy comment</span>
+                          </Button>
+                        )}
+                        {row.status === "failed" && row.retryable && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => retryRows([index])}>
+                            <RotateCw className="h-4 w-4 text-slate-500" />
+                            <span className="sr-only">Retry</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
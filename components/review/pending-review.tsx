@@ -0,0 +1,21 @@
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Clock } from "lucide-react"
+import type { ReviewSummary } from "@/lib/review/types"
+
+// Marks generated content that is waiting in the review queue, so it isn't used before a reviewer approves it
+export default function PendingReview({ review, className }: { review?: ReviewSummary | null; className?: string }) {
+  if (review?.status !== "pending") return null
+
+  return (
+    <Link href="/reviews" title="A reviewer has to approve this before it's used">
+      <Badge
+        variant="outline"
+        className={`gap-1 text-xs border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-400 ${className || ""}`}
+      >
+        <Clock className="h-3 w-3" />
+        Pending review – don&apos;t post yet
+      </Badge>
+    </Link>
+  )
+}
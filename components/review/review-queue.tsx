@@ -0,0 +1,463 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { format } from "date-fns"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertCircle,
+  Check,
+  ChevronDown,
+  ClipboardCheck,
+  Copy,
+  ExternalLink,
+  Loader2,
+  Pencil,
+  RotateCcw,
+  X,
+} from "lucide-react"
+import type { HistoryKind, HistoryPlatform } from "@/lib/history/types"
+import type { ReviewAction, ReviewDecision, ReviewItem, ReviewStatus } from "@/lib/review/types"
+
+const PLATFORM_LABELS: Record<HistoryPlatform, string> = {
+  linkedin: "LinkedIn",
+  twitter: "Twitter/X",
+  instagram: "Instagram",
+  facebook: "Facebook",
+}
+
+const KIND_LABELS: Record<HistoryKind, string> = {
+  comment: "Comment",
+  "connection-message": "Connection message",
+  reply: "Reply",
+  post: "Post",
+}
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+}
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  submitted: "submitted for review",
+  edited: "edited the content",
+  approved: "approved",
+  rejected: "rejected",
+  reopened: "reopened",
+}
+
+export default function ReviewQueue() {
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [counts, setCounts] = useState<Record<ReviewStatus, number>>({ pending: 0, approved: 0, rejected: 0 })
+  const [required, setRequired] = useState(true)
+  const [canReview, setCanReview] = useState(false)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [status, setStatus] = useState<ReviewStatus>("pending")
+  const [kind, setKind] = useState<HistoryKind | "all">("all")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams({ status })
+    if (kind !== "all") params.set("kind", kind)
+
+    try {
+      const response = await fetch(`/api/reviews?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load review queue")
+      }
+
+      setItems(data.items)
+      setCounts(data.counts)
+      setRequired(data.required)
+      setCanReview(data.canReview)
+      setUserId(data.userId)
+    } catch (error) {
+      console.error("❌ Error loading review queue:", error)
+      setError(error instanceof Error ? error.message : "Failed to load review queue")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, kind])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  // Resolves to false (with the error shown) so cards keep their edits
+  // The server records the signed-in user as the reviewer
+  const decide = async (item: ReviewItem, decision: ReviewDecision): Promise<boolean> => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/reviews/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(decision),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save review decision")
+      }
+
+      await loadQueue()
+      return true
+    } catch (error) {
+      console.error("❌ Error saving review decision:", error)
+      setError(error instanceof Error ? error.message : "Failed to save review decision")
+      return false
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl">
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <div className="flex justify-end">
+            <Select value={kind} onValueChange={(value) => setKind(value as HistoryKind | "all")}>
+              <SelectTrigger className="sm:w-56">
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Tabs value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+            <TabsList>
+              {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map((value) => (
+                <TabsTrigger key={value} value={value}>
+                  {STATUS_LABELS[value]} ({counts[value]})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {!canReview && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              You&apos;re seeing the content you generated. A reviewer approves it before it&apos;s used.
+            </p>
+          )}
+          {!required && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Review is turned off on this server (REVIEW_REQUIRED=false): only generations sent with
+              submitForReview are queued.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
+          <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+          <AlertDescription className="text-red-600 dark:text-red-400">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : items.length === 0 ? (
+        <Card className="shadow-lg border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl">
+          <CardContent className="p-10 text-center">
+            <ClipboardCheck className="h-10 w-10 mx-auto text-slate-300 dark:text-slate-600 mb-3" />
+            <p className="text-slate-500 dark:text-slate-400">
+              {status === "pending" ? "Nothing waiting for review." : `No ${status} items yet.`}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => (
+            <ReviewItemCard
+              key={item.id}
+              item={item}
+              canDecide={canReview && item.submittedById !== userId}
+              onDecide={(decision) => decide(item, decision)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ReviewItemCardProps {
+  item: ReviewItem
+  canDecide: boolean // Reviewers only, and never on their own content
+  onDecide: (decision: ReviewDecision) => Promise<boolean>
+}
+
+function ReviewItemCard({ item, canDecide, onDecide }: ReviewItemCardProps) {
+  const [mode, setMode] = useState<"view" | "edit" | "reject">("view")
+  const [drafts, setDrafts] = useState(item.outputs)
+  const [note, setNote] = useState("")
+  const [busy, setBusy] = useState<string | null>(null)
+  const [copied, setCopied] = useState<number | null>(null)
+
+  const isPending = item.status === "pending"
+  const isEdited = item.outputs.join("\n") !== item.originalOutputs.join("\n")
+
+  const run = async (key: string, decision: ReviewDecision) => {
+    setBusy(key)
+    const saved = await onDecide(decision)
+    setBusy(null)
+    if (saved) {
+      setMode("view")
+      setNote("")
+    }
+  }
+
+  const copyOutput = async (index: number, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(index)
+      setTimeout(() => setCopied(null), 2000)
+    } catch (error) {
+      console.error("Failed to copy text:", error)
+    }
+  }
+
+  return (
+    <Card className="shadow-md border-0 dark:border-slate-800 bg-white dark:bg-slate-950 rounded-xl overflow-hidden">
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge className="bg-gradient-to-r from-blue-600 to-cyan-600 text-white text-xs">
+            {PLATFORM_LABELS[item.platform]}
+          </Badge>
+          <Badge variant="secondary" className="text-xs">
+            {KIND_LABELS[item.kind]}
+          </Badge>
+          {item.tone && (
+            <Badge variant="outline" className="text-xs">
+              {item.tone}
+            </Badge>
+          )}
+          {isEdited && (
+            <Badge variant="outline" className="text-xs">
+              Edited
+            </Badge>
+          )}
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            {item.submittedBy ? `${item.submittedBy} · ` : ""}
+            {format(new Date(item.createdAt), "MMM d, yyyy · h:mm a")}
+          </span>
+        </div>
+
+        {/* Source context */}
+        {(item.source.url || item.source.content) && (
+          <div className="p-3 rounded-lg border border-dashed border-slate-200 dark:border-slate-700 space-y-1">
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400">Generated from</p>
+            {item.source.url && (
+              <a
+                href={item.source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline break-all"
+              >
+                {item.source.url}
+                <ExternalLink className="h-3 w-3 shrink-0" />
+              </a>
+            )}
+            {item.source.content && (
+              <p className="text-sm text-slate-600 dark:text-slate-300 line-clamp-4 whitespace-pre-wrap">
+                {item.source.content}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Generated content */}
+        <div className="space-y-2">
+          {mode === "edit"
+            ? drafts.map((draft, index) => (
+                <Textarea
+                  key={index}
+                  value={draft}
+                  onChange={(e) =>
+                    setDrafts(drafts.map((value, position) => (position === index ? e.target.value : value)))
+                  }
+                  className="min-h-[100px] text-sm"
+                />
+              ))
+            : item.outputs.map((output, index) => (
+                <div
+                  key={index}
+                  className="relative p-4 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700"
+                >
+                  <p className="text-sm text-[#1E293B] dark:text-slate-100 leading-relaxed pr-10 whitespace-pre-wrap">
+                    {output}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute top-2 right-2 h-8 w-8"
+                    onClick={() => copyOutput(index, output)}
+                  >
+                    {copied === index ? (
+                      <Check className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Copy className="h-4 w-4 text-slate-500" />
+                    )}
+                    <span className="sr-only">Copy</span>
+                  </Button>
+                </div>
+              ))}
+        </div>
+
+        {item.reviewNote && !isPending && (
+          <p className="text-sm text-slate-600 dark:text-slate-300">
+            <span className="font-medium">{item.reviewedBy || "Reviewer"}:</span> {item.reviewNote}
+          </p>
+        )}
+
+        {mode === "reject" && (
+          <Textarea
+            placeholder="What needs to change? The note is shown with the rejection."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="min-h-[80px] text-sm"
+          />
+        )}
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-2">
+          {canDecide && isPending && mode === "view" && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => run("approve", { action: "approve" })}
+                disabled={busy !== null}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                {busy === "approve" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                Approve
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setDrafts(item.outputs)
+                  setMode("edit")
+                }}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setMode("reject")}>
+                <X className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+            </>
+          )}
+
+          {mode === "edit" && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => run("approve", { action: "approve", outputs: drafts })}
+                disabled={busy !== null}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                {busy === "approve" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                Save and approve
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => run("edit", { action: "edit", outputs: drafts })}
+                disabled={busy !== null}
+              >
+                {busy === "edit" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save edits
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setMode("view")}>
+                Cancel
+              </Button>
+            </>
+          )}
+
+          {mode === "reject" && (
+            <>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => run("reject", { action: "reject", note })}
+                disabled={busy !== null || !note.trim()}
+              >
+                {busy === "reject" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+                Reject
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setMode("view")}>
+                Cancel
+              </Button>
+            </>
+          )}
+
+          {canDecide && !isPending && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => run("reopen", { action: "reopen" })}
+              disabled={busy !== null}
+            >
+              {busy === "reopen" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Reopen
+            </Button>
+          )}
+        </div>
+
+        {/* Audit trail */}
+        <Collapsible>
+          <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 hover:underline">
+            <ChevronDown className="h-3 w-3" />
+            Audit trail ({item.audit.length})
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ol className="mt-2 space-y-2 border-l border-slate-200 dark:border-slate-700 pl-3">
+              {item.audit.map((event) => (
+                <li key={event.id} className="text-xs text-slate-600 dark:text-slate-300">
+                  <span className="font-medium">{event.actor || "Someone"}</span> {ACTION_LABELS[event.action]}
+                  <span className="text-slate-400"> · {format(new Date(event.at), "MMM d, yyyy · h:mm a")}</span>
+                  {event.note && <p className="text-slate-500 dark:text-slate-400">“{event.note}”</p>}
+                  {event.before && (
+                    <details className="mt-1">
+                      <summary className="cursor-pointer text-slate-400">Previous wording</summary>
+                      <p className="mt-1 whitespace-pre-wrap text-slate-500 dark:text-slate-400">
+                        {event.before.join("\n\n")}
+                      </p>
+                    </details>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,315 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import {
+  addDays,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isToday,
+  max,
+  min,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Calendar } from "@/components/ui/calendar"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  AlertCircle,
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Loader2,
+  Send,
+  Trash2,
+} from "lucide-react"
+import SchedulePicker from "./schedule-picker"
+import type { ScheduledPost, SchedulePlatform, ScheduleStatus } from "@/lib/schedule/types"
+
+const PLATFORM_LABELS: Record<SchedulePlatform, string> = {
+  twitter: "Twitter/X",
+  linkedin: "LinkedIn",
+  instagram: "Instagram",
+}
+
+const STATUS_STYLES: Record<ScheduleStatus, string> = {
+  draft: "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300",
+  scheduled: "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300",
+  published: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+  failed: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+}
+
+// Weeks start on Monday, matching how most teams plan content
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+export default function ScheduleCalendar() {
+  const [selectedDate, setSelectedDate] = useState(() => new Date())
+  const [month, setMonth] = useState(() => new Date())
+  const [posts, setPosts] = useState<ScheduledPost[]>([])
+  const [drafts, setDrafts] = useState<ScheduledPost[]>([])
+  const [publisher, setPublisher] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const weekStart = startOfWeek(selectedDate, WEEK_OPTIONS)
+  const weekDays = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+
+  // Covers the visible month grid and the selected week, which can spill into the next month
+  const rangeStart = min([startOfWeek(startOfMonth(month), WEEK_OPTIONS), weekStart]).toISOString()
+  const rangeEnd = max([endOfWeek(endOfMonth(month), WEEK_OPTIONS), endOfWeek(selectedDate, WEEK_OPTIONS)]).toISOString()
+
+  const loadSchedule = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ from: rangeStart, to: rangeEnd })
+      const [rangeResponse, draftResponse] = await Promise.all([
+        fetch(`/api/schedule?${params.toString()}`),
+        fetch("/api/schedule?status=draft"),
+      ])
+      const [rangeData, draftData] = await Promise.all([rangeResponse.json(), draftResponse.json()])
+
+      if (!rangeResponse.ok || !draftResponse.ok) {
+        throw new Error(rangeData.error || draftData.error || "Failed to load schedule")
+      }
+
+      setPosts(rangeData.posts)
+      setDrafts(draftData.posts.filter((post: ScheduledPost) => !post.scheduledAt))
+      setPublisher(rangeData.publisher)
+    } catch (error) {
+      console.error("❌ Error loading schedule:", error)
+      setError(error instanceof Error ? error.message : "Failed to load schedule")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [rangeStart, rangeEnd])
+
+  useEffect(() => {
+    loadSchedule()
+  }, [loadSchedule])
+
+  const selectDate = (date: Date) => {
+    setSelectedDate(date)
+    setMonth(date)
+  }
+
+  // Every mutation returns the updated post or an error; refresh rather than patching locally
+  const mutate = async (post: ScheduledPost, url: string, init: RequestInit) => {
+    setBusyId(post.id)
+    setError(null)
+
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed. Please try again.")
+      }
+
+      await loadSchedule()
+      return data
+    } catch (error) {
+      console.error("❌ Error updating scheduled post:", error)
+      setError(error instanceof Error ? error.message : "Request failed. Please try again.")
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const reschedule = async (post: ScheduledPost, scheduledAt: string | null, status: "draft" | "scheduled") => {
+    const { platform, parts, hashtags, topic } = post
+    const data = await mutate(post, `/api/schedule/${post.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ platform, parts, hashtags, topic, scheduledAt, status }),
+    })
+    if (data && scheduledAt) selectDate(new Date(scheduledAt))
+    return !!data
+  }
+
+  const publishNow = async (post: ScheduledPost) => {
+    const data = await mutate(post, `/api/schedule/${post.id}/publish`, { method: "POST" })
+    if (data?.post.status === "failed") {
+      setError(`Publishing failed: ${data.post.lastError}`)
+    }
+  }
+
+  const deletePost = (post: ScheduledPost) => mutate(post, `/api/schedule/${post.id}`, { method: "DELETE" })
+
+  const datedPosts = posts.filter((post) => post.scheduledAt)
+  const scheduledDays = datedPosts.map((post) => new Date(post.scheduledAt!))
+
+  const renderPost = (post: ScheduledPost) => {
+    const isBusy = busyId === post.id
+    const canPublish = post.status !== "published"
+
+    return (
+      <Card key={post.id} className="border-slate-200 dark:border-slate-700">
+        <CardContent className="p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-1">
+            {post.scheduledAt && (
+              <span className="text-xs font-semibold text-[#1E293B] dark:text-white mr-1">
+                {format(new Date(post.scheduledAt), "HH:mm")}
+              </span>
+            )}
+            <Badge variant="outline" className="text-[10px]">
+              {PLATFORM_LABELS[post.platform]}
+            </Badge>
+            <Badge variant="secondary" className={`text-[10px] ${STATUS_STYLES[post.status]}`}>
+              {post.status}
+            </Badge>
+            {post.parts.length > 1 && (
+              <Badge variant="secondary" className="text-[10px]">
+                {post.parts.length} posts
+              </Badge>
+            )}
+          </div>
+
+          <p className="text-sm text-slate-700 dark:text-slate-300 line-clamp-3 whitespace-pre-wrap">{post.parts[0]}</p>
+
+          {post.status === "failed" && post.lastError && (
+            <p className="text-xs text-red-600 dark:text-red-400">{post.lastError}</p>
+          )}
+
+          <div className="flex items-center justify-end gap-1">
+            {isBusy && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+            {canPublish && (
+              <SchedulePicker
+                initialDate={post.scheduledAt}
+                submitLabel="Reschedule"
+                onSubmit={(scheduledAt, status) => reschedule(post, scheduledAt, status)}
+              >
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={isBusy}>
+                  <CalendarClock className="h-4 w-4 text-slate-500 dark:text-slate-400" />
+                  <span className="sr-only">Reschedule</span>
+                </Button>
+              </SchedulePicker>
+            )}
+            {canPublish && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => publishNow(post)}
+                disabled={isBusy}
+              >
+                <Send className="h-4 w-4 text-slate-500 dark:text-slate-400" />
+                <span className="sr-only">Publish now</span>
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deletePost(post)} disabled={isBusy}>
+              <Trash2 className="h-4 w-4 text-slate-500 dark:text-slate-400" />
+              <span className="sr-only">Delete</span>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => selectDate(addWeeks(selectedDate, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous week</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => selectDate(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => selectDate(addWeeks(selectedDate, 1))}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next week</span>
+          </Button>
+          <span className="ml-2 text-sm font-medium text-[#1E293B] dark:text-white">
+            {format(weekStart, "d MMM")} – {format(addDays(weekStart, 6), "d MMM yyyy")}
+          </span>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+        </div>
+        <div className="flex items-center gap-2">
+          {publisher && (
+            <Badge variant="outline" className="text-xs">
+              Publisher: {publisher}
+            </Badge>
+          )}
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/schedule/export" download>
+              <Download className="mr-2 h-4 w-4" />
+              Export .ics
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+        <Card className="border-slate-200 dark:border-slate-700 self-start">
+          <CardContent className="p-0">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(date) => date && selectDate(date)}
+              month={month}
+              onMonthChange={setMonth}
+              weekStartsOn={WEEK_OPTIONS.weekStartsOn}
+              modifiers={{ scheduled: scheduledDays }}
+              modifiersClassNames={{ scheduled: "font-bold underline decoration-[#1DA1F2] decoration-2 underline-offset-4" }}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-7">
+          {weekDays.map((day) => {
+            const dayPosts = datedPosts.filter((post) => isSameDay(new Date(post.scheduledAt!), day))
+
+            return (
+              <div key={day.toISOString()} className="space-y-2 min-w-0">
+                <button
+                  type="button"
+                  onClick={() => selectDate(day)}
+                  className={`w-full text-left text-sm font-semibold ${
+                    isToday(day) ? "text-[#1DA1F2]" : "text-[#1E293B] dark:text-white"
+                  } ${isSameDay(day, selectedDate) ? "underline underline-offset-4" : ""}`}
+                >
+                  {format(day, "EEE d")}
+                </button>
+                {dayPosts.length > 0 ? (
+                  dayPosts.map(renderPost)
+                ) : (
+                  <p className="text-xs text-slate-400 dark:text-slate-500">Nothing scheduled</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-[#1E293B] dark:text-white">Unscheduled drafts</h3>
+        {drafts.length > 0 ? (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">{drafts.map(renderPost)}</div>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Drafts saved without a date show up here. Use Schedule on any generated post to add one.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
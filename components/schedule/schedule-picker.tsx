@@ -0,0 +1,108 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { format, startOfToday } from "date-fns"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Calendar } from "@/components/ui/calendar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CalendarClock, Loader2, Save } from "lucide-react"
+
+interface SchedulePickerProps {
+  children: ReactNode // Trigger
+  initialDate?: string | null
+  submitLabel?: string
+  // Resolve to true to close the picker
+  onSubmit: (scheduledAt: string | null, status: "draft" | "scheduled") => Promise<boolean>
+}
+
+// The next whole hour, so a fresh picker never starts in the past
+function defaultDate(): Date {
+  const date = new Date()
+  date.setHours(date.getHours() + 1, 0, 0, 0)
+  return date
+}
+
+// Date and time in the browser's timezone; the API stores UTC
+export default function SchedulePicker({ children, initialDate, submitLabel = "Schedule", onSubmit }: SchedulePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [date, setDate] = useState<Date>(() => (initialDate ? new Date(initialDate) : defaultDate()))
+  const [time, setTime] = useState(() => format(initialDate ? new Date(initialDate) : defaultDate(), "HH:mm"))
+  const [submitting, setSubmitting] = useState<"draft" | "scheduled" | null>(null)
+
+  const scheduledAt = (() => {
+    const [hours, minutes] = time.split(":").map(Number)
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return null
+
+    const combined = new Date(date)
+    combined.setHours(hours, minutes, 0, 0)
+    return combined
+  })()
+
+  const isPast = !scheduledAt || scheduledAt.getTime() <= Date.now()
+
+  const submit = async (status: "draft" | "scheduled") => {
+    setSubmitting(status)
+    try {
+      if (await onSubmit(scheduledAt ? scheduledAt.toISOString() : null, status)) {
+        setIsOpen(false)
+      }
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={date}
+          onSelect={(selected) => selected && setDate(selected)}
+          disabled={{ before: startOfToday() }}
+          initialFocus
+        />
+        <div className="border-t border-slate-200 dark:border-slate-700 p-3 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="schedule-time" className="text-sm">
+              Time
+            </Label>
+            <Input
+              id="schedule-time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="h-8 w-32"
+            />
+          </div>
+          {scheduledAt && (
+            <p className={`text-xs ${isPast ? "text-red-600 dark:text-red-400" : "text-slate-500 dark:text-slate-400"}`}>
+              {isPast ? "Pick a time in the future" : format(scheduledAt, "EEE d MMM yyyy 'at' HH:mm")}
+            </p>
+          )}
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => submit("draft")} disabled={submitting !== null}>
+              {submitting === "draft" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save draft
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => submit("scheduled")}
+              disabled={submitting !== null || isPast}
+              className="bg-[#1DA1F2] hover:bg-[#1a91da] text-white"
+            >
+              {submitting === "scheduled" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarClock className="mr-2 h-4 w-4" />
+              )}
+              {submitLabel}
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { format } from "date-fns"
+import { Button, type ButtonProps } from "@/components/ui/button"
+import { CalendarClock } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import SchedulePicker from "./schedule-picker"
+import type { SchedulePlatform } from "@/lib/schedule/types"
+
+interface SchedulePostButtonProps {
+  platform: SchedulePlatform
+  parts: string[] // One entry per post; threads pass every post in order
+  hashtags?: string[]
+  topic?: string | null
+  label?: string
+  variant?: ButtonProps["variant"]
+  size?: ButtonProps["size"]
+  className?: string
+}
+
+// Adds generated content to the schedule queue, either dated or as a draft
+export default function SchedulePostButton({
+  platform,
+  parts,
+  hashtags = [],
+  topic = null,
+  label = "Schedule",
+  variant = "outline",
+  size = "sm",
+  className,
+}: SchedulePostButtonProps) {
+  const queuePost = async (scheduledAt: string | null, status: "draft" | "scheduled") => {
+    try {
+      const response = await fetch("/api/schedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ platform, parts: parts.filter((part) => part.trim()), hashtags, topic, scheduledAt, status }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to schedule post")
+      }
+
+      toast({
+        title: status === "draft" ? "Saved as draft" : "Post scheduled",
+        description:
+          status === "scheduled" && scheduledAt
+            ? `Goes out ${format(new Date(scheduledAt), "EEE d MMM 'at' HH:mm")}. Manage it from Schedule.`
+            : "Find it in Schedule when you're ready to pick a time.",
+      })
+      return true
+    } catch (error) {
+      console.error("❌ Error scheduling post:", error)
+      toast({
+        title: "Scheduling failed",
+        description: error instanceof Error ? error.message : "Failed to schedule post",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  return (
+    <SchedulePicker onSubmit={queuePost}>
+      <Button variant={variant} size={size} className={className} disabled={parts.every((part) => !part.trim())}>
+        <CalendarClock className={label ? "mr-2 h-4 w-4" : "h-4 w-4"} />
+        {label}
+        {!label && <span className="sr-only">Schedule</span>}
+      </Button>
+    </SchedulePicker>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Button } from "@/components/ui/button"
+import { Bell, CheckCheck, Loader2, Settings2 } from "lucide-react"
+import type { TrendAlertNotification } from "@/lib/trend-alerts/types"
+import { formatVolume } from "@/lib/trends/volume"
+
+// The scheduled evaluation runs every few minutes, so polling more often would only repeat requests
+const POLL_INTERVAL = 2 * 60 * 1000
+
+interface TrendAlertInboxProps {
+  onManageAlerts: () => void
+  onSelectHashtag?: (notification: TrendAlertNotification) => void
+}
+
+function formatAge(timestamp: string): string {
+  const minutes = Math.round((Date.now() - new Date(timestamp).getTime()) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`
+  return `${Math.round(minutes / (24 * 60))}d ago`
+}
+
+export default function TrendAlertInbox({ onManageAlerts, onSelectHashtag }: TrendAlertInboxProps) {
+  const [notifications, setNotifications] = useState<TrendAlertNotification[]>([])
+  const [unread, setUnread] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const response = await fetch("/api/trend-alerts/notifications?limit=30")
+      if (!response.ok) return
+
+      const data = await response.json()
+      setNotifications(data.notifications || [])
+      setUnread(data.unread || 0)
+    } catch (err) {
+      console.error("Error loading trend alert notifications:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadInbox()
+    const timer = setInterval(loadInbox, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [loadInbox])
+
+  const markRead = async (ids?: string[]) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/trend-alerts/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : {}),
+      })
+      if (response.ok) await loadInbox()
+    } catch (err) {
+      console.error("Error marking trend alerts as read:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSelect = (notification: TrendAlertNotification) => {
+    if (!notification.readAt) markRead([notification.id])
+    onSelectHashtag?.(notification)
+    setIsOpen(false)
+  }
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open)
+        if (open) loadInbox()
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative min-h-[36px]" aria-label="Trend alerts">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-slate-100 dark:border-slate-800 px-3 py-2">
+          <span className="text-sm font-semibold text-[#1E293B] dark:text-white">Trend alerts</span>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => markRead()}
+              disabled={isLoading || unread === 0}
+              aria-label="Mark all as read"
+            >
+              {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <CheckCheck className="h-3.5 w-3.5" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                setIsOpen(false)
+                onManageAlerts()
+              }}
+              aria-label="Manage trend alerts"
+            >
+              <Settings2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400 text-center px-4 py-8">
+              No alerts yet. Create a rule to get notified when a keyword starts trending.
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => handleSelect(notification)}
+                className={`w-full text-left px-3 py-2 border-b border-slate-100 dark:border-slate-800 last:border-0 hover:bg-slate-50 dark:hover:bg-slate-900 ${
+                  notification.readAt ? "" : "bg-blue-50/60 dark:bg-blue-900/10"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-sm font-medium text-[#1E293B] dark:text-white">
+                    {notification.hashtag}
+                  </span>
+                  <span className="text-xs text-slate-400 flex-shrink-0">{formatAge(notification.createdAt)}</span>
+                </div>
+                <p className="truncate text-xs text-slate-500 dark:text-slate-400">
+                  #{notification.rank} in {notification.country}
+                  {notification.volume !== null && ` · ${formatVolume(notification.volume)}`} · {notification.ruleName}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
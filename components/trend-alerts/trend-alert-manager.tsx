@@ -0,0 +1,467 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, BellOff, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import type { TrendAlertRule, AlertMatchType } from "@/lib/trend-alerts/types"
+import type { Country, TrendCategory } from "@/lib/trends/types"
+import { TREND_CATEGORIES } from "@/lib/trends/types"
+
+interface TrendAlertManagerProps {
+  isOpen: boolean
+  onClose: () => void
+  countries: Country[]
+  defaultCountry: string
+}
+
+interface RuleForm {
+  name: string
+  pattern: string
+  matchType: AlertMatchType
+  country: string
+  category: TrendCategory
+  minRank: string
+  minVolume: string
+  dedupeHours: string
+  inApp: boolean
+  webhookUrl: string
+  email: string
+  enabled: boolean
+}
+
+const CATEGORY_LABELS: Record<TrendCategory, string> = {
+  trending: "Trending now",
+  top: "Most tweeted (24h)",
+  longest: "Longest trending (24h)",
+}
+
+function emptyForm(country: string): RuleForm {
+  return {
+    name: "",
+    pattern: "",
+    matchType: "keyword",
+    country,
+    category: "trending",
+    minRank: "",
+    minVolume: "",
+    dedupeHours: "6",
+    inApp: true,
+    webhookUrl: "",
+    email: "",
+    enabled: true,
+  }
+}
+
+function toForm(rule: TrendAlertRule): RuleForm {
+  return {
+    name: rule.name,
+    pattern: rule.pattern,
+    matchType: rule.matchType,
+    country: rule.country,
+    category: rule.category,
+    minRank: rule.minRank !== null ? String(rule.minRank) : "",
+    minVolume: rule.minVolume !== null ? String(rule.minVolume) : "",
+    dedupeHours: String(rule.dedupeHours),
+    inApp: rule.channels.inApp,
+    webhookUrl: rule.channels.webhookUrl || "",
+    email: rule.channels.email || "",
+    enabled: rule.enabled,
+  }
+}
+
+// Blank number fields mean "no threshold"
+function toInput(form: RuleForm) {
+  const toNumber = (value: string) => (value.trim() ? Number(value) : null)
+  return {
+    name: form.name,
+    pattern: form.pattern,
+    matchType: form.matchType,
+    country: form.country,
+    category: form.category,
+    minRank: toNumber(form.minRank),
+    minVolume: toNumber(form.minVolume),
+    dedupeHours: toNumber(form.dedupeHours) ?? undefined,
+    channels: { inApp: form.inApp, webhookUrl: form.webhookUrl, email: form.email },
+    enabled: form.enabled,
+  }
+}
+
+export default function TrendAlertManager({ isOpen, onClose, countries, defaultCountry }: TrendAlertManagerProps) {
+  const [rules, setRules] = useState<TrendAlertRule[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  // null = creating a new rule
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(emptyForm(defaultCountry))
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRules = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/trend-alerts")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load trend alerts")
+      }
+
+      setRules(data.rules || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load trend alerts")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Start from a blank form each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setEditingId(null)
+      setForm(emptyForm(defaultCountry))
+      setError(null)
+      loadRules()
+    }
+  }, [isOpen])
+
+  const updateField = <K extends keyof RuleForm>(field: K, value: RuleForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const startEditing = (rule: TrendAlertRule) => {
+    setEditingId(rule.id)
+    setForm(toForm(rule))
+    setError(null)
+  }
+
+  const startCreating = () => {
+    setEditingId(null)
+    setForm(emptyForm(defaultCountry))
+    setError(null)
+  }
+
+  const saveRule = async () => {
+    if (!form.pattern.trim()) {
+      setError("Keyword or pattern is required")
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const input = toInput({ ...form, name: form.name.trim() || form.pattern.trim() })
+      const response = await fetch(editingId ? `/api/trend-alerts/${editingId}` : "/api/trend-alerts", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save trend alert")
+      }
+
+      setEditingId(data.rule.id)
+      setForm(toForm(data.rule))
+      loadRules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save trend alert")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteRule = async (rule: TrendAlertRule) => {
+    setDeletingId(rule.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/trend-alerts/${rule.id}`, { method: "DELETE" })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to delete trend alert")
+      }
+
+      if (editingId === rule.id) {
+        startCreating()
+      }
+      loadRules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete trend alert")
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const countryLabel = (slug: string) => countries.find((country) => country.slug === slug)?.label || slug
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[90vh] overflow-y-auto mx-auto">
+        <DialogHeader>
+          <DialogTitle>Trend Alerts</DialogTitle>
+          <DialogDescription>
+            Get notified when a keyword starts trending. Rules are checked against live trend data on a schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+          {/* Saved rules */}
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full justify-start" onClick={startCreating}>
+              <Plus className="mr-2 h-4 w-4" />
+              New alert
+            </Button>
+
+            {isLoading && rules.length === 0 ? (
+              <div className="flex justify-center py-4 text-slate-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : rules.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 px-1">No trend alerts yet.</p>
+            ) : (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center gap-1 rounded-lg border px-3 py-2 ${
+                    editingId === rule.id
+                      ? "border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-900/20"
+                      : "border-slate-200 dark:border-slate-700"
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-sm font-medium text-[#1E293B] dark:text-white flex items-center gap-1">
+                      {!rule.enabled && <BellOff className="h-3 w-3 text-slate-400 flex-shrink-0" />}
+                      {rule.name}
+                    </p>
+                    <p className="truncate text-xs text-slate-500 dark:text-slate-400">{countryLabel(rule.country)}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(rule)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                    <span className="sr-only">Edit {rule.name}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteRule(rule)}
+                    disabled={deletingId === rule.id}
+                  >
+                    {deletingId === rule.id ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-3.5 w-3.5 text-slate-500" />
+                    )}
+                    <span className="sr-only">Delete {rule.name}</span>
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Rule form */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <h4 className="text-sm font-semibold text-[#1E293B] dark:text-white">
+                {editingId ? "Edit alert" : "New alert"}
+              </h4>
+              {editingId && (
+                <Badge variant="secondary" className="text-xs">
+                  Saved
+                </Badge>
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                <Label htmlFor="alert-enabled" className="text-xs text-slate-500">
+                  Enabled
+                </Label>
+                <Switch
+                  id="alert-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(checked) => updateField("enabled", checked)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="alert-name">Name</Label>
+                <Input
+                  id="alert-name"
+                  value={form.name}
+                  onChange={(e) => updateField("name", e.target.value)}
+                  placeholder="Defaults to the keyword"
+                  maxLength={80}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Match</Label>
+                <Select
+                  value={form.matchType}
+                  onValueChange={(value) => updateField("matchType", value as AlertMatchType)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keyword">Keyword</SelectItem>
+                    <SelectItem value="regex">Regular expression</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="alert-pattern">{form.matchType === "regex" ? "Pattern" : "Keyword"}</Label>
+              <Input
+                id="alert-pattern"
+                value={form.pattern}
+                onChange={(e) => updateField("pattern", e.target.value)}
+                placeholder={form.matchType === "regex" ? "^(ai|llm)" : "e.g. product launch"}
+                maxLength={200}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {form.matchType === "regex"
+                  ? "Case-insensitive, tested against the trend without its leading #"
+                  : "Matches trends containing the keyword, ignoring case, spaces and #"}
+              </p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Country</Label>
+                <Select value={form.country} onValueChange={(value) => updateField("country", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    {countries.map((country) => (
+                      <SelectItem key={country.slug} value={country.slug}>
+                        {country.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>List</Label>
+                <Select value={form.category} onValueChange={(value) => updateField("category", value as TrendCategory)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TREND_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {CATEGORY_LABELS[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="alert-rank">Top N only</Label>
+                <Input
+                  id="alert-rank"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={form.minRank}
+                  onChange={(e) => updateField("minRank", e.target.value)}
+                  placeholder="Any rank"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alert-volume">Minimum volume</Label>
+                <Input
+                  id="alert-volume"
+                  type="number"
+                  min={0}
+                  value={form.minVolume}
+                  onChange={(e) => updateField("minVolume", e.target.value)}
+                  placeholder="Any volume"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alert-dedupe">Quiet period (hours)</Label>
+                <Input
+                  id="alert-dedupe"
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={form.dedupeHours}
+                  onChange={(e) => updateField("dedupeHours", e.target.value)}
+                />
+              </div>
+            </div>
+            {form.minVolume.trim() && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 -mt-2">
+                Trends whose source reports no volume never meet a minimum volume.
+              </p>
+            )}
+
+            <div className="space-y-3 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="alert-in-app">In-app notifications</Label>
+                <Switch
+                  id="alert-in-app"
+                  checked={form.inApp}
+                  onCheckedChange={(checked) => updateField("inApp", checked)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alert-webhook">Webhook URL</Label>
+                <Input
+                  id="alert-webhook"
+                  type="url"
+                  value={form.webhookUrl}
+                  onChange={(e) => updateField("webhookUrl", e.target.value)}
+                  placeholder="https://hooks.example.com/trends"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alert-email">Email</Label>
+                <Input
+                  id="alert-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => updateField("email", e.target.value)}
+                  placeholder="Your account email"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button className="bg-[#3B82F6] hover:bg-blue-600 text-white" onClick={saveRule} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? "Save changes" : "Create alert"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
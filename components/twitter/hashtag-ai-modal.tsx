@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { Loader2, Sparkles, ImageIcon, Copy, CheckCircle, RefreshCw, Wand2 } from "lucide-react"
 import { toast } from "@/hooks/use-toast"
+import SchedulePostButton from "@/components/schedule/schedule-post-button"
 
 interface HashtagAIModalProps {
   isOpen: boolean
@@ -301,6 +302,14 @@ export default function HashtagAIModal({ isOpen, onClose, hashtag, category }: H
                       <RefreshCw className="h-4 w-4" />
                       Regenerate
                     </Button>
+
+                    <SchedulePostButton
+                      platform="twitter"
+                      parts={[generatedContent.content]}
+                      hashtags={generatedContent.hashtags}
+                      topic={hashtag}
+                      className="h-9 touch-manipulation"
+                    />
                   </div>
                 </CardContent>
               </Card>
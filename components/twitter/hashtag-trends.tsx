@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
 import {
   Loader2,
   Hash,
@@ -21,12 +22,20 @@ import {
   Sparkles,
   ArrowLeft,
   BarChart3,
+  History,
+  FlaskConical,
+  LineChart,
 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { toast } from "@/hooks/use-toast"
 import { TrendSkeleton } from "@/components/ui/skeleton-loader"
 import HashtagAIModal from "./hashtag-ai-modal"
+import TrendHistoryPanel from "./trend-history-panel"
+import TrendAlertInbox from "@/components/trend-alerts/trend-alert-inbox"
+import TrendAlertManager from "@/components/trend-alerts/trend-alert-manager"
 import { trendCache } from "@/lib/browser-cache"
+import type { TrendDataSource, TrendPlatform } from "@/lib/trends/types"
+import { formatVolume } from "@/lib/trends/volume"
 
 interface Country {
   label: string
@@ -37,24 +46,35 @@ interface Country {
 interface TrendingItem {
   rank: number
   hashtag: string
-  tweetCount: string
+  tweetCount: string | null
+  volume: number | null
   time: string
+  dataSource: TrendDataSource
+  sources?: string[]
+  platforms?: TrendPlatform[]
   twitterSearchURL: string
 }
 
 interface TopItem {
   rank: number
   hashtag: string
-  tweetCount: string
+  tweetCount: string | null
+  volume: number | null
   recordedAt: string
+  dataSource: TrendDataSource
+  sources?: string[]
+  platforms?: TrendPlatform[]
   twitterSearchURL: string
 }
 
 interface LongestItem {
   rank: number
   hashtag: string
-  duration: string
+  duration: string | null
   lastSeen: string
+  dataSource: TrendDataSource
+  sources?: string[]
+  platforms?: TrendPlatform[]
   twitterSearchURL: string
 }
 
@@ -62,12 +82,36 @@ interface TrendsResponse {
   country: string
   timeFilter: string
   date: string
+  dataSource?: TrendDataSource
+  fetchedAt?: string | null
+  sources?: { source: string; status: "ok" | "empty" | "failed"; count: number }[]
   trending?: TrendingItem[]
   top?: TopItem[]
   longest?: LongestItem[]
   countries?: Country[]
 }
 
+// "3 hours ago" style age of a cached scrape
+function formatAge(iso: string): string {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 60) return `${Math.max(1, minutes)} min ago`
+  const hours = Math.round(minutes / 60)
+  return hours < 24 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`
+}
+
+// Trends that weren't listed on X get a label so they aren't mistaken for X trends
+const PLATFORM_LABELS: Record<TrendPlatform, string> = { twitter: "X", google: "Google", reddit: "Reddit" }
+
+function externalPlatformLabel(platforms: TrendPlatform[] | undefined): string | null {
+  if (!platforms || platforms.length === 0 || platforms.includes("twitter")) return null
+  return platforms.map((platform) => PLATFORM_LABELS[platform]).join(" + ")
+}
+
+function formatTweetCount(item: { tweetCount: string | null; volume: number | null }): string {
+  if (item.volume !== null) return `${formatVolume(item.volume)} tweets`
+  return item.tweetCount ? `${item.tweetCount} tweets` : "Volume not reported"
+}
+
 interface HashtagTrendsProps {
   onBack?: () => void
 }
@@ -77,6 +121,8 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
   const [category, setCategory] = useState<"trending" | "top" | "longest">("trending")
   const [country, setCountry] = useState<string>("worldwide")
   const [timeFilter, setTimeFilter] = useState<string>("now")
+  // X trends only unless the user opts into Google and Reddit signals
+  const [includeOtherPlatforms, setIncludeOtherPlatforms] = useState<boolean>(false)
   const [date, setDate] = useState<string>(new Date().toISOString().split("T")[0])
   const [loading, setLoading] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
@@ -87,6 +133,8 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
   const [copiedHashtag, setCopiedHashtag] = useState<string | null>(null)
   const [aiModalOpen, setAiModalOpen] = useState<boolean>(false)
   const [selectedHashtag, setSelectedHashtag] = useState<string>("")
+  const [historyHashtag, setHistoryHashtag] = useState<string | null>(null)
+  const [alertManagerOpen, setAlertManagerOpen] = useState<boolean>(false)
 
   // Progressive loading states
   const [isInitialLoad, setIsInitialLoad] = useState<boolean>(true)
@@ -178,6 +226,7 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
 
   // Fetch trends data
   const fetchTrends = async (useCache = true) => {
+    const platforms = includeOtherPlatforms ? "twitter,google,reddit" : "twitter"
     setLoading(true)
     setError(null)
 
@@ -191,7 +240,7 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
 
       // Try to get from cache first
       if (useCache) {
-        const cacheKey = `trends:${country}:${category}:${timeFilter}:${date}`
+        const cacheKey = `trends:${country}:${category}:${timeFilter}:${date}:${platforms}`
         const cachedData = trendCache.get<TrendsResponse>(cacheKey)
         if (cachedData) {
           setTrendsData(cachedData)
@@ -202,7 +251,9 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
         }
       }
 
-      const url = `/api/twitter/get-trends?country=${country}&category=${category}&timeFilter=${timeFilter}&date=${date}`
+      const url =
+        `/api/twitter/get-trends?country=${country}&category=${category}&timeFilter=${timeFilter}` +
+        `&date=${date}&platforms=${platforms}`
       const response = await fetch(url)
 
       if (!response.ok) {
@@ -220,9 +271,11 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
 
       setTrendsData(data)
 
-      // Cache the data for 30 minutes
-      const cacheKey = `trends:${country}:${category}:${timeFilter}:${date}`
-      trendCache.set(cacheKey, data, 30 * 60 * 1000)
+      // Cache live data for 30 minutes; fallbacks are refetched so real data shows up as soon as it's back
+      if (data.dataSource === "scraped") {
+        const cacheKey = `trends:${country}:${category}:${timeFilter}:${date}:${platforms}`
+        trendCache.set(cacheKey, data, 30 * 60 * 1000)
+      }
     } catch (err) {
       console.error("Error fetching trends:", err)
       setError(err instanceof Error ? err.message : "Failed to fetch trends data")
@@ -238,7 +291,7 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
     if (countries.length > 0) {
       fetchTrends()
     }
-  }, [category, country, timeFilter, countries.length])
+  }, [category, country, timeFilter, includeOtherPlatforms, countries.length])
 
   // Handle category change
   const handleCategoryChange = (value: string) => {
@@ -282,6 +335,11 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
     setAiModalOpen(true)
   }
 
+  const handleHistoryClick = (hashtag: string, event: React.MouseEvent) => {
+    event.stopPropagation() // Prevent triggering the copy functionality
+    setHistoryHashtag((current) => (current === hashtag ? null : hashtag))
+  }
+
   const handleTwitterClick = (url: string, event: React.MouseEvent) => {
     event.stopPropagation()
     window.open(url, "_blank", "noopener,noreferrer")
@@ -342,16 +400,25 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
               </div>
             </div>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => fetchTrends(false)}
-            className="text-[#1DA1F2] border-[#1DA1F2] hover:bg-blue-50 dark:hover:bg-blue-900/20 flex items-center gap-2 self-start sm:self-auto min-h-[36px]"
-            disabled={loading}
-          >
-            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-            <span className="hidden sm:inline">Refresh</span>
-          </Button>
+          <div className="flex items-center gap-2 self-start sm:self-auto">
+            <TrendAlertInbox
+              onManageAlerts={() => setAlertManagerOpen(true)}
+              onSelectHashtag={(notification) => {
+                setCountry(notification.country)
+                setHistoryHashtag(notification.hashtag)
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchTrends(false)}
+              className="text-[#1DA1F2] border-[#1DA1F2] hover:bg-blue-50 dark:hover:bg-blue-900/20 flex items-center gap-2 min-h-[36px]"
+              disabled={loading}
+            >
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              <span className="hidden sm:inline">Refresh</span>
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -422,6 +489,16 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
           </div>
         </div>
 
+        {/* Platform Filter */}
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-xs text-slate-500 dark:text-slate-400">Include Google & Reddit trends</span>
+          <Switch
+            checked={includeOtherPlatforms}
+            onCheckedChange={setIncludeOtherPlatforms}
+            className="data-[state=checked]:bg-[#1DA1F2]"
+          />
+        </div>
+
         {/* Category Tabs */}
         <Tabs value={category} onValueChange={handleCategoryChange} className="w-full">
           <TabsList className="grid w-full grid-cols-3">
@@ -481,6 +558,43 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
                   </Badge>
                 </div>
 
+                {trendsData?.dataSource === "cached" && (
+                  <Alert className="bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+                    <History className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                    <AlertDescription className="text-amber-700 dark:text-amber-300">
+                      Live trends are unavailable right now. Showing the last update
+                      {trendsData.fetchedAt ? ` from ${formatAge(trendsData.fetchedAt)}` : ""}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {trendsData?.dataSource === "mock" && (
+                  <Alert className="bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+                    <FlaskConical className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                    <AlertDescription className="text-amber-700 dark:text-amber-300">
+                      Trend data couldn&apos;t be loaded. These are placeholder hashtags, not real trends.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {trendsData?.dataSource === "scraped" && trendsData.sources && trendsData.sources.length > 0 && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Sources:{" "}
+                    {trendsData.sources
+                      .map((source) => (source.status === "ok" ? source.source : `${source.source} (${source.status})`))
+                      .join(", ")}
+                  </p>
+                )}
+
+                {historyHashtag && (
+                  <TrendHistoryPanel
+                    hashtag={historyHashtag}
+                    country={country}
+                    countryLabel={countries.find((option) => option.slug === country)?.label}
+                    onClose={() => setHistoryHashtag(null)}
+                  />
+                )}
+
                 <div className="grid grid-cols-1 gap-3">
                   {currentData.map((item: any) => (
                     <div
@@ -509,15 +623,38 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
                         <div className="min-w-0 flex-1">
                           <p className="font-medium text-[#1E293B] dark:text-white text-sm sm:text-base truncate">
                             {item.hashtag}
+                            {externalPlatformLabel(item.platforms) && (
+                              <Badge variant="outline" className="ml-2 text-[10px] text-slate-500">
+                                {externalPlatformLabel(item.platforms)}
+                              </Badge>
+                            )}
+                            {item.dataSource === "mock" && (
+                              <Badge variant="outline" className="ml-2 text-[10px] text-amber-600 border-amber-300">
+                                Sample
+                              </Badge>
+                            )}
                           </p>
                           <p className="text-xs text-slate-500 dark:text-slate-400">
-                            {category === "trending" && `${item.tweetCount} tweets`}
-                            {category === "top" && `${item.tweetCount} tweets`}
-                            {category === "longest" && `Trending for ${item.duration}`}
+                            {category !== "longest" && formatTweetCount(item)}
+                            {category === "longest" &&
+                              (item.duration ? `Trending for ${item.duration}` : "Duration not reported")}
                           </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-2 flex-shrink-0">
+                        {item.dataSource !== "mock" && (
+                          <Button
+                            onClick={(e) => handleHistoryClick(item.hashtag, e)}
+                            size="sm"
+                            variant="ghost"
+                            className={`h-8 w-8 p-0 touch-manipulation ${
+                              historyHashtag === item.hashtag ? "text-[#1DA1F2]" : "text-slate-400"
+                            }`}
+                            aria-label={`Show history for ${item.hashtag}`}
+                          >
+                            <LineChart className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           onClick={(e) => handleAIClick(item.hashtag, e)}
                           size="sm"
@@ -565,6 +702,12 @@ export default function HashtagTrends({ onBack }: HashtagTrendsProps) {
         hashtag={selectedHashtag}
         category={category}
       />
+      <TrendAlertManager
+        isOpen={alertManagerOpen}
+        onClose={() => setAlertManagerOpen(false)}
+        countries={countries}
+        defaultCountry={country}
+      />
     </Card>
   )
 }
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { ArrowDown, ArrowUp, CheckCircle, Copy, Loader2, RotateCw } from "lucide-react"
+import FlaggedPhrases from "@/components/voice-profiles/flagged-phrases"
+import PendingReview from "@/components/review/pending-review"
+import SchedulePostButton from "@/components/schedule/schedule-post-button"
+import { formatThread, MAX_TWEET_LENGTH, weightedLength } from "@/lib/twitter/text"
+import type { ReviewSummary } from "@/lib/review/types"
+import type { ThreadPost } from "@/lib/twitter/thread"
+
+export interface EditableThreadPost extends ThreadPost {
+  id: string
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
+}
+
+interface ThreadEditorProps {
+  posts: EditableThreadPost[]
+  numbering: boolean
+  onChange: (posts: EditableThreadPost[]) => void
+  onRegenerate: (index: number) => void
+  regeneratingIndex: number | null
+  topic?: string | null
+}
+
+export default function ThreadEditor({
+  posts,
+  numbering,
+  onChange,
+  onRegenerate,
+  regeneratingIndex,
+  topic = null,
+}: ThreadEditorProps) {
+  const [copied, setCopied] = useState<string | null>(null)
+
+  // Numbering follows the current order, so it updates as posts are moved
+  const published = formatThread(
+    posts.map((post) => post.content),
+    numbering,
+  )
+
+  const updatePost = (index: number, content: string) => {
+    onChange(posts.map((post, position) => (position === index ? { ...post, content, flaggedPhrases: [] } : post)))
+  }
+
+  const movePost = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= posts.length) return
+
+    const next = [...posts]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const copyText = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(key)
+      setTimeout(() => setCopied(null), 2000)
+    } catch (error) {
+      console.error("Failed to copy text:", error)
+    }
+  }
+
+  const overLimit = published.filter((post) => weightedLength(post) > MAX_TWEET_LENGTH).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-[#1E293B] dark:text-white">Generated Thread</h3>
+        <div className="flex items-center gap-2">
+          <Badge
+            variant="secondary"
+            className="text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+          >
+            {posts.length} posts
+          </Badge>
+          <Button variant="outline" size="sm" onClick={() => copyText("all", published.join("\n\n"))}>
+            {copied === "all" ? <CheckCircle className="mr-2 h-4 w-4 text-green-600" /> : <Copy className="mr-2 h-4 w-4" />}
+            Copy thread
+          </Button>
+          <SchedulePostButton platform="twitter" parts={published} topic={topic} />
+        </div>
+      </div>
+
+      {overLimit > 0 && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {overLimit} post{overLimit !== 1 ? "s are" : " is"} over {MAX_TWEET_LENGTH} characters
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {posts.map((post, index) => {
+          const length = weightedLength(published[index])
+          const isRegenerating = regeneratingIndex === index
+
+          return (
+            <Card key={post.id} className="border-slate-200 dark:border-slate-700">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-[#1DA1F2]">{index + 1}</span>
+                    {index === 0 && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Hook
+                      </Badge>
+                    )}
+                    {post.isCta && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Call to action
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => movePost(index, -1)}
+                      disabled={index === 0 || regeneratingIndex !== null}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                      <span className="sr-only">Move post up</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => movePost(index, 1)}
+                      disabled={index === posts.length - 1 || regeneratingIndex !== null}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                      <span className="sr-only">Move post down</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onRegenerate(index)}
+                      disabled={regeneratingIndex !== null}
+                    >
+                      {isRegenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+                      <span className="sr-only">Regenerate post</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => copyText(post.id, published[index])}
+                    >
+                      {copied === post.id ? (
+                        <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-500" />
+                      ) : (
+                        <Copy className="h-4 w-4 text-slate-500 dark:text-slate-400" />
+                      )}
+                      <span className="sr-only">Copy post</span>
+                    </Button>
+                  </div>
+                </div>
+
+                <Textarea
+                  value={post.content}
+                  onChange={(e) => updatePost(index, e.target.value)}
+                  className="min-h-[88px] text-sm"
+                  disabled={isRegenerating}
+                />
+
+                <div className="flex items-center justify-between gap-2">
+                  <FlaggedPhrases phrases={post.flaggedPhrases} />
+                  <PendingReview review={post.review} />
+                  <span
+                    className={`ml-auto text-xs ${
+                      length > MAX_TWEET_LENGTH ? "text-red-600 dark:text-red-400" : "text-slate-500 dark:text-slate-400"
+                    }`}
+                  >
+                    {numbering && `${index + 1}/${posts.length} · `}
+                    {length}/{MAX_TWEET_LENGTH}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { AlertCircle, LineChart as LineChartIcon, Loader2, X } from "lucide-react"
+import type { TrendHistory } from "@/lib/trends/types"
+import { formatVolume } from "@/lib/trends/volume"
+
+const RANGES = [
+  { days: 1, label: "24h" },
+  { days: 7, label: "7d" },
+  { days: 30, label: "30d" },
+]
+
+const chartConfig = {
+  rank: { label: "Rank", color: "#1DA1F2" },
+  volume: { label: "Tweets", color: "#8B5CF6" },
+} satisfies ChartConfig
+
+interface TrendHistoryPanelProps {
+  hashtag: string
+  country: string
+  countryLabel?: string
+  onClose: () => void
+}
+
+export default function TrendHistoryPanel({ hashtag, country, countryLabel, onClose }: TrendHistoryPanelProps) {
+  const [days, setDays] = useState(7)
+  const [history, setHistory] = useState<TrendHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchHistory = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ hashtag, country, days: String(days) })
+        const response = await fetch(`/api/twitter/trends/history?${params}`, { signal: controller.signal })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load trend history")
+        }
+
+        setHistory(data)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error("Error fetching trend history:", err)
+        setError(err instanceof Error ? err.message : "Failed to load trend history")
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchHistory()
+    return () => controller.abort()
+  }, [hashtag, country, days])
+
+  const points = history?.points || []
+  const hasVolume = points.some((point) => point.volume !== null)
+  const chartData = points.map((point) => ({
+    time: new Date(point.timestamp).getTime(),
+    rank: point.rank,
+    volume: point.volume,
+  }))
+
+  const formatTime = (value: number) =>
+    new Date(value).toLocaleString(undefined, days > 1 ? { month: "short", day: "numeric" } : { hour: "numeric" })
+
+  return (
+    <Card className="border-[#1DA1F2]/30 dark:border-[#1DA1F2]/40">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2 text-[#1E293B] dark:text-white min-w-0">
+            <LineChartIcon className="h-4 w-4 text-[#1DA1F2] flex-shrink-0" />
+            <span className="truncate">
+              {hashtag} in {countryLabel || country}
+            </span>
+          </CardTitle>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {RANGES.map((range) => (
+              <Button
+                key={range.days}
+                size="sm"
+                variant={days === range.days ? "secondary" : "ghost"}
+                className="h-7 px-2 text-xs"
+                onClick={() => setDays(range.days)}
+              >
+                {range.label}
+              </Button>
+            ))}
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onClose} aria-label="Close history">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center h-48 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!loading && !error && points.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-12">
+            No history recorded for {hashtag} in the last {days === 1 ? "24 hours" : `${days} days`}. History comes
+            from the scheduled trend snapshots, so it only covers the countries they track.
+          </p>
+        )}
+
+        {!loading && !error && points.length > 0 && (
+          <div className="space-y-2">
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: 4, right: 4, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={formatTime}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                />
+                {/* Rank 1 is the top of the list, so the axis runs downwards */}
+                <YAxis
+                  yAxisId="rank"
+                  reversed
+                  allowDecimals={false}
+                  domain={[1, "dataMax"]}
+                  tickLine={false}
+                  axisLine={false}
+                  width={28}
+                />
+                {hasVolume && (
+                  <YAxis
+                    yAxisId="volume"
+                    orientation="right"
+                    tickFormatter={(value: number) => formatVolume(value)}
+                    tickLine={false}
+                    axisLine={false}
+                    width={44}
+                  />
+                )}
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        payload?.[0] ? new Date(payload[0].payload.time).toLocaleString() : ""
+                      }
+                    />
+                  }
+                />
+                <Line
+                  yAxisId="rank"
+                  dataKey="rank"
+                  type="stepAfter"
+                  stroke="var(--color-rank)"
+                  strokeWidth={2}
+                  dot={points.length < 30}
+                />
+                {hasVolume && (
+                  <Line
+                    yAxisId="volume"
+                    dataKey="volume"
+                    type="monotone"
+                    stroke="var(--color-volume)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                )}
+              </LineChart>
+            </ChartContainer>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {points.length} snapshots
+              {!hasVolume && " · the source reported no tweet volume for this trend"}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
@@ -17,7 +17,6 @@ import {
   Info,
   Sparkles,
   ImageIcon,
-  Chrome,
   Shield,
   RefreshCw,
   LogOut,
@@ -27,6 +26,7 @@ import {
   Lightbulb,
   Copy,
   Download,
+  ListOrdered,
 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
@@ -34,8 +34,26 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import HashtagTrends from "./hashtag-trends"
+import ThreadEditor, { type EditableThreadPost } from "./thread-editor"
+import TwitterLoginFlow from "./twitter-login-flow"
 import { OptimizedImage } from "@/components/ui/optimized-image"
 import { CommentSkeleton, PostSkeleton } from "@/components/ui/skeleton-loader"
+import VoiceProfileSelect from "@/components/voice-profiles/voice-profile-select"
+import FlaggedPhrases from "@/components/voice-profiles/flagged-phrases"
+import PendingReview from "@/components/review/pending-review"
+import SchedulePostButton from "@/components/schedule/schedule-post-button"
+import type { ReviewSummary } from "@/lib/review/types"
+import { isAbortError, readSSEStream, type GenerationStreamEvents } from "@/lib/sse"
+import type { TweetEngagement, TweetPost } from "@/lib/twitter/types"
+import type { TwitterSessionSummary } from "@/lib/twitter/vault/types"
+import {
+  DEFAULT_THREAD_POSTS,
+  HOOK_STYLE_LABELS,
+  HOOK_STYLES,
+  MAX_THREAD_POSTS,
+  MIN_THREAD_POSTS,
+  type HookStyle,
+} from "@/lib/twitter/thread"
 
 interface TweetContent {
   text: string | null
@@ -43,31 +61,36 @@ interface TweetContent {
   username: string | null
   timestamp: string | null
   url: string
-  aiGenerated?: boolean
   images?: string[]
+  // Conversation context from the session extractor
+  quoted?: TweetPost | null
+  inReplyTo?: TweetPost | null
+  thread?: TweetPost[]
+  replies?: TweetPost[]
+  engagement?: TweetEngagement
 }
 
 interface GeneratedComment {
   text: string
   isRecommended: boolean
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
 }
 
+type CommentStreamEvents = GenerationStreamEvents<{ comments?: GeneratedComment[]; review?: ReviewSummary | null }>
+
 interface GeneratedPost {
   id: string
   content: string
   hashtags: string[]
+  flaggedPhrases?: string[]
+  review?: ReviewSummary | null
   generatedImage?: string
   isGeneratingImage?: boolean
 }
 
-interface AuthData {
-  authToken: string
-  timestamp: number
-  expiresAt?: number
-}
-
 type InputMethod = "url" | "manual"
-type AuthState = "checking" | "unauthenticated" | "authenticating" | "authenticated"
+type AuthState = "checking" | "unauthenticated" | "authenticated"
 type ViewState = "comments" | "create"
 
 const toneOptions = [
@@ -81,22 +104,25 @@ const toneOptions = [
   { value: "respectful and thoughtful", label: "Respectful" },
 ]
 
-const AUTH_CACHE_KEY = "altreach_twitter_auth"
-const AUTH_EXPIRY_HOURS = 24 // Auth expires after 24 hours
+// The selected X account's vault handle; the cookies themselves stay on the server
+const SESSION_HANDLE_KEY = "altreach_twitter_session"
+// Older versions kept the raw auth_token here; it's removed on load
+const LEGACY_AUTH_CACHE_KEY = "altreach_twitter_auth"
 
-// Add a function to handle comment caching after the AUTH_CACHE_KEY constant
+// Add a function to handle comment caching after the SESSION_HANDLE_KEY constant
 const COMMENT_CACHE_KEY_PREFIX = "altreach_twitter_comment_cache"
 const COMMENT_CACHE_TTL = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
 
-// Add these functions after the AUTH_CACHE_KEY constant
+// Add these functions after the SESSION_HANDLE_KEY constant
 const getCachedComments = (
   tweetUrl: string,
   tone: string,
   length: string,
   useEmoji: boolean,
+  voiceProfileId: string | null,
 ): GeneratedComment[] | null => {
   try {
-    const cacheKey = `${COMMENT_CACHE_KEY_PREFIX}:${tweetUrl}:${tone}:${length}:${useEmoji}`
+    const cacheKey = `${COMMENT_CACHE_KEY_PREFIX}:${tweetUrl}:${tone}:${length}:${useEmoji}:${voiceProfileId || "none"}`
     const cached = localStorage.getItem(cacheKey)
 
     if (cached) {
@@ -125,10 +151,11 @@ const cacheComments = (
   tone: string,
   length: string,
   useEmoji: boolean,
+  voiceProfileId: string | null,
   comments: GeneratedComment[],
 ) => {
   try {
-    const cacheKey = `${COMMENT_CACHE_KEY_PREFIX}:${tweetUrl}:${tone}:${length}:${useEmoji}`
+    const cacheKey = `${COMMENT_CACHE_KEY_PREFIX}:${tweetUrl}:${tone}:${length}:${useEmoji}:${voiceProfileId || "none"}`
     const cacheData = {
       comments,
       timestamp: Date.now(),
@@ -163,8 +190,10 @@ export default function TwitterInput({
 
   // Authentication state
   const [authState, setAuthState] = useState<AuthState>("checking")
-  const [authData, setAuthData] = useState<AuthData | null>(null)
-  const [isLoggingIn, setIsLoggingIn] = useState(false)
+  const [sessions, setSessions] = useState<TwitterSessionSummary[]>([])
+  const [activeSession, setActiveSession] = useState<TwitterSessionSummary | null>(null)
+  const [isCheckingSession, setIsCheckingSession] = useState(false)
+  const [isAddingAccount, setIsAddingAccount] = useState(false)
   const [loginError, setLoginError] = useState<string | null>(null)
 
   // Input method state
@@ -178,7 +207,6 @@ export default function TwitterInput({
   const [extractError, setExtractError] = useState<string | null>(null)
   const [extractSuccess, setExtractSuccess] = useState(false)
   const [extractMessage, setExtractMessage] = useState<string | null>(null)
-  const [isAiGenerated, setIsAiGenerated] = useState(false)
 
   // Tone state
   const [tone, setTone] = useState("casual and conversational")
@@ -191,12 +219,14 @@ export default function TwitterInput({
   const [commentLength, setCommentLength] = useState<"shorter" | "longer">("shorter")
   const [useEmoji, setUseEmoji] = useState(true)
   const [variations, setVariations] = useState(3)
+  const [voiceProfileId, setVoiceProfileId] = useState<string | null>(null)
 
   // Generation state
   const [isGenerating, setIsGenerating] = useState(false)
   const [generationError, setGenerationError] = useState<string | null>(null)
   const [comments, setComments] = useState<GeneratedComment[]>([])
   const [copied, setCopied] = useState<number | null>(null)
+  const generationRequestRef = useRef<AbortController | null>(null)
 
   // Image state
   const [selectedImageIndex, setSelectedImageIndex] = useState<number>(0)
@@ -209,121 +239,123 @@ export default function TwitterInput({
   const [postGenerationError, setPostGenerationError] = useState<string | null>(null)
   const [copiedPost, setCopiedPost] = useState<string | null>(null)
 
-  // Check for cached authentication on component mount
+  // Thread mode
+  const [postMode, setPostMode] = useState<"posts" | "thread">("posts")
+  const [threadPostCount, setThreadPostCount] = useState(DEFAULT_THREAD_POSTS)
+  const [hookStyle, setHookStyle] = useState<HookStyle>("bold-claim")
+  const [threadNumbering, setThreadNumbering] = useState(true)
+  const [threadPosts, setThreadPosts] = useState<EditableThreadPost[]>([])
+  const [regeneratingThreadPost, setRegeneratingThreadPost] = useState<number | null>(null)
+
+  // Load the user's connected X accounts on component mount
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  // Cancel any comment generation still streaming on unmount
   useEffect(() => {
-    checkCachedAuth()
+    return () => generationRequestRef.current?.abort()
   }, [])
 
   // Authentication functions
-  const checkCachedAuth = () => {
+  // Picks the remembered account when it's still usable, otherwise the newest active one
+  const applySessions = (list: TwitterSessionSummary[], preferredId?: string | null) => {
+    const active = list.filter((session) => session.status === "active")
+    const selected = active.find((session) => session.id === preferredId) || active[0] || null
+
+    setSessions(list)
+    setActiveSession(selected)
+    setAuthState(selected ? "authenticated" : "unauthenticated")
+
+    if (selected) {
+      localStorage.setItem(SESSION_HANDLE_KEY, selected.id)
+    } else {
+      localStorage.removeItem(SESSION_HANDLE_KEY)
+      const lapsed = list.find((session) => session.status !== "active")
+      if (lapsed) {
+        const account = lapsed.username ? `@${lapsed.username}` : "your X account"
+        setLoginError(`The session for ${account} has ${lapsed.status}. Please log in again.`)
+      }
+    }
+  }
+
+  const loadSessions = async () => {
     try {
-      const cached = localStorage.getItem(AUTH_CACHE_KEY)
-      if (cached) {
-        const authData: AuthData = JSON.parse(cached)
-        const now = Date.now()
-
-        // Check if auth is expired (24 hours)
-        const expiryTime = authData.timestamp + AUTH_EXPIRY_HOURS * 60 * 60 * 1000
-
-        if (now < expiryTime && authData.authToken) {
-          setAuthData(authData)
-          setAuthState("authenticated")
-          console.log("✅ Found valid cached authentication")
-          return
-        } else {
-          // Remove expired auth
-          localStorage.removeItem(AUTH_CACHE_KEY)
-          console.log("⚠️ Cached authentication expired")
-        }
+      localStorage.removeItem(LEGACY_AUTH_CACHE_KEY)
+
+      const response = await fetch("/api/twitter/sessions")
+      const data = await safeParseResponse(response)
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `Server error (${response.status})`)
       }
+
+      applySessions(data.sessions, localStorage.getItem(SESSION_HANDLE_KEY))
+      console.log(`✅ Loaded ${data.sessions.length} connected X account(s)`)
     } catch (error) {
-      console.error("❌ Error checking cached auth:", error)
-      localStorage.removeItem(AUTH_CACHE_KEY)
+      console.error("❌ Error loading X accounts:", error)
+      setAuthState("unauthenticated")
     }
+  }
 
-    setAuthState("unauthenticated")
+  const selectSession = (id: string) => {
+    applySessions(sessions, id)
   }
 
-  const saveAuthToCache = (authToken: string) => {
-    const authData: AuthData = {
-      authToken,
-      timestamp: Date.now(),
-    }
+  // Asks the server to probe X with the stored cookies
+  const checkActiveSession = async () => {
+    if (!activeSession) return
+    setIsCheckingSession(true)
 
     try {
-      localStorage.setItem(AUTH_CACHE_KEY, JSON.stringify(authData))
-      setAuthData(authData)
-      setAuthState("authenticated")
-      console.log("✅ Authentication cached successfully")
+      const response = await fetch(`/api/twitter/sessions/${activeSession.id}/check`, { method: "POST" })
+      const data = await safeParseResponse(response)
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `Server error (${response.status})`)
+      }
+
+      const checked: TwitterSessionSummary = data.session
+      applySessions(
+        sessions.map((session) => (session.id === checked.id ? checked : session)),
+        activeSession.id,
+      )
     } catch (error) {
-      console.error("❌ Error caching auth:", error)
+      console.error("❌ Error checking X session:", error)
+    } finally {
+      setIsCheckingSession(false)
     }
   }
 
-  const clearAuthCache = () => {
+  // Revokes the selected account on the server; other connected accounts stay available
+  const disconnectSession = async () => {
+    if (!activeSession) return
+
     try {
-      localStorage.removeItem(AUTH_CACHE_KEY)
-      setAuthData(null)
-      setAuthState("unauthenticated")
+      const response = await fetch(`/api/twitter/sessions/${activeSession.id}`, { method: "DELETE" })
+      if (!response.ok && response.status !== 404) {
+        const data = await safeParseResponse(response)
+        throw new Error(data.error || `Server error (${response.status})`)
+      }
+
+      applySessions(sessions.filter((session) => session.id !== activeSession.id))
       // Clear any extracted content
       setTweetContent(null)
       setUrl("")
       setManualContent("")
       setComments([])
       setCurrentView("comments")
-      console.log("✅ Authentication cache cleared")
+      console.log("✅ X account disconnected")
     } catch (error) {
-      console.error("❌ Error clearing auth cache:", error)
+      console.error("❌ Error disconnecting X account:", error)
     }
   }
 
-  const loginWithBrowser = async () => {
-    setIsLoggingIn(true)
+  const handleConnected = (connected: TwitterSessionSummary) => {
     setLoginError(null)
-    setAuthState("authenticating")
-
-    try {
-      console.log("🚀 Starting browser login request...")
-
-      const response = await fetch("/api/twitter/login-session", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      })
-
-      const data = await safeParseResponse(response)
-
-      if (!response.ok || !data.success || data.error) {
-        const errorMessage = data.error || data.message || `Server error (${response.status})`
-        console.error("❌ Login failed:", errorMessage)
-        setLoginError(errorMessage)
-        setAuthState("unauthenticated")
-        return
-      }
-
-      if (data.cookies?.auth_token) {
-        saveAuthToCache(data.cookies.auth_token)
-        setLoginError(null)
-        console.log("✅ Login successful, token cached")
-      } else {
-        setLoginError("Login completed but could not extract session token")
-        setAuthState("unauthenticated")
-      }
-    } catch (error) {
-      console.error("❌ Error during browser login:", error)
-
-      if (error instanceof TypeError && error.message.includes("fetch")) {
-        setLoginError("Network error: Could not connect to the server. Please check your connection.")
-      } else if (error instanceof Error) {
-        setLoginError(`Request failed: ${error.message}`)
-      } else {
-        setLoginError("An unexpected error occurred during login. Please try again.")
-      }
-      setAuthState("unauthenticated")
-    } finally {
-      setIsLoggingIn(false)
-    }
+    setIsAddingAccount(false)
+    applySessions([connected, ...sessions.filter((session) => session.id !== connected.id)], connected.id)
+    console.log("✅ Login successful, X account connected")
   }
 
   // Helper to validate Twitter URLs
@@ -362,7 +394,7 @@ export default function TwitterInput({
   // Extract tweet content when URL changes
   useEffect(() => {
     const extractTweetFromUrl = async () => {
-      if (!url.trim() || !isValidTwitterUrl(url) || inputMethod !== "url" || !authData?.authToken) {
+      if (!url.trim() || !isValidTwitterUrl(url) || inputMethod !== "url" || !activeSession) {
         return
       }
 
@@ -372,7 +404,6 @@ export default function TwitterInput({
       setExtractSuccess(false)
       setExtractMessage(null)
       setTweetContent(null)
-      setIsAiGenerated(false)
       setSelectedImageIndex(0)
       setImageError(false)
 
@@ -384,15 +415,47 @@ export default function TwitterInput({
           },
           body: JSON.stringify({
             url: url.trim(),
-            authToken: authData.authToken,
+            sessionId: activeSession.id,
           }),
         })
 
-        const data = await safeParseResponse(response)
+        let data = await safeParseResponse(response)
+        let message = "Tweet content extracted successfully"
 
+        // The session browser can fail on rate limits or expired tokens; fall back to the public sources
         if (!response.ok || data.error) {
-          setExtractError(data.message || data.error || "Failed to extract tweet content")
-          return
+          console.warn("⚠️ Session extraction failed, trying public sources:", data.message || data.error)
+
+          // The server checked the session and found it signed out or expired; reflect that on the status bar
+          if (data.sessionStatus && data.sessionStatus !== "active") {
+            setSessions((current) =>
+              current.map((session) =>
+                session.id === activeSession.id ? { ...session, status: data.sessionStatus } : session,
+              ),
+            )
+          }
+
+          const fallback = await fetch("/api/twitter/extract-tweet", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ url: url.trim() }),
+          })
+          const fallbackData = await safeParseResponse(fallback)
+
+          if (!fallback.ok || fallbackData.error) {
+            setExtractError(fallbackData.message || fallbackData.error || "Failed to extract tweet content")
+            return
+          }
+
+          if (fallbackData.manualEntryRequired) {
+            setExtractError(fallbackData.message)
+            return
+          }
+
+          data = { ...fallbackData.tweetContent, content: fallbackData.tweetContent.text, tweet: fallbackData.tweet }
+          message = fallbackData.message
         }
 
         const tweetContent: TweetContent = {
@@ -402,11 +465,16 @@ export default function TwitterInput({
           timestamp: data.timestamp || null,
           url: url,
           images: data.images || [],
+          quoted: data.tweet?.quoted || null,
+          inReplyTo: data.tweet?.inReplyTo || null,
+          thread: data.tweet?.thread || [],
+          replies: data.tweet?.replies || [],
+          engagement: data.tweet?.engagement,
         }
 
         setTweetContent(tweetContent)
         setExtractSuccess(true)
-        setExtractMessage("Tweet content extracted successfully")
+        setExtractMessage(message)
 
         // If we successfully extracted content and smart tone is enabled, detect tone
         if (tweetContent.text && useSmartTone) {
@@ -430,7 +498,7 @@ export default function TwitterInput({
     }, 1000)
 
     return () => clearTimeout(timeoutId)
-  }, [url, inputMethod, authData, authState])
+  }, [url, inputMethod, activeSession, authState])
 
   // Update preview when manual content changes
   useEffect(() => {
@@ -511,13 +579,21 @@ export default function TwitterInput({
       return
     }
 
+    // Restarting cancels the previous generation
+    generationRequestRef.current?.abort()
+    generationRequestRef.current = null
+
     // Check cache first
-    const cachedComments = getCachedComments(tweetUrl, tone, commentLength, useEmoji)
+    const cachedComments = getCachedComments(tweetUrl, tone, commentLength, useEmoji, voiceProfileId)
     if (cachedComments) {
+      setIsGenerating(false)
       setComments(cachedComments)
       return
     }
 
+    const controller = new AbortController()
+    generationRequestRef.current = controller
+
     setIsGenerating(true)
     setGenerationError(null)
     setComments([])
@@ -529,19 +605,58 @@ export default function TwitterInput({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          tweetContent: {
-            text: effectiveContent,
-            author: tweetContent?.author || null,
-            username: tweetContent?.username || null,
-          },
+          tweetContent:
+            inputMethod === "url" && tweetContent
+              ? { ...tweetContent, text: effectiveContent }
+              : { text: effectiveContent, author: null, username: null, url: null },
           tone,
           length: commentLength,
           useEmoji,
           variations,
           instructions: commentInstructions.trim() || undefined,
+          voiceProfileId: voiceProfileId || undefined,
+          stream: true,
         }),
+        signal: controller.signal,
       })
 
+      if (response.ok && response.headers.get("content-type")?.includes("text/event-stream")) {
+        // Fill in each variation as it arrives; the final event carries the complete response
+        let finalComments: GeneratedComment[] = []
+        let streamError: string | null = null
+        let completed = false
+
+        await readSSEStream<CommentStreamEvents>(response, ({ event, data }) => {
+          if (event === "variation") {
+            setComments((prev) => {
+              const next = [...prev]
+              next[data.index] = { text: data.text, isRecommended: data.index === 0 }
+              return next.filter(Boolean)
+            })
+          } else if (event === "done") {
+            // The whole response shares one review item
+            finalComments = (data.comments || []).map((comment) => ({ ...comment, review: data.review }))
+            completed = true
+          } else if (event === "error") {
+            streamError = data.error
+          }
+        })
+
+        if (streamError || !completed) {
+          setComments([])
+          setGenerationError(streamError || "Failed to generate comments")
+          return
+        }
+
+        setComments(finalComments)
+
+        // Cache the generated comments
+        if (finalComments.length > 0) {
+          cacheComments(tweetUrl, tone, commentLength, useEmoji, voiceProfileId, finalComments)
+        }
+        return
+      }
+
       const data = await safeParseResponse(response)
 
       if (response.status === 429) {
@@ -554,17 +669,125 @@ export default function TwitterInput({
         return
       }
 
-      setComments(data.comments || [])
+      const generated: GeneratedComment[] = (data.comments || []).map((comment: GeneratedComment) => ({
+        ...comment,
+        review: data.review,
+      }))
+      setComments(generated)
 
       // Cache the generated comments
-      if (data.comments && data.comments.length > 0) {
-        cacheComments(tweetUrl, tone, commentLength, useEmoji, data.comments)
+      if (generated.length > 0) {
+        cacheComments(tweetUrl, tone, commentLength, useEmoji, voiceProfileId, generated)
       }
     } catch (error) {
+      // Cancelled by a newer request or by unmounting
+      if (controller.signal.aborted || isAbortError(error)) {
+        return
+      }
+
       console.error("Error generating comments:", error)
       setGenerationError("Failed to generate comments. Please try again.")
     } finally {
-      setIsGenerating(false)
+      if (generationRequestRef.current === controller) {
+        generationRequestRef.current = null
+        setIsGenerating(false)
+      }
+    }
+  }
+
+  const threadRequest = () => ({
+    mode: "thread",
+    topic: topic.trim(),
+    tone,
+    useEmoji,
+    postCount: threadPostCount,
+    hookStyle,
+    numbering: threadNumbering,
+    instructions: commentInstructions.trim() || undefined,
+    voiceProfileId: voiceProfileId || undefined,
+  })
+
+  // Generate a thread from topic
+  const generateThread = async () => {
+    setIsGeneratingPosts(true)
+    setPostGenerationError(null)
+    setThreadPosts([])
+
+    try {
+      const response = await fetch("/api/twitter/generate-posts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(threadRequest()),
+      })
+
+      const data = await safeParseResponse(response)
+
+      if (response.status === 429) {
+        setPostGenerationError(`Rate limit reached. Please try again in ${data.retryAfter || 30} seconds.`)
+        return
+      }
+
+      if (!response.ok || data.error) {
+        setPostGenerationError(data.error || "Failed to generate thread")
+        return
+      }
+
+      setThreadPosts(
+        (data.thread?.posts || []).map((post: Omit<EditableThreadPost, "id">, index: number) => ({
+          id: `thread-${Date.now()}-${index}`,
+          content: post.content,
+          isCta: post.isCta,
+          flaggedPhrases: post.flaggedPhrases,
+          review: data.review,
+        })),
+      )
+    } catch (error) {
+      console.error("Error generating thread:", error)
+      setPostGenerationError("Failed to generate thread. Please try again.")
+    } finally {
+      setIsGeneratingPosts(false)
+    }
+  }
+
+  // Rewrites one post, using the thread as currently edited and ordered for context
+  const regenerateThreadPost = async (index: number) => {
+    setRegeneratingThreadPost(index)
+    setPostGenerationError(null)
+
+    try {
+      const response = await fetch("/api/twitter/generate-posts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...threadRequest(),
+          regenerate: { index, posts: threadPosts.map(({ content, isCta }) => ({ content, isCta })) },
+        }),
+      })
+
+      const data = await safeParseResponse(response)
+
+      if (response.status === 429) {
+        setPostGenerationError(`Rate limit reached. Please try again in ${data.retryAfter || 30} seconds.`)
+        return
+      }
+
+      if (!response.ok || data.error || !data.post) {
+        setPostGenerationError(data.error || "Failed to regenerate post")
+        return
+      }
+
+      setThreadPosts((prev) =>
+        prev.map((post, position) =>
+          position === index
+            ? { ...post, content: data.post.content, flaggedPhrases: data.post.flaggedPhrases, review: data.review }
+            : post,
+        ),
+      )
+    } catch (error) {
+      console.error("Error regenerating thread post:", error)
+      setPostGenerationError("Failed to regenerate post. Please try again.")
+    } finally {
+      setRegeneratingThreadPost(null)
     }
   }
 
@@ -575,6 +798,10 @@ export default function TwitterInput({
       return
     }
 
+    if (postMode === "thread") {
+      return generateThread()
+    }
+
     setIsGeneratingPosts(true)
     setPostGenerationError(null)
     setGeneratedPosts([])
@@ -592,6 +819,7 @@ export default function TwitterInput({
           useEmoji,
           variations,
           instructions: commentInstructions.trim() || undefined,
+          voiceProfileId: voiceProfileId || undefined,
         }),
       })
 
@@ -607,10 +835,12 @@ export default function TwitterInput({
         return
       }
 
-      const posts = (data.posts || []).map((post: any, index: number) => ({
+      const posts = (data.posts || []).map((post: Omit<GeneratedPost, "id">, index: number) => ({
         id: `post-${Date.now()}-${index}`,
         content: post.content,
         hashtags: post.hashtags || [],
+        flaggedPhrases: post.flaggedPhrases,
+        review: data.review,
       }))
 
       setGeneratedPosts(posts)
@@ -708,8 +938,11 @@ export default function TwitterInput({
     setImageError(true)
   }
 
+  // Extraction can find the selected session signed out; the list carries that status
+  const activeSessionStatus = sessions.find((session) => session.id === activeSession?.id)?.status
+
   // Format auth timestamp for display
-  const formatAuthTime = (timestamp: number): string => {
+  const formatAuthTime = (timestamp: string): string => {
     const date = new Date(timestamp)
     return date.toLocaleDateString() + " at " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
   }
@@ -847,7 +1080,7 @@ export default function TwitterInput({
                   <div>
                     <h4 className="font-medium text-[#1E293B] dark:text-white text-sm">Secure & Private</h4>
                     <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">
-                      Your credentials are processed securely and cached locally
+                      Your session is stored encrypted and never reaches your browser
                     </p>
                   </div>
                 </div>
@@ -865,55 +1098,18 @@ export default function TwitterInput({
                 </div>
               </div>
 
-              {/* Login Button */}
+              {/* Login Flow */}
               <div className="text-center space-y-4">
-                <Button
-                  className="w-full h-14 text-base font-semibold bg-gradient-to-r from-[#1DA1F2] to-cyan-500 hover:from-[#1a91da] hover:to-cyan-600 text-white transition-all duration-200 shadow-lg hover:shadow-xl rounded-xl disabled:opacity-50"
-                  onClick={loginWithBrowser}
-                  disabled={isLoggingIn}
-                >
-                  {isLoggingIn ? (
-                    <>
-                      <Loader2 className="mr-3 h-5 w-5 animate-spin" />
-                      {process.env.NODE_ENV === "production"
-                        ? "Processing Login Request..."
-                        : "Opening Browser & Waiting for Login..."}
-                    </>
-                  ) : (
-                    <>
-                      <Chrome className="mr-3 h-5 w-5" />
-                      Login with Twitter
-                    </>
-                  )}
-                </Button>
-
-                {/* Login Process Info */}
-                {authState === "authenticating" && (
-                  <Alert className="bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
-                    <Loader2 className="h-4 w-4 animate-spin text-blue-600 dark:text-blue-400" />
-                    <AlertDescription className="text-blue-600 dark:text-blue-400">
-                      <div className="space-y-1">
-                        <p className="font-medium">Authentication in progress...</p>
-                        <p className="text-sm">
-                          {process.env.NODE_ENV === "production"
-                            ? "Processing your login request. This may take a moment as we securely authenticate with Twitter."
-                            : "A browser window will open. Please log in to Twitter/X and wait for the process to complete."}
-                        </p>
-                      </div>
-                    </AlertDescription>
-                  </Alert>
-                )}
-
-                {/* Login Error */}
+                {/* Lapsed Session */}
                 {loginError && (
                   <Alert
                     variant="destructive"
-                    className="bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800"
+                    className="bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-left"
                   >
                     <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
                     <AlertDescription className="text-red-600 dark:text-red-400">
                       <div className="space-y-2">
-                        <p className="font-medium">Authentication Failed</p>
+                        <p className="font-medium">Session Ended</p>
                         <p className="text-sm">{loginError}</p>
                         <Button
                           variant="outline"
@@ -921,12 +1117,14 @@ export default function TwitterInput({
                           onClick={() => setLoginError(null)}
                           className="mt-2 text-red-600 border-red-300 hover:bg-red-50"
                         >
-                          Try Again
+                          Dismiss
                         </Button>
                       </div>
                     </AlertDescription>
                   </Alert>
                 )}
+
+                <TwitterLoginFlow onConnected={handleConnected} />
               </div>
 
               {/* Security Notice */}
@@ -936,8 +1134,9 @@ export default function TwitterInput({
                   <div className="space-y-1">
                     <p className="font-medium text-xs">Security & Privacy</p>
                     <p className="text-xs">
-                      Your authentication is processed securely and stored locally in your browser. We never store your
-                      Twitter credentials on our servers. Session data expires automatically after 24 hours.
+                      We never see your Twitter password. The session cookies are encrypted on our servers and your
+                      browser only keeps an opaque reference to them. Sessions expire automatically and you can
+                      disconnect an account at any time.
                       {process.env.NODE_ENV === "production" &&
                         " In production, authentication runs in a secure headless environment."}
                     </p>
@@ -1031,6 +1230,29 @@ export default function TwitterInput({
                     />
                   </div>
 
+                  {/* Format */}
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant={postMode === "posts" ? "default" : "outline"}
+                      size="sm"
+                      className={postMode === "posts" ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
+                      onClick={() => setPostMode("posts")}
+                    >
+                      Single posts
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={postMode === "thread" ? "default" : "outline"}
+                      size="sm"
+                      className={postMode === "thread" ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
+                      onClick={() => setPostMode("thread")}
+                    >
+                      <ListOrdered className="mr-2 h-4 w-4" />
+                      Thread
+                    </Button>
+                  </div>
+
                   {/* Advanced Settings Accordion */}
                   <Accordion type="single" collapsible className="w-full">
                     <AccordionItem value="content-settings" className="border-slate-200 dark:border-slate-700">
@@ -1057,51 +1279,113 @@ export default function TwitterInput({
                               </Select>
                             </div>
 
-                            {/* Length Setting */}
-                            <div className="space-y-2">
-                              <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">Length</label>
-                              <div className="flex gap-2">
-                                <Button
-                                  type="button"
-                                  variant={commentLength === "shorter" ? "default" : "outline"}
-                                  size="sm"
-                                  className={commentLength === "shorter" ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
-                                  onClick={() => setCommentLength("shorter")}
-                                >
-                                  Short
-                                </Button>
-                                <Button
-                                  type="button"
-                                  variant={commentLength === "longer" ? "default" : "outline"}
-                                  size="sm"
-                                  className={commentLength === "longer" ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
-                                  onClick={() => setCommentLength("longer")}
-                                >
-                                  Long
-                                </Button>
-                              </div>
-                            </div>
-
-                            {/* Variations */}
-                            <div className="space-y-2">
-                              <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">
-                                Variations
-                              </label>
-                              <div className="flex gap-2">
-                                {[1, 3, 5].map((num) => (
-                                  <Button
-                                    key={num}
-                                    type="button"
-                                    variant={variations === num ? "default" : "outline"}
-                                    size="sm"
-                                    className={variations === num ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
-                                    onClick={() => setVariations(num)}
+                            {postMode === "thread" ? (
+                              <>
+                                {/* Thread Length */}
+                                <div className="space-y-2">
+                                  <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">
+                                    Posts (including call to action)
+                                  </label>
+                                  <Select
+                                    value={String(threadPostCount)}
+                                    onValueChange={(value) => setThreadPostCount(Number(value))}
                                   >
-                                    {num}
-                                  </Button>
-                                ))}
-                              </div>
-                            </div>
+                                    <SelectTrigger className="bg-white dark:bg-slate-800 border-blue-200 dark:border-blue-800">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {Array.from(
+                                        { length: MAX_THREAD_POSTS - MIN_THREAD_POSTS + 1 },
+                                        (_, index) => MIN_THREAD_POSTS + index,
+                                      ).map((count) => (
+                                        <SelectItem key={count} value={String(count)}>
+                                          {count} posts
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+
+                                {/* Hook Style */}
+                                <div className="space-y-2">
+                                  <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">
+                                    Hook style
+                                  </label>
+                                  <Select value={hookStyle} onValueChange={(value) => setHookStyle(value as HookStyle)}>
+                                    <SelectTrigger className="bg-white dark:bg-slate-800 border-blue-200 dark:border-blue-800">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {HOOK_STYLES.map((style) => (
+                                        <SelectItem key={style} value={style}>
+                                          {HOOK_STYLE_LABELS[style]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+
+                                {/* Numbering */}
+                                <div className="flex items-center justify-between">
+                                  <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">
+                                    Number posts (1/{threadPostCount})
+                                  </label>
+                                  <Switch
+                                    checked={threadNumbering}
+                                    onCheckedChange={setThreadNumbering}
+                                    className="data-[state=checked]:bg-[#1DA1F2]"
+                                  />
+                                </div>
+                              </>
+                            ) : (
+                              <>
+                                {/* Length Setting */}
+                                <div className="space-y-2">
+                                  <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">Length</label>
+                                  <div className="flex gap-2">
+                                    <Button
+                                      type="button"
+                                      variant={commentLength === "shorter" ? "default" : "outline"}
+                                      size="sm"
+                                      className={commentLength === "shorter" ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
+                                      onClick={() => setCommentLength("shorter")}
+                                    >
+                                      Short
+                                    </Button>
+                                    <Button
+                                      type="button"
+                                      variant={commentLength === "longer" ? "default" : "outline"}
+                                      size="sm"
+                                      className={commentLength === "longer" ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
+                                      onClick={() => setCommentLength("longer")}
+                                    >
+                                      Long
+                                    </Button>
+                                  </div>
+                                </div>
+
+                                {/* Variations */}
+                                <div className="space-y-2">
+                                  <label className="text-sm font-medium text-[#1E293B] dark:text-slate-300">
+                                    Variations
+                                  </label>
+                                  <div className="flex gap-2">
+                                    {[1, 3, 5].map((num) => (
+                                      <Button
+                                        key={num}
+                                        type="button"
+                                        variant={variations === num ? "default" : "outline"}
+                                        size="sm"
+                                        className={variations === num ? "bg-[#1DA1F2] hover:bg-[#1a91da]" : ""}
+                                        onClick={() => setVariations(num)}
+                                      >
+                                        {num}
+                                      </Button>
+                                    ))}
+                                  </div>
+                                </div>
+                              </>
+                            )}
 
                             {/* Use Emoji */}
                             <div className="flex items-center justify-between">
@@ -1132,6 +1416,11 @@ export default function TwitterInput({
                               className="bg-white dark:bg-slate-800 border-blue-200 dark:border-blue-800"
                             />
                           </div>
+
+                          {/* Voice Profile */}
+                          <div className="mt-4">
+                            <VoiceProfileSelect value={voiceProfileId} onChange={setVoiceProfileId} />
+                          </div>
                         </div>
                       </AccordionContent>
                     </AccordionItem>
@@ -1146,12 +1435,14 @@ export default function TwitterInput({
                     {isGeneratingPosts ? (
                       <>
                         <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                        Generating Posts...
+                        {postMode === "thread" ? "Generating Thread..." : "Generating Posts..."}
                       </>
                     ) : (
                       <>
                         <Sparkles className="mr-2 h-5 w-5" />
-                        Generate {variations} Post{variations !== 1 ? "s" : ""}
+                        {postMode === "thread"
+                          ? `Generate ${threadPostCount}-Post Thread`
+                          : `Generate ${variations} Post${variations !== 1 ? "s" : ""}`}
                       </>
                     )}
                   </Button>
@@ -1173,17 +1464,30 @@ export default function TwitterInput({
                   {isGeneratingPosts && (
                     <div className="space-y-4">
                       <div className="flex items-center justify-between">
-                        <h3 className="text-lg font-semibold text-[#1E293B] dark:text-white">Generating Posts...</h3>
+                        <h3 className="text-lg font-semibold text-[#1E293B] dark:text-white">
+                          {postMode === "thread" ? "Generating Thread..." : "Generating Posts..."}
+                        </h3>
                       </div>
                       <div className="space-y-4">
-                        {Array.from({ length: variations }).map((_, index) => (
+                        {Array.from({ length: postMode === "thread" ? 3 : variations }).map((_, index) => (
                           <PostSkeleton key={index} />
                         ))}
                       </div>
                     </div>
                   )}
 
-                  {generatedPosts.length > 0 && !isGeneratingPosts && (
+                  {postMode === "thread" && threadPosts.length > 0 && !isGeneratingPosts && (
+                    <ThreadEditor
+                      posts={threadPosts}
+                      numbering={threadNumbering}
+                      onChange={setThreadPosts}
+                      onRegenerate={regenerateThreadPost}
+                      regeneratingIndex={regeneratingThreadPost}
+                      topic={topic.trim() || null}
+                    />
+                  )}
+
+                  {postMode === "posts" && generatedPosts.length > 0 && !isGeneratingPosts && (
                     <div className="space-y-4">
                       <div className="flex items-center justify-between">
                         <h3 className="text-lg font-semibold text-[#1E293B] dark:text-white">Generated Posts</h3>
@@ -1205,6 +1509,8 @@ export default function TwitterInput({
                                   <p className="text-[#1E293B] dark:text-slate-100 leading-relaxed text-base pr-12">
                                     {post.content}
                                   </p>
+                                  <FlaggedPhrases phrases={post.flaggedPhrases} className="mt-2" />
+                                  <PendingReview review={post.review} className="mt-2" />
                                   <Button
                                     variant="ghost"
                                     size="icon"
@@ -1292,6 +1598,13 @@ export default function TwitterInput({
                                       Download
                                     </Button>
                                   )}
+
+                                  <SchedulePostButton
+                                    platform="twitter"
+                                    parts={[post.content]}
+                                    hashtags={post.hashtags}
+                                    topic={topic.trim() || null}
+                                  />
                                 </div>
                               </div>
                             </CardContent>
@@ -1375,26 +1688,56 @@ export default function TwitterInput({
                   <CheckCircle className="h-4 w-4 sm:h-5 sm:w-5 text-green-600 dark:text-green-400" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="font-medium text-green-800 dark:text-green-200 text-sm">Twitter Account Connected</p>
+                  <p className="font-medium text-green-800 dark:text-green-200 text-sm">
+                    {activeSession?.username ? `Connected as @${activeSession.username}` : "Twitter Account Connected"}
+                  </p>
                   <p className="text-xs text-green-600 dark:text-green-400 truncate">
-                    Authenticated on {authData ? formatAuthTime(authData.timestamp) : "Unknown"}
+                    {activeSessionStatus && activeSessionStatus !== "active"
+                      ? `This session has ${activeSessionStatus}. Log in again to keep using it.`
+                      : `Authenticated on ${activeSession ? formatAuthTime(activeSession.createdAt) : "Unknown"}`}
                   </p>
                 </div>
               </div>
               <div className="flex items-center gap-2 flex-shrink-0">
+                {sessions.filter((session) => session.status === "active").length > 1 && (
+                  <Select value={activeSession?.id} onValueChange={selectSession}>
+                    <SelectTrigger className="h-8 w-[150px] text-xs border-green-300 dark:border-green-700">
+                      <SelectValue placeholder="Account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sessions
+                        .filter((session) => session.status === "active")
+                        .map((session) => (
+                          <SelectItem key={session.id} value={session.id}>
+                            {session.username ? `@${session.username}` : formatAuthTime(session.createdAt)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsAddingAccount((adding) => !adding)}
+                  className="text-green-700 border-green-300 hover:bg-green-100 dark:text-green-300 dark:border-green-700 dark:hover:bg-green-900/20 min-h-[32px]"
+                >
+                  <Plus className="h-3 w-3 sm:h-4 sm:w-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Add account</span>
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={checkCachedAuth}
+                  onClick={checkActiveSession}
+                  disabled={isCheckingSession}
                   className="text-green-700 border-green-300 hover:bg-green-100 dark:text-green-300 dark:border-green-700 dark:hover:bg-green-900/20 min-h-[32px]"
                 >
-                  <RefreshCw className="h-3 w-3 sm:h-4 sm:w-4 sm:mr-1" />
+                  <RefreshCw className={`h-3 w-3 sm:h-4 sm:w-4 sm:mr-1 ${isCheckingSession ? "animate-spin" : ""}`} />
                   <span className="hidden sm:inline">Refresh</span>
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={clearAuthCache}
+                  onClick={disconnectSession}
                   className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/20 min-h-[32px]"
                 >
                   <LogOut className="h-3 w-3 sm:h-4 sm:w-4 sm:mr-1" />
@@ -1402,6 +1745,12 @@ export default function TwitterInput({
                 </Button>
               </div>
             </div>
+
+            {isAddingAccount && (
+              <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-800">
+                <TwitterLoginFlow onConnected={handleConnected} onCancel={() => setIsAddingAccount(false)} />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -1463,7 +1812,7 @@ export default function TwitterInput({
               {extractSuccess && !isExtractingTweet && (
                 <div className="flex items-center gap-2 text-xs text-green-600 dark:text-green-400">
                   <CheckCircle className="h-3 w-3" />
-                  Tweet content extracted successfully
+                  {extractMessage || "Tweet content extracted successfully"}
                 </div>
               )}
 
@@ -1567,6 +1916,37 @@ export default function TwitterInput({
                       )}
                     </p>
 
+                    {/* Conversation context picked up by the extractor */}
+                    {inputMethod === "url" &&
+                      tweetContent &&
+                      (tweetContent.inReplyTo ||
+                        tweetContent.quoted ||
+                        (tweetContent.thread?.length || 0) > 1 ||
+                        (tweetContent.replies?.length || 0) > 0) && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {tweetContent.inReplyTo && (
+                            <Badge variant="secondary" className="text-xs">
+                              Reply to @{tweetContent.inReplyTo.username || "unknown"}
+                            </Badge>
+                          )}
+                          {(tweetContent.thread?.length || 0) > 1 && (
+                            <Badge variant="secondary" className="text-xs">
+                              Thread of {tweetContent.thread?.length}
+                            </Badge>
+                          )}
+                          {tweetContent.quoted && (
+                            <Badge variant="secondary" className="text-xs">
+                              Quotes @{tweetContent.quoted.username || "unknown"}
+                            </Badge>
+                          )}
+                          {(tweetContent.replies?.length || 0) > 0 && (
+                            <Badge variant="secondary" className="text-xs">
+                              {tweetContent.replies?.length} replies loaded
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+
                     {/* Tweet Images - Optimized with lazy loading */}
                     {tweetContent?.images && tweetContent.images.length > 0 && !imageError && (
                       <div className="mt-2">
@@ -1763,6 +2143,11 @@ export default function TwitterInput({
                   className="data-[state=checked]:bg-[#1DA1F2]"
                 />
               </div>
+
+              {/* Voice Profile Setting */}
+              <div className="py-1">
+                <VoiceProfileSelect value={voiceProfileId} onChange={setVoiceProfileId} />
+              </div>
             </AccordionContent>
           </AccordionItem>
         </Accordion>
@@ -1771,13 +2156,13 @@ export default function TwitterInput({
         <Button
           className="w-full h-12 sm:h-14 text-sm sm:text-base font-semibold bg-[#1DA1F2] hover:bg-[#1a91da] text-white transition-all duration-200 shadow-md hover:shadow-lg rounded-lg disabled:opacity-50 touch-manipulation"
           onClick={generateComments}
-          disabled={isGenerating || !getEffectiveContent().trim()}
+          disabled={!getEffectiveContent().trim()}
         >
           {isGenerating ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
-              <span className="hidden sm:inline">Generating Comments...</span>
-              <span className="sm:hidden">Generating...</span>
+              <span className="hidden sm:inline">Generating... click to restart</span>
+              <span className="sm:hidden">Restart</span>
             </>
           ) : (
             <>
@@ -1799,7 +2184,7 @@ export default function TwitterInput({
         )}
 
         {/* Generated Comments */}
-        {isGenerating && (
+        {isGenerating && comments.length === 0 && (
           <div className="space-y-4 pt-2">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold text-[#1E293B] dark:text-white">Generating Comments...</h3>
@@ -1812,10 +2197,12 @@ export default function TwitterInput({
           </div>
         )}
 
-        {comments.length > 0 && !isGenerating && (
+        {comments.length > 0 && (
           <div className="space-y-3 sm:space-y-4 pt-2">
             <div className="flex items-center justify-between">
-              <h3 className="text-base sm:text-lg font-semibold text-[#1E293B] dark:text-white">Generated Comments</h3>
+              <h3 className="text-base sm:text-lg font-semibold text-[#1E293B] dark:text-white">
+                {isGenerating ? "Generating Comments..." : "Generated Comments"}
+              </h3>
               <Badge
                 variant="secondary"
                 className="text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
@@ -1844,6 +2231,8 @@ export default function TwitterInput({
                   <p className="text-[#1E293B] dark:text-slate-100 leading-relaxed pr-10 sm:pr-12 text-sm sm:text-base">
                     {comment.text}
                   </p>
+                  <FlaggedPhrases phrases={comment.flaggedPhrases} className="mt-3" />
+                  <PendingReview review={comment.review} className="mt-3" />
                   <Button
                     variant="ghost"
                     size="icon"
@@ -1864,6 +2253,10 @@ export default function TwitterInput({
                   )}
                 </div>
               ))}
+              {isGenerating &&
+                Array.from({ length: Math.max(0, variations - comments.length) }).map((_, index) => (
+                  <CommentSkeleton key={`skeleton-${index}`} />
+                ))}
             </div>
           </div>
         )}
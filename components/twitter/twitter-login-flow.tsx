@@ -0,0 +1,212 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { AlertCircle, ArrowRight, Chrome, Loader2 } from "lucide-react"
+import type { LoginFlowView, LoginInputStep } from "@/lib/twitter/login/types"
+import type { TwitterSessionSummary } from "@/lib/twitter/vault/types"
+
+const OTP_LENGTH = 6
+
+const STEP_COPY: Record<LoginInputStep, { label: string; hint?: string; type: string; autoComplete: string }> = {
+  username: { label: "Phone, email or username", type: "text", autoComplete: "username" },
+  identifier: {
+    label: "Phone or email",
+    hint: "X noticed unusual activity. Confirm the phone number or email address on this account.",
+    type: "text",
+    autoComplete: "email",
+  },
+  password: { label: "Password", type: "password", autoComplete: "current-password" },
+  otp: {
+    label: "Verification code",
+    hint: "Enter the code from your authenticator app or the one X sent you.",
+    type: "text",
+    autoComplete: "one-time-code",
+  },
+}
+
+interface TwitterLoginFlowProps {
+  onConnected: (session: TwitterSessionSummary) => void
+  onCancel?: () => void
+}
+
+// Drives the headless X login one screen at a time; the server types each value into X's own form
+export default function TwitterLoginFlow({ onConnected, onCancel }: TwitterLoginFlowProps) {
+  const [flow, setFlow] = useState<LoginFlowView | null>(null)
+  const [value, setValue] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Every response carries the next step, or the connected session once X lets us in
+  const applyResponse = async (response: Response) => {
+    const data = await response.json()
+
+    if (response.status === 404) {
+      setFlow(null)
+      throw new Error(data.error || "This login has expired. Please start again.")
+    }
+
+    if (!response.ok) {
+      throw new Error(data.error || "Login failed. Please try again.")
+    }
+
+    const next: LoginFlowView = data.flow
+    setValue("")
+
+    if (next.step === "done" && next.session) {
+      setFlow(null)
+      onConnected(next.session)
+      return
+    }
+
+    setFlow(next)
+    setError(next.error)
+  }
+
+  const start = async () => {
+    setIsBusy(true)
+    setError(null)
+
+    try {
+      await applyResponse(await fetch("/api/twitter/login-session", { method: "POST" }))
+    } catch (error) {
+      console.error("❌ Error starting X login:", error)
+      setError(error instanceof Error ? error.message : "Login failed. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const submit = async (submitted: string) => {
+    if (!flow || flow.step === "done" || !submitted) return
+    setIsBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/twitter/login-session/${flow.flowId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ step: flow.step, value: submitted }),
+      })
+      await applyResponse(response)
+    } catch (error) {
+      console.error("❌ Error submitting X login step:", error)
+      setError(error instanceof Error ? error.message : "Login failed. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const cancel = async () => {
+    if (flow) {
+      await fetch(`/api/twitter/login-session/${flow.flowId}`, { method: "DELETE" }).catch(() => undefined)
+    }
+    setFlow(null)
+    setValue("")
+    setError(null)
+    onCancel?.()
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    submit(value)
+  }
+
+  const errorAlert = error && (
+    <Alert variant="destructive" className="text-left">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+    </Alert>
+  )
+
+  if (!flow || flow.step === "done") {
+    return (
+      <div className="space-y-4">
+        <Button
+          className="w-full h-14 text-base font-semibold bg-gradient-to-r from-[#1DA1F2] to-cyan-500 hover:from-[#1a91da] hover:to-cyan-600 text-white transition-all duration-200 shadow-lg hover:shadow-xl rounded-xl disabled:opacity-50"
+          onClick={start}
+          disabled={isBusy}
+        >
+          {isBusy ? (
+            <>
+              <Loader2 className="mr-3 h-5 w-5 animate-spin" />
+              Opening X login...
+            </>
+          ) : (
+            <>
+              <Chrome className="mr-3 h-5 w-5" />
+              Login with Twitter
+            </>
+          )}
+        </Button>
+        {errorAlert}
+      </div>
+    )
+  }
+
+  const copy = STEP_COPY[flow.step]
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <div className="space-y-2">
+        <Label htmlFor="twitter-login-value">{copy.label}</Label>
+        {copy.hint && <p className="text-sm text-slate-500 dark:text-slate-400">{copy.hint}</p>}
+
+        {flow.step === "otp" ? (
+          <InputOTP
+            id="twitter-login-value"
+            maxLength={OTP_LENGTH}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={value}
+            onChange={setValue}
+            onComplete={submit}
+            disabled={isBusy}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        ) : (
+          <Input
+            // A fresh input per step, so the browser doesn't offer the username as the password
+            key={flow.step}
+            id="twitter-login-value"
+            type={copy.type}
+            autoComplete={copy.autoComplete}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            disabled={isBusy}
+            autoFocus
+            required
+          />
+        )}
+      </div>
+
+      {errorAlert}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={cancel} disabled={isBusy}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isBusy || !value} className="bg-[#1DA1F2] hover:bg-[#1a91da] text-white">
+          {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
+          {flow.step === "password" ? "Log in" : "Next"}
+        </Button>
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Your password goes straight into X&apos;s login page and is never stored. Only the resulting session is kept,
+        encrypted.
+      </p>
+    </form>
+  )
+}
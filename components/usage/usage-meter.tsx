@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { AlertCircle, Gauge, Loader2 } from "lucide-react"
+import { FEATURE_LABELS } from "@/lib/usage/plans"
+import { USAGE_FEATURES, type UsageSummary } from "@/lib/usage/types"
+
+// Header popover with this month's usage against the plan's quotas, refreshed every time it opens
+export default function UsageMeter() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadUsage = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/usage")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load usage")
+      }
+
+      setSummary(data)
+    } catch (error) {
+      console.error("❌ Error loading usage:", error)
+      setError(error instanceof Error ? error.message : "Failed to load usage")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Popover onOpenChange={(open) => open && loadUsage()}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Gauge className="mr-2 h-4 w-4" />
+          Usage
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-[#1E293B] dark:text-white">This month</p>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+          ) : (
+            summary && <Badge variant="secondary">{summary.plan.name} plan</Badge>
+          )}
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        {summary && (
+          <>
+            <div className="space-y-3">
+              {USAGE_FEATURES.map((feature) => {
+                const { used, limit } = summary.features[feature]
+                const isExhausted = limit !== null && used >= limit
+
+                return (
+                  <div key={feature} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-slate-600 dark:text-slate-300">{FEATURE_LABELS[feature]}</span>
+                      <span className={isExhausted ? "text-red-600 dark:text-red-400" : "text-slate-500"}>
+                        {limit === null ? `${used} · unlimited` : `${used} / ${limit}`}
+                      </span>
+                    </div>
+                    <Progress value={limit ? Math.min(100, (used / limit) * 100) : 0} className="h-1.5" />
+                  </div>
+                )
+              })}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Resets on{" "}
+              {new Date(summary.resetsAt).toLocaleDateString(undefined, {
+                day: "numeric",
+                month: "long",
+                timeZone: "UTC",
+              })}
+            </p>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
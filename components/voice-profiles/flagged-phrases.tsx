@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle } from "lucide-react"
+
+// Warns when a generated text still contains phrases banned by the selected voice profile
+export default function FlaggedPhrases({ phrases, className }: { phrases?: string[]; className?: string }) {
+  if (!phrases || phrases.length === 0) return null
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 text-xs border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-400 ${className || ""}`}
+      title="These phrases are banned by the selected voice profile"
+    >
+      <AlertTriangle className="h-3 w-3" />
+      Contains banned: {phrases.join(", ")}
+    </Badge>
+  )
+}
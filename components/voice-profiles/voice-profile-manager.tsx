@@ -0,0 +1,353 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  EMOJI_POLICIES,
+  READING_LEVELS,
+  type EmojiPolicy,
+  type ReadingLevel,
+  type VoiceProfile,
+} from "@/lib/voice-profiles/types"
+
+interface VoiceProfileManagerProps {
+  isOpen: boolean
+  onClose: () => void
+  profiles: VoiceProfile[]
+  onProfilesChange: () => void
+}
+
+interface ProfileForm {
+  name: string
+  description: string
+  bannedPhrases: string
+  preferredVocabulary: string
+  emojiPolicy: EmojiPolicy
+  sampleWriting: string
+  readingLevel: ReadingLevel
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: "",
+  description: "",
+  bannedPhrases: "",
+  preferredVocabulary: "",
+  emojiPolicy: "sparing",
+  sampleWriting: "",
+  readingLevel: "conversational",
+}
+
+const EMOJI_POLICY_LABELS: Record<EmojiPolicy, string> = {
+  none: "No emojis",
+  sparing: "Sparing",
+  expressive: "Expressive",
+}
+
+const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  simple: "Simple",
+  conversational: "Conversational",
+  professional: "Professional",
+  expert: "Expert",
+}
+
+function toForm(profile: VoiceProfile): ProfileForm {
+  return {
+    name: profile.name,
+    description: profile.description,
+    bannedPhrases: profile.bannedPhrases.join("\n"),
+    preferredVocabulary: profile.preferredVocabulary.join("\n"),
+    emojiPolicy: profile.emojiPolicy,
+    sampleWriting: profile.sampleWriting,
+    readingLevel: profile.readingLevel,
+  }
+}
+
+export default function VoiceProfileManager({ isOpen, onClose, profiles, onProfilesChange }: VoiceProfileManagerProps) {
+  // null = creating a new profile
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from a blank form each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setEditingId(null)
+      setForm(EMPTY_FORM)
+      setError(null)
+    }
+  }, [isOpen])
+
+  const updateField = <K extends keyof ProfileForm>(field: K, value: ProfileForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const startEditing = (profile: VoiceProfile) => {
+    setEditingId(profile.id)
+    setForm(toForm(profile))
+    setError(null)
+  }
+
+  const startCreating = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setError(null)
+  }
+
+  const saveProfile = async () => {
+    if (!form.name.trim()) {
+      setError("Name is required")
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(editingId ? `/api/voice-profiles/${editingId}` : "/api/voice-profiles", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save voice profile")
+      }
+
+      setEditingId(data.profile.id)
+      setForm(toForm(data.profile))
+      onProfilesChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save voice profile")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteProfile = async (profile: VoiceProfile) => {
+    setDeletingId(profile.id)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/voice-profiles/${profile.id}`, { method: "DELETE" })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to delete voice profile")
+      }
+
+      if (editingId === profile.id) {
+        startCreating()
+      }
+      onProfilesChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete voice profile")
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[90vh] overflow-y-auto mx-auto">
+        <DialogHeader>
+          <DialogTitle>Voice Profiles</DialogTitle>
+          <DialogDescription>
+            Saved brand voices are added to the prompt of every generation that uses them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+          {/* Saved profiles */}
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full justify-start" onClick={startCreating}>
+              <Plus className="mr-2 h-4 w-4" />
+              New profile
+            </Button>
+
+            {profiles.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 px-1">No voice profiles yet.</p>
+            ) : (
+              profiles.map((profile) => (
+                <div
+                  key={profile.id}
+                  className={`flex items-center gap-1 rounded-lg border px-3 py-2 ${
+                    editingId === profile.id
+                      ? "border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-900/20"
+                      : "border-slate-200 dark:border-slate-700"
+                  }`}
+                >
+                  <span className="flex-1 truncate text-sm font-medium text-[#1E293B] dark:text-white">
+                    {profile.name}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(profile)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                    <span className="sr-only">Edit {profile.name}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteProfile(profile)}
+                    disabled={deletingId === profile.id}
+                  >
+                    {deletingId === profile.id ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-3.5 w-3.5 text-slate-500" />
+                    )}
+                    <span className="sr-only">Delete {profile.name}</span>
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Profile form */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <h4 className="text-sm font-semibold text-[#1E293B] dark:text-white">
+                {editingId ? "Edit profile" : "New profile"}
+              </h4>
+              {editingId && (
+                <Badge variant="secondary" className="text-xs">
+                  Saved
+                </Badge>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voice-name">Name</Label>
+              <Input
+                id="voice-name"
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                placeholder="e.g. Founder voice"
+                maxLength={80}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voice-description">Description</Label>
+              <Textarea
+                id="voice-description"
+                value={form.description}
+                onChange={(e) => updateField("description", e.target.value)}
+                placeholder="Direct and optimistic. Speaks from experience, never lectures."
+                className="min-h-[60px]"
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Reading level</Label>
+                <Select
+                  value={form.readingLevel}
+                  onValueChange={(value) => updateField("readingLevel", value as ReadingLevel)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {READING_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {READING_LEVEL_LABELS[level]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Emojis</Label>
+                <Select
+                  value={form.emojiPolicy}
+                  onValueChange={(value) => updateField("emojiPolicy", value as EmojiPolicy)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMOJI_POLICIES.map((policy) => (
+                      <SelectItem key={policy} value={policy}>
+                        {EMOJI_POLICY_LABELS[policy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="voice-banned">Banned phrases</Label>
+                <Textarea
+                  id="voice-banned"
+                  value={form.bannedPhrases}
+                  onChange={(e) => updateField("bannedPhrases", e.target.value)}
+                  placeholder={"synergy\ngame-changer"}
+                  className="min-h-[90px]"
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400">One per line or comma separated</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="voice-vocabulary">Preferred vocabulary</Label>
+                <Textarea
+                  id="voice-vocabulary"
+                  value={form.preferredVocabulary}
+                  onChange={(e) => updateField("preferredVocabulary", e.target.value)}
+                  placeholder={"customers\nship"}
+                  className="min-h-[90px]"
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400">One per line or comma separated</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voice-sample">Sample writing</Label>
+              <Textarea
+                id="voice-sample"
+                value={form.sampleWriting}
+                onChange={(e) => updateField("sampleWriting", e.target.value)}
+                placeholder="Paste a post or two written in this voice"
+                className="min-h-[100px]"
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button
+                className="bg-[#3B82F6] hover:bg-blue-600 text-white"
+                onClick={saveProfile}
+                disabled={isSaving}
+              >
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? "Save changes" : "Create profile"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
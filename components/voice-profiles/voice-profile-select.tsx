@@ -0,0 +1,85 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Mic, Settings2 } from "lucide-react"
+import VoiceProfileManager from "./voice-profile-manager"
+import type { VoiceProfile } from "@/lib/voice-profiles/types"
+
+// Radix Select doesn't allow an empty item value
+const NO_PROFILE = "none"
+
+interface VoiceProfileSelectProps {
+  value: string | null
+  onChange: (profileId: string | null) => void
+  className?: string
+}
+
+export default function VoiceProfileSelect({ value, onChange, className }: VoiceProfileSelectProps) {
+  const [profiles, setProfiles] = useState<VoiceProfile[]>([])
+  const [isManagerOpen, setIsManagerOpen] = useState(false)
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/voice-profiles")
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load voice profiles")
+      }
+
+      setProfiles(data.profiles)
+
+      // Clear the selection if the profile was deleted
+      if (value && !data.profiles.some((profile: VoiceProfile) => profile.id === value)) {
+        onChange(null)
+      }
+    } catch (error) {
+      console.error("❌ Error loading voice profiles:", error)
+    }
+  }, [value, onChange])
+
+  useEffect(() => {
+    loadProfiles()
+    // Only load on mount; the manager triggers reloads after changes
+  }, [])
+
+  return (
+    <div className={`flex flex-col gap-1 ${className || ""}`}>
+      <div className="flex items-center gap-2">
+        <Mic className="h-4 w-4 text-[#3B82F6] shrink-0" />
+        <Select value={value || NO_PROFILE} onValueChange={(id) => onChange(id === NO_PROFILE ? null : id)}>
+          <SelectTrigger className="w-full bg-white dark:bg-slate-800 border-blue-200 dark:border-blue-800">
+            <SelectValue placeholder="Voice profile" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>No voice profile</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          className="shrink-0 border-blue-200 dark:border-blue-800"
+          onClick={() => setIsManagerOpen(true)}
+        >
+          <Settings2 className="h-4 w-4" />
+          <span className="sr-only">Manage voice profiles</span>
+        </Button>
+      </div>
+      <p className="text-xs text-blue-600 dark:text-blue-400">Apply a saved brand voice to generated text</p>
+
+      <VoiceProfileManager
+        isOpen={isManagerOpen}
+        onClose={() => setIsManagerOpen(false)}
+        profiles={profiles}
+        onProfilesChange={loadProfiles}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+// Runs once per server start (Next.js instrumentation hook)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  // Long-running servers run these on an interval; Vercel uses the crons in vercel.json instead
+  if (process.env.TRENDS_SNAPSHOT_INTERVAL_MINUTES) {
+    const { default: trendSnapshotter } = await import("@/lib/trends/snapshotter")
+    trendSnapshotter.start()
+  }
+
+  if (process.env.TREND_ALERTS_INTERVAL_MINUTES) {
+    const { default: trendAlertScheduler } = await import("@/lib/trend-alerts/scheduler")
+    trendAlertScheduler.start()
+  }
+
+  if (process.env.SCHEDULE_DISPATCH_INTERVAL_MINUTES) {
+    const { default: scheduleDispatcher } = await import("@/lib/schedule/dispatcher")
+    scheduleDispatcher.start()
+  }
+}
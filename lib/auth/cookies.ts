@@ -0,0 +1,26 @@
+// Cookie names and helpers shared with middleware.ts, which runs on the edge: keep this file free of Node imports
+
+export const SESSION_COOKIE = "altreach_session"
+export const OAUTH_STATE_COOKIE = "altreach_oauth_state"
+
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+export const OAUTH_STATE_MAX_AGE_SECONDS = 10 * 60
+
+export function readCookie(header: string | null, name: string): string | null {
+  if (!header) return null
+
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=")
+    if (index === -1) continue
+    if (part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim())
+    }
+  }
+  return null
+}
+
+// Only same-site paths, so sign-in links can't redirect elsewhere
+export function safeRedirectPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) return "/"
+  return next
+}
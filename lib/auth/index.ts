@@ -0,0 +1,202 @@
+import path from "path"
+import redis from "@/lib/redis"
+import { isMailConfigured, sendMail } from "@/lib/mail"
+import type { PlanId } from "@/lib/usage/types"
+import { SESSION_MAX_AGE_SECONDS, safeRedirectPath } from "./cookies"
+import { FileAuthStore } from "./stores/file"
+import { RedisAuthStore } from "./stores/redis"
+import { createToken, hashToken } from "./tokens"
+import {
+  MagicLinkRequestSchema,
+  type AuthRepository,
+  type MagicLinkRequest,
+  type OAuthProfile,
+  type Session,
+  type SignInMethod,
+  type User,
+} from "./types"
+
+// Accounts for the app itself: email magic links or GitHub/Google OAuth, then a server-side session
+// Magic links are emailed over SMTP from AUTH_EMAIL_FROM; without SMTP the link is logged in development and email
+// sign-in is refused in production
+// AUTH_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000
+
+// SMTP isn't configured in production, where logging the link would hand it to anyone who can read the logs
+export class MagicLinkUnavailableError extends Error {
+  constructor() {
+    super("Email sign-in is not configured (set SMTP_HOST)")
+    this.name = "MagicLinkUnavailableError"
+  }
+}
+
+export class InvalidMagicLinkError extends Error {
+  constructor() {
+    super("This sign-in link is invalid or has expired")
+    this.name = "InvalidMagicLinkError"
+  }
+}
+
+class AuthService {
+  constructor(private repository: AuthRepository) {}
+
+  setRepository(repository: AuthRepository): void {
+    this.repository = repository
+  }
+
+  getUser(id: string): Promise<User | null> {
+    return this.repository.getUser(id)
+  }
+
+  // Plans are assigned by operators (billing lives outside the app); returns null for unknown users
+  async setPlan(userId: string, plan: PlanId): Promise<User | null> {
+    const existing = await this.repository.getUser(userId)
+    if (!existing) return null
+
+    const user = { ...existing, plan, updatedAt: new Date().toISOString() }
+    await this.repository.saveUser(user)
+    return user
+  }
+
+  // Throws a ZodError when the email is invalid
+  async requestMagicLink(input: MagicLinkRequest, origin: string): Promise<void> {
+    const { email, next } = MagicLinkRequestSchema.parse(input)
+    if (!isMailConfigured() && process.env.NODE_ENV === "production") {
+      throw new MagicLinkUnavailableError()
+    }
+
+    const token = createToken()
+    const now = Date.now()
+
+    await this.repository.saveMagicLink({
+      id: hashToken(token),
+      email,
+      next: safeRedirectPath(next),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + MAGIC_LINK_TTL_MS).toISOString(),
+    })
+
+    const url = `${process.env.APP_URL || origin}/api/auth/magic-link/verify?token=${encodeURIComponent(token)}`
+
+    // Development only; production refused above
+    if (!isMailConfigured()) {
+      console.warn(`⚠️ SMTP not configured, sign-in link for ${email}: ${url}`)
+      return
+    }
+
+    await sendMail({
+      from: process.env.AUTH_EMAIL_FROM,
+      to: email,
+      subject: "Your Altreach sign-in link",
+      text: [
+        "Use the link below to sign in to Altreach. It expires in 15 minutes and can only be used once.",
+        "",
+        url,
+        "",
+        "If you didn't ask for this, you can ignore this email.",
+      ].join("\n"),
+    })
+  }
+
+  // Consumes the link and returns the (possibly new) user and where to send them
+  async verifyMagicLink(token: string): Promise<{ user: User; next: string }> {
+    const link = token ? await this.repository.takeMagicLink(hashToken(token)) : null
+    if (!link) {
+      throw new InvalidMagicLinkError()
+    }
+
+    const user = await this.upsertUser({ email: link.email, name: null, image: null }, "email")
+    return { user, next: link.next }
+  }
+
+  // Accounts are matched on verified email, so email and OAuth sign-ins share one user
+  signInWithOAuth(profile: OAuthProfile, method: SignInMethod): Promise<User> {
+    return this.upsertUser(profile, method)
+  }
+
+  // Returns the raw token for the cookie; only its hash is stored
+  async createSession(user: User, userAgent: string | null = null): Promise<{ token: string; session: Session }> {
+    const token = createToken()
+    const now = Date.now()
+    const session: Session = {
+      id: hashToken(token),
+      userId: user.id,
+      userAgent: userAgent?.slice(0, 200) || null,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_MAX_AGE_SECONDS * 1000).toISOString(),
+    }
+
+    await this.repository.saveSession(session)
+    return { token, session }
+  }
+
+  async getUserBySessionToken(token: string): Promise<User | null> {
+    const session = await this.repository.getSession(hashToken(token))
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+      return null
+    }
+    return this.repository.getUser(session.userId)
+  }
+
+  deleteSession(token: string): Promise<void> {
+    return this.repository.deleteSession(hashToken(token))
+  }
+
+  private async upsertUser(profile: OAuthProfile, method: SignInMethod): Promise<User> {
+    const email = profile.email.trim().toLowerCase()
+    const existing = await this.repository.getUserByEmail(email)
+    const now = new Date().toISOString()
+
+    const user: User = existing
+      ? {
+          ...existing,
+          name: existing.name || profile.name,
+          image: existing.image || profile.image,
+          signInMethods: existing.signInMethods.includes(method)
+            ? existing.signInMethods
+            : [...existing.signInMethods, method],
+          updatedAt: now,
+          lastSignInAt: now,
+        }
+      : {
+          id: crypto.randomUUID(),
+          email,
+          name: profile.name,
+          image: profile.image,
+          signInMethods: [method],
+          createdAt: now,
+          updatedAt: now,
+          lastSignInAt: now,
+        }
+
+    await this.repository.saveUser(user)
+    if (!existing) {
+      console.log(`👤 New account: ${email} (${method})`)
+    }
+    return user
+  }
+}
+
+function createDefaultRepository(): AuthRepository {
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.AUTH_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisAuthStore(redis)
+  }
+
+  const filePath = process.env.AUTH_FILE_PATH || path.join(process.cwd(), ".data", "auth.json")
+  console.warn(`⚠️ Using file-based auth store at ${filePath}`)
+  return new FileAuthStore(filePath)
+}
+
+// Create singleton auth service
+const auth = new AuthService(createDefaultRepository())
+
+export default auth
+
+export { FileAuthStore } from "./stores/file"
+export { RedisAuthStore } from "./stores/redis"
+export * from "./cookies"
+export * from "./types"
@@ -0,0 +1,145 @@
+import { OAUTH_PROVIDERS, type OAuthProfile, type OAuthProviderName } from "./types"
+
+// OAuth 2.0 authorization-code sign-in with GitHub and Google
+// Each provider is enabled by setting its <PROVIDER>_CLIENT_ID and <PROVIDER>_CLIENT_SECRET
+// Callback URLs are <APP_URL>/api/auth/oauth/<provider>/callback; APP_URL defaults to the request origin
+
+const OAUTH_TIMEOUT = 10_000
+
+interface OAuthProvider {
+  label: string
+  authorizeUrl: string
+  tokenUrl: string
+  scope: string
+  clientId: string | undefined
+  clientSecret: string | undefined
+  fetchProfile(accessToken: string): Promise<OAuthProfile>
+}
+
+const PROVIDERS: Record<OAuthProviderName, OAuthProvider> = {
+  github: {
+    label: "GitHub",
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    tokenUrl: "https://github.com/login/oauth/access_token",
+    scope: "read:user user:email",
+    clientId: process.env.GITHUB_CLIENT_ID,
+    clientSecret: process.env.GITHUB_CLIENT_SECRET,
+    async fetchProfile(accessToken) {
+      const [profile, emails] = await Promise.all([
+        getJson<{ name: string | null; login: string; avatar_url: string | null }>(
+          "https://api.github.com/user",
+          accessToken,
+        ),
+        getJson<{ email: string; primary: boolean; verified: boolean }[]>(
+          "https://api.github.com/user/emails",
+          accessToken,
+        ),
+      ])
+
+      // The public profile email may be unverified or hidden; only trust a verified address
+      const email = emails.find((entry) => entry.primary && entry.verified) || emails.find((entry) => entry.verified)
+      if (!email) {
+        throw new OAuthError("Your GitHub account has no verified email address")
+      }
+
+      return { email: email.email, name: profile.name || profile.login, image: profile.avatar_url }
+    },
+  },
+  google: {
+    label: "Google",
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    scope: "openid email profile",
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    async fetchProfile(accessToken) {
+      const profile = await getJson<{ email?: string; email_verified?: boolean; name?: string; picture?: string }>(
+        "https://openidconnect.googleapis.com/v1/userinfo",
+        accessToken,
+      )
+
+      if (!profile.email || !profile.email_verified) {
+        throw new OAuthError("Your Google account has no verified email address")
+      }
+
+      return { email: profile.email, name: profile.name || null, image: profile.picture || null }
+    },
+  },
+}
+
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "OAuthError"
+  }
+}
+
+export function isOAuthProvider(name: string): name is OAuthProviderName {
+  return (OAUTH_PROVIDERS as readonly string[]).includes(name)
+}
+
+export function isProviderConfigured(name: OAuthProviderName): boolean {
+  const provider = PROVIDERS[name]
+  return !!(provider.clientId && provider.clientSecret)
+}
+
+// Providers shown on the sign-in page
+export function configuredProviders(): { id: OAuthProviderName; label: string }[] {
+  return OAUTH_PROVIDERS.filter(isProviderConfigured).map((id) => ({ id, label: PROVIDERS[id].label }))
+}
+
+export function callbackUrl(name: OAuthProviderName, origin: string): string {
+  return `${process.env.APP_URL || origin}/api/auth/oauth/${name}/callback`
+}
+
+export function authorizationUrl(name: OAuthProviderName, state: string, redirectUri: string): string {
+  const provider = PROVIDERS[name]
+  const params = new URLSearchParams({
+    client_id: provider.clientId!,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: provider.scope,
+    state,
+  })
+  return `${provider.authorizeUrl}?${params.toString()}`
+}
+
+// Exchanges the authorization code and reads the verified email, name and avatar
+export async function fetchOAuthProfile(
+  name: OAuthProviderName,
+  code: string,
+  redirectUri: string,
+): Promise<OAuthProfile> {
+  const provider = PROVIDERS[name]
+  const response = await fetch(provider.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      client_id: provider.clientId!,
+      client_secret: provider.clientSecret!,
+      code,
+      redirect_uri: redirectUri,
+      grant_type: "authorization_code",
+    }),
+    signal: AbortSignal.timeout(OAUTH_TIMEOUT),
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.access_token) {
+    throw new OAuthError(`${provider.label} sign-in failed: ${data.error_description || data.error || response.status}`)
+  }
+
+  return provider.fetchProfile(data.access_token)
+}
+
+async function getJson<T>(url: string, accessToken: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json", "User-Agent": "Altreach" },
+    signal: AbortSignal.timeout(OAUTH_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    throw new OAuthError(`Failed to read profile from ${new URL(url).hostname}: ${response.status}`)
+  }
+  return response.json() as Promise<T>
+}
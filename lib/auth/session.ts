@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import auth from "./index"
+import { SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, readCookie } from "./cookies"
+import type { User } from "./types"
+
+// Resolved once per request, since withAuth and withRateLimit both ask
+const sessionUsers = new WeakMap<Request, Promise<User | null>>()
+
+export function getSessionToken(request: Request): string | null {
+  return readCookie(request.headers.get("cookie"), SESSION_COOKIE)
+}
+
+export function getSessionUser(request: Request): Promise<User | null> {
+  let user = sessionUsers.get(request)
+  if (!user) {
+    const token = getSessionToken(request)
+    user = token
+      ? auth.getUserBySessionToken(token).catch((error) => {
+          console.error("❌ Error loading session:", error)
+          return null
+        })
+      : Promise.resolve(null)
+    sessionUsers.set(request, user)
+  }
+  return user
+}
+
+// Wraps a route handler: rejects with 401 without a valid session, otherwise passes the user after the request
+export function withAuth<TArgs extends unknown[]>(
+  handler: (request: Request, user: User, ...args: TArgs) => Promise<Response>,
+) {
+  return async (request: Request, ...args: TArgs): Promise<Response> => {
+    const user = await getSessionUser(request)
+
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in to continue.", unauthenticated: true }, { status: 401 })
+    }
+
+    return handler(request, user, ...args)
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 })
+}
+
+// How a user shows up in audit trails and review queues
+export function displayName(user: User): string {
+  return user.name || user.email
+}
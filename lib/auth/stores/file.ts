@@ -0,0 +1,100 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { AuthRepository, MagicLink, Session, User } from "../types"
+
+interface AuthFileData {
+  users: Record<string, User>
+  sessions: Record<string, Session>
+  magicLinks: Record<string, MagicLink>
+}
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileAuthStore implements AuthRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async getUser(id: string): Promise<User | null> {
+    const data = await this.read()
+    return data.users[id] || null
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const data = await this.read()
+    return Object.values(data.users).find((user) => user.email === email) || null
+  }
+
+  async saveUser(user: User): Promise<void> {
+    await this.update((data) => ({ ...data, users: { ...data.users, [user.id]: user } }))
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    const data = await this.read()
+    const session = data.sessions[id]
+    return session && !isExpired(session.expiresAt) ? session : null
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    await this.update((data) => ({ ...data, sessions: { ...data.sessions, [session.id]: session } }))
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.update((data) => {
+      const { [id]: _removed, ...sessions } = data.sessions
+      return { ...data, sessions }
+    })
+  }
+
+  async saveMagicLink(link: MagicLink): Promise<void> {
+    await this.update((data) => ({ ...data, magicLinks: { ...data.magicLinks, [link.id]: link } }))
+  }
+
+  async takeMagicLink(id: string): Promise<MagicLink | null> {
+    let taken: MagicLink | null = null
+    await this.update((data) => {
+      const { [id]: link, ...magicLinks } = data.magicLinks
+      taken = link && !isExpired(link.expiresAt) ? link : null
+      return { ...data, magicLinks }
+    })
+    return taken
+  }
+
+  private async read(): Promise<AuthFileData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      return { users: data?.users || {}, sessions: data?.sessions || {}, magicLinks: data?.magicLinks || {} }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { users: {}, sessions: {}, magicLinks: {} }
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  // Expired sessions and links are pruned on every write, standing in for Redis TTLs
+  private update(change: (data: AuthFileData) => AuthFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      data.sessions = pruneExpired(data.sessions)
+      data.magicLinks = pruneExpired(data.magicLinks)
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
+
+function isExpired(expiresAt: string): boolean {
+  return new Date(expiresAt).getTime() <= Date.now()
+}
+
+function pruneExpired<T extends { expiresAt: string }>(records: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(records).filter(([, record]) => !isExpired(record.expiresAt)))
+}
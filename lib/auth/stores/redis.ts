@@ -0,0 +1,66 @@
+import type { Redis } from "@upstash/redis"
+import type { AuthRepository, MagicLink, Session, User } from "../types"
+
+// Users live in a hash keyed by id, with an email → id index
+// Sessions and magic links are plain keys that expire with them
+export class RedisAuthStore implements AuthRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private prefix = "altreach:auth",
+  ) {}
+
+  async getUser(id: string): Promise<User | null> {
+    return this.deserialize<User>(await this.client.hget(`${this.prefix}:users`, id))
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const id = await this.client.hget<string>(`${this.prefix}:emails`, email)
+    return id ? this.getUser(id) : null
+  }
+
+  async saveUser(user: User): Promise<void> {
+    const pipeline = this.client.pipeline()
+    pipeline.hset(`${this.prefix}:users`, { [user.id]: JSON.stringify(user) })
+    pipeline.hset(`${this.prefix}:emails`, { [user.email]: user.id })
+    await pipeline.exec()
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    return this.deserialize<Session>(await this.client.get(`${this.prefix}:session:${id}`))
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    await this.client.set(`${this.prefix}:session:${session.id}`, JSON.stringify(session), {
+      pxat: new Date(session.expiresAt).getTime(),
+    })
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.client.del(`${this.prefix}:session:${id}`)
+  }
+
+  async saveMagicLink(link: MagicLink): Promise<void> {
+    await this.client.set(`${this.prefix}:magic-link:${link.id}`, JSON.stringify(link), {
+      pxat: new Date(link.expiresAt).getTime(),
+    })
+  }
+
+  async takeMagicLink(id: string): Promise<MagicLink | null> {
+    return this.deserialize<MagicLink>(await this.client.getdel(`${this.prefix}:magic-link:${id}`))
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize<T>(value: unknown): T | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as T
+      } catch {
+        return null
+      }
+    }
+    return value as T
+  }
+}
@@ -0,0 +1,10 @@
+import { createHash, randomBytes } from "crypto"
+
+// 256-bit random tokens for sessions, magic links and OAuth state
+export function createToken(): string {
+  return randomBytes(32).toString("base64url")
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
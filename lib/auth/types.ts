@@ -0,0 +1,62 @@
+import { z } from "zod"
+import type { PlanId } from "@/lib/usage/types"
+
+export const OAUTH_PROVIDERS = ["github", "google"] as const
+export type OAuthProviderName = (typeof OAUTH_PROVIDERS)[number]
+
+export type SignInMethod = "email" | OAuthProviderName
+
+export interface User {
+  id: string
+  email: string // Lowercased; one account per address whichever way it signs in
+  name: string | null
+  image: string | null
+  signInMethods: SignInMethod[]
+  plan?: PlanId // Unset means DEFAULT_PLAN
+  createdAt: string
+  updatedAt: string
+  lastSignInAt: string | null
+}
+
+// Sessions and magic links are stored under the SHA-256 of their token, never the token itself
+export interface Session {
+  id: string
+  userId: string
+  userAgent: string | null
+  createdAt: string
+  expiresAt: string
+}
+
+export interface MagicLink {
+  id: string
+  email: string
+  next: string // Where to land after signing in
+  createdAt: string
+  expiresAt: string
+}
+
+export interface OAuthProfile {
+  email: string
+  name: string | null
+  image: string | null
+}
+
+export const MagicLinkRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address").max(254),
+  next: z.string().optional(),
+})
+
+export type MagicLinkRequest = z.input<typeof MagicLinkRequestSchema>
+
+export interface AuthRepository {
+  readonly name: string
+  getUser(id: string): Promise<User | null>
+  getUserByEmail(email: string): Promise<User | null>
+  saveUser(user: User): Promise<void>
+  getSession(id: string): Promise<Session | null>
+  saveSession(session: Session): Promise<void>
+  deleteSession(id: string): Promise<void>
+  saveMagicLink(link: MagicLink): Promise<void>
+  // Removes the link as it's read, so each link signs in once
+  takeMagicLink(id: string): Promise<MagicLink | null>
+}
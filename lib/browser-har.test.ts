@@ -0,0 +1,103 @@
+import { EventEmitter } from "events"
+import type { HTTPRequest, HTTPResponse, Page } from "puppeteer-core"
+import { describe, expect, it } from "vitest"
+import { HarRecorder, redactResponseBody } from "./browser-har"
+
+// The recorder only listens for page events, so an emitter with hand-made requests stands in for puppeteer
+
+const LOGIN_URL = "https://x.com/i/api/1.1/onboarding/task.json?flow_name=login"
+
+function fakeRequest(headers: Record<string, string>, postData?: string, url = LOGIN_URL): HTTPRequest {
+  return {
+    method: () => (postData ? "POST" : "GET"),
+    url: () => url,
+    headers: () => headers,
+    postData: () => postData,
+    resourceType: () => "xhr",
+  } as unknown as HTTPRequest
+}
+
+function fakeResponse(request: HTTPRequest, headers: Record<string, string>, body: string): HTTPResponse {
+  return {
+    request: () => request,
+    headers: () => headers,
+    status: () => 200,
+    statusText: () => "OK",
+    buffer: async () => Buffer.from(body),
+  } as unknown as HTTPResponse
+}
+
+describe("HarRecorder", () => {
+  it("redacts cookies, auth headers and request bodies but keeps what replays need", async () => {
+    const page = new EventEmitter()
+    const recorder = new HarRecorder(page as unknown as Page, "login")
+
+    const body = JSON.stringify({ password: "hunter2" })
+    const request = fakeRequest(
+      { cookie: "auth_token=abc", authorization: "Bearer token", "content-type": "application/json" },
+      body,
+    )
+    page.emit("request", request)
+    page.emit(
+      "response",
+      fakeResponse(
+        request,
+        { "set-cookie": "auth_token=abc; Path=/", "content-type": "application/json" },
+        JSON.stringify({ flow_token: "flow-secret", subtasks: [] }),
+      ),
+    )
+
+    const [entry] = (await recorder.finish()).log.entries
+    const saved = JSON.stringify(entry)
+
+    expect(saved).not.toContain("hunter2")
+    expect(saved).not.toContain("auth_token=abc")
+    expect(saved).not.toContain("Bearer token")
+    expect(entry.request.postData).toEqual({ mimeType: "application/json", text: "[redacted]" })
+    expect(entry.request.bodySize).toBe(Buffer.byteLength(body))
+    expect(entry.request.headers).toContainEqual({ name: "cookie", value: "[redacted]" })
+    expect(entry.request.headers).toContainEqual({ name: "authorization", value: "[redacted]" })
+    expect(entry.response.headers).toContainEqual({ name: "set-cookie", value: "[redacted]" })
+    expect(entry.response.content.text).toBe("[redacted]")
+    expect(saved).not.toContain("flow-secret")
+  })
+
+  it("keeps other response bodies with token-like fields scrubbed", async () => {
+    const page = new EventEmitter()
+    const recorder = new HarRecorder(page as unknown as Page, "timeline")
+
+    const url = "https://x.com/i/api/graphql/abc/UserTweets?variables=%7B%7D"
+    const request = fakeRequest({}, undefined, url)
+    page.emit("request", request)
+    page.emit(
+      "response",
+      fakeResponse(
+        request,
+        { "content-type": "application/json; charset=utf-8" },
+        JSON.stringify({ data: { user: { name: "Taylor", guest_token: "g-123" } }, cursors: [{ csrfToken: "c-456" }] }),
+      ),
+    )
+
+    const [entry] = (await recorder.finish()).log.entries
+    expect(JSON.parse(entry.response.content.text!)).toEqual({
+      data: { user: { name: "Taylor", guest_token: "[redacted]" } },
+      cursors: [{ csrfToken: "[redacted]" }],
+    })
+  })
+})
+
+describe("redactResponseBody", () => {
+  it("drops sign-in responses whatever their type", () => {
+    expect(redactResponseBody("https://x.com/i/flow/login", "text/html", "<html>ct0</html>")).toBe("[redacted]")
+    expect(redactResponseBody("https://api.x.com/1.1/onboarding/task.json", "application/json", "{}")).toBe(
+      "[redacted]",
+    )
+  })
+
+  it("drops GraphQL bodies it can't scrub and leaves ordinary pages alone", () => {
+    expect(redactResponseBody("https://x.com/i/api/graphql/abc/Viewer", "text/plain", "not json")).toBe("[redacted]")
+    expect(redactResponseBody("https://x.com/someone/status/1", "text/html", "<html>Post</html>")).toBe(
+      "<html>Post</html>",
+    )
+  })
+})
@@ -0,0 +1,287 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { HTTPRequest, HTTPResponse, Page } from "puppeteer-core"
+
+// HAR 1.2 recording of a page session, so a failed extraction can be replayed offline with replayHar.
+// BROWSER_HAR: off (default), failures (keep only sessions whose task failed) or all. Files go to BROWSER_HAR_DIR.
+// Cookies, auth headers and request bodies (which can carry passwords or tokens) are redacted before anything is
+// written, as are response bodies from sign-in endpoints and token-like fields in JSON responses; the files still hold
+// page content, treat them as private.
+
+export const HAR_MODES = ["off", "failures", "all"] as const
+export type HarMode = (typeof HAR_MODES)[number]
+
+interface HarHeader {
+  name: string
+  value: string
+}
+
+export interface HarEntry {
+  pageref: string
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarHeader[]
+    queryString: HarHeader[]
+    cookies: []
+    headersSize: -1
+    bodySize: number
+    postData?: { mimeType: string; text: string }
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarHeader[]
+    cookies: []
+    content: { size: number; mimeType: string; text?: string }
+    redirectURL: string
+    headersSize: -1
+    bodySize: number
+  }
+  cache: Record<string, never>
+  timings: { send: number; wait: number; receive: number }
+  _resourceType: string
+  _error?: string
+}
+
+export interface Har {
+  log: {
+    version: "1.2"
+    creator: { name: string; version: string }
+    pages: { id: string; title: string; startedDateTime: string; pageTimings: Record<string, never> }[]
+    entries: HarEntry[]
+  }
+}
+
+const PAGE_ID = "page_1"
+const REDACTED = "[redacted]"
+const REDACTED_HEADERS = new Set(["cookie", "set-cookie", "authorization", "x-csrf-token", "x-client-transaction-id"])
+const REPLAY_DROPPED_HEADERS = new Set(["content-length", "content-encoding", "transfer-encoding"])
+// Bodies of these types are kept so replays can serve them; images and other binaries only record their size
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|javascript|x-javascript|xml|.*\+json))/
+const MAX_BODY_BYTES = 2 * 1024 * 1024
+// Sign-in and onboarding responses hand out tokens and session state, so their bodies are dropped entirely
+const AUTH_URL = /\/(onboarding|i\/flow\/login|sessions?|oauth2?|account\/(login|access|verify))([/.?]|$)/i
+const GRAPHQL_URL = /\/graphql(\/|$)/i
+const TOKEN_KEY = /token|secret|passw|csrf|cookie|credential|api_?key|session|^ct0$/i
+
+export function harMode(): HarMode {
+  const configured = (process.env.BROWSER_HAR || "off") as HarMode
+  return HAR_MODES.includes(configured) ? configured : "off"
+}
+
+function toHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({
+    name,
+    value: REDACTED_HEADERS.has(name.toLowerCase()) ? REDACTED : value,
+  }))
+}
+
+function toQueryString(url: string): HarHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
+
+// Replaces the values of token-like keys at any depth
+function redactTokens(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactTokens)
+  if (!value || typeof value !== "object") return value
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, TOKEN_KEY.test(key) ? REDACTED : redactTokens(field)]),
+  )
+}
+
+// GraphQL bodies stay (timelines replay from them) with token-like fields scrubbed; ones that aren't JSON are dropped
+export function redactResponseBody(url: string, mimeType: string, text: string): string {
+  let pathname = url
+  try {
+    pathname = new URL(url).pathname
+  } catch {
+    // Not a full URL; match against it as given
+  }
+  if (AUTH_URL.test(pathname)) return REDACTED
+
+  try {
+    return /json/i.test(mimeType) || GRAPHQL_URL.test(pathname) ? JSON.stringify(redactTokens(JSON.parse(text))) : text
+  } catch {
+    return GRAPHQL_URL.test(pathname) ? REDACTED : text
+  }
+}
+
+export class HarRecorder {
+  private entries = new Map<HTTPRequest, HarEntry>()
+  private started = new Map<HTTPRequest, number>()
+  private pending: Promise<void>[] = []
+  private readonly startedDateTime = new Date().toISOString()
+
+  constructor(
+    private page: Page,
+    private title: string,
+  ) {
+    page.on("request", this.onRequest)
+    page.on("response", this.onResponse)
+    page.on("requestfailed", this.onRequestFailed)
+  }
+
+  private onRequest = (request: HTTPRequest) => {
+    const now = Date.now()
+    const postData = request.postData()
+    const headers = request.headers()
+
+    this.started.set(request, now)
+    this.entries.set(request, {
+      pageref: PAGE_ID,
+      startedDateTime: new Date(now).toISOString(),
+      time: 0,
+      request: {
+        method: request.method(),
+        url: request.url(),
+        httpVersion: "HTTP/1.1",
+        headers: toHeaders(headers),
+        queryString: toQueryString(request.url()),
+        cookies: [],
+        headersSize: -1,
+        bodySize: postData ? Buffer.byteLength(postData) : 0,
+        // Only the size is kept; replays match requests on method and URL, not the body
+        ...(postData ? { postData: { mimeType: headers["content-type"] || "", text: REDACTED } } : {}),
+      },
+      response: {
+        status: 0,
+        statusText: "",
+        httpVersion: "HTTP/1.1",
+        headers: [],
+        cookies: [],
+        content: { size: 0, mimeType: "" },
+        redirectURL: "",
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: 0, receive: 0 },
+      _resourceType: request.resourceType(),
+    })
+  }
+
+  private onResponse = (response: HTTPResponse) => {
+    const request = response.request()
+    const entry = this.entries.get(request)
+    if (!entry) return
+
+    const headers = response.headers()
+    const mimeType = headers["content-type"] || ""
+    const elapsed = Date.now() - (this.started.get(request) ?? Date.now())
+
+    entry.time = elapsed
+    entry.timings.wait = elapsed
+    entry.response = {
+      ...entry.response,
+      status: response.status(),
+      statusText: response.statusText(),
+      headers: toHeaders(headers),
+      content: { size: Number(headers["content-length"]) || 0, mimeType },
+      redirectURL: headers.location || "",
+    }
+
+    // Redirects and aborted loads have no body to read
+    if (response.status() >= 300 && response.status() < 400) return
+    if (!TEXT_MIME_TYPE.test(mimeType)) return
+
+    this.pending.push(
+      response
+        .buffer()
+        .then((body) => {
+          entry.response.content.size = body.length
+          entry.response.bodySize = body.length
+          if (body.length <= MAX_BODY_BYTES) {
+            entry.response.content.text = redactResponseBody(request.url(), mimeType, body.toString("utf8"))
+          }
+        })
+        .catch(() => undefined),
+    )
+  }
+
+  private onRequestFailed = (request: HTTPRequest) => {
+    const entry = this.entries.get(request)
+    if (!entry) return
+
+    entry.time = Date.now() - (this.started.get(request) ?? Date.now())
+    entry._error = request.failure()?.errorText || "failed"
+  }
+
+  // Stops listening and waits for bodies still being read
+  async finish(): Promise<Har> {
+    this.page.off("request", this.onRequest)
+    this.page.off("response", this.onResponse)
+    this.page.off("requestfailed", this.onRequestFailed)
+    await Promise.all(this.pending)
+
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "altreach", version: "1.0" },
+        pages: [{ id: PAGE_ID, title: this.title, startedDateTime: this.startedDateTime, pageTimings: {} }],
+        entries: Array.from(this.entries.values()),
+      },
+    }
+  }
+
+  // Returns the file path, or null when the directory isn't writable (e.g. a read-only serverless filesystem)
+  async save(label: string): Promise<string | null> {
+    const har = await this.finish()
+    const dir = process.env.BROWSER_HAR_DIR || path.join(process.cwd(), ".data", "har")
+    const filePath = path.join(dir, `${label.replace(/[^a-z0-9_-]+/gi, "-")}-${Date.now()}.har`)
+
+    try {
+      await fs.mkdir(dir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(har, null, 2), { mode: 0o600 })
+      console.log(`📼 Saved HAR with ${har.log.entries.length} requests to ${filePath}`)
+      return filePath
+    } catch (error) {
+      console.error("⚠️ Error saving HAR:", error)
+      return null
+    }
+  }
+}
+
+// Serves a page entirely from a recorded HAR; requests it didn't record fail, so nothing reaches the network.
+// Call on a page without other interception, e.g. straight from browser.newPage().
+export async function replayHar(page: Page, har: Har): Promise<void> {
+  const recorded = new Map<string, HarEntry>()
+  for (const entry of har.log.entries) {
+    // Later entries win, matching what the page saw last
+    if (entry.response.status > 0) recorded.set(`${entry.request.method} ${entry.request.url}`, entry)
+  }
+
+  await page.setRequestInterception(true)
+  page.on("request", (request) => {
+    if (request.isInterceptResolutionHandled()) return
+
+    const entry = recorded.get(`${request.method()} ${request.url()}`)
+    if (!entry) {
+      request.abort("internetdisconnected").catch(() => undefined)
+      return
+    }
+
+    const { status, headers, content } = entry.response
+    request
+      .respond({
+        status,
+        headers: Object.fromEntries(
+          headers
+            // Bodies were recorded decoded, so length and encoding headers no longer describe them
+            .filter((header) => header.value !== REDACTED && !REPLAY_DROPPED_HEADERS.has(header.name.toLowerCase()))
+            .map((header) => [header.name, header.value]),
+        ),
+        contentType: content.mimeType || undefined,
+        body: content.text ?? "",
+      })
+      .catch(() => undefined)
+  })
+}
@@ -0,0 +1,86 @@
+import type { HTTPRequest, Page, ResourceType } from "puppeteer-core"
+
+// Request interception for pooled pages. Callers pick a profile per task:
+//   text-only   no images, media, fonts or stylesheets; fastest, fine for reading text
+//   with-media  images and stylesheets load so lazy tweetPhoto images render; video and fonts stay blocked
+//   full        everything loads, for SPAs that break without their assets (e.g. X's login flow)
+// Every profile also blocks analytics and ad domains; BROWSER_BLOCKED_DOMAINS (comma separated) adds more.
+
+export interface InterceptionProfile {
+  blockedResourceTypes: ResourceType[]
+}
+
+export const INTERCEPTION_PROFILES = {
+  "text-only": { blockedResourceTypes: ["image", "media", "font", "stylesheet"] },
+  "with-media": { blockedResourceTypes: ["media", "font"] },
+  full: { blockedResourceTypes: [] },
+} satisfies Record<string, InterceptionProfile>
+
+export type InterceptionProfileName = keyof typeof INTERCEPTION_PROFILES
+
+export interface InterceptionOptions {
+  profile?: InterceptionProfileName
+  blockTrackers?: boolean // Defaults to true
+}
+
+// Subdomains match too, so doubleclick.net covers stats.g.doubleclick.net
+const TRACKER_DOMAINS = [
+  "google-analytics.com",
+  "googletagmanager.com",
+  "googlesyndication.com",
+  "doubleclick.net",
+  "ads-twitter.com",
+  "ads-api.twitter.com",
+  "analytics.twitter.com",
+  "connect.facebook.net",
+  "scorecardresearch.com",
+  "quantserve.com",
+  "hotjar.com",
+  "segment.io",
+]
+
+export function blockedDomains(): string[] {
+  const extra = (process.env.BROWSER_BLOCKED_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean)
+  return [...TRACKER_DOMAINS, ...extra]
+}
+
+export function isBlockedDomain(url: string, domains: string[]): boolean {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase()
+  } catch {
+    return false
+  }
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+}
+
+function shouldBlock(request: HTTPRequest, profile: InterceptionProfile, domains: string[]): boolean {
+  // Never block the page itself, whatever the profile says
+  if (request.isNavigationRequest() && request.frame()?.parentFrame() === null) return false
+  return profile.blockedResourceTypes.includes(request.resourceType()) || isBlockedDomain(request.url(), domains)
+}
+
+export async function applyInterception(
+  page: Page,
+  { profile = "text-only", blockTrackers = true }: InterceptionOptions = {},
+): Promise<void> {
+  const rules: InterceptionProfile = INTERCEPTION_PROFILES[profile]
+  const domains = blockTrackers ? blockedDomains() : []
+
+  // Nothing to block: skip interception, which also keeps the browser cache working
+  if (rules.blockedResourceTypes.length === 0 && domains.length === 0) return
+
+  await page.setRequestInterception(true)
+  page.on("request", (request) => {
+    if (request.isInterceptResolutionHandled()) return
+
+    if (shouldBlock(request, rules, domains)) {
+      request.abort("blockedbyclient").catch(() => undefined)
+    } else {
+      request.continue().catch(() => undefined)
+    }
+  })
+}
@@ -1,152 +1,387 @@
-import puppeteer, { type Browser, type Page } from "puppeteer"
+import type { Browser, BrowserContext, Page } from "puppeteer-core"
+import defaultBrowserProvider, { preparePage, type BrowserProvider } from "@/lib/browser-provider"
+import { applyInterception, type InterceptionOptions } from "@/lib/browser-interception"
+
+// Shared pool of headless browsers, launched (or connected to) through the browser provider.
+// Each acquire leases one page slot on a browser; release returns it.
+// Waiters queue FIFO and can give up through an AbortSignal. Browsers are recycled after maxUsesPerBrowser leases
+// (Chromium leaks memory over time) and replaced when they crash or disconnect.
 
 interface BrowserPoolOptions {
-  maxConcurrency: number
+  maxBrowsers: number
+  maxPagesPerBrowser: number
+  maxUsesPerBrowser: number
   maxIdleTime: number // in milliseconds
-  puppeteerOptions?: any
+  acquireTimeout: number // in milliseconds; how long acquire waits in the queue by default
+  provider?: BrowserProvider
+}
+
+export interface AcquireOptions {
+  signal?: AbortSignal
+  timeout?: number
+}
+
+export interface BrowserPoolStats {
+  browsers: number
+  activePages: number // Leased page slots, held pages included
+  heldPages: number
+  capacity: number // maxBrowsers × maxPagesPerBrowser
+  queueDepth: number
+  launches: number
+  launchFailures: number
+  crashes: number // Browsers that disconnected without the pool closing them
+  recycled: number // Browsers closed after reaching maxUsesPerBrowser or failing a health check
+  healthCheckFailures: number
+  acquireTimeouts: number
 }
 
 interface PooledBrowser {
   browser: Browser
+  activePages: number
+  uses: number
   lastUsed: number
-  inUse: boolean
+  retiring: boolean // Takes no new leases; closed once its last page is released
+  closing: boolean // Closed by the pool, so its disconnect isn't a crash
+}
+
+// A page kept open across requests (e.g. a multi-step login); its lease stays out until released
+interface HeldPage {
+  browser: Browser
+  page: Page
+  expiresAt: number
+}
+
+interface Waiter {
+  resolve: (browser: Browser) => void
+  reject: (error: unknown) => void
+  cleanup: () => void
 }
 
+export class BrowserPoolTimeoutError extends Error {
+  constructor(public timeout: number) {
+    super(`Browser pool timeout: no browser available after ${timeout}ms`)
+    this.name = "BrowserPoolTimeoutError"
+  }
+}
+
+const HEALTH_CHECK_TIMEOUT = 3000
+
 class BrowserPool {
   private browsers: PooledBrowser[] = []
-  private maxConcurrency: number
-  private maxIdleTime: number
-  private puppeteerOptions: any
+  private heldPages = new Map<string, HeldPage>()
+  private queue: Waiter[] = []
+  private launching = 0
+  private draining = false
+  private drainRequested = false
   private cleanupInterval: NodeJS.Timeout | null = null
+  private provider: BrowserProvider
+  private stats = {
+    launches: 0,
+    launchFailures: 0,
+    crashes: 0,
+    recycled: 0,
+    healthCheckFailures: 0,
+    acquireTimeouts: 0,
+  }
 
-  constructor(options: BrowserPoolOptions) {
-    this.maxConcurrency = options.maxConcurrency
-    this.maxIdleTime = options.maxIdleTime
-    this.puppeteerOptions = options.puppeteerOptions || {
-      headless: "new",
-      args: [
-        "--no-sandbox",
-        "--disable-setuid-sandbox",
-        "--disable-dev-shm-usage",
-        "--disable-gpu",
-        "--disable-web-security",
-        "--disable-features=IsolateOrigins,site-per-process",
-        "--memory-pressure-off",
-        "--max_old_space_size=4096",
-      ],
-      ignoreHTTPSErrors: true,
-    }
+  constructor(private options: BrowserPoolOptions) {
+    this.provider = options.provider || defaultBrowserProvider
 
     // Start cleanup interval to close idle browsers
     this.startCleanupInterval()
   }
 
-  async acquire(): Promise<Browser> {
-    // Try to find an available browser
-    const availableBrowser = this.browsers.find((b) => !b.inUse && this.isBrowserAlive(b.browser))
+  // Resolves with a browser that has a free page slot; rejects on timeout, abort or a failed launch
+  async acquire({ signal, timeout = this.options.acquireTimeout }: AcquireOptions = {}): Promise<Browser> {
+    signal?.throwIfAborted()
 
-    if (availableBrowser) {
-      availableBrowser.inUse = true
-      availableBrowser.lastUsed = Date.now()
-      console.log(`♻️ Reusing existing browser (${this.browsers.length} total)`)
-      return availableBrowser.browser
+    // Skip the queue only when nobody is waiting, so waiters are served in order
+    if (this.queue.length === 0) {
+      const browser = await this.tryLease()
+      if (browser) return browser
     }
 
-    // Create new browser if under limit
-    if (this.browsers.length < this.maxConcurrency) {
-      const browser = await puppeteer.launch(this.puppeteerOptions)
-      const pooledBrowser: PooledBrowser = {
-        browser,
-        lastUsed: Date.now(),
-        inUse: true,
+    // The caller may have given up while the pool was checked
+    signal?.throwIfAborted()
+
+    console.log(`⏳ Waiting for available browser (${this.queue.length} queued)...`)
+    return new Promise<Browser>((resolve, reject) => {
+      const onAbort = () => {
+        this.removeWaiter(waiter)
+        reject(signal?.reason)
       }
 
-      this.browsers.push(pooledBrowser)
-      console.log(`🚀 Created new browser (${this.browsers.length}/${this.maxConcurrency})`)
-      return browser
-    }
+      const timer = setTimeout(() => {
+        this.removeWaiter(waiter)
+        this.stats.acquireTimeouts++
+        reject(new BrowserPoolTimeoutError(timeout))
+      }, timeout)
 
-    // Wait for an available browser
-    console.log(`⏳ Waiting for available browser...`)
-    return new Promise((resolve, reject) => {
-      const checkInterval = setInterval(() => {
-        const availableBrowser = this.browsers.find((b) => !b.inUse && this.isBrowserAlive(b.browser))
-
-        if (availableBrowser) {
-          clearInterval(checkInterval)
-          availableBrowser.inUse = true
-          availableBrowser.lastUsed = Date.now()
-          resolve(availableBrowser.browser)
-        }
-      }, 100)
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener("abort", onAbort)
+        },
+      }
 
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        clearInterval(checkInterval)
-        reject(new Error("Browser pool timeout: No browser available"))
-      }, 30000)
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.queue.push(waiter)
+      void this.drain()
     })
   }
 
   async release(browser: Browser): Promise<void> {
-    const pooledBrowser = this.browsers.find((b) => b.browser === browser)
+    const pooled = this.browsers.find((b) => b.browser === browser)
+
+    if (pooled) {
+      pooled.activePages = Math.max(0, pooled.activePages - 1)
+      pooled.lastUsed = Date.now()
 
-    if (pooledBrowser) {
-      pooledBrowser.inUse = false
-      pooledBrowser.lastUsed = Date.now()
-      console.log(`✅ Released browser back to pool`)
+      if (pooled.uses >= this.options.maxUsesPerBrowser) {
+        pooled.retiring = true
+      }
+      if (pooled.retiring && pooled.activePages === 0) {
+        await this.close(pooled, "recycled")
+      }
     }
+
+    await this.drain()
   }
 
-  async createPage(browser: Browser): Promise<Page> {
+  // Pass a BrowserContext for a page that shouldn't share cookies with the rest of the browser.
+  // The interception profile defaults to text-only; pick with-media or full when the task needs more of the page.
+  async createPage(browser: Browser | BrowserContext, interception: InterceptionOptions = {}): Promise<Page> {
     const page = await browser.newPage()
+    await preparePage(page)
+    await applyInterception(page, interception)
+    return page
+  }
+
+  // Keeps an acquired browser and its page under key until releaseHeld or ttl, whichever comes first
+  hold(key: string, browser: Browser, page: Page, ttl: number): void {
+    this.heldPages.set(key, { browser, page, expiresAt: Date.now() + ttl })
+    console.log(`📌 Holding page ${key} (${this.heldPages.size} held)`)
+  }
+
+  getHeld(key: string): Page | null {
+    const held = this.heldPages.get(key)
+    if (!held || held.expiresAt <= Date.now() || held.page.isClosed()) return null
+    return held.page
+  }
 
-    // Set realistic browser headers and viewport
-    await page.setUserAgent(
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-    )
-    await page.setViewport({ width: 1280, height: 800 })
-
-    // Optimize page performance
-    await page.setRequestInterception(true)
-    page.on("request", (req) => {
-      // Block unnecessary resources to speed up loading
-      const resourceType = req.resourceType()
-      if (["stylesheet", "font", "image"].includes(resourceType)) {
-        req.abort()
-      } else {
-        req.continue()
+  // Closes the page, and its context when it had its own, then returns the browser to the pool
+  async releaseHeld(key: string): Promise<void> {
+    const held = this.heldPages.get(key)
+    if (!held) return
+
+    this.heldPages.delete(key)
+    const context = held.page.browserContext()
+    await held.page.close().catch((error) => console.error("⚠️ Error closing held page:", error))
+    if (context !== held.browser.defaultBrowserContext()) {
+      await context.close().catch((error) => console.error("⚠️ Error closing held page context:", error))
+    }
+    await this.release(held.browser)
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      browsers: this.browsers.length,
+      activePages: this.browsers.reduce((total, b) => total + b.activePages, 0),
+      heldPages: this.heldPages.size,
+      capacity: this.options.maxBrowsers * this.options.maxPagesPerBrowser,
+      queueDepth: this.queue.length,
+      ...this.stats,
+    }
+  }
+
+  // Leases a slot on the least busy healthy browser, launching one when there's room; null when the pool is full
+  private async tryLease(): Promise<Browser | null> {
+    for (;;) {
+      const candidate = this.browsers
+        .filter((b) => !b.retiring && b.activePages < this.options.maxPagesPerBrowser)
+        .sort((a, b) => a.activePages - b.activePages)[0]
+
+      if (candidate) {
+        // Reserve the slot before the health check so concurrent leases can't oversubscribe it
+        candidate.activePages++
+
+        if (await this.isHealthy(candidate.browser)) {
+          candidate.uses++
+          candidate.lastUsed = Date.now()
+          if (candidate.uses >= this.options.maxUsesPerBrowser) candidate.retiring = true
+          console.log(`♻️ Reusing browser (${candidate.activePages}/${this.options.maxPagesPerBrowser} pages)`)
+          return candidate.browser
+        }
+
+        console.warn("⚠️ Browser failed health check, replacing it")
+        this.stats.healthCheckFailures++
+        candidate.activePages--
+        await this.close(candidate, "recycled")
+        continue
       }
-    })
 
-    return page
+      if (this.browsers.length + this.launching < this.options.maxBrowsers) {
+        const pooled = await this.launch()
+
+        // Requests that queued while this browser launched can share it
+        if (this.queue.length > 0) void this.drain()
+        return pooled.browser
+      }
+
+      return null
+    }
   }
 
-  private isBrowserAlive(browser: Browser): boolean {
+  // Launches a browser with its first lease already taken, so a drain running meanwhile can't hand out that slot
+  private async launch(): Promise<PooledBrowser> {
+    this.launching++
+
     try {
-      return browser.isConnected()
+      const browser = await this.provider.launch()
+      const pooled: PooledBrowser = {
+        browser,
+        activePages: 1,
+        uses: 1,
+        lastUsed: Date.now(),
+        retiring: false,
+        closing: false,
+      }
+
+      browser.on("disconnected", () => this.handleDisconnect(pooled))
+      this.browsers.push(pooled)
+      this.stats.launches++
+      console.log(`🚀 Created new ${this.provider.name} browser (${this.browsers.length}/${this.options.maxBrowsers})`)
+      return pooled
+    } catch (error) {
+      this.stats.launchFailures++
+      console.error("❌ Failed to launch browser:", error)
+      throw error
+    } finally {
+      this.launching--
+    }
+  }
+
+  private async isHealthy(browser: Browser): Promise<boolean> {
+    if (!browser.connected) return false
+
+    let timer: NodeJS.Timeout | undefined
+    try {
+      await Promise.race([
+        browser.version(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Health check timed out")), HEALTH_CHECK_TIMEOUT)
+        }),
+      ])
+      return true
     } catch {
       return false
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  // Hands free slots to waiters in order; serialized so two drains can't hand out the same slot
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true
+      return
+    }
+    this.draining = true
+
+    try {
+      do {
+        this.drainRequested = false
+
+        while (this.queue.length > 0) {
+          let browser: Browser | null
+          try {
+            browser = await this.tryLease()
+          } catch (error) {
+            // A failed launch fails the first waiter rather than leaving everyone to time out
+            this.shiftWaiter()?.reject(error)
+            continue
+          }
+
+          if (!browser) break
+
+          const waiter = this.shiftWaiter()
+          if (waiter) {
+            waiter.resolve(browser)
+          } else {
+            // Everyone gave up while the browser was launching
+            await this.release(browser)
+          }
+        }
+      } while (this.drainRequested)
+    } finally {
+      this.draining = false
+    }
+  }
+
+  private shiftWaiter(): Waiter | undefined {
+    const waiter = this.queue.shift()
+    waiter?.cleanup()
+    return waiter
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    waiter.cleanup()
+    this.queue = this.queue.filter((w) => w !== waiter)
+  }
+
+  private handleDisconnect(pooled: PooledBrowser): void {
+    if (!this.browsers.includes(pooled)) return
+
+    if (!pooled.closing) {
+      this.stats.crashes++
+      console.error(`❌ Browser disconnected unexpectedly (${pooled.activePages} pages in use)`)
+    }
+
+    this.browsers = this.browsers.filter((b) => b !== pooled)
+    for (const [key, held] of this.heldPages) {
+      if (held.browser === pooled.browser) this.heldPages.delete(key)
+    }
+
+    // Waiters can get a replacement browser now there's room
+    void this.drain()
+  }
+
+  private async close(pooled: PooledBrowser, reason: "recycled" | "idle"): Promise<void> {
+    pooled.retiring = true
+    pooled.closing = true
+    this.browsers = this.browsers.filter((b) => b !== pooled)
+    if (reason === "recycled") this.stats.recycled++
+
+    try {
+      await this.provider.close(pooled.browser)
+      console.log(`🗑️ Closed ${reason} browser`)
+    } catch (error) {
+      console.error(`Error closing ${reason} browser:`, error)
     }
   }
 
   private startCleanupInterval(): void {
     this.cleanupInterval = setInterval(async () => {
       const now = Date.now()
-      const browsersToClose = this.browsers.filter((b) => !b.inUse && now - b.lastUsed > this.maxIdleTime)
-
-      for (const pooledBrowser of browsersToClose) {
-        try {
-          await pooledBrowser.browser.close()
-          console.log(`🗑️ Closed idle browser`)
-        } catch (error) {
-          console.error("Error closing idle browser:", error)
+
+      // Abandoned held pages would otherwise keep their leases forever
+      for (const [key, held] of this.heldPages) {
+        if (held.expiresAt <= now) {
+          console.log(`🗑️ Releasing expired held page ${key}`)
+          await this.releaseHeld(key)
         }
       }
 
-      // Remove closed browsers from pool
-      this.browsers = this.browsers.filter((b) => !browsersToClose.includes(b) && this.isBrowserAlive(b.browser))
+      const idle = this.browsers.filter((b) => b.activePages === 0 && now - b.lastUsed > this.options.maxIdleTime)
+      for (const pooled of idle) {
+        await this.close(pooled, "idle")
+      }
     }, 60000) // Check every minute
+
+    // Don't keep the process alive just for cleanup
+    this.cleanupInterval.unref()
   }
 
   async destroy(): Promise<void> {
@@ -154,26 +389,26 @@ class BrowserPool {
       clearInterval(this.cleanupInterval)
     }
 
+    for (const waiter of this.queue.splice(0)) {
+      waiter.cleanup()
+      waiter.reject(new Error("Browser pool destroyed"))
+    }
+    this.heldPages.clear()
+
     // Close all browsers
-    await Promise.all(
-      this.browsers.map(async (pooledBrowser) => {
-        try {
-          await pooledBrowser.browser.close()
-        } catch (error) {
-          console.error("Error closing browser during destroy:", error)
-        }
-      }),
-    )
+    await Promise.all(this.browsers.map((pooled) => this.close(pooled, "idle")))
 
-    this.browsers = []
     console.log(`🔒 Browser pool destroyed`)
   }
 }
 
 // Create singleton browser pool
 const browserPool = new BrowserPool({
-  maxConcurrency: 3, // Maximum 3 concurrent browsers
+  maxBrowsers: 3, // Maximum 3 concurrent browsers
+  maxPagesPerBrowser: 4,
+  maxUsesPerBrowser: 50, // Relaunch after 50 leases to shed leaked memory
   maxIdleTime: 5 * 60 * 1000, // Close browsers idle for 5 minutes
+  acquireTimeout: 30 * 1000,
 })
 
 export default browserPool
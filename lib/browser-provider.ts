@@ -0,0 +1,128 @@
+import type { Browser, Page } from "puppeteer-core"
+
+// Where browsers come from, decided once for every route that needs one:
+//   local       Chrome at PUPPETEER_EXECUTABLE_PATH, else the Chromium downloaded by full puppeteer (development)
+//   serverless  puppeteer-core with @sparticuz/chromium (Vercel, AWS Lambda)
+//   remote      a shared browser service over CDP at BROWSER_WS_ENDPOINT (e.g. browserless)
+// BROWSER_PROVIDER picks one explicitly; otherwise remote when BROWSER_WS_ENDPOINT is set, serverless on Vercel or
+// Lambda, local everywhere else. BROWSER_HEADLESS=false shows local browsers, handy when debugging the X login flow.
+
+export const BROWSER_PROVIDERS = ["local", "serverless", "remote"] as const
+export type BrowserProviderName = (typeof BROWSER_PROVIDERS)[number]
+
+export interface BrowserProvider {
+  readonly name: BrowserProviderName
+  launch(): Promise<Browser>
+  close(browser: Browser): Promise<void>
+}
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+
+const SHARED_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-dev-shm-usage",
+  "--disable-web-security",
+  "--disable-blink-features=AutomationControlled",
+  "--disable-features=IsolateOrigins,site-per-process",
+]
+
+// Full puppeteer is a dev dependency, so production installs set PUPPETEER_EXECUTABLE_PATH to an installed Chrome
+async function localExecutablePath(): Promise<string> {
+  if (process.env.PUPPETEER_EXECUTABLE_PATH) return process.env.PUPPETEER_EXECUTABLE_PATH
+
+  try {
+    const { executablePath } = await import("puppeteer")
+    return executablePath()
+  } catch {
+    throw new Error("BROWSER_PROVIDER=local needs PUPPETEER_EXECUTABLE_PATH when puppeteer isn't installed")
+  }
+}
+
+// Launches with puppeteer-core like the others
+const localProvider: BrowserProvider = {
+  name: "local",
+  async launch() {
+    const [{ default: puppeteer }, executablePath] = await Promise.all([import("puppeteer-core"), localExecutablePath()])
+    return puppeteer.launch({
+      executablePath,
+      headless: process.env.BROWSER_HEADLESS !== "false",
+      args: [...SHARED_ARGS, "--disable-gpu", "--memory-pressure-off", "--max_old_space_size=4096"],
+      acceptInsecureCerts: true,
+    })
+  },
+  close: (browser) => browser.close(),
+}
+
+const serverlessProvider: BrowserProvider = {
+  name: "serverless",
+  async launch() {
+    const [{ default: puppeteer }, { default: chromium }] = await Promise.all([
+      import("puppeteer-core"),
+      import("@sparticuz/chromium"),
+    ])
+
+    chromium.setGraphicsMode = false
+    return puppeteer.launch({
+      args: [...chromium.args, ...SHARED_ARGS],
+      defaultViewport: chromium.defaultViewport,
+      executablePath: await chromium.executablePath(),
+      headless: chromium.headless,
+      acceptInsecureCerts: true,
+    })
+  },
+  close: (browser) => browser.close(),
+}
+
+// The service owns its browsers; the pool only disconnects from them
+function createRemoteProvider(browserWSEndpoint: string | undefined): BrowserProvider {
+  return {
+    name: "remote",
+    async launch() {
+      // Fails here rather than at import, so routes that never open a browser keep working
+      if (!browserWSEndpoint) {
+        throw new Error("BROWSER_PROVIDER=remote needs BROWSER_WS_ENDPOINT")
+      }
+
+      const { default: puppeteer } = await import("puppeteer-core")
+      return puppeteer.connect({ browserWSEndpoint, acceptInsecureCerts: true })
+    },
+    close: (browser) => browser.disconnect(),
+  }
+}
+
+function resolveProviderName(): BrowserProviderName {
+  const configured = process.env.BROWSER_PROVIDER as BrowserProviderName | undefined
+  if (configured && BROWSER_PROVIDERS.includes(configured)) return configured
+  if (configured) console.warn(`⚠️ Unknown BROWSER_PROVIDER "${configured}", picking one from the environment`)
+
+  if (process.env.BROWSER_WS_ENDPOINT) return "remote"
+  if (process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME) return "serverless"
+  return "local"
+}
+
+function createBrowserProvider(): BrowserProvider {
+  const name = resolveProviderName()
+
+  if (name === "remote") return createRemoteProvider(process.env.BROWSER_WS_ENDPOINT)
+  return name === "serverless" ? serverlessProvider : localProvider
+}
+
+// Stealth settings for every page, whichever provider launched it
+export async function preparePage(page: Page): Promise<void> {
+  await page.setUserAgent(USER_AGENT)
+  await page.setExtraHTTPHeaders({ "Accept-Language": "en-US,en;q=0.9" })
+  await page.setViewport({ width: 1280, height: 800 })
+
+  // Headless Chrome reports navigator.webdriver = true, which X and others check for
+  await page.evaluateOnNewDocument(() => {
+    Object.defineProperty(navigator, "webdriver", { get: () => undefined })
+  })
+}
+
+// Create singleton browser provider
+const browserProvider = createBrowserProvider()
+console.log(`🌐 Using ${browserProvider.name} browser provider`)
+
+export default browserProvider
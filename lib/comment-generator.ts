@@ -0,0 +1,231 @@
+import type { CompletionOptions } from "@/lib/llm"
+import { isComplexRequest, selectModelTier } from "@/lib/usage/plans"
+import type { Plan } from "@/lib/usage/types"
+import { applyVoiceProfile, type VoiceProfile } from "@/lib/voice-profiles"
+
+// Prompt building for single-post comments, shared by /api/generate-comments and batch generation
+
+export interface PostContent {
+  title: string | null
+  description: string | null
+  image: string | null
+  type: string | null
+  url: string
+  fallbackContent?: string | null
+}
+
+// Smart text summarization function
+function summarizeText(text: string, maxLength = 500): string {
+  if (!text || text.length <= maxLength) {
+    return text
+  }
+
+  // Remove extra whitespace and normalize
+  const cleanText = text.replace(/\s+/g, " ").trim()
+
+  if (cleanText.length <= maxLength) {
+    return cleanText
+  }
+
+  // Try to find a natural break point (sentence ending)
+  const sentences = cleanText.split(/[.!?]+/)
+  let summary = ""
+
+  for (const sentence of sentences) {
+    const trimmedSentence = sentence.trim()
+    if (!trimmedSentence) continue
+
+    const potentialSummary = summary + (summary ? ". " : "") + trimmedSentence
+
+    if (potentialSummary.length <= maxLength - 3) {
+      // Leave room for "..."
+      summary = potentialSummary
+    } else {
+      break
+    }
+  }
+
+  // If we got at least one complete sentence, use it
+  if (summary && summary.length > 50) {
+    return summary + (summary.endsWith(".") ? "" : ".")
+  }
+
+  // Fallback: smart truncation at word boundary
+  const words = cleanText.split(" ")
+  let truncated = ""
+
+  for (const word of words) {
+    const potential = truncated + (truncated ? " " : "") + word
+    if (potential.length <= maxLength - 3) {
+      truncated = potential
+    } else {
+      break
+    }
+  }
+
+  return truncated + "..."
+}
+
+// Process and optimize post content for GPT
+function processPostContent(postContent: PostContent | null): string {
+  if (!postContent) {
+    return "No specific post content available - generate versatile comments"
+  }
+
+  const contentParts = []
+
+  // Process title (keep shorter titles as-is, summarize longer ones)
+  if (postContent.title) {
+    const title = postContent.title.length > 100 ? summarizeText(postContent.title, 100) : postContent.title
+    contentParts.push(`Title: ${title}`)
+  }
+
+  // Process description (prioritize this as main content)
+  if (postContent.description) {
+    const description =
+      postContent.description.length > 300 ? summarizeText(postContent.description, 300) : postContent.description
+    contentParts.push(`Description: ${description}`)
+  }
+
+  // Process fallback content only if no description exists
+  if (postContent.fallbackContent && !postContent.description) {
+    const fallback =
+      postContent.fallbackContent.length > 300
+        ? summarizeText(postContent.fallbackContent, 300)
+        : postContent.fallbackContent
+    contentParts.push(`Content: ${fallback}`)
+  }
+
+  const combinedContent = contentParts.join("\n")
+
+  // Final check: if combined content is still too long, summarize further
+  if (combinedContent.length > 500) {
+    return summarizeText(combinedContent, 500)
+  }
+
+  return combinedContent || "No specific post content available - generate versatile comments"
+}
+
+export interface CommentPromptOptions {
+  platform: string
+  postContent: PostContent | null
+  existingComments?: string[]
+  useSmartTone?: boolean
+  selectedTone?: string
+  voiceProfile?: VoiceProfile | null
+  plan: Plan // Picks the model tier
+}
+
+export function buildCommentCompletion({
+  platform,
+  postContent,
+  existingComments = [],
+  useSmartTone = true,
+  selectedTone,
+  voiceProfile = null,
+  plan,
+}: CommentPromptOptions): { completionOptions: CompletionOptions; optimizedPostContent: string } {
+  // Process and optimize post content for token efficiency
+  const optimizedPostContent = processPostContent(postContent)
+
+  // Platform-specific guidelines
+  const platformGuidelines: Record<string, string> = {
+    Twitter:
+      "Keep comments punchy and under 280 characters. Use relevant emojis sparingly. Focus on wit, insights, or questions that spark replies.",
+    LinkedIn:
+      "Write thoughtful, professional comments that add value. Aim for 1-3 sentences that show expertise or ask meaningful questions.",
+    Instagram:
+      "Be friendly, authentic, and engaging. Use emojis naturally. Focus on building community and encouraging interaction.",
+  }
+
+  // Build context about existing comments to avoid repetition
+  let existingCommentsContext = ""
+  if (existingComments.length > 0) {
+    existingCommentsContext = `\n\nPrevious comments already generated (avoid repeating these approaches):\n${existingComments
+      .map((comment: string, index: number) => `${index + 1}. ${comment}`)
+      .join("\n")}`
+  }
+
+  // Create the combined system prompt
+  const systemPrompt = `You are a social media strategist and engagement expert who specializes in creating high-engagement comments.
+
+Your expertise includes:
+- Understanding platform-specific cultures and best practices
+- Analyzing post content to determine optimal engagement tone
+- Crafting comments that drive replies, not just likes
+- Writing authentically to avoid generic AI-sounding responses
+
+Platform guidelines for ${platform}:
+${platformGuidelines[platform] || "Focus on authentic engagement and value-adding comments."}
+
+Always prioritize genuine human connection over generic responses.`
+
+  // Create the user prompt based on whether smart tone is enabled or not
+  let userPrompt = ""
+
+  if (useSmartTone) {
+    // Original prompt for AI to determine tone
+    userPrompt = `A user wants to leave a high-quality comment on the following ${platform} post:
+
+---
+${optimizedPostContent}
+---${existingCommentsContext}
+
+First, determine the most effective tone of voice to use for engaging with this post (e.g. confident, witty, curious, bold, humble, supportive, etc.).
+
+Then, based on that tone, generate 1 comment that:
+- Feels human and authentic
+- Matches ${platform}'s style and culture
+- Maximizes engagement and visibility
+- Has a natural tone (not generic or robotic)
+- Is distinctly different from any previous comments shown above
+
+Return the result as a JSON object in this exact format:
+{
+  "tone": "descriptive tone",
+  "comment": "full comment"
+}
+
+Focus on creating a unique, high-quality comment that encourages meaningful interaction.`
+  } else {
+    // Modified prompt for user-selected tone
+    userPrompt = `A user wants to leave a high-quality comment with a ${selectedTone} tone on the following ${platform} post:
+
+---
+${optimizedPostContent}
+---${existingCommentsContext}
+
+Generate 1 comment that:
+- Uses a ${selectedTone} tone of voice
+- Feels human and authentic
+- Matches ${platform}'s style and culture
+- Maximizes engagement and visibility
+- Has a natural tone (not generic or robotic)
+- Is distinctly different from any previous comments shown above
+
+Return the result as a JSON object in this exact format:
+{
+  "tone": "${selectedTone}",
+  "comment": "full comment"
+}
+
+Focus on creating a unique, high-quality comment with a ${selectedTone} tone that encourages meaningful interaction.`
+  }
+
+  const completionOptions: CompletionOptions = {
+    tier: selectModelTier(plan, isComplexRequest(optimizedPostContent)),
+    messages: applyVoiceProfile(
+      [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      voiceProfile,
+    ),
+    temperature: 0.8, // Balanced creativity for both tone analysis and comment generation
+    maxTokens: 400, // Increased slightly to accommodate both tone and comment
+    presencePenalty: 0.4, // Higher penalty to encourage unique content
+    frequencyPenalty: 0.4, // Higher penalty to reduce repetition
+  }
+
+  return { completionOptions, optimizedPostContent }
+}
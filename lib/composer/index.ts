@@ -0,0 +1,116 @@
+import llm, { generationEnvelope, type ModelTier } from "@/lib/llm"
+import { generateWithQualityChecks } from "@/lib/quality"
+import { applyVoiceProfile, findBannedPhrases } from "@/lib/voice-profiles/compile"
+import type { VoiceProfile } from "@/lib/voice-profiles/types"
+import { formatVariant, PLATFORM_SPECS } from "./platforms"
+import type { ComposedVariant, ComposeRequest, ComposeResult, ComposerPlatform } from "./types"
+
+// Turns one topic or draft into a variant per platform; each platform is its own generation
+// so it gets its own length, hashtag and formatting checks
+
+export interface ComposeOptions {
+  signal?: AbortSignal
+  tier?: ModelTier // Defaults to the route's tier
+}
+
+function buildMessages(platform: ComposerPlatform, request: ComposeRequest) {
+  const spec = PLATFORM_SPECS[platform]
+  const { source, sourceType, tone, useEmoji, instructions } = request
+
+  const systemPrompt = `You are a social media copywriter adapting ideas for ${spec.label}.
+Write in a ${tone} tone. ${useEmoji ? "Use a few relevant emojis where they add meaning." : "Do not use emojis."}
+${
+  sourceType === "draft"
+    ? "You are given a draft. Keep its message, facts and intent; rewrite it to fit the platform."
+    : "You are given a topic. Write original content about it."
+}
+Sound like a real person, not a brand or an AI. Do not invent statistics or quotes.
+
+${spec.guidelines(request)}
+${instructions ? `\nAdditional instructions: ${instructions}` : ""}`
+
+  const userPrompt =
+    sourceType === "draft"
+      ? `Adapt this draft for ${spec.label}:\n\n${source}`
+      : `Write a ${spec.label} post about: ${source}`
+
+  return [
+    { role: "system" as const, content: systemPrompt },
+    { role: "user" as const, content: userPrompt },
+  ]
+}
+
+export async function composeVariant(
+  platform: ComposerPlatform,
+  request: ComposeRequest,
+  voiceProfile: VoiceProfile | null,
+  { signal, tier }: ComposeOptions = {},
+): Promise<ComposedVariant> {
+  const spec = PLATFORM_SPECS[platform]
+
+  const { result, quality } = await generateWithQualityChecks({
+    options: {
+      tier,
+      messages: applyVoiceProfile(buildMessages(platform, request), voiceProfile),
+      temperature: 0.8,
+      maxTokens: platform === "x" && request.xFormat === "single" ? 600 : 1800,
+      signal,
+    },
+    generate: (options) => llm.completeStructured("compose", spec.schema, options),
+    texts: (result) => (result.data ? formatVariant(spec.toVariant(result.data, request)) : null),
+    context: {
+      platform: spec.historyPlatform,
+      kind: "post",
+      useEmoji: request.useEmoji,
+      voiceProfile,
+      maxLength: spec.maxLength,
+      maxHashtags: spec.maxHashtags,
+    },
+  })
+
+  if (!result.data) {
+    console.error(`Raw ${platform} content:`, result.raw)
+    throw new Error("Failed to parse AI response")
+  }
+
+  const variant = spec.toVariant(result.data, request)
+  return generationEnvelope(
+    {
+      ...variant,
+      published: formatVariant(variant),
+      flaggedPhrases: voiceProfile ? findBannedPhrases(variant.parts.join("\n"), voiceProfile.bannedPhrases) : [],
+    },
+    result,
+    { quality },
+  )
+}
+
+// Platforms run in parallel; one failing platform doesn't discard the others
+export async function compose(
+  request: ComposeRequest,
+  voiceProfile: VoiceProfile | null,
+  options: ComposeOptions = {},
+): Promise<ComposeResult> {
+  const settled = await Promise.allSettled(
+    request.platforms.map((platform) => composeVariant(platform, request, voiceProfile, options)),
+  )
+
+  const result: ComposeResult = { variants: [], failures: [] }
+  settled.forEach((outcome, index) => {
+    const platform = request.platforms[index]
+    if (outcome.status === "fulfilled") {
+      result.variants.push(outcome.value)
+    } else {
+      console.error(`❌ Composing the ${platform} variant failed:`, outcome.reason)
+      result.failures.push({
+        platform,
+        error: outcome.reason instanceof Error ? outcome.reason.message : "Unknown error",
+      })
+    }
+  })
+
+  return result
+}
+
+export { formatVariant, PLATFORM_SPECS, toHashtags } from "./platforms"
+export * from "./types"
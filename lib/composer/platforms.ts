@@ -0,0 +1,123 @@
+import type { z } from "zod"
+import {
+  ComposedInstagramCaptionSchema,
+  ComposedLinkedInPostSchema,
+  ComposedXPostSchema,
+  type ComposedInstagramCaption,
+  type ComposedLinkedInPost,
+  type ComposedXPost,
+} from "@/lib/llm/schemas"
+import type { HistoryPlatform } from "@/lib/history/types"
+import type { ComposeRequest, ComposerPlatform, ComposerVariant } from "./types"
+
+// Length, formatting and hashtag conventions for each composer platform
+
+export interface PlatformSpec<T> {
+  label: string
+  historyPlatform: HistoryPlatform
+  maxLength: number // Per published part
+  maxHashtags: number
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  // Platform rules and the JSON format, appended to the shared system prompt
+  guidelines(request: ComposeRequest): string
+  toVariant(data: T, request: ComposeRequest): ComposerVariant
+}
+
+export function toHashtags(tags: string[]): string[] {
+  const hashtags = tags
+    .map((tag) => tag.replace(/^#+/, "").replace(/\s+/g, ""))
+    .filter(Boolean)
+    .map((tag) => `#${tag}`)
+  return Array.from(new Set(hashtags))
+}
+
+const xSpec: PlatformSpec<ComposedXPost> = {
+  label: "X (Twitter)",
+  historyPlatform: "twitter",
+  maxLength: 280,
+  maxHashtags: 2,
+  schema: ComposedXPostSchema,
+  guidelines: ({ xFormat }) =>
+    xFormat === "thread"
+      ? `Write a thread of 3-8 posts:
+- The first post is the hook and must make people want to read on
+- Every post stands on its own, under 270 characters, with one idea each
+- Do not number the posts; numbering is added when the thread is published
+- End with a short call to action
+- At most 2 hashtags, listed separately; they are added to the last post
+
+Respond with JSON: {"posts": ["First post", "Second post"], "hashtags": ["#tag"]}`
+      : `Write a single post:
+- Under 250 characters, so it fits in 280 with its hashtags
+- Lead with the most interesting point; no filler openings
+- At most 2 hashtags, listed separately
+
+Respond with JSON: {"posts": ["The post"], "hashtags": ["#tag"]}`,
+  toVariant: (data, { xFormat }) => ({
+    platform: "x",
+    format: xFormat === "thread" ? "thread" : "post",
+    parts: xFormat === "thread" ? data.posts : [data.posts.join("\n\n")],
+    hashtags: toHashtags(data.hashtags).slice(0, 2),
+  }),
+}
+
+const linkedInSpec: PlatformSpec<ComposedLinkedInPost> = {
+  label: "LinkedIn",
+  historyPlatform: "linkedin",
+  maxLength: 3000,
+  maxHashtags: 5,
+  schema: ComposedLinkedInPostSchema,
+  guidelines: () => `Write a long-form LinkedIn post:
+- hook: one line under 140 characters that earns the "see more" click; it is shown on its own above the body
+- body: 800-2000 characters in short paragraphs of 1-2 sentences, separated by blank lines
+- Share a concrete insight, story or lesson; end with a question or call to action that invites comments
+- Plain text only: LinkedIn does not render markdown, so no asterisks, headings or bold
+- 3-5 hashtags, listed separately; they go at the end of the post
+
+Respond with JSON: {"hook": "Hook line", "body": "Paragraph one\\n\\nParagraph two", "hashtags": ["#tag"]}`,
+  toVariant: (data) => ({
+    platform: "linkedin",
+    format: "post",
+    parts: [`${data.hook}\n\n${data.body}`],
+    hashtags: toHashtags(data.hashtags).slice(0, 5),
+  }),
+}
+
+const instagramSpec: PlatformSpec<ComposedInstagramCaption> = {
+  label: "Instagram",
+  historyPlatform: "instagram",
+  maxLength: 2200,
+  maxHashtags: 30,
+  schema: ComposedInstagramCaptionSchema,
+  guidelines: () => `Write an Instagram caption:
+- The first line is a hook under 125 characters; it is all people see before "more"
+- 300-1200 characters, in short lines and paragraphs separated by line breaks
+- End with a call to action (save, share, comment or tag someone)
+- 15-25 hashtags mixing broad and niche tags, listed separately; they go in a block below the caption
+
+Respond with JSON: {"caption": "Hook line\\n\\nCaption text", "hashtags": ["#tag"]}`,
+  toVariant: (data) => ({
+    platform: "instagram",
+    format: "caption",
+    parts: [data.caption],
+    hashtags: toHashtags(data.hashtags).slice(0, 30),
+  }),
+}
+
+export const PLATFORM_SPECS: { [P in ComposerPlatform]: PlatformSpec<unknown> } = {
+  x: xSpec,
+  linkedin: linkedInSpec,
+  instagram: instagramSpec,
+}
+
+// Texts as they would be published: X puts hashtags on the last post, LinkedIn at the end,
+// and Instagram in a block separated from the caption by dot lines
+export function formatVariant(variant: Pick<ComposerVariant, "platform" | "parts" | "hashtags">): string[] {
+  const hashtags = variant.hashtags.join(" ")
+  if (!hashtags) return variant.parts
+
+  const separator = variant.platform === "instagram" ? "\n.\n.\n.\n" : "\n\n"
+  return variant.parts.map((part, index) =>
+    index === variant.parts.length - 1 ? `${part}${separator}${hashtags}` : part,
+  )
+}
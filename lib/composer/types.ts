@@ -0,0 +1,57 @@
+import { z } from "zod"
+import type { GenerationEnvelope } from "@/lib/llm"
+import type { QualityReport } from "@/lib/quality/types"
+
+export const COMPOSER_PLATFORMS = ["x", "linkedin", "instagram"] as const
+export type ComposerPlatform = (typeof COMPOSER_PLATFORMS)[number]
+
+export const X_FORMATS = ["single", "thread"] as const
+export type XFormat = (typeof X_FORMATS)[number]
+
+// topic: write from scratch about it; draft: keep the draft's message and adapt it to each platform
+export const COMPOSE_SOURCE_TYPES = ["topic", "draft"] as const
+export type ComposeSourceType = (typeof COMPOSE_SOURCE_TYPES)[number]
+
+export const ComposeRequestSchema = z.object({
+  source: z.string().trim().min(1, "A topic or draft is required").max(5000, "Drafts are limited to 5000 characters"),
+  sourceType: z.enum(COMPOSE_SOURCE_TYPES).default("topic"),
+  tone: z.string().trim().min(1).default("professional"),
+  platforms: z
+    .array(z.enum(COMPOSER_PLATFORMS))
+    .min(1, "Choose at least one platform")
+    .default([...COMPOSER_PLATFORMS])
+    .transform((platforms) => Array.from(new Set(platforms))),
+  xFormat: z.enum(X_FORMATS).default("single"),
+  useEmoji: z.boolean().default(true),
+  instructions: z.string().trim().max(1000).optional(),
+  voiceProfileId: z.string().nullish(),
+})
+
+export type ComposeRequestInput = z.input<typeof ComposeRequestSchema>
+export type ComposeRequest = z.output<typeof ComposeRequestSchema>
+
+// One platform's version of the post; parts holds a single text except for X threads (one part per post)
+export interface ComposerVariant {
+  platform: ComposerPlatform
+  format: "post" | "thread" | "caption"
+  parts: string[]
+  hashtags: string[]
+}
+
+export type ComposedVariant = GenerationEnvelope<
+  ComposerVariant & {
+    published: string[] // Parts as they would be posted, hashtags included
+    flaggedPhrases: string[]
+  },
+  { quality: QualityReport | null }
+>
+
+export interface ComposeFailure {
+  platform: ComposerPlatform
+  error: string
+}
+
+export interface ComposeResult {
+  variants: ComposedVariant[]
+  failures: ComposeFailure[]
+}
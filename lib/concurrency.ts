@@ -0,0 +1,22 @@
+// Runs worker over every item with at most `limit` in flight, preserving result order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length))
+  await Promise.all(Array.from({ length: workerCount }, runNext))
+
+  return results
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { isCronAuthorized } from "./cron"
+
+function cronRequest(authorization?: string): Request {
+  return new Request("http://localhost/api/schedule/dispatch", {
+    headers: authorization ? { authorization } : {},
+  })
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("isCronAuthorized", () => {
+  it("needs the bearer secret when CRON_SECRET is set", () => {
+    vi.stubEnv("CRON_SECRET", "s3cret")
+
+    expect(isCronAuthorized(cronRequest("Bearer s3cret"))).toBe(true)
+    expect(isCronAuthorized(cronRequest("Bearer wrong"))).toBe(false)
+    expect(isCronAuthorized(cronRequest())).toBe(false)
+  })
+
+  it("is open without a secret in development", () => {
+    vi.stubEnv("CRON_SECRET", "")
+    vi.stubEnv("NODE_ENV", "development")
+
+    expect(isCronAuthorized(cronRequest())).toBe(true)
+  })
+
+  it("refuses everything without a secret in production", () => {
+    vi.stubEnv("CRON_SECRET", "")
+    vi.stubEnv("NODE_ENV", "production")
+    vi.spyOn(console, "error").mockImplementation(() => undefined)
+
+    expect(isCronAuthorized(cronRequest("Bearer "))).toBe(false)
+    expect(isCronAuthorized(cronRequest())).toBe(false)
+  })
+})
@@ -0,0 +1,11 @@
+// Vercel Cron sends "Authorization: Bearer $CRON_SECRET". Without a secret the route is open in development and
+// closed in production, so a missing variable can't expose it.
+export function isCronAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV !== "production") return true
+    console.error("❌ CRON_SECRET is not set; refusing cron request")
+    return false
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`
+}
@@ -0,0 +1,73 @@
+// Minimal RFC 4180 CSV helpers, safe to use on both server and client
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      // Treat \r\n as a single line break
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+function escapeCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n")
+}
+
+const URL_COLUMN_NAMES = ["url", "link", "post url", "post_url", "post link"]
+
+// Pulls post URLs out of a CSV: uses a url/link column when there is a header, otherwise any cell that looks like a URL
+export function extractUrlsFromCsv(text: string): string[] {
+  const rows = parseCsv(text)
+  if (rows.length === 0) return []
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase())
+  const urlColumn = header.findIndex((cell) => URL_COLUMN_NAMES.includes(cell))
+
+  const cells =
+    urlColumn !== -1 ? rows.slice(1).map((row) => row[urlColumn] || "") : rows.flatMap((row) => row)
+
+  return cells.map((cell) => cell.trim()).filter((cell) => /^https?:\/\//i.test(cell))
+}
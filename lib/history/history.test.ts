@@ -0,0 +1,64 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { FileHistoryStore } from "./stores/file"
+import type { HistoryEntry } from "./types"
+
+let dir: string
+let filePath: string
+
+function entry(userId: string, index: number): HistoryEntry {
+  return {
+    id: `${userId}-${index}`,
+    kind: "comment",
+    platform: "linkedin",
+    route: "/api/generate-comments",
+    request: {},
+    input: { url: null, content: `Post ${index}`, tone: null, options: {} },
+    outputs: [`Comment ${index}`],
+    outputTone: null,
+    userId,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+  }
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "history-"))
+  filePath = path.join(dir, "history.json")
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe("FileHistoryStore", () => {
+  it("caps each user's history on its own", async () => {
+    const store = new FileHistoryStore(filePath, 3)
+    await store.add("quiet", entry("quiet", 0))
+    for (let index = 0; index < 5; index++) {
+      await store.add("busy", entry("busy", index))
+    }
+
+    expect((await store.list("quiet", {})).entries.map((e) => e.id)).toEqual(["quiet-0"])
+    expect((await store.list("busy", {})).entries.map((e) => e.id)).toEqual(["busy-4", "busy-3", "busy-2"])
+  })
+
+  it("keeps other users' entries out of reach", async () => {
+    const store = new FileHistoryStore(filePath, 10)
+    await store.add("owner", entry("owner", 0))
+
+    expect(await store.get("someone-else", "owner-0")).toBeNull()
+    expect(await store.delete("someone-else", "owner-0")).toBe(false)
+    expect(await store.get("owner", "owner-0")).not.toBeNull()
+  })
+
+  it("reads a shared list from before histories were per user", async () => {
+    const legacy = [entry("a", 1), entry("b", 0), { ...entry("a", 0), userId: null }]
+    await fs.writeFile(filePath, JSON.stringify(legacy))
+    const store = new FileHistoryStore(filePath, 10)
+
+    expect((await store.list("a", {})).entries.map((e) => e.id)).toEqual(["a-1"])
+    expect((await store.list("b", {})).total).toBe(1)
+  })
+})
@@ -0,0 +1,93 @@
+import path from "path"
+import redis from "@/lib/redis"
+import { FileHistoryStore } from "./stores/file"
+import { RedisHistoryStore } from "./stores/redis"
+import type {
+  HistoryEntry,
+  HistoryPage,
+  HistoryPlatform,
+  HistoryQuery,
+  HistoryRepository,
+  NewHistoryEntry,
+} from "./types"
+
+// Persistent history of everything generated, per user, behind a swappable repository
+// HISTORY_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+// HISTORY_MAX_ENTRIES caps each user's history (default 1000)
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+// Maps the platform names used by the routes ("LinkedIn", "Twitter", ...) onto history platforms
+export function toHistoryPlatform(platform: string | null | undefined): HistoryPlatform {
+  const normalized = (platform || "").toLowerCase()
+  if (normalized === "twitter" || normalized === "x") return "twitter"
+  if (normalized === "instagram" || normalized === "facebook") return normalized
+  return "linkedin"
+}
+
+class HistoryService {
+  constructor(private repository: HistoryRepository) {}
+
+  get backend(): string {
+    return this.repository.name
+  }
+
+  setRepository(repository: HistoryRepository): void {
+    this.repository = repository
+  }
+
+  // Never throws: losing a history entry must not fail the generation it records
+  async record(userId: string, entry: NewHistoryEntry): Promise<HistoryEntry | null> {
+    const stored: HistoryEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      userId,
+      createdAt: new Date().toISOString(),
+    }
+
+    try {
+      await this.repository.add(userId, stored)
+      return stored
+    } catch (error) {
+      console.error("❌ Failed to record history entry:", error)
+      return null
+    }
+  }
+
+  list(userId: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+    return this.repository.list(userId, query)
+  }
+
+  // Other users' entries look exactly like missing ones
+  get(userId: string, id: string): Promise<HistoryEntry | null> {
+    return this.repository.get(userId, id)
+  }
+
+  delete(userId: string, id: string): Promise<boolean> {
+    return this.repository.delete(userId, id)
+  }
+}
+
+function createDefaultRepository(): HistoryRepository {
+  const maxEntries = Number(process.env.HISTORY_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.HISTORY_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisHistoryStore(redis, maxEntries)
+  }
+
+  const filePath = process.env.HISTORY_FILE_PATH || path.join(process.cwd(), ".data", "history.json")
+  console.warn(`⚠️ Using file-based history store at ${filePath}`)
+  return new FileHistoryStore(filePath, maxEntries)
+}
+
+// Create singleton history service
+const history = new HistoryService(createDefaultRepository())
+
+export default history
+
+export { FileHistoryStore } from "./stores/file"
+export { RedisHistoryStore } from "./stores/redis"
+export { matchesQuery } from "./query"
+export * from "./types"
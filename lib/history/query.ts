@@ -0,0 +1,42 @@
+import type { HistoryEntry, HistoryPage, HistoryQuery } from "./types"
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+export function matchesQuery(entry: HistoryEntry, query: HistoryQuery): boolean {
+  if (query.platform && entry.platform !== query.platform) return false
+  if (query.kind && entry.kind !== query.kind) return false
+
+  if (query.tone) {
+    const tone = query.tone.toLowerCase()
+    const tones = [entry.input.tone, entry.outputTone].filter(Boolean).map((value) => (value as string).toLowerCase())
+    if (!tones.some((value) => value.includes(tone))) return false
+  }
+
+  const createdAt = new Date(entry.createdAt).getTime()
+  if (query.from && createdAt < query.from.getTime()) return false
+  if (query.to && createdAt > query.to.getTime()) return false
+
+  if (query.search) {
+    const search = query.search.toLowerCase()
+    const haystack = [entry.input.url, entry.input.content, entry.input.tone, entry.outputTone, ...entry.outputs]
+      .filter(Boolean)
+      .join("\n")
+      .toLowerCase()
+    if (!haystack.includes(search)) return false
+  }
+
+  return true
+}
+
+// Filters newest-first entries and slices out the requested page
+export function paginate(entries: HistoryEntry[], query: HistoryQuery): HistoryPage {
+  const matching = entries.filter((entry) => matchesQuery(entry, query))
+  const limit = Math.min(Math.max(1, query.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+  const offset = Math.max(0, query.offset || 0)
+
+  return {
+    entries: matching.slice(offset, offset + limit),
+    total: matching.length,
+  }
+}
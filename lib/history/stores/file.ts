@@ -0,0 +1,81 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { paginate } from "../query"
+import type { HistoryEntry, HistoryPage, HistoryQuery, HistoryRepository } from "../types"
+
+// Newest first, keyed by user id
+type HistoryFileData = Record<string, HistoryEntry[]>
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileHistoryStore implements HistoryRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private filePath: string,
+    private maxEntries: number,
+  ) {}
+
+  async add(userId: string, entry: HistoryEntry): Promise<void> {
+    await this.update((data) => ({ ...data, [userId]: [entry, ...(data[userId] || [])].slice(0, this.maxEntries) }))
+  }
+
+  async list(userId: string, query: HistoryQuery): Promise<HistoryPage> {
+    const data = await this.read()
+    return paginate(data[userId] || [], query)
+  }
+
+  async get(userId: string, id: string): Promise<HistoryEntry | null> {
+    const data = await this.read()
+    return (data[userId] || []).find((entry) => entry.id === id) || null
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    let deleted = false
+    await this.update((data) => {
+      const entries = data[userId] || []
+      const remaining = entries.filter((entry) => entry.id !== id)
+      deleted = remaining.length !== entries.length
+      return { ...data, [userId]: remaining }
+    })
+    return deleted
+  }
+
+  private async read(): Promise<HistoryFileData> {
+    try {
+      const contents = await fs.readFile(this.filePath, "utf8")
+      const data = JSON.parse(contents)
+      return Array.isArray(data) ? groupByUser(data) : data || {}
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop entries
+  private update(change: (data: HistoryFileData) => HistoryFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      // Write to a temp file first so a crash mid-write can't corrupt the history
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
+
+// Files from before histories were kept per user hold one shared list; entries without an owner are dropped
+function groupByUser(entries: HistoryEntry[]): HistoryFileData {
+  const data: HistoryFileData = {}
+  for (const entry of entries) {
+    if (entry.userId) (data[entry.userId] ||= []).push(entry)
+  }
+  return data
+}
@@ -0,0 +1,85 @@
+import type { Redis } from "@upstash/redis"
+import { paginate } from "../query"
+import type { HistoryEntry, HistoryPage, HistoryQuery, HistoryRepository } from "../types"
+
+// Each user's entries live in a hash keyed by id, ordered by a sorted set scored by creation time
+export class RedisHistoryStore implements HistoryRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private maxEntries: number,
+    private prefix = "altreach:history",
+  ) {}
+
+  private indexKey(userId: string): string {
+    return `${this.prefix}:${userId}:index`
+  }
+
+  private entriesKey(userId: string): string {
+    return `${this.prefix}:${userId}:entries`
+  }
+
+  async add(userId: string, entry: HistoryEntry): Promise<void> {
+    const pipeline = this.client.pipeline()
+    pipeline.hset(this.entriesKey(userId), { [entry.id]: JSON.stringify(entry) })
+    pipeline.zadd(this.indexKey(userId), { score: new Date(entry.createdAt).getTime(), member: entry.id })
+    await pipeline.exec()
+
+    await this.trim(userId)
+  }
+
+  async list(userId: string, query: HistoryQuery): Promise<HistoryPage> {
+    const ids = await this.client.zrange<string[]>(this.indexKey(userId), 0, -1, { rev: true })
+    if (ids.length === 0) {
+      return { entries: [], total: 0 }
+    }
+
+    const values = await this.client.hmget<Record<string, unknown>>(this.entriesKey(userId), ...ids)
+    const entries = ids
+      .map((id) => this.deserialize(values?.[id]))
+      .filter((entry): entry is HistoryEntry => entry !== null)
+
+    return paginate(entries, query)
+  }
+
+  async get(userId: string, id: string): Promise<HistoryEntry | null> {
+    return this.deserialize(await this.client.hget(this.entriesKey(userId), id))
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const pipeline = this.client.pipeline()
+    pipeline.zrem(this.indexKey(userId), id)
+    pipeline.hdel(this.entriesKey(userId), id)
+    const [removed] = await pipeline.exec<[number, number]>()
+    return removed > 0
+  }
+
+  // Drop the user's oldest entries beyond the configured cap
+  private async trim(userId: string): Promise<void> {
+    const count = await this.client.zcard(this.indexKey(userId))
+    const excess = count - this.maxEntries
+    if (excess <= 0) return
+
+    const staleIds = await this.client.zrange<string[]>(this.indexKey(userId), 0, excess - 1)
+    if (staleIds.length === 0) return
+
+    const pipeline = this.client.pipeline()
+    pipeline.zrem(this.indexKey(userId), ...staleIds)
+    pipeline.hdel(this.entriesKey(userId), ...staleIds)
+    await pipeline.exec()
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize(value: unknown): HistoryEntry | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as HistoryEntry
+      } catch {
+        return null
+      }
+    }
+    return value as HistoryEntry
+  }
+}
@@ -0,0 +1,53 @@
+import type { GenerationMetadata } from "@/lib/llm"
+
+export type HistoryKind = "comment" | "connection-message" | "reply" | "post"
+
+export type HistoryPlatform = "linkedin" | "twitter" | "instagram" | "facebook"
+
+export interface HistoryInput {
+  url: string | null
+  content: string | null // Extracted post/profile content, tweet text or topic
+  tone: string | null // Requested tone (null when smart tone picked it)
+  options: Record<string, unknown>
+}
+
+export interface HistoryEntry {
+  id: string
+  kind: HistoryKind
+  platform: HistoryPlatform
+  route: string // API route that produced it, replayed by "regenerate"
+  request: Record<string, unknown> // Original request body, minus transient fields
+  input: HistoryInput
+  outputs: string[]
+  outputTone: string | null
+  metadata?: Partial<GenerationMetadata> & Record<string, unknown>
+  userId?: string | null // Account that generated it; entries from before accounts have none
+  createdAt: string
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id" | "createdAt" | "userId">
+
+export interface HistoryQuery {
+  search?: string
+  platform?: HistoryPlatform
+  kind?: HistoryKind
+  tone?: string
+  from?: Date
+  to?: Date
+  limit?: number
+  offset?: number
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[]
+  total: number
+}
+
+// Entries are kept per user, and each user's history is capped on its own
+export interface HistoryRepository {
+  readonly name: string
+  add(userId: string, entry: HistoryEntry): Promise<void>
+  list(userId: string, query: HistoryQuery): Promise<HistoryPage>
+  get(userId: string, id: string): Promise<HistoryEntry | null>
+  delete(userId: string, id: string): Promise<boolean>
+}
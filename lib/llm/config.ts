@@ -0,0 +1,72 @@
+import type { LLMProviderName, ModelTier } from "./types"
+
+// Routes that go through the gateway, each with its default model tier
+export const ROUTE_DEFAULTS = {
+  "generate-comments": "fast",
+  "generate-connection-message": "fast",
+  "detect-tone": "fast",
+  "twitter/detect-tone": "fast",
+  "twitter/generate-comments": "fast",
+  "twitter/generate-posts": "fast",
+  "twitter/generate-image": "image",
+  compose: "fast",
+} satisfies Record<string, ModelTier>
+
+export type LLMRoute = keyof typeof ROUTE_DEFAULTS
+
+// Default model per provider and tier (Azure uses deployment names)
+export const PROVIDER_MODELS: Record<LLMProviderName, Record<ModelTier, string>> = {
+  openai: { fast: "gpt-3.5-turbo", smart: "gpt-4o", image: "dall-e-2" },
+  azure: {
+    fast: process.env.AZURE_OPENAI_DEPLOYMENT_FAST || "gpt-35-turbo",
+    smart: process.env.AZURE_OPENAI_DEPLOYMENT_SMART || "gpt-4o",
+    image: process.env.AZURE_OPENAI_DEPLOYMENT_IMAGE || "dall-e-3",
+  },
+  anthropic: { fast: "claude-3-5-haiku-latest", smart: "claude-3-5-sonnet-latest", image: "" },
+  "openai-compatible": {
+    fast: process.env.LLM_LOCAL_MODEL || "llama3.1",
+    smart: process.env.LLM_LOCAL_MODEL_SMART || process.env.LLM_LOCAL_MODEL || "llama3.1",
+    image: "",
+  },
+  fake: { fast: "fake-fast", smart: "fake-smart", image: "fake-image" },
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "azure", "anthropic", "openai-compatible", "fake"]
+
+// "twitter/generate-comments" -> "TWITTER_GENERATE_COMMENTS"
+function routeEnvKey(route: LLMRoute): string {
+  return route.replace(/[^a-z0-9]+/gi, "_").toUpperCase()
+}
+
+function parseProviderName(value: string | undefined): LLMProviderName | null {
+  if (!value) return null
+  const name = value.trim().toLowerCase() as LLMProviderName
+  if (!PROVIDER_NAMES.includes(name)) {
+    console.warn(`⚠️ Unknown LLM provider "${value}", ignoring`)
+    return null
+  }
+  return name
+}
+
+// Provider precedence: LLM_PROVIDER_<ROUTE>, LLM_PROVIDER, then whichever credentials are present
+export function resolveProviderName(route: LLMRoute): LLMProviderName {
+  const configured =
+    parseProviderName(process.env[`LLM_PROVIDER_${routeEnvKey(route)}`]) || parseProviderName(process.env.LLM_PROVIDER)
+  if (configured) return configured
+
+  if (process.env.OPENAI_API_KEY) return "openai"
+  if (process.env.AZURE_OPENAI_API_KEY) return "azure"
+  if (process.env.ANTHROPIC_API_KEY) return "anthropic"
+  if (process.env.LLM_BASE_URL) return "openai-compatible"
+  return "openai"
+}
+
+// Model precedence: LLM_MODEL_<ROUTE>, LLM_MODEL_<TIER>, then the provider default for the tier
+export function resolveModel(route: LLMRoute, provider: LLMProviderName, tier?: ModelTier): string {
+  const routeOverride = process.env[`LLM_MODEL_${routeEnvKey(route)}`]
+  // A per-route override pins the model only when no explicit tier was requested
+  if (routeOverride && !tier) return routeOverride
+
+  const resolvedTier = tier || ROUTE_DEFAULTS[route]
+  return process.env[`LLM_MODEL_${resolvedTier.toUpperCase()}`] || PROVIDER_MODELS[provider][resolvedTier]
+}
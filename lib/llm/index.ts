@@ -0,0 +1,147 @@
+import type { z } from "zod"
+import { resolveModel, resolveProviderName, type LLMRoute } from "./config"
+import { AnthropicProvider } from "./providers/anthropic"
+import { FakeProvider } from "./providers/fake"
+import { OpenAIProvider } from "./providers/openai"
+import { completeStructured, type StructuredResult, type StructuredStreamOptions } from "./structured"
+import {
+  LLMProviderError,
+  type CompletionRequest,
+  type CompletionResult,
+  type ImageResult,
+  type LLMProvider,
+  type LLMProviderName,
+  type ModelTier,
+} from "./types"
+
+export type CompletionOptions = Omit<CompletionRequest, "model"> & {
+  tier?: ModelTier // Overrides the route's default tier
+  model?: string // Pins an exact model, bypassing config
+}
+
+// Single entry point for every LLM call made by the API routes
+class LLMGateway {
+  private providers = new Map<LLMProviderName, LLMProvider>()
+
+  // Replace a provider instance, e.g. a configured FakeProvider in tests
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  getProvider(name: LLMProviderName): LLMProvider {
+    let provider = this.providers.get(name)
+
+    if (!provider) {
+      provider = createProvider(name)
+      this.providers.set(name, provider)
+    }
+
+    return provider
+  }
+
+  isConfigured(route: LLMRoute): boolean {
+    const name = resolveProviderName(route)
+    if (this.providers.has(name)) return true
+    if (name === "fake") return true
+    if (name === "anthropic") return AnthropicProvider.isConfigured()
+    return OpenAIProvider.isConfigured(name)
+  }
+
+  resolveModel(route: LLMRoute, tier?: ModelTier): string {
+    return resolveModel(route, resolveProviderName(route), tier)
+  }
+
+  async complete(route: LLMRoute, options: CompletionOptions): Promise<CompletionResult> {
+    const { tier, model, ...request } = options
+    const providerName = resolveProviderName(route)
+    const provider = this.getProvider(providerName)
+    const resolvedModel = model || resolveModel(route, providerName, tier)
+
+    console.log(`🤖 ${route} → ${providerName}/${resolvedModel}`)
+
+    const result = await provider.complete({ ...request, model: resolvedModel })
+
+    if (!result.content) {
+      throw new LLMProviderError(`No content returned from ${providerName}`, providerName)
+    }
+
+    return result
+  }
+
+  // Streams content deltas; providers without native streaming yield the whole completion at once
+  stream(route: LLMRoute, options: CompletionOptions): { provider: LLMProviderName; model: string; chunks: AsyncIterable<string> } {
+    const { tier, model, ...request } = options
+    const providerName = resolveProviderName(route)
+    const provider = this.getProvider(providerName)
+    const resolvedModel = model || resolveModel(route, providerName, tier)
+    const completionRequest = { ...request, model: resolvedModel }
+
+    console.log(`🤖 ${route} → ${providerName}/${resolvedModel} (streaming)`)
+
+    const chunks: AsyncIterable<string> = provider.stream
+      ? provider.stream(completionRequest)
+      : (async function* () {
+          const result = await provider.complete(completionRequest)
+          yield result.content
+        })()
+
+    return { provider: providerName, model: resolvedModel, chunks }
+  }
+
+  // JSON completion validated against a zod schema, with one automatic repair attempt
+  async completeStructured<T>(
+    route: LLMRoute,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: CompletionOptions,
+    streamOptions?: StructuredStreamOptions,
+  ): Promise<StructuredResult<T>> {
+    return completeStructured(this, route, schema, options, streamOptions)
+  }
+
+  async generateImage(route: LLMRoute, options: { prompt: string; size: string; model?: string }): Promise<ImageResult> {
+    const providerName = resolveProviderName(route)
+    const provider = this.getProvider(providerName)
+
+    if (!provider.generateImage) {
+      throw new LLMProviderError(`Provider ${providerName} does not support image generation`, providerName)
+    }
+
+    return provider.generateImage({
+      prompt: options.prompt,
+      size: options.size,
+      model: options.model || resolveModel(route, providerName, "image"),
+    })
+  }
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "anthropic":
+      return new AnthropicProvider()
+    case "fake":
+      return new FakeProvider()
+    default:
+      return OpenAIProvider.fromEnv(name)
+  }
+}
+
+// Create singleton gateway
+const llm = new LLMGateway()
+
+export default llm
+export { ROUTE_DEFAULTS, type LLMRoute } from "./config"
+export { AnthropicProvider } from "./providers/anthropic"
+export { FakeProvider } from "./providers/fake"
+export { OpenAIProvider } from "./providers/openai"
+export * from "./schemas"
+export { type JsonPath } from "./json-stream"
+export {
+  generationEnvelope,
+  generationMetadata,
+  invalidOutputBody,
+  type GenerationEnvelope,
+  type GenerationMetadata,
+  type StructuredResult,
+  type StructuredStreamOptions,
+} from "./structured"
+export * from "./types"
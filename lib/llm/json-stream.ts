@@ -0,0 +1,102 @@
+export type JsonPath = (string | number)[]
+
+type Container = { type: "object"; key: string | null; expectingKey: boolean } | { type: "array"; index: number }
+
+// Incremental JSON scanner that reports every string value as soon as it is complete,
+// so fields and array items can be forwarded while the model is still writing
+export class JsonFieldStream {
+  private stack: Container[] = []
+  private started = false
+  private done = false
+  private inString = false
+  private escaped = false
+  private rawString = ""
+
+  constructor(private onField: (path: JsonPath, value: string) => void) {}
+
+  push(chunk: string): void {
+    for (const char of chunk) {
+      if (this.done) return
+
+      if (!this.started) {
+        // Skip anything before the first object, e.g. a markdown code fence
+        if (char === "{") {
+          this.started = true
+          this.stack.push({ type: "object", key: null, expectingKey: true })
+        }
+        continue
+      }
+
+      if (this.inString) {
+        this.readStringChar(char)
+        continue
+      }
+
+      const top = this.stack[this.stack.length - 1]
+
+      switch (char) {
+        case '"':
+          this.inString = true
+          this.rawString = ""
+          break
+        case "{":
+          this.stack.push({ type: "object", key: null, expectingKey: true })
+          break
+        case "[":
+          this.stack.push({ type: "array", index: 0 })
+          break
+        case "}":
+        case "]":
+          this.stack.pop()
+          if (this.stack.length === 0) this.done = true
+          break
+        case ":":
+          if (top?.type === "object") top.expectingKey = false
+          break
+        case ",":
+          if (top?.type === "object") top.expectingKey = true
+          else if (top?.type === "array") top.index++
+          break
+      }
+    }
+  }
+
+  private readStringChar(char: string): void {
+    if (this.escaped) {
+      this.rawString += char
+      this.escaped = false
+      return
+    }
+
+    if (char === "\\") {
+      this.rawString += char
+      this.escaped = true
+      return
+    }
+
+    if (char !== '"') {
+      this.rawString += char
+      return
+    }
+
+    this.inString = false
+    let value: string
+    try {
+      value = JSON.parse(`"${this.rawString}"`)
+    } catch {
+      value = this.rawString
+    }
+
+    const top = this.stack[this.stack.length - 1]
+    if (top?.type === "object" && top.expectingKey) {
+      top.key = value
+      return
+    }
+
+    this.onField(this.currentPath(), value)
+  }
+
+  private currentPath(): JsonPath {
+    return this.stack.map((container) => (container.type === "object" ? container.key ?? "" : container.index))
+  }
+}
@@ -0,0 +1,97 @@
+import { LLMProviderError, type CompletionRequest, type CompletionResult, type LLMProvider } from "../types"
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages"
+const ANTHROPIC_VERSION = "2023-06-01"
+
+interface AnthropicResponse {
+  model: string
+  content: { type: string; text?: string }[]
+}
+
+// Anthropic Messages API over fetch (no SDK dependency)
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const
+
+  constructor(private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY) {}
+
+  static isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY
+  }
+
+  private async send(request: CompletionRequest, stream: boolean): Promise<Response> {
+    // Anthropic takes the system prompt separately and has no JSON mode, so ask for it explicitly
+    const systemParts = request.messages.filter((message) => message.role === "system").map((message) => message.content)
+    if (request.responseFormat === "json") {
+      systemParts.push("Respond with a single valid JSON object and nothing else.")
+    }
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey || "",
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: systemParts.join("\n\n") || undefined,
+        messages: request.messages
+          .filter((message) => message.role !== "system")
+          .map((message) => ({ role: message.role, content: message.content })),
+        max_tokens: request.maxTokens || 1024,
+        temperature: request.temperature,
+        stream,
+      }),
+      signal: request.signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "")
+      throw new LLMProviderError(`Anthropic API error ${response.status}: ${errorText}`, this.name, response.status)
+    }
+
+    return response
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.send(request, false)
+    const data: AnthropicResponse = await response.json()
+    const content = data.content
+      .filter((block) => block.type === "text" && block.text)
+      .map((block) => block.text)
+      .join("")
+      .trim()
+
+    return { content, model: data.model || request.model, provider: this.name }
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const response = await this.send(request, true)
+    if (!response.body) return
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() || ""
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue
+        try {
+          const event = JSON.parse(line.slice(5))
+          if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+            yield event.delta.text as string
+          }
+        } catch {
+          // Ignore keep-alive and partial lines
+        }
+      }
+    }
+  }
+}
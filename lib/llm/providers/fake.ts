@@ -0,0 +1,67 @@
+import type { CompletionRequest, CompletionResult, ImageRequest, ImageResult, LLMProvider } from "../types"
+
+type FakeResponder = (request: CompletionRequest) => string
+
+// Small stable hash so identical prompts always produce identical output
+function hashString(value: string): string {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+function defaultResponder(request: CompletionRequest): string {
+  const hash = hashString(JSON.stringify(request.messages))
+  const text = `Fake response ${hash}`
+  return request.responseFormat === "json" ? JSON.stringify({ text }) : text
+}
+
+// Deterministic offline provider for tests and local development (LLM_PROVIDER=fake)
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake" as const
+  readonly calls: CompletionRequest[] = []
+  private queue: string[] = []
+
+  constructor(private responder: FakeResponder = defaultResponder) {}
+
+  // Queued responses are returned first, in order, before falling back to the responder
+  enqueue(...responses: string[]): this {
+    this.queue.push(...responses)
+    return this
+  }
+
+  setResponder(responder: FakeResponder): this {
+    this.responder = responder
+    return this
+  }
+
+  reset(): void {
+    this.calls.length = 0
+    this.queue = []
+    this.responder = defaultResponder
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.calls.push(request)
+    const content = this.queue.length > 0 ? this.queue.shift()! : this.responder(request)
+    return { content, model: request.model, provider: this.name }
+  }
+
+  // Replays the same deterministic content in small chunks
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const { content } = await this.complete(request)
+    for (let i = 0; i < content.length; i += 16) {
+      if (request.signal?.aborted) return
+      yield content.slice(i, i + 16)
+    }
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    return {
+      url: `/placeholder.jpg?fake=${hashString(request.prompt)}`,
+      model: request.model,
+      provider: this.name,
+    }
+  }
+}
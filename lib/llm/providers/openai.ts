@@ -0,0 +1,119 @@
+import OpenAI, { AzureOpenAI } from "openai"
+import { LLMProviderError, type CompletionRequest, type CompletionResult, type ImageRequest, type ImageResult, type LLMProvider } from "../types"
+
+type OpenAIProviderName = "openai" | "azure" | "openai-compatible"
+
+// Covers OpenAI, Azure OpenAI and OpenAI-compatible local servers (Ollama, llama.cpp, vLLM)
+export class OpenAIProvider implements LLMProvider {
+  readonly name: OpenAIProviderName
+  private client: OpenAI
+
+  constructor(name: OpenAIProviderName, client: OpenAI) {
+    this.name = name
+    this.client = client
+  }
+
+  static fromEnv(name: OpenAIProviderName): OpenAIProvider {
+    if (name === "azure") {
+      return new OpenAIProvider(
+        name,
+        new AzureOpenAI({
+          apiKey: process.env.AZURE_OPENAI_API_KEY,
+          endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+          apiVersion: process.env.OPENAI_API_VERSION || "2024-10-21",
+        }),
+      )
+    }
+
+    if (name === "openai-compatible") {
+      return new OpenAIProvider(
+        name,
+        new OpenAI({
+          // Local servers usually ignore the key, but the SDK requires one
+          apiKey: process.env.LLM_API_KEY || "not-needed",
+          baseURL: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        }),
+      )
+    }
+
+    return new OpenAIProvider(name, new OpenAI({ apiKey: process.env.OPENAI_API_KEY }))
+  }
+
+  static isConfigured(name: OpenAIProviderName): boolean {
+    if (name === "azure") return !!(process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT)
+    if (name === "openai-compatible") return !!process.env.LLM_BASE_URL
+    return !!process.env.OPENAI_API_KEY
+  }
+
+  private buildParams(request: CompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+      ...(request.responseFormat === "json" ? { response_format: { type: "json_object" as const } } : {}),
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const response = await this.client.chat.completions.create(this.buildParams(request), { signal: request.signal })
+
+      return {
+        content: response.choices[0]?.message?.content?.trim() || "",
+        model: response.model || request.model,
+        provider: this.name,
+      }
+    } catch (error) {
+      throw toProviderError(error, this.name)
+    }
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        { ...this.buildParams(request), stream: true },
+        { signal: request.signal },
+      )
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content
+        if (delta) yield delta
+      }
+    } catch (error) {
+      throw toProviderError(error, this.name)
+    }
+  }
+
+  async generateImage(request: ImageRequest): Promise<ImageResult> {
+    try {
+      const response = await this.client.images.generate({
+        model: request.model,
+        prompt: request.prompt,
+        size: request.size as OpenAI.ImageGenerateParams["size"],
+        n: 1,
+      })
+
+      const url = response.data?.[0]?.url
+      if (!url) {
+        throw new LLMProviderError("No image URL returned", this.name)
+      }
+
+      return { url, model: request.model, provider: this.name }
+    } catch (error) {
+      throw toProviderError(error, this.name)
+    }
+  }
+}
+
+function toProviderError(error: unknown, provider: OpenAIProviderName): Error {
+  if (error instanceof LLMProviderError) return error
+  // Let cancellations propagate untouched
+  if (error instanceof OpenAI.APIUserAbortError) return error
+  if (error instanceof OpenAI.APIError) {
+    return new LLMProviderError(error.message, provider, error.status)
+  }
+  return new LLMProviderError(error instanceof Error ? error.message : String(error), provider)
+}
@@ -0,0 +1,63 @@
+import { z } from "zod"
+
+// Response contracts for every generation route
+
+export const CommentResponseSchema = z.object({
+  tone: z.string().trim().min(1),
+  comment: z.string().trim().min(5, "Comment is too short or empty"),
+})
+
+export const ConnectionMessageResponseSchema = z.object({
+  tone: z.string().trim().min(1),
+  message: z.string().trim().min(1),
+})
+
+export const TwitterCommentsResponseSchema = z.object({
+  detectedTone: z.string().trim().nullish(),
+  comments: z.array(z.string().trim().min(1)).min(1, "At least one comment is required"),
+})
+
+export const GeneratedPostSchema = z.object({
+  content: z.string().trim().min(1),
+  hashtags: z.array(z.string().trim().min(1)).default([]),
+})
+
+export const GeneratedPostsResponseSchema = z.object({
+  posts: z.array(GeneratedPostSchema).min(1, "At least one post is required"),
+})
+
+// X threads: body posts in order plus a closing call-to-action post
+export const GeneratedThreadResponseSchema = z.object({
+  posts: z.array(z.string().trim().min(1)).min(1, "At least one post is required"),
+  cta: z.string().trim().min(1, "A closing post is required"),
+})
+
+export const GeneratedThreadPostSchema = z.object({
+  post: z.string().trim().min(1),
+})
+
+// Composer variants, one schema per platform
+export const ComposedXPostSchema = z.object({
+  posts: z.array(z.string().trim().min(1)).min(1, "At least one post is required"),
+  hashtags: z.array(z.string().trim().min(1)).default([]),
+})
+
+export const ComposedLinkedInPostSchema = z.object({
+  hook: z.string().trim().min(1, "A hook is required"),
+  body: z.string().trim().min(1),
+  hashtags: z.array(z.string().trim().min(1)).default([]),
+})
+
+export const ComposedInstagramCaptionSchema = z.object({
+  caption: z.string().trim().min(1),
+  hashtags: z.array(z.string().trim().min(1)).default([]),
+})
+
+export type CommentResponse = z.infer<typeof CommentResponseSchema>
+export type ConnectionMessageResponse = z.infer<typeof ConnectionMessageResponseSchema>
+export type TwitterCommentsResponse = z.infer<typeof TwitterCommentsResponseSchema>
+export type GeneratedPostsResponse = z.infer<typeof GeneratedPostsResponseSchema>
+export type GeneratedThreadResponse = z.infer<typeof GeneratedThreadResponseSchema>
+export type ComposedXPost = z.infer<typeof ComposedXPostSchema>
+export type ComposedLinkedInPost = z.infer<typeof ComposedLinkedInPostSchema>
+export type ComposedInstagramCaption = z.infer<typeof ComposedInstagramCaptionSchema>
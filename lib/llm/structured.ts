@@ -0,0 +1,161 @@
+import type { z } from "zod"
+import type { CompletionOptions } from "./index"
+import type { LLMRoute } from "./config"
+import { JsonFieldStream, type JsonPath } from "./json-stream"
+import type { LLMProviderName } from "./types"
+
+export interface StructuredResult<T> {
+  data: T | null // null when the output was still invalid after the repair attempt
+  raw: string
+  provider: LLMProviderName
+  model: string
+  repaired: boolean
+  validationErrors: string[]
+}
+
+// Metadata shared by every generation route response
+export type GenerationMetadata = {
+  provider: LLMProviderName | null
+  model: string | null
+  // True whenever the returned content is not schema-validated model output
+  parsingFallback: boolean
+  repaired: boolean
+  validationErrors?: string[]
+}
+
+// Every generation route responds with its payload plus this metadata block; build it with generationEnvelope
+export type GenerationEnvelope<TPayload, TMeta = {}> = TPayload & { metadata: GenerationMetadata & TMeta }
+
+interface StructuredGateway {
+  complete(route: LLMRoute, options: CompletionOptions): Promise<{ content: string; provider: LLMProviderName; model: string }>
+  stream(route: LLMRoute, options: CompletionOptions): { provider: LLMProviderName; model: string; chunks: AsyncIterable<string> }
+}
+
+export interface StructuredStreamOptions {
+  // Called with each string field as soon as the model finishes writing it
+  onField: (path: JsonPath, value: string) => void
+}
+
+// Pull the JSON object out of a response, tolerating markdown code fences and surrounding prose
+function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const candidate = fenced ? fenced[1] : content
+  const objectMatch = candidate.match(/\{[\s\S]*\}/)
+  return JSON.parse(objectMatch ? objectMatch[0] : candidate)
+}
+
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, content: string): { data: T | null; errors: string[] } {
+  let json: unknown
+  try {
+    json = extractJson(content)
+  } catch (error) {
+    return { data: null, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`] }
+  }
+
+  const result = schema.safeParse(json)
+  if (result.success) {
+    return { data: result.data, errors: [] }
+  }
+
+  return {
+    data: null,
+    errors: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+  }
+}
+
+// Runs a JSON completion, validates it against the schema and retries once with the validation errors
+// When streamOptions is given, the first attempt is streamed and fields are reported as they complete
+export async function completeStructured<T>(
+  gateway: StructuredGateway,
+  route: LLMRoute,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: CompletionOptions,
+  streamOptions?: StructuredStreamOptions,
+): Promise<StructuredResult<T>> {
+  const request: CompletionOptions = { ...options, responseFormat: "json" }
+  const first = streamOptions ? await collectStream(gateway, route, request, streamOptions) : await gateway.complete(route, request)
+  const firstResult = validate(schema, first.content)
+
+  if (firstResult.data) {
+    return { data: firstResult.data, raw: first.content, provider: first.provider, model: first.model, repaired: false, validationErrors: [] }
+  }
+
+  console.warn(`⚠️ ${route} returned invalid output, attempting repair:`, firstResult.errors)
+
+  const repair = await gateway.complete(route, {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: "assistant", content: first.content },
+      {
+        role: "user",
+        content: `Your previous response did not match the required JSON format:
+${firstResult.errors.map((error) => `- ${error}`).join("\n")}
+
+Return only the corrected JSON object in the exact structure requested.`,
+      },
+    ],
+  })
+  const repairResult = validate(schema, repair.content)
+
+  if (!repairResult.data) {
+    console.error(`❌ ${route} output still invalid after repair:`, repairResult.errors)
+  }
+
+  return {
+    data: repairResult.data,
+    raw: repair.content,
+    provider: repair.provider,
+    model: repair.model,
+    repaired: !!repairResult.data,
+    validationErrors: repairResult.errors,
+  }
+}
+
+async function collectStream(
+  gateway: StructuredGateway,
+  route: LLMRoute,
+  request: CompletionOptions,
+  streamOptions: StructuredStreamOptions,
+): Promise<{ content: string; provider: LLMProviderName; model: string }> {
+  const { provider, model, chunks } = gateway.stream(route, request)
+  const parser = new JsonFieldStream(streamOptions.onField)
+  let content = ""
+
+  for await (const chunk of chunks) {
+    content += chunk
+    parser.push(chunk)
+  }
+
+  return { content: content.trim(), provider, model }
+}
+
+// Builds the shared metadata block; pass no result when the model call itself failed
+export function generationMetadata(result?: StructuredResult<unknown>): GenerationMetadata {
+  if (!result) {
+    return { provider: null, model: null, parsingFallback: true, repaired: false }
+  }
+
+  return {
+    provider: result.provider,
+    model: result.model,
+    parsingFallback: !result.data,
+    repaired: result.repaired,
+    ...(result.validationErrors.length > 0 ? { validationErrors: result.validationErrors } : {}),
+  }
+}
+
+// Wraps a route's payload in the shared envelope; meta carries the route-specific metadata fields
+export function generationEnvelope<TPayload extends object, TMeta extends object = {}>(
+  payload: TPayload,
+  result: StructuredResult<unknown> | undefined,
+  meta: TMeta,
+): GenerationEnvelope<TPayload, TMeta> {
+  return { ...payload, metadata: { ...generationMetadata(result), ...meta } }
+}
+
+// Body for output that was still invalid after the repair retry; every generation route sends it with status 502
+// and neither returns nor records any text
+export function invalidOutputBody(result: StructuredResult<unknown>, error: string): { error: string; metadata: GenerationMetadata } {
+  return { error, metadata: generationMetadata(result) }
+}
@@ -0,0 +1,59 @@
+// Shared types for the LLM gateway
+
+export type LLMProviderName = "openai" | "azure" | "anthropic" | "openai-compatible" | "fake"
+
+// "fast" covers everyday generation, "smart" complex or premium requests, "image" image generation
+export type ModelTier = "fast" | "smart" | "image"
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface CompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  responseFormat?: "text" | "json"
+  signal?: AbortSignal
+}
+
+export interface CompletionResult {
+  content: string
+  model: string
+  provider: LLMProviderName
+}
+
+export interface ImageRequest {
+  model: string
+  prompt: string
+  size: string
+}
+
+export interface ImageResult {
+  url: string
+  model: string
+  provider: LLMProviderName
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  // Yields content deltas as they arrive
+  stream?(request: CompletionRequest): AsyncIterable<string>
+  generateImage?(request: ImageRequest): Promise<ImageResult>
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderName,
+    public status?: number,
+  ) {
+    super(message)
+    this.name = "LLMProviderError"
+  }
+}
@@ -0,0 +1,38 @@
+import nodemailer, { type Transporter } from "nodemailer"
+
+// Shared SMTP transport, configured with SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS
+// Port 465 uses implicit TLS; other ports upgrade with STARTTLS when the server offers it
+
+let transporter: Transporter | null = null
+
+export function isMailConfigured(): boolean {
+  return !!process.env.SMTP_HOST
+}
+
+function getTransporter(): Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP is not configured (set SMTP_HOST)")
+  }
+
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT) || 587
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    })
+  }
+  return transporter
+}
+
+export interface MailMessage {
+  from?: string // Defaults to SMTP_USER
+  to: string
+  subject: string
+  text: string
+}
+
+export async function sendMail({ from, to, subject, text }: MailMessage): Promise<void> {
+  await getTransporter().sendMail({ from: from || process.env.SMTP_USER, to, subject, text })
+}
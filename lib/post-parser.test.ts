@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { parsePost, PostParseError } from "./post-parser"
+
+// Addresses are IP literals so no DNS lookup happens; fetch is stubbed
+
+const PAGE = `<html><head><meta property="og:title" content="A post"><meta property="og:description" content="Body"></head></html>`
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("parsePost", () => {
+  it("refuses internal hosts without fetching them", async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal("fetch", fetchMock)
+
+    const urls = [
+      "http://localhost:3000/admin",
+      "http://127.0.0.1/",
+      "http://10.0.0.5/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::1]/",
+      "http://redis:6379/",
+      "file:///etc/passwd",
+    ]
+    for (const url of urls) {
+      await expect(parsePost(url)).rejects.toMatchObject({ code: "blocked-url" })
+    }
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it("refuses a redirect to an internal host", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.startsWith("https://93.184.216.34/")
+        ? new Response(null, { status: 302, headers: { location: "http://169.254.169.254/latest/meta-data/" } })
+        : new Response(PAGE),
+    )
+    vi.stubGlobal("fetch", fetchMock)
+
+    const error = await parsePost("https://93.184.216.34/post").catch((error) => error)
+    expect(error).toBeInstanceOf(PostParseError)
+    expect(error.code).toBe("blocked-url")
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("follows redirects between public hosts", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url === "https://93.184.216.34/short"
+          ? new Response(null, { status: 301, headers: { location: "/post" } })
+          : new Response(PAGE),
+      ),
+    )
+
+    const { postContent } = await parsePost("https://93.184.216.34/short")
+    expect(postContent).toMatchObject({ title: "A post", description: "Body" })
+  })
+})
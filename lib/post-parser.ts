@@ -0,0 +1,200 @@
+import * as cheerio from "cheerio"
+import { resolvesToPublicHost } from "@/lib/public-url"
+
+// Open Graph based post parsing, shared by /api/parse-post and batch generation
+
+export interface ScrapedContent {
+  title: string | null
+  description: string | null
+  image: string | null
+  type: string | null
+  url: string
+  fallbackContent?: string | null
+}
+
+export interface ParsedPost {
+  postContent: ScrapedContent | null
+  usedFallback: boolean
+  message?: string
+}
+
+// blocked-url: loopback, private or otherwise internal hosts, which the server must never fetch for a user
+export type PostParseErrorCode = "invalid-url" | "blocked-url" | "unreachable" | "http-error"
+
+export class PostParseError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: PostParseErrorCode,
+  ) {
+    super(message)
+    this.name = "PostParseError"
+  }
+}
+
+function extractFallbackText($: cheerio.CheerioAPI): string | null {
+  // Remove script and style elements
+  $("script, style, nav, header, footer, aside, .advertisement, .ads, .sidebar").remove()
+
+  // Try to find meaningful content in order of preference
+  const contentSelectors = [
+    'meta[name="description"]',
+    "article p:first-of-type",
+    "main p:first-of-type",
+    ".post-content p:first-of-type",
+    ".content p:first-of-type",
+    ".entry-content p:first-of-type",
+    "p:first-of-type",
+    "article",
+    "main",
+    ".post-content",
+    ".content",
+    ".entry-content",
+  ]
+
+  for (const selector of contentSelectors) {
+    let text = ""
+
+    if (selector.includes("meta")) {
+      text = $(selector).attr("content") || ""
+    } else {
+      text = $(selector).text().trim()
+    }
+
+    if (text && text.length > 50 && text.length < 1000) {
+      // Clean up the text
+      return text.replace(/\s+/g, " ").replace(/\n+/g, " ").trim().substring(0, 500) // Limit to 500 characters
+    }
+  }
+
+  // Last resort: get first meaningful paragraph
+  const paragraphs = $("p").toArray()
+  for (const p of paragraphs) {
+    const text = $(p).text().trim()
+    if (text.length > 50 && text.length < 1000) {
+      return text.replace(/\s+/g, " ").replace(/\n+/g, " ").trim().substring(0, 500)
+    }
+  }
+
+  return null
+}
+
+const MAX_REDIRECTS = 5
+
+function isDnsError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code
+  return code === "ENOTFOUND" || code === "EAI_AGAIN"
+}
+
+// Fetches the page, following redirects by hand so every hop is checked against internal hosts
+async function fetchPublicPage(url: URL, signal: AbortSignal): Promise<Response> {
+  for (let redirects = 0; ; redirects++) {
+    if (!["http:", "https:"].includes(url.protocol) || !(await resolvesToPublicHost(url))) {
+      throw new PostParseError("This URL points to a private or internal address", 400, "blocked-url")
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+        "Accept-Language": "en-US,en;q=0.5",
+        "Accept-Encoding": "gzip, deflate",
+        Connection: "keep-alive",
+        "Upgrade-Insecure-Requests": "1",
+      },
+      redirect: "manual",
+      signal,
+    })
+
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || !location) return response
+    if (redirects >= MAX_REDIRECTS) {
+      throw new PostParseError("The URL redirected too many times", 400, "unreachable")
+    }
+    url = new URL(location, url)
+  }
+}
+
+export async function parsePost(url: string, signal?: AbortSignal): Promise<ParsedPost> {
+  // Validate URL format
+  let validUrl: URL
+  try {
+    validUrl = new URL(url)
+  } catch {
+    throw new PostParseError("Invalid URL format", 400, "invalid-url")
+  }
+
+  // Add timeout to prevent hanging requests
+  const timeoutSignal = AbortSignal.timeout(10000) // 10 second timeout
+
+  let response: Response
+  try {
+    response = await fetchPublicPage(validUrl, signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal)
+  } catch (error) {
+    if (signal?.aborted || error instanceof PostParseError) throw error
+
+    // Handle network errors, including names that don't resolve
+    if ((error instanceof TypeError && error.message.includes("fetch")) || isDnsError(error)) {
+      throw new PostParseError(
+        "Unable to access the URL. It might be blocked or require authentication.",
+        400,
+        "unreachable",
+      )
+    }
+    throw error
+  }
+
+  if (!response.ok) {
+    throw new PostParseError(`Failed to fetch URL: ${response.status}`, 400, "http-error")
+  }
+
+  const html = await response.text()
+
+  // Parse HTML with cheerio
+  const $ = cheerio.load(html)
+
+  // Extract Open Graph data
+  const ogTitle =
+    $('meta[property="og:title"]').attr("content") ||
+    $('meta[name="og:title"]').attr("content") ||
+    $("title").text().trim()
+
+  const ogDescription =
+    $('meta[property="og:description"]').attr("content") ||
+    $('meta[name="og:description"]').attr("content") ||
+    $('meta[name="description"]').attr("content")
+
+  const ogImage = $('meta[property="og:image"]').attr("content") || $('meta[name="og:image"]').attr("content")
+
+  const ogType = $('meta[property="og:type"]').attr("content") || $('meta[name="og:type"]').attr("content")
+
+  // If Open Graph data is insufficient, try fallback text scraping
+  let fallbackContent: string | null = null
+  const hasMinimalOGData = ogTitle || ogDescription
+
+  if (!hasMinimalOGData) {
+    fallbackContent = extractFallbackText($)
+  }
+
+  // Return null if no meaningful content found at all
+  if (!ogTitle && !ogDescription && !fallbackContent) {
+    return {
+      postContent: null,
+      usedFallback: false,
+      message: "No content could be extracted from this URL",
+    }
+  }
+
+  return {
+    postContent: {
+      title: ogTitle || null,
+      description: ogDescription || null,
+      image: ogImage || null,
+      type: ogType || null,
+      url: validUrl.toString(),
+      fallbackContent: fallbackContent || null,
+    },
+    usedFallback: !hasMinimalOGData && !!fallbackContent,
+  }
+}
@@ -0,0 +1,73 @@
+import { promises as dns } from "dns"
+import { isIP } from "net"
+
+// Guards for URLs the server fetches on a user's behalf (webhooks, posts to parse), so they can't reach loopback,
+// private networks or cloud metadata endpoints
+
+// Names that only resolve inside a network
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".lan", ".home.arpa"]
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // Multicast and reserved
+  )
+}
+
+// Loopback, private, link-local and unspecified addresses, including IPv4 mapped into IPv6
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return isPrivateIPv4(address)
+  if (version !== 6) return false
+
+  const normalized = address.toLowerCase()
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  // URL parsing rewrites mapped addresses to hex, e.g. ::ffff:7f00:1
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16))
+    return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255].join("."))
+  }
+
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // Unique local
+    /^fe[89ab]/.test(normalized) // Link-local
+  )
+}
+
+function hostnameOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[|\]$/g, "")
+}
+
+// True for hosts that are internal by name or address, without resolving DNS
+export function isInternalHost(url: URL): boolean {
+  const hostname = hostnameOf(url)
+  return (
+    hostname === "localhost" ||
+    (!hostname.includes(".") && !isIP(hostname)) || // Single-label names like "redis"
+    INTERNAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix)) ||
+    isPrivateAddress(hostname)
+  )
+}
+
+// Also resolves the name, so a public name pointed at an internal address is refused too. Check right before each
+// request, redirects included.
+export async function resolvesToPublicHost(url: URL): Promise<boolean> {
+  if (isInternalHost(url)) return false
+
+  const hostname = hostnameOf(url)
+  if (isIP(hostname)) return true
+
+  const addresses = await dns.lookup(hostname, { all: true })
+  return !addresses.some(({ address }) => isPrivateAddress(address))
+}
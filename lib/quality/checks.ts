@@ -0,0 +1,146 @@
+import { weightedLength } from "@/lib/twitter/text"
+import { findBannedPhrases } from "@/lib/voice-profiles/compile"
+import type { EmojiPolicy } from "@/lib/voice-profiles/types"
+import type { QualityContext, QualityIssue, QualityKind } from "./types"
+
+// Platform character limits; LinkedIn invitations allow 300 characters with a note
+const LENGTH_LIMITS: Record<string, Partial<Record<QualityKind, number>> & { default: number }> = {
+  twitter: { default: 280 },
+  linkedin: { default: 1250, "connection-message": 300, post: 3000 },
+  instagram: { default: 2200 },
+  facebook: { default: 8000 },
+}
+
+const HASHTAG_LIMITS: Record<QualityKind, number> = {
+  comment: 2,
+  reply: 2,
+  post: 5,
+  "connection-message": 0,
+}
+
+const EMOJI_LIMITS: Record<QualityKind, number> = {
+  comment: 2,
+  reply: 3,
+  post: 4,
+  "connection-message": 1,
+}
+
+const VOICE_EMOJI_LIMITS: Record<EmojiPolicy, number | null> = {
+  none: 0,
+  sparing: 1,
+  expressive: null, // Falls back to the kind default
+}
+
+// Phrases the prompts already ask the model to avoid; QUALITY_BANNED_PHRASES adds more (comma separated)
+export const DEFAULT_BANNED_PHRASES = [
+  "Great post",
+  "Thanks for sharing",
+  "I'd love to connect",
+  "expand my network",
+  "In today's fast-paced world",
+  "As an AI",
+]
+
+// Similarity at or above this counts as a near-duplicate
+const DUPLICATE_THRESHOLD = 0.6
+
+export function normalizePlatform(platform: string): string {
+  const value = platform.toLowerCase()
+  if (value.includes("twitter") || value === "x") return "twitter"
+  return value
+}
+
+export function lengthLimitFor(context: QualityContext): number {
+  if (context.maxLength) return context.maxLength
+  const limits = LENGTH_LIMITS[normalizePlatform(context.platform)] || LENGTH_LIMITS.linkedin
+  return limits[context.kind] ?? limits.default
+}
+
+export function emojiLimitFor(context: QualityContext): number {
+  if (context.maxEmojis !== undefined) return context.maxEmojis
+  if (context.useEmoji === false) return 0
+
+  const voiceLimit = context.voiceProfile ? VOICE_EMOJI_LIMITS[context.voiceProfile.emojiPolicy] : null
+  return voiceLimit ?? EMOJI_LIMITS[context.kind]
+}
+
+export function bannedPhrasesFor(context: QualityContext): string[] {
+  const configured = (process.env.QUALITY_BANNED_PHRASES || "")
+    .split(",")
+    .map((phrase) => phrase.trim())
+    .filter(Boolean)
+
+  return Array.from(new Set([...DEFAULT_BANNED_PHRASES, ...configured, ...(context.voiceProfile?.bannedPhrases || [])]))
+}
+
+export function countCharacters(text: string): number {
+  return Array.from(text).length
+}
+
+export function countHashtags(text: string): number {
+  return (text.match(/(^|\s)#[\p{L}\p{N}_]+/gu) || []).length
+}
+
+export function countEmojis(text: string): number {
+  return (text.match(/\p{Extended_Pictographic}/gu) || []).length
+}
+
+function wordBigrams(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+
+  if (words.length < 2) return new Set(words)
+  return new Set(words.slice(1).map((word, index) => `${words[index]} ${word}`))
+}
+
+// Jaccard similarity over word bigrams: 1 for identical wording, 0 for nothing in common
+export function similarity(a: string, b: string): number {
+  const first = wordBigrams(a)
+  const second = wordBigrams(b)
+  if (first.size === 0 || second.size === 0) return 0
+
+  let shared = 0
+  first.forEach((bigram) => {
+    if (second.has(bigram)) shared++
+  })
+
+  return shared / (first.size + second.size - shared)
+}
+
+// X counts URLs, emoji and CJK text by weight rather than by character
+export function checkLength(text: string, context: QualityContext): QualityIssue | null {
+  const limit = lengthLimitFor(context)
+  const length = normalizePlatform(context.platform) === "twitter" ? weightedLength(text) : countCharacters(text)
+  return length > limit
+    ? { check: "length", message: `${length} characters is over the ${limit} character limit` }
+    : null
+}
+
+export function checkBannedPhrases(text: string, context: QualityContext): QualityIssue | null {
+  const found = findBannedPhrases(text, bannedPhrasesFor(context))
+  return found.length > 0
+    ? { check: "banned-phrase", message: `Uses banned phrasing: ${found.map((phrase) => `"${phrase}"`).join(", ")}` }
+    : null
+}
+
+export function checkDuplicates(text: string, others: string[]): QualityIssue | null {
+  const match = others.find((other) => similarity(text, other) >= DUPLICATE_THRESHOLD)
+  return match
+    ? { check: "duplicate", message: `Too similar to an earlier text: "${match.substring(0, 80)}${match.length > 80 ? "..." : ""}"` }
+    : null
+}
+
+export function checkHashtags(text: string, context: QualityContext): QualityIssue | null {
+  const limit = context.maxHashtags ?? HASHTAG_LIMITS[context.kind]
+  const count = countHashtags(text)
+  return count > limit ? { check: "hashtags", message: `${count} hashtags (at most ${limit} allowed)` } : null
+}
+
+export function checkEmojis(text: string, context: QualityContext): QualityIssue | null {
+  const limit = emojiLimitFor(context)
+  const count = countEmojis(text)
+  return count > limit ? { check: "emojis", message: `${count} emojis (at most ${limit} allowed)` } : null
+}
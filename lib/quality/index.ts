@@ -0,0 +1,117 @@
+import type { CompletionOptions } from "@/lib/llm"
+import { isAbortError } from "@/lib/sse"
+import { checkBannedPhrases, checkDuplicates, checkEmojis, checkHashtags, checkLength } from "./checks"
+import type { QualityCheckName, QualityContext, QualityIssue, QualityReport, TextQualityReport } from "./types"
+
+// Post-generation checks shared by every generation route
+// QUALITY_MAX_RETRIES sets how many times failing output is regenerated (default 2, 0 disables)
+
+const QUALITY_CHECKS: QualityCheckName[] = ["length", "banned-phrase", "duplicate", "hashtags", "emojis"]
+
+function maxRetriesFromEnv(): number {
+  const value = Number(process.env.QUALITY_MAX_RETRIES)
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : 2
+}
+
+export function checkText(text: string, context: QualityContext, others: string[] = []): QualityIssue[] {
+  return [
+    checkLength(text, context),
+    checkBannedPhrases(text, context),
+    checkDuplicates(text, [...(context.existing || []), ...others]),
+    checkHashtags(text, context),
+    checkEmojis(text, context),
+  ].filter((issue): issue is QualityIssue => issue !== null)
+}
+
+// Variations are also compared with the ones before them in the same response
+export function checkTexts(texts: string[], context: QualityContext): TextQualityReport[] {
+  return texts.map((text, index) => {
+    const issues = checkText(text, context, texts.slice(0, index))
+    return { index, passed: issues.length === 0, issues }
+  })
+}
+
+export function buildQualityReport(items: TextQualityReport[], attempts: number): QualityReport {
+  return {
+    passed: items.every((item) => item.passed),
+    attempts,
+    checks: QUALITY_CHECKS,
+    items,
+  }
+}
+
+// Told to the model when its previous output failed the checks
+function qualityFeedback(texts: string[], items: TextQualityReport[]): string {
+  const problems = items
+    .filter((item) => !item.passed)
+    .map((item) => `- "${texts[item.index]}": ${item.issues.map((issue) => issue.message).join("; ")}`)
+
+  return `Your previous response had these problems:\n${problems.join("\n")}\n\nWrite it again, fixing every problem listed. Keep the same JSON format.`
+}
+
+interface QualityGenerationOptions<T> {
+  options: CompletionOptions
+  generate: (options: CompletionOptions) => Promise<T>
+  // Texts to check; null when the result has nothing to check (e.g. schema validation failed)
+  texts: (result: T) => string[] | null
+  context: QualityContext
+  maxRetries?: number
+}
+
+// Runs a generation, checks its texts and regenerates with feedback until they pass or retries run out.
+// Keeps the attempt with the fewest failing texts; a failed retry falls back to the best earlier attempt.
+export async function generateWithQualityChecks<T>({
+  options,
+  generate,
+  texts,
+  context,
+  maxRetries = maxRetriesFromEnv(),
+}: QualityGenerationOptions<T>): Promise<{ result: T; quality: QualityReport | null }> {
+  let best: { result: T; quality: QualityReport; failures: number } | null = null
+  let messages = options.messages
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    let result: T
+    try {
+      result = await generate({ ...options, messages })
+    } catch (error) {
+      if (!best || options.signal?.aborted || isAbortError(error)) throw error
+      console.error(`❌ Quality retry ${attempt} failed, keeping the best earlier attempt:`, error)
+      break
+    }
+
+    const generated = texts(result)
+    if (!generated) {
+      // Nothing to check; prefer an earlier attempt that produced usable output
+      return best || { result, quality: null }
+    }
+
+    const items = checkTexts(generated, context)
+    const failures = items.filter((item) => !item.passed).length
+    const quality = buildQualityReport(items, attempt)
+
+    if (!best || failures < best.failures) {
+      best = { result, quality, failures }
+    }
+    best.quality.attempts = attempt
+
+    if (failures === 0) break
+
+    console.warn(`⚠️ Quality checks failed for ${failures} text(s) on attempt ${attempt}`)
+    messages = [...options.messages, { role: "user", content: qualityFeedback(generated, items) }]
+  }
+
+  return { result: best!.result, quality: best!.quality }
+}
+
+export {
+  bannedPhrasesFor,
+  countCharacters,
+  countEmojis,
+  countHashtags,
+  DEFAULT_BANNED_PHRASES,
+  emojiLimitFor,
+  lengthLimitFor,
+  similarity,
+} from "./checks"
+export * from "./types"
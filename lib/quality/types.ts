@@ -0,0 +1,37 @@
+import type { VoiceProfile } from "@/lib/voice-profiles/types"
+
+export type QualityKind = "comment" | "reply" | "post" | "connection-message"
+
+export type QualityCheckName = "length" | "banned-phrase" | "duplicate" | "hashtags" | "emojis"
+
+export interface QualityIssue {
+  check: QualityCheckName
+  message: string
+}
+
+// Everything the checks need to know about where a text will be posted
+export interface QualityContext {
+  platform: string
+  kind: QualityKind
+  existing?: string[] // Earlier generations the new text must not repeat
+  voiceProfile?: VoiceProfile | null
+  useEmoji?: boolean
+  // Overrides for the per-platform/kind defaults
+  maxLength?: number
+  maxHashtags?: number
+  maxEmojis?: number
+}
+
+export interface TextQualityReport {
+  index: number
+  passed: boolean
+  issues: QualityIssue[]
+}
+
+// Reported as metadata.quality by every generation route
+export interface QualityReport {
+  passed: boolean
+  attempts: number
+  checks: QualityCheckName[]
+  items: TextQualityReport[]
+}
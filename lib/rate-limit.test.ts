@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server"
+import { beforeEach, describe, expect, it } from "vitest"
+import rateLimiter, { MemoryRateLimitStore, withRateLimit } from "./rate-limit"
+
+// Times are passed explicitly, so refills are checked without waiting
+
+const T0 = 1_700_000_000_000
+
+describe("MemoryRateLimitStore sliding window", () => {
+  it("allows up to the limit, then denies until the oldest request leaves the window", async () => {
+    const store = new MemoryRateLimitStore()
+
+    expect(await store.slidingWindow("k", 2, 1000, T0)).toMatchObject({ allowed: true, remaining: 1 })
+    expect(await store.slidingWindow("k", 2, 1000, T0 + 100)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(await store.slidingWindow("k", 2, 1000, T0 + 200)).toEqual({
+      allowed: false,
+      limit: 2,
+      remaining: 0,
+      resetMs: 900,
+      retryAfterMs: 800,
+    })
+
+    expect(await store.slidingWindow("k", 2, 1000, T0 + 1000)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(await store.slidingWindow("k", 2, 1000, T0 + 2100)).toMatchObject({ allowed: true, remaining: 1 })
+  })
+
+  it("keeps keys apart", async () => {
+    const store = new MemoryRateLimitStore()
+
+    expect((await store.slidingWindow("a", 1, 1000, T0)).allowed).toBe(true)
+    expect((await store.slidingWindow("a", 1, 1000, T0)).allowed).toBe(false)
+    expect((await store.slidingWindow("b", 1, 1000, T0)).allowed).toBe(true)
+  })
+})
+
+describe("MemoryRateLimitStore token bucket", () => {
+  it("allows a burst up to capacity, then denies until a token refills", async () => {
+    const store = new MemoryRateLimitStore()
+
+    for (const remaining of [2, 1, 0]) {
+      expect(await store.tokenBucket("k", 3, 0.5, T0)).toMatchObject({ allowed: true, remaining })
+    }
+    expect(await store.tokenBucket("k", 3, 0.5, T0)).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetMs: 6000,
+      retryAfterMs: 2000,
+    })
+
+    expect((await store.tokenBucket("k", 3, 0.5, T0 + 1000)).allowed).toBe(false)
+    expect(await store.tokenBucket("k", 3, 0.5, T0 + 2000)).toMatchObject({ allowed: true, remaining: 0 })
+  })
+
+  it("never refills past capacity", async () => {
+    const store = new MemoryRateLimitStore()
+    await store.tokenBucket("k", 3, 0.5, T0)
+
+    expect(await store.tokenBucket("k", 3, 0.5, T0 + 60_000)).toMatchObject({ allowed: true, remaining: 2 })
+  })
+})
+
+describe("withRateLimit", () => {
+  let store: MemoryRateLimitStore
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore()
+    rateLimiter.setStore(store)
+  })
+
+  // Without a session cookie requests are limited per IP
+  const request = () =>
+    new Request("http://localhost/api/generate-comments", { headers: { "x-forwarded-for": "203.0.113.7" } })
+  const handler = withRateLimit("generate-comments", async () => NextResponse.json({ ok: true }))
+
+  it("adds the RateLimit headers to allowed responses", async () => {
+    const response = await handler(request())
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("RateLimit-Limit")).toBe("1")
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0")
+    expect(response.headers.get("RateLimit-Reset")).toBe("3")
+    expect(response.headers.get("Retry-After")).toBeNull()
+  })
+
+  it("answers 429 with Retry-After once the limit is used up", async () => {
+    await handler(request())
+    const response = await handler(request())
+
+    expect(response.status).toBe(429)
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThanOrEqual(1)
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0")
+    expect(await response.json()).toMatchObject({ rateLimited: true, retryAfter: expect.any(Number) })
+  })
+})
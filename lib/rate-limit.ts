@@ -0,0 +1,368 @@
+import { NextResponse } from "next/server"
+import type { Redis } from "@upstash/redis"
+import redis from "@/lib/redis"
+import { getSessionUser } from "@/lib/auth/session"
+
+// Shared rate limiter for API routes
+// Backed by Upstash Redis when configured, otherwise by an in-memory store
+
+export type RateLimitPolicy =
+  | {
+      type: "sliding-window"
+      limit: number // Requests allowed per window
+      windowMs: number
+    }
+  | {
+      type: "token-bucket"
+      capacity: number // Maximum burst size
+      refillPerSecond: number
+    }
+
+export interface RateLimitRule {
+  policy: RateLimitPolicy
+  action: string // Used in the 429 message, e.g. "generating another comment"
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetMs: number // Time until the limit is fully replenished
+  retryAfterMs: number // Time until the next request would be allowed (0 when allowed)
+}
+
+export interface RateLimitStore {
+  slidingWindow(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult>
+  tokenBucket(key: string, capacity: number, refillPerSecond: number, now: number): Promise<RateLimitResult>
+}
+
+// Per-route policies
+export const RATE_LIMIT_RULES = {
+  "generate-comments": {
+    policy: { type: "sliding-window", limit: 1, windowMs: 3000 },
+    action: "generating another comment",
+  },
+  "generate-comments/batch": {
+    // A few batches (or single-item retries) in a row, then one every 10 seconds
+    policy: { type: "token-bucket", capacity: 5, refillPerSecond: 0.1 },
+    action: "starting another batch",
+  },
+  "generate-connection-message": {
+    policy: { type: "sliding-window", limit: 1, windowMs: 5000 },
+    action: "generating another message",
+  },
+  "twitter/generate-comments": {
+    policy: { type: "sliding-window", limit: 1, windowMs: 3000 },
+    action: "generating another comment",
+  },
+  "twitter/generate-posts": {
+    policy: { type: "sliding-window", limit: 1, windowMs: 3000 },
+    action: "generating another post",
+  },
+  "twitter/generate-image": {
+    policy: { type: "sliding-window", limit: 1, windowMs: 5000 },
+    action: "generating another image",
+  },
+  compose: {
+    // One request can generate up to three platform variants
+    policy: { type: "sliding-window", limit: 1, windowMs: 5000 },
+    action: "composing another post",
+  },
+  "twitter/get-trends": {
+    // Bursts allowed so the countries list and the first trends page can load together
+    policy: { type: "token-bucket", capacity: 3, refillPerSecond: 0.2 },
+    action: "fetching more trends",
+  },
+  "auth/magic-link": {
+    // Per IP; each request sends an email
+    policy: { type: "token-bucket", capacity: 5, refillPerSecond: 1 / 60 },
+    action: "requesting another sign-in link",
+  },
+  "auth/magic-link/email": {
+    // Per address, so nobody's inbox can be flooded from many IPs
+    policy: { type: "sliding-window", limit: 3, windowMs: 15 * 60 * 1000 },
+    action: "requesting another sign-in link",
+  },
+  "twitter/login-session": {
+    // Every flow holds a browser page for up to five minutes
+    policy: { type: "token-bucket", capacity: 3, refillPerSecond: 1 / 60 },
+    action: "starting another X login",
+  },
+} satisfies Record<string, RateLimitRule>
+
+export type RateLimitRoute = keyof typeof RATE_LIMIT_RULES
+
+// In-memory store (single instance only, used locally and in tests)
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number[]>()
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  async slidingWindow(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult> {
+    const timestamps = (this.windows.get(key) || []).filter((timestamp) => now - timestamp < windowMs)
+    const allowed = timestamps.length < limit
+
+    if (allowed) {
+      timestamps.push(now)
+    }
+    this.windows.set(key, timestamps)
+    this.cleanup(now)
+
+    const oldest = timestamps[0] ?? now
+    const resetMs = timestamps.length > 0 ? timestamps[timestamps.length - 1] + windowMs - now : 0
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - timestamps.length),
+      resetMs,
+      retryAfterMs: allowed ? 0 : oldest + windowMs - now,
+    }
+  }
+
+  async tokenBucket(key: string, capacity: number, refillPerSecond: number, now: number): Promise<RateLimitResult> {
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now }
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000
+    let tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond)
+
+    const allowed = tokens >= 1
+    if (allowed) {
+      tokens -= 1
+    }
+    this.buckets.set(key, { tokens, updatedAt: now })
+    this.cleanup(now)
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil(((capacity - tokens) / refillPerSecond) * 1000),
+      retryAfterMs: allowed ? 0 : Math.ceil(((1 - tokens) / refillPerSecond) * 1000),
+    }
+  }
+
+  reset(): void {
+    this.windows.clear()
+    this.buckets.clear()
+  }
+
+  // Drop entries untouched for over 10 minutes to prevent memory leaks
+  private cleanup(now: number): void {
+    for (const [key, timestamps] of this.windows.entries()) {
+      if (timestamps.length === 0 || now - timestamps[timestamps.length - 1] > 10 * 60 * 1000) {
+        this.windows.delete(key)
+      }
+    }
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (now - bucket.updatedAt > 10 * 60 * 1000) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+// Lua scripts keep each check atomic across serverless instances
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local member = ARGV[4]
+
+redis.call("ZREMRANGEBYSCORE", key, 0, now - window)
+local count = redis.call("ZCARD", key)
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", key, now, member)
+  count = count + 1
+  allowed = 1
+end
+redis.call("PEXPIRE", key, window)
+
+local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+local newest = redis.call("ZRANGE", key, -1, -1, "WITHSCORES")
+local oldestScore = now
+local newestScore = now
+if oldest[2] then oldestScore = tonumber(oldest[2]) end
+if newest[2] then newestScore = tonumber(newest[2]) end
+
+return { allowed, count, oldestScore, newestScore }
+`
+
+const TOKEN_BUCKET_SCRIPT = `
+local key = KEYS[1]
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+
+local bucket = redis.call("HMGET", key, "tokens", "updatedAt")
+local tokens = tonumber(bucket[1])
+local updatedAt = tonumber(bucket[2])
+if tokens == nil then
+  tokens = capacity
+  updatedAt = now
+end
+
+local elapsed = math.max(0, now - updatedAt) / 1000
+tokens = math.min(capacity, tokens + elapsed * rate)
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+redis.call("HSET", key, "tokens", tostring(tokens), "updatedAt", tostring(now))
+redis.call("PEXPIRE", key, math.ceil(capacity / rate * 1000))
+
+return { allowed, tostring(tokens) }
+`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private client: Redis,
+    private prefix = "altreach:ratelimit",
+  ) {}
+
+  async slidingWindow(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult> {
+    const member = `${now}-${Math.random().toString(36).slice(2, 10)}`
+    const [allowed, count, oldest, newest] = await this.client.eval<(string | number)[], number[]>(
+      SLIDING_WINDOW_SCRIPT,
+      [`${this.prefix}:sw:${key}`],
+      [limit, windowMs, now, member],
+    )
+
+    return {
+      allowed: allowed === 1,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetMs: count > 0 ? Math.max(0, newest + windowMs - now) : 0,
+      retryAfterMs: allowed === 1 ? 0 : Math.max(0, oldest + windowMs - now),
+    }
+  }
+
+  async tokenBucket(key: string, capacity: number, refillPerSecond: number, now: number): Promise<RateLimitResult> {
+    const [allowed, rawTokens] = await this.client.eval<number[], [number, string]>(
+      TOKEN_BUCKET_SCRIPT,
+      [`${this.prefix}:tb:${key}`],
+      [capacity, refillPerSecond, now],
+    )
+    const tokens = Number.parseFloat(rawTokens)
+
+    return {
+      allowed: allowed === 1,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil(((capacity - tokens) / refillPerSecond) * 1000),
+      retryAfterMs: allowed === 1 ? 0 : Math.ceil(((1 - tokens) / refillPerSecond) * 1000),
+    }
+  }
+}
+
+class RateLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  setStore(store: RateLimitStore): void {
+    this.store = store
+  }
+
+  async check(route: RateLimitRoute, clientId: string): Promise<RateLimitResult> {
+    const { policy } = RATE_LIMIT_RULES[route] as RateLimitRule
+    const key = `${route}:${clientId}`
+    const now = Date.now()
+
+    try {
+      if (policy.type === "token-bucket") {
+        return await this.store.tokenBucket(key, policy.capacity, policy.refillPerSecond, now)
+      }
+      return await this.store.slidingWindow(key, policy.limit, policy.windowMs, now)
+    } catch (error) {
+      console.error("❌ Error in rate limit check:", error)
+      // Allow on error so a Redis outage doesn't take the API down
+      const limit = policy.type === "token-bucket" ? policy.capacity : policy.limit
+      return { allowed: true, limit, remaining: limit, resetMs: 0, retryAfterMs: 0 }
+    }
+  }
+}
+
+// Helper function to get client identifier (IP address)
+export function getClientId(request: Request): string {
+  // Try to get real IP from various headers (for production with proxies)
+  const forwarded = request.headers.get("x-forwarded-for")
+  const realIp = request.headers.get("x-real-ip")
+  const cfConnectingIp = request.headers.get("cf-connecting-ip")
+
+  const clientIp = forwarded?.split(",")[0] || realIp || cfConnectingIp || "unknown"
+  return clientIp.trim()
+}
+
+// Standard RateLimit-* headers (IETF draft), values in seconds
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": result.limit.toString(),
+    "RateLimit-Remaining": result.remaining.toString(),
+    "RateLimit-Reset": Math.ceil(result.resetMs / 1000).toString(),
+  }
+
+  if (!result.allowed) {
+    headers["Retry-After"] = Math.ceil(result.retryAfterMs / 1000).toString()
+  }
+
+  return headers
+}
+
+export function rateLimitedResponse(route: RateLimitRoute, result: RateLimitResult): NextResponse {
+  const secondsRemaining = Math.max(1, Math.ceil(result.retryAfterMs / 1000))
+  const { action } = RATE_LIMIT_RULES[route]
+
+  return NextResponse.json(
+    {
+      error: `Please wait a moment before ${action}. Try again in ${secondsRemaining} second${secondsRemaining !== 1 ? "s" : ""}.`,
+      rateLimited: true,
+      retryAfter: secondsRemaining,
+    },
+    {
+      status: 429,
+      headers: { ...rateLimitHeaders(result), "Retry-After": secondsRemaining.toString() },
+    },
+  )
+}
+
+// Signed-in users are limited per account, so switching networks doesn't reset their limits
+async function getRateLimitKey(request: Request): Promise<string> {
+  const user = await getSessionUser(request)
+  return user ? `user:${user.id}` : getClientId(request)
+}
+
+// Wraps a route handler: rejects with 429 when limited, otherwise adds RateLimit-* headers to the response
+export function withRateLimit<TArgs extends unknown[]>(
+  route: RateLimitRoute,
+  handler: (request: Request, ...args: TArgs) => Promise<Response>,
+) {
+  return async (request: Request, ...args: TArgs): Promise<Response> => {
+    const result = await rateLimiter.check(route, await getRateLimitKey(request))
+
+    if (!result.allowed) {
+      return rateLimitedResponse(route, result)
+    }
+
+    const response = await handler(request, ...args)
+    for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+      response.headers.set(name, value)
+    }
+    return response
+  }
+}
+
+function createDefaultStore(): RateLimitStore {
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    return new RedisRateLimitStore(redis)
+  }
+
+  console.warn("⚠️ Upstash Redis not configured, using in-memory rate limiting")
+  return new MemoryRateLimitStore()
+}
+
+// Create singleton rate limiter
+const rateLimiter = new RateLimiter(createDefaultStore())
+
+export default rateLimiter
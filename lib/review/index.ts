@@ -0,0 +1,243 @@
+import path from "path"
+import type { User } from "@/lib/auth"
+import { displayName } from "@/lib/auth/session"
+import history, { type NewHistoryEntry } from "@/lib/history"
+import redis from "@/lib/redis"
+import { FileReviewStore } from "./stores/file"
+import { RedisReviewStore } from "./stores/redis"
+import {
+  REVIEW_STATUSES,
+  ReviewDecisionSchema,
+  type ReviewAction,
+  type ReviewAuditEvent,
+  type ReviewDecision,
+  type ReviewItem,
+  type ReviewQuery,
+  type ReviewRepository,
+  type ReviewRequest,
+  type ReviewStatus,
+  type ReviewSummary,
+} from "./types"
+
+// Review queue for generated content: leads approve, reject with a note or edit before anything is used
+// Every generation from the reviewed routes is queued; REVIEW_REQUIRED=false makes it opt-in with submitForReview
+// Reviewers are the accounts listed in REVIEWER_EMAILS (comma separated); nobody reviews their own content. Without
+// the list every signed-in user can review outside production, and nobody can in production.
+// REVIEW_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+
+export class ReviewItemNotFoundError extends Error {
+  constructor(public itemId: string) {
+    super(`Review item not found: ${itemId}`)
+    this.name = "ReviewItemNotFoundError"
+  }
+}
+
+// Decisions only apply to pending items; decided items have to be reopened first
+export class ReviewStateError extends Error {
+  constructor(
+    public itemId: string,
+    public status: ReviewStatus,
+  ) {
+    super(`Review item ${itemId} is ${status}`)
+    this.name = "ReviewStateError"
+  }
+}
+
+// Submitters can't approve, edit, reject or reopen their own content
+export class SelfReviewError extends Error {
+  constructor(public itemId: string) {
+    super(`Review item ${itemId} was submitted by the reviewer`)
+    this.name = "SelfReviewError"
+  }
+}
+
+const DECIDED_STATUSES: ReviewStatus[] = ["approved", "rejected"]
+
+export function isReviewRequired(request: ReviewRequest = {}): boolean {
+  return process.env.REVIEW_REQUIRED !== "false" || request.submitForReview === true
+}
+
+export function isReviewer(user: User): boolean {
+  const reviewers = (process.env.REVIEWER_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (reviewers.length === 0) return process.env.NODE_ENV !== "production"
+  return reviewers.includes(user.email)
+}
+
+class ReviewService {
+  constructor(private repository: ReviewRepository) {}
+
+  setRepository(repository: ReviewRepository): void {
+    this.repository = repository
+  }
+
+  // Pending items oldest first, so the queue is worked in order; decided items newest first
+  async list(query: ReviewQuery = {}): Promise<{ items: ReviewItem[]; counts: Record<ReviewStatus, number> }> {
+    const all = await this.repository.list()
+    const visible = query.submittedById ? all.filter((item) => item.submittedById === query.submittedById) : all
+    const counts = Object.fromEntries(
+      REVIEW_STATUSES.map((status) => [status, visible.filter((item) => item.status === status).length]),
+    ) as Record<ReviewStatus, number>
+
+    const items = visible
+      .filter((item) => (!query.status || item.status === query.status) && (!query.kind || item.kind === query.kind))
+      .sort((a, b) =>
+        a.status === "pending" && b.status === "pending"
+          ? a.createdAt.localeCompare(b.createdAt)
+          : b.updatedAt.localeCompare(a.updatedAt),
+      )
+
+    return { items: query.limit ? items.slice(0, query.limit) : items, counts }
+  }
+
+  get(id: string): Promise<ReviewItem | null> {
+    return this.repository.get(id)
+  }
+
+  async submit(
+    entry: NewHistoryEntry,
+    {
+      historyId = null,
+      submittedBy = null,
+      submittedById = null,
+    }: { historyId?: string | null; submittedBy?: string | null; submittedById?: string | null } = {},
+  ): Promise<ReviewItem> {
+    const now = new Date().toISOString()
+    const actor = submittedBy?.trim() || null
+    const item: ReviewItem = {
+      id: crypto.randomUUID(),
+      historyId,
+      kind: entry.kind,
+      platform: entry.platform,
+      route: entry.route,
+      source: { url: entry.input.url, content: entry.input.content },
+      tone: entry.outputTone,
+      originalOutputs: entry.outputs,
+      outputs: entry.outputs,
+      status: "pending",
+      submittedBy: actor,
+      submittedById,
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      audit: [auditEvent("submitted", actor, null, now)],
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.repository.save(item)
+    return item
+  }
+
+  // Throws a ZodError when the decision is invalid
+  async decide(id: string, input: ReviewDecision): Promise<ReviewItem> {
+    const decision = ReviewDecisionSchema.parse(input)
+    const existing = await this.repository.get(id)
+    if (!existing) {
+      throw new ReviewItemNotFoundError(id)
+    }
+
+    // Display names aren't unique, so they only identify the submitter on items queued before ids were recorded
+    const isSubmitter =
+      existing.submittedById !== null
+        ? decision.actorId === existing.submittedById
+        : decision.actor !== null && decision.actor === existing.submittedBy
+    if (isSubmitter) {
+      throw new SelfReviewError(id)
+    }
+
+    const isDecided = DECIDED_STATUSES.includes(existing.status)
+    if (decision.action === "reopen" ? !isDecided : isDecided) {
+      throw new ReviewStateError(id, existing.status)
+    }
+
+    const now = new Date().toISOString()
+    const note = decision.note || null
+    const audit = [...existing.audit]
+    let item: ReviewItem = { ...existing, updatedAt: now }
+
+    if ((decision.action === "edit" || decision.action === "approve") && decision.outputs) {
+      const changed = decision.outputs.join("\n") !== existing.outputs.join("\n")
+      if (changed) {
+        audit.push({
+          ...auditEvent("edited", decision.actor, decision.action === "edit" ? note : null, now),
+          before: existing.outputs,
+          after: decision.outputs,
+        })
+        item = { ...item, outputs: decision.outputs }
+      }
+    }
+
+    if (decision.action === "approve" || decision.action === "reject") {
+      audit.push(auditEvent(decision.action === "approve" ? "approved" : "rejected", decision.actor, note, now))
+      item = {
+        ...item,
+        status: decision.action === "approve" ? "approved" : "rejected",
+        reviewedBy: decision.actor,
+        reviewNote: note,
+        reviewedAt: now,
+      }
+    }
+
+    if (decision.action === "reopen") {
+      audit.push(auditEvent("reopened", decision.actor, note, now))
+      item = { ...item, status: "pending", reviewedBy: null, reviewNote: null, reviewedAt: null }
+    }
+
+    item = { ...item, audit }
+    await this.repository.save(item)
+    return item
+  }
+}
+
+function auditEvent(action: ReviewAction, actor: string | null, note: string | null, at: string): ReviewAuditEvent {
+  return { id: crypto.randomUUID(), action, actor, note, at }
+}
+
+function createDefaultRepository(): ReviewRepository {
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.REVIEW_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisReviewStore(redis)
+  }
+
+  const filePath = process.env.REVIEW_FILE_PATH || path.join(process.cwd(), ".data", "reviews.json")
+  console.warn(`⚠️ Using file-based review store at ${filePath}`)
+  return new FileReviewStore(filePath)
+}
+
+// Create singleton review service
+const reviews = new ReviewService(createDefaultRepository())
+
+export default reviews
+
+// Records a generation in the user's history and, when review applies, queues it for approval.
+// Never throws, like history.record: a queue outage is logged rather than failing the generation.
+export async function recordGeneration(
+  entry: NewHistoryEntry,
+  request: ReviewRequest,
+  user: User,
+): Promise<ReviewSummary | null> {
+  const stored = await history.record(user.id, entry)
+  if (!isReviewRequired(request)) return null
+
+  try {
+    const item = await reviews.submit(entry, {
+      historyId: stored?.id,
+      submittedBy: displayName(user),
+      submittedById: user.id,
+    })
+    return { id: item.id, status: item.status }
+  } catch (error) {
+    console.error("❌ Failed to queue generation for review:", error)
+    return null
+  }
+}
+
+export { FileReviewStore } from "./stores/file"
+export { RedisReviewStore } from "./stores/redis"
+export * from "./types"
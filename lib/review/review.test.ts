@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { User } from "@/lib/auth"
+import type { NewHistoryEntry } from "@/lib/history"
+import reviews, { isReviewer, isReviewRequired, SelfReviewError } from "./index"
+import type { ReviewItem, ReviewRepository } from "./types"
+
+class MemoryReviewStore implements ReviewRepository {
+  readonly name = "memory"
+  private items = new Map<string, ReviewItem>()
+
+  async list() {
+    return Array.from(this.items.values())
+  }
+  async get(id: string) {
+    return this.items.get(id) || null
+  }
+  async save(item: ReviewItem) {
+    this.items.set(item.id, item)
+  }
+}
+
+const entry: NewHistoryEntry = {
+  kind: "comment",
+  platform: "linkedin",
+  route: "/api/generate-comments",
+  request: {},
+  input: { url: null, content: "A post", tone: null, options: {} },
+  outputs: ["Great point"],
+  outputTone: "friendly",
+}
+
+function user(email: string): User {
+  const now = new Date().toISOString()
+  return {
+    id: email,
+    email,
+    name: null,
+    image: null,
+    signInMethods: ["email"],
+    createdAt: now,
+    updatedAt: now,
+    lastSignInAt: null,
+  }
+}
+
+beforeEach(() => {
+  reviews.setRepository(new MemoryReviewStore())
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("isReviewRequired", () => {
+  it("queues generations unless review is turned off", () => {
+    vi.stubEnv("REVIEW_REQUIRED", "")
+    expect(isReviewRequired()).toBe(true)
+
+    vi.stubEnv("REVIEW_REQUIRED", "false")
+    expect(isReviewRequired()).toBe(false)
+    expect(isReviewRequired({ submitForReview: true })).toBe(true)
+  })
+})
+
+describe("isReviewer", () => {
+  it("only lets listed accounts review", () => {
+    vi.stubEnv("REVIEWER_EMAILS", "lead@example.com, Editor@example.com")
+    expect(isReviewer(user("lead@example.com"))).toBe(true)
+    expect(isReviewer(user("editor@example.com"))).toBe(true)
+    expect(isReviewer(user("writer@example.com"))).toBe(false)
+  })
+
+  it("fails closed in production without a reviewer list", () => {
+    vi.stubEnv("REVIEWER_EMAILS", "")
+    vi.stubEnv("NODE_ENV", "production")
+    expect(isReviewer(user("lead@example.com"))).toBe(false)
+  })
+})
+
+describe("decide", () => {
+  it("refuses decisions from the submitter", async () => {
+    const item = await reviews.submit(entry, { submittedBy: "Writer", submittedById: "writer-id" })
+
+    await expect(
+      reviews.decide(item.id, { action: "approve", actor: "Someone else", actorId: "writer-id" }),
+    ).rejects.toBeInstanceOf(SelfReviewError)
+  })
+
+  it("identifies the submitter by name only on items queued without an id", async () => {
+    const legacy = await reviews.submit(entry, { submittedBy: "Writer" })
+    await expect(reviews.decide(legacy.id, { action: "approve", actor: "Writer" })).rejects.toBeInstanceOf(
+      SelfReviewError,
+    )
+
+    const item = await reviews.submit(entry, { submittedBy: "Writer", submittedById: "writer-id" })
+    const decided = await reviews.decide(item.id, { action: "approve", actor: "Writer", actorId: "other-writer-id" })
+    expect(decided.status).toBe("approved")
+  })
+
+  it("records decisions from another reviewer", async () => {
+    const item = await reviews.submit(entry, { submittedBy: "Writer", submittedById: "writer-id" })
+    const decided = await reviews.decide(item.id, { action: "approve", actor: "Lead", actorId: "lead-id" })
+
+    expect(decided.status).toBe("approved")
+    expect(decided.reviewedBy).toBe("Lead")
+  })
+})
+
+describe("list", () => {
+  it("narrows the queue and its counts to one submitter", async () => {
+    await reviews.submit(entry, { submittedBy: "Writer", submittedById: "writer-id" })
+    await reviews.submit(entry, { submittedBy: "Other", submittedById: "other-id" })
+
+    const { items, counts } = await reviews.list({ submittedById: "writer-id" })
+    expect(items.map((item) => item.submittedById)).toEqual(["writer-id"])
+    expect(counts.pending).toBe(1)
+  })
+})
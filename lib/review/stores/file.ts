@@ -0,0 +1,56 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { ReviewItem, ReviewRepository } from "../types"
+
+interface ReviewFileData {
+  items: Record<string, ReviewItem>
+}
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileReviewStore implements ReviewRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async list(): Promise<ReviewItem[]> {
+    const data = await this.read()
+    return Object.values(data.items)
+  }
+
+  async get(id: string): Promise<ReviewItem | null> {
+    const data = await this.read()
+    return data.items[id] || null
+  }
+
+  async save(item: ReviewItem): Promise<void> {
+    await this.update((data) => ({ ...data, items: { ...data.items, [item.id]: item } }))
+  }
+
+  private async read(): Promise<ReviewFileData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      return { items: data?.items || {} }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { items: {} }
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  private update(change: (data: ReviewFileData) => ReviewFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
@@ -0,0 +1,40 @@
+import type { Redis } from "@upstash/redis"
+import type { ReviewItem, ReviewRepository } from "../types"
+
+// Items, audit trail included, live in a single hash keyed by item id
+export class RedisReviewStore implements ReviewRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private key = "altreach:reviews:items",
+  ) {}
+
+  async list(): Promise<ReviewItem[]> {
+    const values = await this.client.hgetall<Record<string, unknown>>(this.key)
+    return Object.values(values || {})
+      .map((value) => this.deserialize(value))
+      .filter((item): item is ReviewItem => item !== null)
+  }
+
+  async get(id: string): Promise<ReviewItem | null> {
+    return this.deserialize(await this.client.hget(this.key, id))
+  }
+
+  async save(item: ReviewItem): Promise<void> {
+    await this.client.hset(this.key, { [item.id]: JSON.stringify(item) })
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize(value: unknown): ReviewItem | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as ReviewItem
+      } catch {
+        return null
+      }
+    }
+    return value as ReviewItem
+  }
+}
@@ -0,0 +1,108 @@
+import { z } from "zod"
+import type { HistoryKind, HistoryPlatform } from "@/lib/history/types"
+
+export const REVIEW_STATUSES = ["pending", "approved", "rejected"] as const
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number]
+
+export const REVIEW_ACTIONS = ["submitted", "edited", "approved", "rejected", "reopened"] as const
+export type ReviewAction = (typeof REVIEW_ACTIONS)[number]
+
+// What a generation request can ask for; queuing is on unless REVIEW_REQUIRED=false, when requests opt in
+export interface ReviewRequest {
+  submitForReview?: boolean
+}
+
+// Returned to the generator alongside the generated content
+export interface ReviewSummary {
+  id: string
+  status: ReviewStatus
+}
+
+export interface ReviewAuditEvent {
+  id: string
+  action: ReviewAction
+  actor: string | null
+  note: string | null
+  // Outputs before and after, on edits only
+  before?: string[]
+  after?: string[]
+  at: string
+}
+
+export interface ReviewItem {
+  id: string
+  historyId: string | null
+  kind: HistoryKind
+  platform: HistoryPlatform
+  route: string
+  // The post, profile or topic the content was generated from
+  source: {
+    url: string | null
+    content: string | null
+  }
+  tone: string | null
+  originalOutputs: string[]
+  outputs: string[] // Current wording, including reviewer edits
+  status: ReviewStatus
+  submittedBy: string | null
+  submittedById: string | null // Unset on items queued before submitters were recorded by id
+  reviewedBy: string | null
+  reviewNote: string | null
+  reviewedAt: string | null
+  audit: ReviewAuditEvent[] // Oldest first; never trimmed
+  createdAt: string
+  updatedAt: string
+}
+
+// The signed-in reviewer, filled in by the route from the session
+const actorSchema = z.string().trim().max(254).nullable().default(null)
+const actorIdSchema = z.string().nullable().default(null)
+
+const outputsSchema = z.array(z.string().trim().min(1, "Content can't be empty").max(5000)).min(1)
+
+const noteSchema = z.string().trim().max(1000)
+
+// edit changes the wording and keeps the item pending; approve may carry last-minute edits
+export const ReviewDecisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+    actor: actorSchema,
+    actorId: actorIdSchema,
+    note: noteSchema.optional(),
+    outputs: outputsSchema.optional(),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    actor: actorSchema,
+    actorId: actorIdSchema,
+    note: z
+      .string({ required_error: "Add a note explaining the rejection" })
+      .trim()
+      .min(1, "Add a note explaining the rejection")
+      .max(1000),
+  }),
+  z.object({
+    action: z.literal("edit"),
+    actor: actorSchema,
+    actorId: actorIdSchema,
+    note: noteSchema.optional(),
+    outputs: outputsSchema,
+  }),
+  z.object({ action: z.literal("reopen"), actor: actorSchema, actorId: actorIdSchema, note: noteSchema.optional() }),
+])
+
+export type ReviewDecision = z.input<typeof ReviewDecisionSchema>
+
+export interface ReviewQuery {
+  submittedById?: string // Only items this user submitted
+  status?: ReviewStatus
+  kind?: HistoryKind
+  limit?: number
+}
+
+export interface ReviewRepository {
+  readonly name: string
+  list(): Promise<ReviewItem[]>
+  get(id: string): Promise<ReviewItem | null>
+  save(item: ReviewItem): Promise<void>
+}
@@ -0,0 +1,43 @@
+import schedule from "./index"
+import type { PublishResult } from "./types"
+
+// Publishes due posts on a schedule
+// Triggered by the cron route on Vercel, or on an interval in long-running servers (see instrumentation.ts)
+
+const DEFAULT_INTERVAL_MINUTES = 5
+
+class ScheduleDispatcher {
+  private timer: NodeJS.Timeout | null = null
+  private running: Promise<PublishResult[]> | null = null
+
+  // Overlapping triggers (cron plus interval) share the run already in progress, so nothing goes out twice
+  runOnce(): Promise<PublishResult[]> {
+    if (!this.running) {
+      this.running = schedule.publishDue().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  start(intervalMinutes = Number(process.env.SCHEDULE_DISPATCH_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES): void {
+    if (this.timer) return
+
+    console.log(`📤 Scheduled posts dispatched every ${intervalMinutes} minutes`)
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => console.error("❌ Schedule dispatch failed:", error))
+    }, intervalMinutes * 60 * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// Create singleton schedule dispatcher
+const scheduleDispatcher = new ScheduleDispatcher()
+
+export default scheduleDispatcher
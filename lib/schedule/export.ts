@@ -0,0 +1,114 @@
+import type { ScheduledPost, SchedulePlatform } from "./types"
+
+// Scheduled posts in formats other tools can pick up: an iCalendar feed and the webhook publisher's payload
+
+const PLATFORM_LABELS: Record<SchedulePlatform, string> = {
+  twitter: "X",
+  linkedin: "LinkedIn",
+  instagram: "Instagram",
+}
+
+const EVENT_DURATION = "PT15M"
+const SUMMARY_LENGTH = 60
+const ICS_LINE_LIMIT = 75 // Octets, per RFC 5545
+
+export interface ScheduleWebhookPayload {
+  type: "scheduled-post"
+  id: string
+  platform: SchedulePlatform
+  scheduledAt: string | null
+  posts: string[] // Ready to publish in order, with the hashtags on the last post
+  hashtags: string[]
+  topic: string | null
+  sentAt: string
+}
+
+// Hashtags go on the last post, the same way the copy buttons join them
+export function publishableParts(post: Pick<ScheduledPost, "parts" | "hashtags">): string[] {
+  if (post.hashtags.length === 0) return post.parts
+
+  const last = post.parts.length - 1
+  return post.parts.map((part, index) => (index === last ? `${part}\n\n${post.hashtags.join(" ")}` : part))
+}
+
+export function toWebhookPayload(post: ScheduledPost, sentAt = new Date()): ScheduleWebhookPayload {
+  return {
+    type: "scheduled-post",
+    id: post.id,
+    platform: post.platform,
+    scheduledAt: post.scheduledAt,
+    posts: publishableParts(post),
+    hashtags: post.hashtags,
+    topic: post.topic,
+    sentAt: sentAt.toISOString(),
+  }
+}
+
+// One 15-minute event per dated post; undated drafts are left out
+export function toICS(posts: ScheduledPost[], generatedAt = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AltReach//Content Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:AltReach schedule",
+  ]
+
+  for (const post of posts) {
+    if (!post.scheduledAt) continue
+
+    const label = PLATFORM_LABELS[post.platform]
+    const text = publishableParts(post).join("\n\n---\n\n")
+    const preview = post.parts[0].replace(/\s+/g, " ").trim()
+    const summary = preview.length > SUMMARY_LENGTH ? `${preview.slice(0, SUMMARY_LENGTH - 1)}…` : preview
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${post.id}@altreach`,
+      `DTSTAMP:${formatICSDate(generatedAt)}`,
+      `DTSTART:${formatICSDate(new Date(post.scheduledAt))}`,
+      `DURATION:${EVENT_DURATION}`,
+      `SUMMARY:${escapeICSText(`[${label}] ${summary}`)}`,
+      `DESCRIPTION:${escapeICSText(text)}`,
+      `CATEGORIES:${escapeICSText(label)}`,
+      // Drafts and failed posts stay tentative until they go out
+      `STATUS:${post.status === "scheduled" || post.status === "published" ? "CONFIRMED" : "TENTATIVE"}`,
+      "END:VEVENT",
+    )
+  }
+
+  lines.push("END:VCALENDAR")
+  return lines.map(foldICSLine).join("\r\n") + "\r\n"
+}
+
+// 20260115T093000Z
+function formatICSDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function escapeICSText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+// Long lines continue on the next line after a single space, without splitting a character
+function foldICSLine(line: string): string {
+  const chunks: string[] = []
+  let current = ""
+  let bytes = 0
+
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char, "utf8")
+    const limit = chunks.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1
+    if (bytes + size > limit) {
+      chunks.push(current)
+      current = ""
+      bytes = 0
+    }
+    current += char
+    bytes += size
+  }
+
+  chunks.push(current)
+  return chunks.join("\r\n ")
+}
@@ -0,0 +1,213 @@
+import path from "path"
+import redis from "@/lib/redis"
+import { LocalPublisher } from "./publishers/local"
+import { WebhookPublisher } from "./publishers/webhook"
+import { FileScheduleStore } from "./stores/file"
+import { RedisScheduleStore } from "./stores/redis"
+import {
+  ScheduledPostInputSchema,
+  type Publisher,
+  type PublishResult,
+  type ScheduledPost,
+  type ScheduledPostInput,
+  type ScheduleQuery,
+  type ScheduleRepository,
+} from "./types"
+
+// Queue of posts waiting to go out; due posts are handed to the configured publisher by the dispatcher
+// Posts belong to the account that queued them: the user-facing methods take its id and treat other accounts' posts
+// as missing, while the dispatcher publishes everything that's due
+// SCHEDULE_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+// SCHEDULE_PUBLISHER picks "webhook" (SCHEDULE_WEBHOOK_URL) or "local"; defaults to webhook when a URL is set
+
+export class ScheduledPostNotFoundError extends Error {
+  constructor(public postId: string) {
+    super(`Scheduled post not found: ${postId}`)
+    this.name = "ScheduledPostNotFoundError"
+  }
+}
+
+// Published posts are kept as a record and can't be edited or sent again
+export class ScheduledPostLockedError extends Error {
+  constructor(public postId: string) {
+    super(`Scheduled post already published: ${postId}`)
+    this.name = "ScheduledPostLockedError"
+  }
+}
+
+class ScheduleService {
+  constructor(
+    private repository: ScheduleRepository,
+    private publisher: Publisher,
+  ) {}
+
+  setRepository(repository: ScheduleRepository): void {
+    this.repository = repository
+  }
+
+  setPublisher(publisher: Publisher): void {
+    this.publisher = publisher
+  }
+
+  get publisherName(): string {
+    return this.publisher.name
+  }
+
+  // Soonest first; undated drafts come last, newest first. The range only applies to dated posts.
+  async list(userId: string, query: ScheduleQuery = {}): Promise<ScheduledPost[]> {
+    const posts = await this.repository.list()
+
+    return posts
+      .filter((post) => post.userId === userId)
+      .filter((post) => !query.status || post.status === query.status)
+      .filter((post) => {
+        if (!post.scheduledAt) return !query.from && !query.to
+        const time = new Date(post.scheduledAt).getTime()
+        return (!query.from || time >= query.from.getTime()) && (!query.to || time <= query.to.getTime())
+      })
+      .sort((a, b) => {
+        if (a.scheduledAt && b.scheduledAt) return a.scheduledAt.localeCompare(b.scheduledAt)
+        if (a.scheduledAt || b.scheduledAt) return a.scheduledAt ? -1 : 1
+        return b.createdAt.localeCompare(a.createdAt)
+      })
+  }
+
+  async get(id: string, userId: string): Promise<ScheduledPost | null> {
+    const post = await this.repository.get(id)
+    return post?.userId === userId ? post : null
+  }
+
+  // Throws a ZodError when the input is invalid
+  async create(input: ScheduledPostInput, userId: string): Promise<ScheduledPost> {
+    const now = new Date().toISOString()
+    const post: ScheduledPost = {
+      ...ScheduledPostInputSchema.parse(input),
+      id: crypto.randomUUID(),
+      userId,
+      attempts: 0,
+      lastError: null,
+      publishedAt: null,
+      receipt: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.repository.save(post)
+    return post
+  }
+
+  // Rescheduling a failed post puts it back in the queue
+  async update(id: string, input: ScheduledPostInput, userId: string): Promise<ScheduledPost> {
+    const existing = await this.get(id, userId)
+    if (!existing) {
+      throw new ScheduledPostNotFoundError(id)
+    }
+    if (existing.status === "published") {
+      throw new ScheduledPostLockedError(id)
+    }
+
+    const post: ScheduledPost = {
+      ...existing,
+      ...ScheduledPostInputSchema.parse(input),
+      lastError: null,
+      updatedAt: new Date().toISOString(),
+    }
+
+    await this.repository.save(post)
+    return post
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const existing = await this.get(id, userId)
+    return !!existing && (await this.repository.delete(id))
+  }
+
+  // Sends a post right away, whatever its scheduled time
+  async publish(id: string, userId: string): Promise<ScheduledPost> {
+    const post = await this.get(id, userId)
+    if (!post) {
+      throw new ScheduledPostNotFoundError(id)
+    }
+    if (post.status === "published") {
+      throw new ScheduledPostLockedError(id)
+    }
+
+    return this.send(post)
+  }
+
+  // Scheduled posts whose time has come, one at a time; failures stay failed until rescheduled or retried
+  async publishDue(now = new Date()): Promise<PublishResult[]> {
+    const due = (await this.repository.list())
+      .filter((post) => post.status === "scheduled" && post.scheduledAt && new Date(post.scheduledAt) <= now)
+      .sort((a, b) => a.scheduledAt!.localeCompare(b.scheduledAt!))
+
+    const results: PublishResult[] = []
+    for (const post of due) {
+      const sent = await this.send(post)
+      results.push(
+        sent.status === "published"
+          ? { id: sent.id, status: "published" }
+          : { id: sent.id, status: "failed", error: sent.lastError || undefined },
+      )
+    }
+
+    return results
+  }
+
+  private async send(post: ScheduledPost): Promise<ScheduledPost> {
+    const attempted = { ...post, attempts: post.attempts + 1 }
+    let result: ScheduledPost
+
+    try {
+      const receipt = await this.publisher.publish(attempted)
+      const now = new Date().toISOString()
+      result = { ...attempted, status: "published", receipt, lastError: null, publishedAt: now, updatedAt: now }
+      console.log(`✅ Published ${post.platform} post ${post.id} via ${receipt.publisher}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      result = { ...attempted, status: "failed", lastError: message, updatedAt: new Date().toISOString() }
+      console.error(`❌ Failed to publish ${post.platform} post ${post.id}:`, message)
+    }
+
+    await this.repository.save(result)
+    return result
+  }
+}
+
+function createDefaultRepository(): ScheduleRepository {
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.SCHEDULE_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisScheduleStore(redis)
+  }
+
+  const filePath = process.env.SCHEDULE_FILE_PATH || path.join(process.cwd(), ".data", "schedule.json")
+  console.warn(`⚠️ Using file-based schedule store at ${filePath}`)
+  return new FileScheduleStore(filePath)
+}
+
+function createDefaultPublisher(): Publisher {
+  const webhookUrl = process.env.SCHEDULE_WEBHOOK_URL
+  const publisher = process.env.SCHEDULE_PUBLISHER || (webhookUrl ? "webhook" : "local")
+
+  if (publisher === "webhook") {
+    if (webhookUrl) return new WebhookPublisher(webhookUrl)
+    console.warn("⚠️ SCHEDULE_PUBLISHER is webhook but SCHEDULE_WEBHOOK_URL is not set; using the local publisher")
+  }
+
+  return new LocalPublisher()
+}
+
+// Create singleton schedule service
+const schedule = new ScheduleService(createDefaultRepository(), createDefaultPublisher())
+
+export default schedule
+
+export { publishableParts, toICS, toWebhookPayload, type ScheduleWebhookPayload } from "./export"
+export { parseScheduleQuery } from "./query"
+export { LocalPublisher } from "./publishers/local"
+export { WebhookPublisher } from "./publishers/webhook"
+export { FileScheduleStore } from "./stores/file"
+export { RedisScheduleStore } from "./stores/redis"
+export * from "./types"
@@ -0,0 +1,32 @@
+import { toWebhookPayload, type ScheduleWebhookPayload } from "../export"
+import type { Publisher, PublishReceipt, ScheduledPost } from "../types"
+
+// Stand-in publisher for development and tests: keeps the payloads it would have sent in memory.
+// failNext() makes the following publishes throw, to exercise the failed status.
+export class LocalPublisher implements Publisher {
+  readonly name = "local"
+  readonly sent: ScheduleWebhookPayload[] = []
+  private failures: string[] = []
+
+  async publish(post: ScheduledPost): Promise<PublishReceipt> {
+    const failure = this.failures.shift()
+    if (failure) {
+      throw new Error(failure)
+    }
+
+    const payload = toWebhookPayload(post)
+    this.sent.push(payload)
+    console.log(`📤 [local publisher] ${post.platform} post ${post.id} (${payload.posts.length} part(s))`)
+
+    return { publisher: this.name, externalId: `local-${this.sent.length}`, url: null }
+  }
+
+  failNext(message = "Simulated publish failure", times = 1): void {
+    this.failures.push(...Array.from({ length: times }, () => message))
+  }
+
+  reset(): void {
+    this.sent.length = 0
+    this.failures = []
+  }
+}
@@ -0,0 +1,32 @@
+import { toWebhookPayload } from "../export"
+import type { Publisher, PublishReceipt, ScheduledPost } from "../types"
+
+const WEBHOOK_TIMEOUT = 10000
+
+// POSTs each due post to an automation endpoint (Zapier, Make, n8n...) that does the actual posting;
+// any non-2xx response counts as a failed publish. The endpoint may answer with { id, url } for the receipt.
+export class WebhookPublisher implements Publisher {
+  readonly name = "webhook"
+
+  constructor(private url: string) {}
+
+  async publish(post: ScheduledPost): Promise<PublishReceipt> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "AltReach-Scheduler/1.0" },
+      body: JSON.stringify(toWebhookPayload(post)),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`)
+    }
+
+    const body = await response.json().catch(() => null)
+    return {
+      publisher: this.name,
+      externalId: typeof body?.id === "string" ? body.id : null,
+      url: typeof body?.url === "string" ? body.url : null,
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { SCHEDULE_STATUSES, type ScheduleQuery, type ScheduleStatus } from "./types"
+
+// ?from=&to=&status= as used by the list and export routes; invalid values are ignored
+export function parseScheduleQuery(searchParams: URLSearchParams): ScheduleQuery {
+  const status = searchParams.get("status") as ScheduleStatus | null
+
+  return {
+    from: parseDate(searchParams.get("from")),
+    to: parseDate(searchParams.get("to")),
+    status: status && SCHEDULE_STATUSES.includes(status) ? status : undefined,
+  }
+}
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { ScheduledPost, ScheduleRepository } from "../types"
+
+interface ScheduleFileData {
+  posts: Record<string, ScheduledPost>
+}
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileScheduleStore implements ScheduleRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async list(): Promise<ScheduledPost[]> {
+    const data = await this.read()
+    return Object.values(data.posts)
+  }
+
+  async get(id: string): Promise<ScheduledPost | null> {
+    const data = await this.read()
+    return data.posts[id] || null
+  }
+
+  async save(post: ScheduledPost): Promise<void> {
+    await this.update((data) => ({ ...data, posts: { ...data.posts, [post.id]: post } }))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false
+    await this.update((data) => {
+      if (!data.posts[id]) return data
+      deleted = true
+      const { [id]: _post, ...posts } = data.posts
+      return { ...data, posts }
+    })
+    return deleted
+  }
+
+  private async read(): Promise<ScheduleFileData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      return { posts: data?.posts || {} }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { posts: {} }
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  private update(change: (data: ScheduleFileData) => ScheduleFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
@@ -0,0 +1,44 @@
+import type { Redis } from "@upstash/redis"
+import type { ScheduledPost, ScheduleRepository } from "../types"
+
+// The queue is a single hash keyed by post id; it's small enough to filter in memory
+export class RedisScheduleStore implements ScheduleRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private key = "altreach:schedule:posts",
+  ) {}
+
+  async list(): Promise<ScheduledPost[]> {
+    const values = await this.client.hgetall<Record<string, unknown>>(this.key)
+    return Object.values(values || {})
+      .map((value) => this.deserialize(value))
+      .filter((post): post is ScheduledPost => post !== null)
+  }
+
+  async get(id: string): Promise<ScheduledPost | null> {
+    return this.deserialize(await this.client.hget(this.key, id))
+  }
+
+  async save(post: ScheduledPost): Promise<void> {
+    await this.client.hset(this.key, { [post.id]: JSON.stringify(post) })
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return (await this.client.hdel(this.key, id)) > 0
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize(value: unknown): ScheduledPost | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as ScheduledPost
+      } catch {
+        return null
+      }
+    }
+    return value as ScheduledPost
+  }
+}
@@ -0,0 +1,74 @@
+import { z } from "zod"
+
+export const SCHEDULE_STATUSES = ["draft", "scheduled", "published", "failed"] as const
+export type ScheduleStatus = (typeof SCHEDULE_STATUSES)[number]
+
+// Statuses a client can set; published and failed are only set by the publisher
+export const EDITABLE_SCHEDULE_STATUSES = ["draft", "scheduled"] as const
+
+export const SCHEDULE_PLATFORMS = ["twitter", "linkedin", "instagram"] as const
+export type SchedulePlatform = (typeof SCHEDULE_PLATFORMS)[number]
+
+export const ScheduledPostInputSchema = z
+  .object({
+    platform: z.enum(SCHEDULE_PLATFORMS).default("twitter"),
+    parts: z
+      .array(z.string().trim().min(1, "Posts can't be empty").max(5000))
+      .min(1, "Content is required")
+      .max(25, "Threads are limited to 25 posts"), // One entry per post; threads have several
+    hashtags: z.array(z.string().trim().min(1).max(100)).max(30).default([]),
+    scheduledAt: z.string().datetime({ offset: true, message: "Scheduled time must be a valid date" }).nullable().default(null),
+    status: z.enum(EDITABLE_SCHEDULE_STATUSES).default("scheduled"),
+    topic: z.string().trim().max(500).nullable().default(null), // What the post was generated from, for the calendar
+  })
+  .superRefine((post, context) => {
+    if (post.status === "scheduled" && !post.scheduledAt) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["scheduledAt"], message: "Pick a date and time to schedule" })
+    }
+  })
+
+export type ScheduledPostInput = z.input<typeof ScheduledPostInputSchema>
+
+export interface PublishReceipt {
+  publisher: string
+  externalId: string | null
+  url: string | null
+}
+
+export interface ScheduledPost extends Omit<z.output<typeof ScheduledPostInputSchema>, "status"> {
+  id: string
+  userId?: string | null // Owning account; posts from before accounts have none and aren't shown to anyone
+  status: ScheduleStatus
+  attempts: number
+  lastError: string | null
+  publishedAt: string | null
+  receipt: PublishReceipt | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScheduleQuery {
+  from?: Date
+  to?: Date
+  status?: ScheduleStatus
+}
+
+export interface ScheduleRepository {
+  readonly name: string
+  list(): Promise<ScheduledPost[]>
+  get(id: string): Promise<ScheduledPost | null>
+  save(post: ScheduledPost): Promise<void>
+  delete(id: string): Promise<boolean>
+}
+
+// Where due posts are sent; throwing marks the post as failed
+export interface Publisher {
+  readonly name: string
+  publish(post: ScheduledPost): Promise<PublishReceipt>
+}
+
+export interface PublishResult {
+  id: string
+  status: "published" | "failed"
+  error?: string
+}
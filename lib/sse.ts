@@ -0,0 +1,111 @@
+// Server-Sent Events helpers shared by the streaming API routes and their clients
+
+export type SSESend = (event: string, data: unknown) => void
+
+const encoder = new TextEncoder()
+
+// Streams events produced by `run`; the signal aborts when the client disconnects or cancels
+export function createSSEResponse(
+  request: Request,
+  run: (send: SSESend, signal: AbortSignal) => Promise<void>,
+): Response {
+  const abortController = new AbortController()
+  request.signal?.addEventListener("abort", () => abortController.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (abortController.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      try {
+        await run(send, abortController.signal)
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error("❌ Error in event stream:", error)
+          send("error", { error: "Generation failed. Please try again." })
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed by a cancel
+        }
+      }
+    },
+    cancel() {
+      abortController.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
+
+// Event names mapped to the data they carry; clients describe what the route sends
+export type SSEEventMap = Record<string, unknown>
+
+// One event from the map, so checking event narrows data
+export type SSEEvent<TEvents extends SSEEventMap = SSEEventMap> = {
+  [K in keyof TEvents & string]: { event: K; data: TEvents[K] }
+}[keyof TEvents & string]
+
+// Events sent by the streaming generation routes; done carries the route's full response body
+export type GenerationStreamEvents<TDone> = {
+  tone: { tone: string }
+  variation: { index: number; text: string }
+  done: TDone
+  error: { error: string }
+}
+
+// Reads an event stream from a fetch response, calling onEvent for each event in order.
+// The data is parsed as sent and not validated against TEvents.
+export async function readSSEStream<TEvents extends SSEEventMap = SSEEventMap>(
+  response: Response,
+  onEvent: (event: SSEEvent<TEvents>) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let separatorIndex = buffer.indexOf("\n\n")
+    while (separatorIndex !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex)
+      buffer = buffer.slice(separatorIndex + 2)
+      separatorIndex = buffer.indexOf("\n\n")
+
+      let event = "message"
+      const dataLines: string[] = []
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim()
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart())
+      }
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join("\n")) } as SSEEvent<TEvents>)
+      }
+    }
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException
+    ? error.name === "AbortError"
+    : error instanceof Error && error.name === "AbortError"
+}
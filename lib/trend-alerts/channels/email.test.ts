@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest"
+import { TrendAlertRuleInputSchema, type TrendAlertRule } from "../types"
+import { createEmailChannel, isOwnEmail } from "./email"
+
+function rule(email: string, userId: string | null = "owner"): TrendAlertRule {
+  return {
+    ...TrendAlertRuleInputSchema.parse({ name: "Launch", pattern: "launch", channels: { inApp: false, email } }),
+    id: "rule-1",
+    userId,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    lastTriggeredAt: null,
+  }
+}
+
+const MATCH = { hashtag: "#Launch", rank: 1, volume: null, country: "worldwide", category: "trending" as const }
+
+describe("isOwnEmail", () => {
+  it("ignores case and surrounding space", () => {
+    expect(isOwnEmail(" Owner@Example.com ", "owner@example.com")).toBe(true)
+    expect(isOwnEmail("someone@example.com", "owner@example.com")).toBe(false)
+  })
+})
+
+describe("email channel", () => {
+  it("is off for rules without an owner", () => {
+    const channel = createEmailChannel(async () => "owner@example.com")
+    expect(channel.isEnabled(rule("owner@example.com", null))).toBe(false)
+    expect(channel.isEnabled(rule("owner@example.com"))).toBe(true)
+  })
+
+  it("refuses to send to an address other than the owner's", async () => {
+    const accountEmail = vi.fn(async () => "owner@example.com")
+    const channel = createEmailChannel(accountEmail)
+
+    await expect(channel.send(rule("someone@example.com"), [MATCH])).rejects.toThrow("account address")
+    expect(accountEmail).toHaveBeenCalledWith("owner")
+  })
+
+  it("refuses to send when the owner's account is gone", async () => {
+    const channel = createEmailChannel(async () => null)
+    await expect(channel.send(rule("owner@example.com"), [MATCH])).rejects.toThrow("account address")
+  })
+})
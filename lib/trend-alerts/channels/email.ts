@@ -0,0 +1,46 @@
+import { sendMail } from "@/lib/mail"
+import { formatVolume } from "@/lib/trends/volume"
+import type { AlertChannel, TrendAlertMatch, TrendAlertRule } from "../types"
+
+// SMTP delivery (see lib/mail.ts), sent from ALERT_EMAIL_FROM to the rule owner's account address only
+
+function describeMatch(match: TrendAlertMatch): string {
+  const volume = match.volume !== null ? ` · ${formatVolume(match.volume)} posts` : ""
+  return `#${match.rank} ${match.hashtag}${volume}`
+}
+
+function buildEmail(rule: TrendAlertRule, matches: TrendAlertMatch[]) {
+  const where = rule.country === "worldwide" ? "worldwide" : `in ${rule.country}`
+  const subject =
+    matches.length === 1
+      ? `${matches[0].hashtag} is trending ${where}`
+      : `${matches.length} trends matching "${rule.name}" ${where}`
+  const lines = matches.map(describeMatch)
+
+  return {
+    subject,
+    text: [`Your trend alert "${rule.name}" matched (${rule.category}, ${where}):`, "", ...lines].join("\n"),
+  }
+}
+
+export function isOwnEmail(address: string, accountEmail: string): boolean {
+  return address.trim().toLowerCase() === accountEmail.toLowerCase()
+}
+
+// Checked again on every send, for rules saved before addresses were restricted to the owner's
+export function createEmailChannel(accountEmail: (userId: string) => Promise<string | null>): AlertChannel {
+  return {
+    name: "email",
+    isEnabled: (rule) => !!rule.channels.email && !!rule.userId,
+    async send(rule, matches) {
+      const to = rule.channels.email!
+      const ownerEmail = await accountEmail(rule.userId!)
+      if (!ownerEmail || !isOwnEmail(to, ownerEmail)) {
+        throw new Error("Alert email isn't the rule owner's account address")
+      }
+
+      const { subject, text } = buildEmail(rule, matches)
+      await sendMail({ from: process.env.ALERT_EMAIL_FROM, to, subject, text })
+    },
+  }
+}
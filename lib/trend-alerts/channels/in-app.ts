@@ -0,0 +1,27 @@
+import type { AlertChannel, TrendAlertNotification } from "../types"
+
+// Writes to the owner's inbox shown next to the trends list; rules from before accounts have no inbox to write to
+export function createInAppChannel(
+  save: (userId: string, notifications: TrendAlertNotification[]) => Promise<void>,
+): AlertChannel {
+  return {
+    name: "in-app",
+    isEnabled: (rule) => rule.channels.inApp && !!rule.userId,
+    async send(rule, matches) {
+      const userId = rule.userId!
+      const createdAt = new Date().toISOString()
+      await save(
+        userId,
+        matches.map((match) => ({
+          ...match,
+          id: crypto.randomUUID(),
+          userId,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          createdAt,
+          readAt: null,
+        })),
+      )
+    },
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { isPrivateAddress } from "@/lib/public-url"
+import { webhookUrlProblem } from "./webhook"
+
+describe("webhookUrlProblem", () => {
+  it("accepts public https URLs", () => {
+    expect(webhookUrlProblem("https://hooks.example.com/trends")).toBeNull()
+    expect(webhookUrlProblem("https://93.184.216.34/hook")).toBeNull()
+  })
+
+  it("requires https", () => {
+    expect(webhookUrlProblem("http://hooks.example.com/trends")).toBe("Webhook URL must use https")
+  })
+
+  it("refuses loopback, private and internal hosts", () => {
+    const urls = [
+      "https://localhost/hook",
+      "https://127.0.0.1/hook",
+      "https://10.0.0.5/hook",
+      "https://172.20.1.1/hook",
+      "https://192.168.1.10/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+      "https://redis/hook",
+      "https://printer.local/hook",
+    ]
+    for (const url of urls) {
+      expect(webhookUrlProblem(url)).toBe("Webhook URL must point to a public host")
+    }
+  })
+})
+
+describe("isPrivateAddress", () => {
+  it("recognises private IPv6 ranges", () => {
+    expect(isPrivateAddress("fd12:3456::1")).toBe(true)
+    expect(isPrivateAddress("fe80::1")).toBe(true)
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false)
+  })
+})
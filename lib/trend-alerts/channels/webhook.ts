@@ -0,0 +1,59 @@
+import { isInternalHost, resolvesToPublicHost } from "@/lib/public-url"
+import type { AlertChannel } from "../types"
+
+const WEBHOOK_TIMEOUT = 10000
+
+// Why a webhook URL can't be used, or null when it can. Checked when a rule is saved; names that resolve to
+// private addresses are caught again at delivery.
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return "Webhook URL must be a valid URL"
+  }
+
+  if (url.protocol !== "https:") return "Webhook URL must use https"
+  if (isInternalHost(url)) return "Webhook URL must point to a public host"
+
+  return null
+}
+
+// Resolves the host right before sending, so a public name pointed at an internal address is refused too
+async function assertPublicWebhook(value: string): Promise<void> {
+  const problem = webhookUrlProblem(value)
+  if (problem) throw new Error(problem)
+
+  if (!(await resolvesToPublicHost(new URL(value)))) {
+    throw new Error("Webhook URL must point to a public host")
+  }
+}
+
+// POSTs a JSON payload to the rule's URL; any non-2xx response counts as a failed delivery
+export const webhookChannel: AlertChannel = {
+  name: "webhook",
+  isEnabled: (rule) => !!rule.channels.webhookUrl,
+  async send(rule, matches) {
+    await assertPublicWebhook(rule.channels.webhookUrl!)
+
+    const response = await fetch(rule.channels.webhookUrl!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "AltReach-TrendAlerts/1.0" },
+      body: JSON.stringify({
+        type: "trend-alert",
+        rule: { id: rule.id, name: rule.name, pattern: rule.pattern, matchType: rule.matchType },
+        country: rule.country,
+        category: rule.category,
+        matches,
+        triggeredAt: new Date().toISOString(),
+      }),
+      // A redirect could lead anywhere, including back inside the network
+      redirect: "error",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`)
+    }
+  },
+}
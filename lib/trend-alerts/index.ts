@@ -0,0 +1,268 @@
+import path from "path"
+import { ZodError } from "zod"
+import auth, { type User } from "@/lib/auth"
+import redis from "@/lib/redis"
+import { normalizeHashtag } from "@/lib/trends/hashtag"
+import { fetchTrends } from "@/lib/trends/sources"
+import type { TrendCategory } from "@/lib/trends/types"
+import { createEmailChannel, isOwnEmail } from "./channels/email"
+import { createInAppChannel } from "./channels/in-app"
+import { webhookChannel } from "./channels/webhook"
+import { matchesRule } from "./match"
+import { FileTrendAlertStore } from "./stores/file"
+import { RedisTrendAlertStore } from "./stores/redis"
+import {
+  TrendAlertRuleInputSchema,
+  type AlertChannel,
+  type AlertDelivery,
+  type TrendAlertMatch,
+  type TrendAlertNotification,
+  type TrendAlertRepository,
+  type TrendAlertRule,
+  type TrendAlertRuleInput,
+  type TrendAlertRunResult,
+} from "./types"
+
+// Watch rules evaluated against live trend lists, notifying over webhook, email and the in-app inbox
+// TREND_ALERTS_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+
+const MAX_NOTIFICATIONS = 200
+
+// The time filter each category is checked over
+const ALERT_TIME_FILTERS: Record<TrendCategory, string> = {
+  trending: "now",
+  top: "24h",
+  longest: "24h",
+}
+
+export class TrendAlertRuleNotFoundError extends Error {
+  constructor(public ruleId: string) {
+    super(`Trend alert rule not found: ${ruleId}`)
+    this.name = "TrendAlertRuleNotFoundError"
+  }
+}
+
+class TrendAlertService {
+  private channels: AlertChannel[]
+
+  constructor(private repository: TrendAlertRepository) {
+    this.channels = this.createChannels()
+  }
+
+  setRepository(repository: TrendAlertRepository): void {
+    this.repository = repository
+    this.channels = this.createChannels()
+  }
+
+  async listRules(userId: string): Promise<TrendAlertRule[]> {
+    const rules = await this.repository.listRules()
+    return rules.filter((rule) => rule.userId === userId).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getRule(id: string, userId: string): Promise<TrendAlertRule | null> {
+    const rule = await this.repository.getRule(id)
+    return rule?.userId === userId ? rule : null
+  }
+
+  // Throws a ZodError when the input is invalid
+  async createRule(input: TrendAlertRuleInput, owner: Pick<User, "id" | "email">): Promise<TrendAlertRule> {
+    const now = new Date().toISOString()
+    const rule: TrendAlertRule = {
+      ...parseRuleInput(input, owner),
+      id: crypto.randomUUID(),
+      userId: owner.id,
+      createdAt: now,
+      updatedAt: now,
+      lastTriggeredAt: null,
+    }
+
+    await this.repository.saveRule(rule)
+    return rule
+  }
+
+  async updateRule(id: string, input: TrendAlertRuleInput, owner: Pick<User, "id" | "email">): Promise<TrendAlertRule> {
+    const existing = await this.getRule(id, owner.id)
+    if (!existing) {
+      throw new TrendAlertRuleNotFoundError(id)
+    }
+
+    const rule: TrendAlertRule = {
+      ...existing,
+      ...parseRuleInput(input, owner),
+      updatedAt: new Date().toISOString(),
+    }
+
+    await this.repository.saveRule(rule)
+    return rule
+  }
+
+  async deleteRule(id: string, userId: string): Promise<boolean> {
+    const existing = await this.getRule(id, userId)
+    return !!existing && (await this.repository.deleteRule(id))
+  }
+
+  async listNotifications(
+    userId: string,
+    limit = 50,
+  ): Promise<{ notifications: TrendAlertNotification[]; unread: number }> {
+    const notifications = await this.repository.listNotifications(userId, MAX_NOTIFICATIONS)
+    return {
+      notifications: notifications.slice(0, limit),
+      unread: notifications.filter((notification) => !notification.readAt).length,
+    }
+  }
+
+  // Marks every unread notification of the user when ids is null; other users' ids are ignored
+  markNotificationsRead(ids: string[] | null, userId: string): Promise<number> {
+    return this.repository.markNotificationsRead(userId, ids, new Date().toISOString())
+  }
+
+  // Rules sharing a country and category share one trend lookup; groups run one at a time to stay polite
+  async evaluate(): Promise<TrendAlertRunResult[]> {
+    const rules = (await this.repository.listRules()).filter((rule) => rule.enabled)
+    const groups = new Map<string, TrendAlertRule[]>()
+
+    for (const rule of rules) {
+      const key = `${rule.country.toLowerCase()}:${rule.category}`
+      groups.set(key, [...(groups.get(key) || []), rule])
+    }
+
+    const results: TrendAlertRunResult[] = []
+
+    for (const group of Array.from(groups.values())) {
+      const { country, category } = group[0]
+      const { trends } = await fetchTrends({ country, category, timeFilter: ALERT_TIME_FILTERS[category] })
+      const items = trends[category] || []
+
+      // Cached and mock data never reach this point: alerts only fire on a live scrape
+      if (items.length === 0) {
+        console.warn(`⚠️ No ${category} trends for ${country}; skipping ${group.length} alert rules`)
+        results.push(...group.map((rule) => this.result(rule, "no-data")))
+        continue
+      }
+
+      for (const rule of group) {
+        const matches: TrendAlertMatch[] = items
+          .filter((item) => matchesRule(rule, item))
+          .map((item) => ({
+            hashtag: item.hashtag,
+            rank: item.rank,
+            volume: "volume" in item ? item.volume : null,
+            country: rule.country,
+            category: rule.category,
+          }))
+
+        try {
+          results.push(await this.notify(rule, matches))
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error"
+          console.error(`❌ Trend alert "${rule.name}" failed:`, message)
+          results.push({ ...this.result(rule, "failed", matches), error: message })
+        }
+      }
+    }
+
+    return results
+  }
+
+  // Sends the matches outside the rule's de-duplication window to every configured channel
+  private async notify(rule: TrendAlertRule, matches: TrendAlertMatch[]): Promise<TrendAlertRunResult> {
+    if (matches.length === 0) return this.result(rule, "no-match")
+
+    const now = Date.now()
+    const windowMs = rule.dedupeHours * 60 * 60 * 1000
+    const previous = await this.repository.getFired(rule.id)
+
+    // Forget trends whose window has passed so they can alert again
+    const fired: Record<string, string> = {}
+    for (const [key, firedAt] of Object.entries(previous)) {
+      if (now - new Date(firedAt).getTime() < windowMs) fired[key] = firedAt
+    }
+
+    const fresh = matches.filter((match) => !fired[normalizeHashtag(match.hashtag)])
+    if (fresh.length === 0) return this.result(rule, "deduplicated", matches)
+
+    const channels = this.channels.filter((channel) => channel.isEnabled(rule))
+    const settled = await Promise.allSettled(channels.map((channel) => channel.send(rule, fresh)))
+    const deliveries: AlertDelivery[] = settled.map((outcome, index) =>
+      outcome.status === "fulfilled"
+        ? { channel: channels[index].name, status: "sent" }
+        : {
+            channel: channels[index].name,
+            status: "failed",
+            error: outcome.reason instanceof Error ? outcome.reason.message : "Unknown error",
+          },
+    )
+
+    // When every channel failed, leave the window open so the next run retries
+    if (!deliveries.some((delivery) => delivery.status === "sent")) {
+      throw new Error(deliveries.map((delivery) => `${delivery.channel}: ${delivery.error}`).join("; "))
+    }
+
+    const firedAt = new Date(now).toISOString()
+    for (const match of fresh) {
+      fired[normalizeHashtag(match.hashtag)] = firedAt
+    }
+    await this.repository.setFired(rule.id, fired)
+    await this.repository.saveRule({ ...rule, lastTriggeredAt: firedAt })
+
+    console.log(`🔔 Trend alert "${rule.name}" matched ${fresh.map((match) => match.hashtag).join(", ")}`)
+    return { ...this.result(rule, "triggered", fresh), deliveries }
+  }
+
+  private result(
+    rule: TrendAlertRule,
+    status: TrendAlertRunResult["status"],
+    matches: TrendAlertMatch[] = [],
+  ): TrendAlertRunResult {
+    return { ruleId: rule.id, ruleName: rule.name, status, matches, deliveries: [] }
+  }
+
+  private createChannels(): AlertChannel[] {
+    const repository = this.repository
+    return [
+      createInAppChannel((userId, notifications) => repository.addNotifications(userId, notifications)),
+      webhookChannel,
+      createEmailChannel(async (userId) => (await auth.getUser(userId))?.email || null),
+    ]
+  }
+}
+
+// Alert email only goes to the owner's sign-in address, which signing in has already verified; anything else would
+// let a rule send mail to an address nobody confirmed
+function parseRuleInput(input: TrendAlertRuleInput, owner: Pick<User, "email">) {
+  const parsed = TrendAlertRuleInputSchema.parse(input)
+  if (parsed.channels.email && !isOwnEmail(parsed.channels.email, owner.email)) {
+    throw new ZodError([
+      {
+        code: "custom",
+        path: ["channels", "email"],
+        message: `Alerts can only be emailed to your account address (${owner.email})`,
+      },
+    ])
+  }
+  return parsed
+}
+
+function createDefaultRepository(): TrendAlertRepository {
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.TREND_ALERTS_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisTrendAlertStore(redis, MAX_NOTIFICATIONS)
+  }
+
+  const filePath = process.env.TREND_ALERTS_FILE_PATH || path.join(process.cwd(), ".data", "trend-alerts.json")
+  console.warn(`⚠️ Using file-based trend alert store at ${filePath}`)
+  return new FileTrendAlertStore(filePath, MAX_NOTIFICATIONS)
+}
+
+// Create singleton trend alert service
+const trendAlerts = new TrendAlertService(createDefaultRepository())
+
+export default trendAlerts
+
+export { matchesPattern, matchesRule } from "./match"
+export { FileTrendAlertStore } from "./stores/file"
+export { RedisTrendAlertStore } from "./stores/redis"
+export * from "./types"
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { MAX_REGEX_LENGTH, matchesPattern, unsafePatternReason } from "./match"
+
+describe("unsafePatternReason", () => {
+  it("accepts ordinary patterns", () => {
+    for (const pattern of ["^taylor", "swift|tswift", "(ab+)?c", "nba(finals)?", "[a-z]+day$", "(?:cat|dog)s"]) {
+      expect(unsafePatternReason(pattern)).toBeNull()
+    }
+  })
+
+  it("refuses nested quantifiers, backreferences and long patterns", () => {
+    for (const pattern of ["(a+)+", "(?:\\w*x)*", "((a)+)+", "(a?){5,}", "(a)\\1"]) {
+      expect(unsafePatternReason(pattern)).not.toBeNull()
+    }
+    expect(unsafePatternReason("a".repeat(MAX_REGEX_LENGTH + 1))).not.toBeNull()
+  })
+
+  it("ignores quantifier characters inside classes and escapes", () => {
+    expect(unsafePatternReason("([+*])+")).toBeNull()
+    expect(unsafePatternReason("(\\+)+")).toBeNull()
+  })
+})
+
+describe("matchesPattern", () => {
+  it("never runs an unsafe regex saved before patterns were checked", () => {
+    expect(matchesPattern({ pattern: "(a+)+$", matchType: "regex" }, "#aaaa")).toBe(false)
+    expect(matchesPattern({ pattern: "^nba", matchType: "regex" }, "#NBAFinals")).toBe(true)
+  })
+})
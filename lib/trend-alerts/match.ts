@@ -0,0 +1,75 @@
+import { normalizeHashtag } from "@/lib/trends/hashtag"
+import type { TrendItem } from "@/lib/trends/types"
+import type { TrendAlertRule } from "./types"
+
+export const MAX_REGEX_LENGTH = 100
+// Quantifiers that can repeat a group's contents; "?" only makes it optional, so "(ab+)?" is fine
+const REPEATING_QUANTIFIERS = new Set(["*", "+", "{"])
+
+// Why a regex could backtrack catastrophically, or null when it looks safe. Patterns come from users and run on
+// every evaluation, so backreferences and repeated groups that repeat inside, e.g. (a+)+ or (\w*x){2,}, are refused.
+export function unsafePatternReason(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) return `Regex patterns are limited to ${MAX_REGEX_LENGTH} characters`
+
+  // Whether each open group contains a quantifier
+  const groups: boolean[] = []
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) return "Regex backreferences aren't supported"
+      i++
+      continue
+    }
+    if (inClass) {
+      if (char === "]") inClass = false
+      continue
+    }
+
+    if (char === "[") {
+      inClass = true
+    } else if (char === "(") {
+      groups.push(false)
+    } else if (char === ")") {
+      const quantified = groups.pop() ?? false
+      if (quantified && REPEATING_QUANTIFIERS.has(pattern[i + 1] ?? "")) {
+        return "Nested quantifiers like (a+)+ aren't supported"
+      }
+      if (quantified && groups.length > 0) groups[groups.length - 1] = true
+    } else if ((REPEATING_QUANTIFIERS.has(char) || (char === "?" && pattern[i - 1] !== "(")) && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+
+  return null
+}
+
+// Keywords ignore case, spaces and a leading "#", so "taylor swift" matches "#TaylorSwift"
+export function matchesPattern(rule: Pick<TrendAlertRule, "pattern" | "matchType">, hashtag: string): boolean {
+  if (rule.matchType === "regex") {
+    // Rules saved before patterns were checked are never run
+    if (unsafePatternReason(rule.pattern)) return false
+    try {
+      return new RegExp(rule.pattern, "i").test(hashtag.replace(/^\s*#/, ""))
+    } catch {
+      return false
+    }
+  }
+
+  const keyword = normalizeHashtag(rule.pattern)
+  return keyword.length > 0 && normalizeHashtag(hashtag).includes(keyword)
+}
+
+export function matchesRule(rule: TrendAlertRule, item: TrendItem): boolean {
+  if (!matchesPattern(rule, item.hashtag)) return false
+  if (rule.minRank !== null && item.rank > rule.minRank) return false
+
+  if (rule.minVolume !== null) {
+    const volume = "volume" in item ? item.volume : null
+    if (volume === null || volume < rule.minVolume) return false
+  }
+
+  return true
+}
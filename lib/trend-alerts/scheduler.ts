@@ -0,0 +1,43 @@
+import trendAlerts from "./index"
+import type { TrendAlertRunResult } from "./types"
+
+// Evaluates the watch rules on a schedule
+// Triggered by the cron route on Vercel, or on an interval in long-running servers (see instrumentation.ts)
+
+const DEFAULT_INTERVAL_MINUTES = 15
+
+class TrendAlertScheduler {
+  private timer: NodeJS.Timeout | null = null
+  private running: Promise<TrendAlertRunResult[]> | null = null
+
+  // Overlapping triggers (cron plus interval) share the run already in progress
+  runOnce(): Promise<TrendAlertRunResult[]> {
+    if (!this.running) {
+      this.running = trendAlerts.evaluate().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  start(intervalMinutes = Number(process.env.TREND_ALERTS_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES): void {
+    if (this.timer) return
+
+    console.log(`🔔 Trend alerts checked every ${intervalMinutes} minutes`)
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => console.error("❌ Trend alert run failed:", error))
+    }, intervalMinutes * 60 * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// Create singleton trend alert scheduler
+const trendAlertScheduler = new TrendAlertScheduler()
+
+export default trendAlertScheduler
@@ -0,0 +1,55 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import type { TrendAlertNotification } from "../types"
+import { FileTrendAlertStore } from "./file"
+
+let dir: string
+let filePath: string
+
+function notification(userId: string, index: number): TrendAlertNotification {
+  return {
+    id: `${userId}-${index}`,
+    userId,
+    ruleId: "rule-1",
+    ruleName: "Taylor",
+    hashtag: `#Trend${index}`,
+    rank: index + 1,
+    volume: null,
+    country: "united-states",
+    category: "trending",
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+    readAt: null,
+  }
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "trend-alerts-"))
+  filePath = path.join(dir, "trend-alerts.json")
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe("FileTrendAlertStore inbox", () => {
+  it("caps each user's inbox on its own", async () => {
+    const store = new FileTrendAlertStore(filePath, 2)
+    await store.addNotifications("quiet", [notification("quiet", 0)])
+    for (let index = 0; index < 4; index++) {
+      await store.addNotifications("busy", [notification("busy", index)])
+    }
+
+    expect((await store.listNotifications("quiet", 10)).map((n) => n.id)).toEqual(["quiet-0"])
+    expect((await store.listNotifications("busy", 10)).map((n) => n.id)).toEqual(["busy-3", "busy-2"])
+  })
+
+  it("only marks the user's own notifications read", async () => {
+    const store = new FileTrendAlertStore(filePath, 10)
+    await store.addNotifications("owner", [notification("owner", 0)])
+
+    expect(await store.markNotificationsRead("someone-else", ["owner-0"], new Date().toISOString())).toBe(0)
+    expect(await store.markNotificationsRead("owner", null, new Date().toISOString())).toBe(1)
+  })
+})
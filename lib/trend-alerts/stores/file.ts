@@ -0,0 +1,126 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { TrendAlertNotification, TrendAlertRepository, TrendAlertRule } from "../types"
+
+interface TrendAlertFileData {
+  rules: Record<string, TrendAlertRule>
+  fired: Record<string, Record<string, string>>
+  notifications: Record<string, TrendAlertNotification[]> // Keyed by user id
+}
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileTrendAlertStore implements TrendAlertRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private filePath: string,
+    private maxNotifications: number,
+  ) {}
+
+  async listRules(): Promise<TrendAlertRule[]> {
+    const data = await this.read()
+    return Object.values(data.rules)
+  }
+
+  async getRule(id: string): Promise<TrendAlertRule | null> {
+    const data = await this.read()
+    return data.rules[id] || null
+  }
+
+  async saveRule(rule: TrendAlertRule): Promise<void> {
+    await this.update((data) => ({ ...data, rules: { ...data.rules, [rule.id]: rule } }))
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    let deleted = false
+    await this.update((data) => {
+      if (!data.rules[id]) return data
+      deleted = true
+      const { [id]: _rule, ...rules } = data.rules
+      const { [id]: _fired, ...fired } = data.fired
+      return { ...data, rules, fired }
+    })
+    return deleted
+  }
+
+  async getFired(ruleId: string): Promise<Record<string, string>> {
+    const data = await this.read()
+    return data.fired[ruleId] || {}
+  }
+
+  async setFired(ruleId: string, fired: Record<string, string>): Promise<void> {
+    await this.update((data) => ({ ...data, fired: { ...data.fired, [ruleId]: fired } }))
+  }
+
+  async listNotifications(userId: string, limit: number): Promise<TrendAlertNotification[]> {
+    const data = await this.read()
+    return (data.notifications[userId] || []).slice(0, limit)
+  }
+
+  async addNotifications(userId: string, notifications: TrendAlertNotification[]): Promise<void> {
+    if (notifications.length === 0) return
+    await this.update((data) => ({
+      ...data,
+      notifications: {
+        ...data.notifications,
+        [userId]: [...notifications, ...(data.notifications[userId] || [])].slice(0, this.maxNotifications),
+      },
+    }))
+  }
+
+  async markNotificationsRead(userId: string, ids: string[] | null, readAt: string): Promise<number> {
+    let count = 0
+    await this.update((data) => ({
+      ...data,
+      notifications: {
+        ...data.notifications,
+        [userId]: (data.notifications[userId] || []).map((notification) => {
+          if (notification.readAt || (ids && !ids.includes(notification.id))) return notification
+          count++
+          return { ...notification, readAt }
+        }),
+      },
+    }))
+    return count
+  }
+
+  private async read(): Promise<TrendAlertFileData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      const notifications = Array.isArray(data?.notifications)
+        ? groupByUser(data.notifications)
+        : data?.notifications || {}
+      return { rules: data?.rules || {}, fired: data?.fired || {}, notifications }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { rules: {}, fired: {}, notifications: {} }
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  private update(change: (data: TrendAlertFileData) => TrendAlertFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
+
+// Files from before inboxes were kept per user hold one shared list; notifications without an owner are dropped
+function groupByUser(notifications: TrendAlertNotification[]): Record<string, TrendAlertNotification[]> {
+  const grouped: Record<string, TrendAlertNotification[]> = {}
+  for (const notification of notifications) {
+    if (notification.userId) (grouped[notification.userId] ||= []).push(notification)
+  }
+  return grouped
+}
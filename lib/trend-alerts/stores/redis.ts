@@ -0,0 +1,102 @@
+import type { Redis } from "@upstash/redis"
+import type { TrendAlertNotification, TrendAlertRepository, TrendAlertRule } from "../types"
+
+// Rules and per-rule de-duplication state live in hashes keyed by rule id;
+// each user's inbox is a hash keyed by notification id, trimmed to their newest entries
+export class RedisTrendAlertStore implements TrendAlertRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private maxNotifications: number,
+    private prefix = "altreach:trend-alerts",
+  ) {}
+
+  async listRules(): Promise<TrendAlertRule[]> {
+    return this.values<TrendAlertRule>(`${this.prefix}:rules`)
+  }
+
+  async getRule(id: string): Promise<TrendAlertRule | null> {
+    return this.deserialize<TrendAlertRule>(await this.client.hget(`${this.prefix}:rules`, id))
+  }
+
+  async saveRule(rule: TrendAlertRule): Promise<void> {
+    await this.client.hset(`${this.prefix}:rules`, { [rule.id]: JSON.stringify(rule) })
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const [deleted] = await this.client
+      .pipeline()
+      .hdel(`${this.prefix}:rules`, id)
+      .hdel(`${this.prefix}:fired`, id)
+      .exec<[number, number]>()
+    return deleted > 0
+  }
+
+  async getFired(ruleId: string): Promise<Record<string, string>> {
+    return this.deserialize<Record<string, string>>(await this.client.hget(`${this.prefix}:fired`, ruleId)) || {}
+  }
+
+  async setFired(ruleId: string, fired: Record<string, string>): Promise<void> {
+    await this.client.hset(`${this.prefix}:fired`, { [ruleId]: JSON.stringify(fired) })
+  }
+
+  async listNotifications(userId: string, limit: number): Promise<TrendAlertNotification[]> {
+    const notifications = await this.values<TrendAlertNotification>(this.inboxKey(userId))
+    return notifications.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, limit)
+  }
+
+  async addNotifications(userId: string, notifications: TrendAlertNotification[]): Promise<void> {
+    if (notifications.length === 0) return
+
+    const key = this.inboxKey(userId)
+    await this.client.hset(
+      key,
+      Object.fromEntries(notifications.map((notification) => [notification.id, JSON.stringify(notification)])),
+    )
+
+    const all = await this.listNotifications(userId, Number.MAX_SAFE_INTEGER)
+    const overflow = all.slice(this.maxNotifications).map((notification) => notification.id)
+    if (overflow.length > 0) {
+      await this.client.hdel(key, ...overflow)
+    }
+  }
+
+  async markNotificationsRead(userId: string, ids: string[] | null, readAt: string): Promise<number> {
+    const notifications = await this.values<TrendAlertNotification>(this.inboxKey(userId))
+    const unread = notifications.filter(
+      (notification) => !notification.readAt && (!ids || ids.includes(notification.id)),
+    )
+    if (unread.length === 0) return 0
+
+    await this.client.hset(
+      this.inboxKey(userId),
+      Object.fromEntries(unread.map((notification) => [notification.id, JSON.stringify({ ...notification, readAt })])),
+    )
+    return unread.length
+  }
+
+  private inboxKey(userId: string): string {
+    return `${this.prefix}:inbox:${userId}`
+  }
+
+  private async values<T>(key: string): Promise<T[]> {
+    const values = await this.client.hgetall<Record<string, unknown>>(key)
+    return Object.values(values || {})
+      .map((value) => this.deserialize<T>(value))
+      .filter((value): value is T => value !== null)
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize<T>(value: unknown): T | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as T
+      } catch {
+        return null
+      }
+    }
+    return value as T
+  }
+}
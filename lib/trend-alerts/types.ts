@@ -0,0 +1,117 @@
+import { z } from "zod"
+import { TREND_CATEGORIES, type TrendCategory } from "@/lib/trends/types"
+import { webhookUrlProblem } from "./channels/webhook"
+import { unsafePatternReason } from "./match"
+
+export const ALERT_MATCH_TYPES = ["keyword", "regex"] as const
+export type AlertMatchType = (typeof ALERT_MATCH_TYPES)[number]
+
+export const ALERT_CHANNEL_NAMES = ["in-app", "webhook", "email"] as const
+export type AlertChannelName = (typeof ALERT_CHANNEL_NAMES)[number]
+
+const optionalString = (schema: z.ZodString) =>
+  z.preprocess((value) => (typeof value === "string" && !value.trim() ? null : value), schema.nullable().default(null))
+
+export const TrendAlertRuleInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(80),
+    pattern: z.string().trim().min(1, "Keyword or pattern is required").max(200),
+    matchType: z.enum(ALERT_MATCH_TYPES).default("keyword"),
+    country: z.string().trim().min(1).default("worldwide"),
+    category: z.enum(TREND_CATEGORIES).default("trending"),
+    minRank: z.number().int().min(1).max(50).nullable().default(null), // Only alert at this rank or better (1 = top)
+    minVolume: z.number().int().min(0).nullable().default(null), // Trends with unknown volume never meet this
+    dedupeHours: z.number().min(0.25).max(24 * 7).default(6), // Quiet period per rule and trend after an alert
+    channels: z
+      .object({
+        inApp: z.boolean().default(true),
+        webhookUrl: optionalString(z.string().trim().url("Webhook URL must be a valid URL")),
+        email: optionalString(z.string().trim().email("Email must be a valid address")),
+      })
+      .default({}),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((rule, context) => {
+    if (rule.matchType === "regex") {
+      try {
+        new RegExp(rule.pattern, "i")
+        const unsafe = unsafePatternReason(rule.pattern)
+        if (unsafe) context.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: unsafe })
+      } catch {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: "Pattern is not a valid regex" })
+      }
+    }
+    const webhookProblem = rule.channels.webhookUrl && webhookUrlProblem(rule.channels.webhookUrl)
+    if (webhookProblem) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["channels", "webhookUrl"], message: webhookProblem })
+    }
+    if (!rule.channels.inApp && !rule.channels.webhookUrl && !rule.channels.email) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["channels"], message: "Choose at least one channel" })
+    }
+  })
+
+export type TrendAlertRuleInput = z.input<typeof TrendAlertRuleInputSchema>
+
+export interface TrendAlertRule extends z.output<typeof TrendAlertRuleInputSchema> {
+  id: string
+  userId?: string | null // Owning account; rules from before accounts have none and aren't shown to anyone
+  createdAt: string
+  updatedAt: string
+  lastTriggeredAt: string | null
+}
+
+// A trend that satisfied a rule during one evaluation
+export interface TrendAlertMatch {
+  hashtag: string
+  rank: number
+  volume: number | null
+  country: string
+  category: TrendCategory
+}
+
+export interface TrendAlertNotification extends TrendAlertMatch {
+  id: string
+  userId: string // The rule's owner
+  ruleId: string
+  ruleName: string
+  createdAt: string
+  readAt: string | null
+}
+
+export interface TrendAlertRepository {
+  readonly name: string
+  listRules(): Promise<TrendAlertRule[]>
+  getRule(id: string): Promise<TrendAlertRule | null>
+  saveRule(rule: TrendAlertRule): Promise<void>
+  deleteRule(id: string): Promise<boolean>
+  // When each trend last alerted for a rule, keyed by normalized hashtag
+  getFired(ruleId: string): Promise<Record<string, string>>
+  setFired(ruleId: string, fired: Record<string, string>): Promise<void>
+  // In-app inbox per user, newest first; each user's inbox is capped on its own
+  listNotifications(userId: string, limit: number): Promise<TrendAlertNotification[]>
+  addNotifications(userId: string, notifications: TrendAlertNotification[]): Promise<void>
+  markNotificationsRead(userId: string, ids: string[] | null, readAt: string): Promise<number>
+}
+
+// Where alerts are delivered; a channel only runs for rules that configure it
+export interface AlertChannel {
+  readonly name: AlertChannelName
+  isEnabled(rule: TrendAlertRule): boolean
+  send(rule: TrendAlertRule, matches: TrendAlertMatch[]): Promise<void>
+}
+
+export interface AlertDelivery {
+  channel: AlertChannelName
+  status: "sent" | "failed"
+  error?: string
+}
+
+// no-data: the trend sources returned nothing; deduplicated: every match already alerted within the window
+export interface TrendAlertRunResult {
+  ruleId: string
+  ruleName: string
+  status: "triggered" | "no-match" | "deduplicated" | "no-data" | "failed"
+  matches: TrendAlertMatch[]
+  deliveries: AlertDelivery[]
+  error?: string
+}
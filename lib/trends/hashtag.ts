@@ -0,0 +1,4 @@
+// "#Foo", "foo" and "#Foo " are the same trend; so are "Taylor Swift" and "#TaylorSwift"
+export function normalizeHashtag(hashtag: string): string {
+  return hashtag.replace(/^\s*#/, "").replace(/\s+/g, "").toLowerCase()
+}
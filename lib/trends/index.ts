@@ -0,0 +1,128 @@
+import path from "path"
+import redis from "@/lib/redis"
+import { FileTrendSnapshotStore } from "./stores/file"
+import { RedisTrendSnapshotStore } from "./stores/redis"
+import { normalizeHashtag } from "./hashtag"
+import type {
+  TrendCategory,
+  TrendHistory,
+  TrendHistoryPoint,
+  TrendItem,
+  TrendSnapshot,
+  TrendSnapshotRepository,
+} from "./types"
+
+// Last successful trend scrapes, served (marked as cached) when a live scrape fails,
+// plus per-hashtag rank/volume history recorded by the snapshotter
+// TRENDS_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+
+const DEFAULT_MAX_AGE_HOURS = 48
+const DEFAULT_HISTORY_DAYS = 30
+
+class TrendSnapshotService {
+  constructor(
+    private repository: TrendSnapshotRepository,
+    private maxAgeMs: number,
+  ) {}
+
+  get backend(): string {
+    return this.repository.name
+  }
+
+  setRepository(repository: TrendSnapshotRepository): void {
+    this.repository = repository
+  }
+
+  private key(country: string, category: TrendCategory, timeFilter: string): string {
+    return `${country.toLowerCase()}:${category}:${timeFilter}`
+  }
+
+  private historyKey(country: string, hashtag: string): string {
+    return `${country.toLowerCase()}:${normalizeHashtag(hashtag)}`
+  }
+
+  // Never throws: a failed cache write must not fail the request that scraped the data
+  async saveLatest(
+    country: string,
+    category: TrendCategory,
+    timeFilter: string,
+    items: TrendItem[],
+  ): Promise<TrendSnapshot | null> {
+    const snapshot: TrendSnapshot = { country, category, timeFilter, fetchedAt: new Date().toISOString(), items }
+
+    try {
+      await this.repository.saveLatest(this.key(country, category, timeFilter), snapshot)
+      return snapshot
+    } catch (error) {
+      console.error("❌ Failed to save trend snapshot:", error)
+      return null
+    }
+  }
+
+  // Returns null when there is no snapshot or it is too old to be worth showing
+  async getLatest(country: string, category: TrendCategory, timeFilter: string): Promise<TrendSnapshot | null> {
+    try {
+      const snapshot = await this.repository.getLatest(this.key(country, category, timeFilter))
+      if (!snapshot || Date.now() - new Date(snapshot.fetchedAt).getTime() > this.maxAgeMs) {
+        return null
+      }
+      return snapshot
+    } catch (error) {
+      console.error("❌ Failed to read trend snapshot:", error)
+      return null
+    }
+  }
+
+  async recordHistory(country: string, items: TrendItem[], timestamp = new Date().toISOString()): Promise<number> {
+    const points: Record<string, TrendHistoryPoint> = {}
+
+    for (const item of items) {
+      const key = this.historyKey(country, item.hashtag)
+      // The same trend can appear twice under different casing; keep its best rank
+      if (points[key] && points[key].rank <= item.rank) continue
+      points[key] = { timestamp, rank: item.rank, volume: "volume" in item ? item.volume : null }
+    }
+
+    await this.repository.appendHistory(points)
+    return Object.keys(points).length
+  }
+
+  async getHistory(country: string, hashtag: string, days: number): Promise<TrendHistory> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const points = await this.repository.getHistory(this.historyKey(country, hashtag), since)
+
+    return {
+      hashtag,
+      country,
+      points: points.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    }
+  }
+}
+
+function createDefaultRepository(): TrendSnapshotRepository {
+  const retentionMs = (Number(process.env.TRENDS_HISTORY_DAYS) || DEFAULT_HISTORY_DAYS) * 24 * 60 * 60 * 1000
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.TRENDS_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisTrendSnapshotStore(redis, retentionMs)
+  }
+
+  const filePath = process.env.TRENDS_FILE_PATH || path.join(process.cwd(), ".data", "trends.json")
+  console.warn(`⚠️ Using file-based trend snapshot store at ${filePath}`)
+  return new FileTrendSnapshotStore(filePath, retentionMs)
+}
+
+// Create singleton trend snapshot service
+const trendSnapshots = new TrendSnapshotService(
+  createDefaultRepository(),
+  (Number(process.env.TRENDS_MAX_AGE_HOURS) || DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000,
+)
+
+export default trendSnapshots
+
+export { FileTrendSnapshotStore } from "./stores/file"
+export { RedisTrendSnapshotStore } from "./stores/redis"
+export { normalizeHashtag } from "./hashtag"
+export { formatVolume, parseVolume } from "./volume"
+export * from "./types"
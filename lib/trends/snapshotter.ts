@@ -0,0 +1,95 @@
+import trendSnapshots from "./index"
+import { fetchTrends } from "./sources"
+
+// Records the "trending now" list of each configured country so hashtags get a rank/volume history
+// Triggered by the cron route on Vercel, or on an interval in long-running servers (see instrumentation.ts)
+// TRENDS_SNAPSHOT_COUNTRIES is a comma-separated list of country slugs (default "worldwide")
+
+const DEFAULT_INTERVAL_MINUTES = 60
+
+export interface SnapshotRunResult {
+  country: string
+  status: "saved" | "empty" | "failed"
+  count: number
+  error?: string
+}
+
+export function snapshotCountries(): string[] {
+  const countries = (process.env.TRENDS_SNAPSHOT_COUNTRIES || "worldwide")
+    .split(",")
+    .map((country) => country.trim().toLowerCase())
+    .filter(Boolean)
+  return countries.length > 0 ? countries : ["worldwide"]
+}
+
+class TrendSnapshotter {
+  private timer: NodeJS.Timeout | null = null
+  private running: Promise<SnapshotRunResult[]> | null = null
+
+  // Overlapping triggers (cron plus interval) share the run already in progress
+  runOnce(countries = snapshotCountries()): Promise<SnapshotRunResult[]> {
+    if (!this.running) {
+      this.running = this.snapshot(countries).finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  start(intervalMinutes = Number(process.env.TRENDS_SNAPSHOT_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES): void {
+    if (this.timer) return
+
+    console.log(`📈 Trend snapshotter running every ${intervalMinutes} minutes`)
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => console.error("❌ Trend snapshot run failed:", error))
+    }, intervalMinutes * 60 * 1000)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Countries are scraped one at a time to stay polite to the sources
+  private async snapshot(countries: string[]): Promise<SnapshotRunResult[]> {
+    const results: SnapshotRunResult[] = []
+
+    for (const country of countries) {
+      try {
+        const { trends, sources } = await fetchTrends({ country, category: "trending", timeFilter: "now" })
+        const trending = trends.trending || []
+
+        if (trending.length === 0) {
+          const failed = sources.filter((source) => source.status === "failed")
+          console.warn(`⚠️ Trend snapshot for ${country} found no trends`)
+          results.push({
+            country,
+            status: failed.length > 0 && failed.length === sources.length ? "failed" : "empty",
+            count: 0,
+            error: failed.map((source) => `${source.source}: ${source.error}`).join("; ") || undefined,
+          })
+          continue
+        }
+
+        const snapshot = await trendSnapshots.saveLatest(country, "trending", "now", trending)
+        const count = await trendSnapshots.recordHistory(country, trending, snapshot?.fetchedAt)
+
+        console.log(`✅ Recorded ${count} trends for ${country}`)
+        results.push({ country, status: "saved", count })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error"
+        console.error(`❌ Trend snapshot for ${country} failed:`, message)
+        results.push({ country, status: "failed", count: 0, error: message })
+      }
+    }
+
+    return results
+  }
+}
+
+// Create singleton trend snapshotter
+const trendSnapshotter = new TrendSnapshotter()
+
+export default trendSnapshotter
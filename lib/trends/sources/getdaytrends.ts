@@ -0,0 +1,203 @@
+import * as cheerio from "cheerio"
+import type { Country } from "../types"
+import { cleanCount, toHashtag } from "./http"
+import type { SourceTrend, TrendQuery, TrendSource } from "./types"
+
+// getdaytrends.com: X/Twitter trends with tweet volumes, plus most-tweeted and longest-trending lists
+
+const MAX_TRENDS = 50
+const HEADER_LABELS = new Set(["rank", "hashtag", "trend", "trends", "tweets", "duration"])
+
+// Helper function to extract countries from getdaytrends homepage
+export async function extractCountriesFromSite(): Promise<Country[]> {
+  try {
+    console.log("Fetching countries from getdaytrends.com...")
+    const response = await fetch("https://getdaytrends.com/", {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+        "Accept-Language": "en-US,en;q=0.5",
+        "Accept-Encoding": "gzip, deflate, br",
+        Connection: "keep-alive",
+        "Upgrade-Insecure-Requests": "1",
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    const html = await response.text()
+    const $ = cheerio.load(html)
+    const countries: Country[] = []
+
+    // Add worldwide as default
+    countries.push({
+      label: "Worldwide",
+      slug: "worldwide",
+      url: "https://getdaytrends.com/",
+    })
+
+    // Extract countries from the dropdown or navigation
+    // This selector might need adjustment based on the actual HTML structure
+    $('select[name="country"] option, .country-list a, .dropdown-menu a').each((_, element) => {
+      const $el = $(element)
+      const text = $el.text().trim()
+      const href = $el.attr("href") || $el.attr("value")
+
+      if (text && href && text !== "Worldwide") {
+        const slug = href.replace(/^\//, "").replace(/\/$/, "") || text.toLowerCase().replace(/\s+/g, "-")
+        countries.push({
+          label: text,
+          slug: slug,
+          url: `https://getdaytrends.com/${slug}/`,
+        })
+      }
+    })
+
+    // If no countries found with selectors, use fallback extraction
+    if (countries.length <= 1) {
+      // Try to find country links in the page
+      $('a[href*="/"]').each((_, element) => {
+        const $el = $(element)
+        const href = $el.attr("href")
+        const text = $el.text().trim()
+
+        if (href && text && href.match(/^\/[a-z-]+\/$/) && text.length > 2 && text.length < 30) {
+          const slug = href.replace(/^\//, "").replace(/\/$/, "")
+          if (!countries.some((c) => c.slug === slug)) {
+            countries.push({
+              label: text,
+              slug: slug,
+              url: `https://getdaytrends.com${href}`,
+            })
+          }
+        }
+      })
+    }
+
+    console.log(`Extracted ${countries.length} countries from getdaytrends.com`)
+    return countries.slice(0, 50) // Limit to 50 countries
+  } catch (error) {
+    console.error("Error extracting countries:", error)
+    return getDefaultCountries()
+  }
+}
+
+// Helper function to get default countries
+export function getDefaultCountries(): Country[] {
+  return [
+    { label: "Worldwide", slug: "worldwide", url: "https://getdaytrends.com/" },
+    { label: "United States", slug: "united-states", url: "https://getdaytrends.com/united-states/" },
+    { label: "United Kingdom", slug: "united-kingdom", url: "https://getdaytrends.com/united-kingdom/" },
+    { label: "Canada", slug: "canada", url: "https://getdaytrends.com/canada/" },
+    { label: "Australia", slug: "australia", url: "https://getdaytrends.com/australia/" },
+    { label: "India", slug: "india", url: "https://getdaytrends.com/india/" },
+    { label: "Japan", slug: "japan", url: "https://getdaytrends.com/japan/" },
+    { label: "Brazil", slug: "brazil", url: "https://getdaytrends.com/brazil/" },
+    { label: "Germany", slug: "germany", url: "https://getdaytrends.com/germany/" },
+    { label: "France", slug: "france", url: "https://getdaytrends.com/france/" },
+  ]
+}
+
+// Helper function to build trends URLs
+function buildTrendsUrls({ country, category, timeFilter }: TrendQuery): string[] {
+  const baseCountry = country === "worldwide" ? "" : country.toLowerCase()
+  const base = baseCountry ? `https://getdaytrends.com/${baseCountry}` : "https://getdaytrends.com"
+  const urls: string[] = []
+
+  if (category === "trending") {
+    if (timeFilter === "now") {
+      urls.push(`${base}/`)
+    } else {
+      // Convert timeFilter like "1h", "6h", "12h", "24h" to just the number
+      const hours = timeFilter.replace("h", "")
+      urls.push(`${base}/${hours}/`)
+    }
+  } else if (category === "top") {
+    // Map timeFilter to range for top tweeted
+    const rangeMap: { [key: string]: string } = {
+      "24h": "day",
+      "7d": "week",
+      "30d": "month",
+      year: "year",
+    }
+    const range = rangeMap[timeFilter]
+    if (range) {
+      urls.push(`${base}/top/tweeted/${range}/`)
+    }
+  } else if (category === "longest") {
+    // Map timeFilter to range for longest trending
+    const rangeMap: { [key: string]: string } = {
+      "24h": "day",
+      "7d": "week",
+      "30d": "month",
+      year: "year",
+    }
+    const range = rangeMap[timeFilter]
+    if (range) {
+      urls.push(`${base}/top/longest/${range}/`)
+    }
+  }
+
+  return urls
+}
+
+// Reads trend rows. Handles both "name | count" tables and a single cell with the count underneath the name.
+function parseGetDayTrends(body: string, { category }: TrendQuery): SourceTrend[] {
+  const $ = cheerio.load(body)
+  const trends: SourceTrend[] = []
+  const seen = new Set<string>()
+
+  const add = (name: string, metric: string | null) => {
+    const trimmed = name.replace(/\s+/g, " ").trim()
+    if (trends.length >= MAX_TRENDS || trimmed.length < 2 || HEADER_LABELS.has(trimmed.toLowerCase())) return
+
+    const hashtag = toHashtag(trimmed)
+    if (seen.has(hashtag.toLowerCase())) return
+    seen.add(hashtag.toLowerCase())
+
+    // The longest-trending list reports a duration where the others report tweet volume
+    const value = cleanCount(cleanCount(metric)?.replace(/(tweets|posts)$/i, ""))
+    trends.push({
+      hashtag,
+      rank: trends.length + 1,
+      tweetCount: category === "longest" ? null : value,
+      duration: category === "longest" ? value : null,
+    })
+  }
+
+  // Strategy 1: table rows
+  $("table tr").each((_, element) => {
+    const $cells = $(element).find("td")
+    if ($cells.length === 0) return
+
+    const $main = $cells.eq(0)
+    const name = $main.find("a").first().text() || $main.clone().find(".desc").remove().end().text()
+    const metric = $cells.length >= 2 ? $cells.eq(1).text() : $main.find(".desc, .small, .text-muted").first().text()
+    add(name, metric)
+  })
+
+  // Strategy 2: links to trend pages, when the layout has no table
+  if (trends.length === 0) {
+    $('a[href*="/trend/"], a[href*="twitter.com/search"], a[href*="x.com/search"]').each((_, element) => {
+      const $link = $(element)
+      const text = $link.text().trim()
+      if (text.length > 50) return
+
+      const metric = $link.closest("tr, li, div").find(".count, .volume, .desc").first().text()
+      add(text, metric)
+    })
+  }
+
+  return trends
+}
+
+export const getDayTrendsSource: TrendSource = {
+  name: "getdaytrends",
+  platform: "twitter",
+  supports: () => true,
+  urls: buildTrendsUrls,
+  parse: parseGetDayTrends,
+}
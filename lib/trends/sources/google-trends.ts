@@ -0,0 +1,29 @@
+import * as cheerio from "cheerio"
+import { COUNTRY_CODES, toHashtag } from "./http"
+import type { SourceTrend, TrendQuery, TrendSource } from "./types"
+
+// Google Trends "trending now" RSS feed: rising searches per country (no worldwide feed)
+// Its approx_traffic figure counts searches, not tweets, so it is never reported as tweet volume
+
+function parseGoogleTrends(body: string, _query: TrendQuery): SourceTrend[] {
+  const $ = cheerio.load(body, { xmlMode: true })
+  const trends: SourceTrend[] = []
+
+  $("item").each((_, element) => {
+    const title = $(element).children("title").first().text().trim()
+    if (!title) return
+
+    trends.push({ hashtag: toHashtag(title), rank: trends.length + 1, tweetCount: null, duration: null })
+  })
+
+  return trends
+}
+
+export const googleTrendsSource: TrendSource = {
+  name: "google-trends",
+  platform: "google",
+  supports: ({ country, category, timeFilter }) =>
+    category === "trending" && timeFilter === "now" && country in COUNTRY_CODES,
+  urls: ({ country }) => [`https://trends.google.com/trending/rss?geo=${COUNTRY_CODES[country]}`],
+  parse: parseGoogleTrends,
+}
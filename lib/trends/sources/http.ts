@@ -0,0 +1,77 @@
+const BROWSER_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+  "Accept-Encoding": "gzip, deflate, br",
+  Connection: "keep-alive",
+  "Upgrade-Insecure-Requests": "1",
+  "Cache-Control": "no-cache",
+}
+
+// Helper function to fetch page with retry and proper headers
+export async function fetchPageWithRetry(url: string, maxRetries: number): Promise<string> {
+  let retries = 0
+  while (retries < maxRetries) {
+    try {
+      console.log(`Fetching: ${url} (attempt ${retries + 1})`)
+      const response = await fetch(url, {
+        headers: BROWSER_HEADERS,
+        signal: AbortSignal.timeout(10000), // 10 second timeout
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const html = await response.text()
+      console.log(`Successfully fetched ${url} (${html.length} characters)`)
+      return html
+    } catch (error) {
+      console.log(`Attempt ${retries + 1} failed for ${url}:`, error instanceof Error ? error.message : error)
+      retries++
+      if (retries < maxRetries) {
+        await new Promise((resolve) => setTimeout(resolve, 1000 * retries)) // Exponential backoff
+      }
+    }
+  }
+  throw new Error(`Failed to fetch ${url} after ${maxRetries} retries`)
+}
+
+// Blank cells and dashes mean the source has no figure; never substitute one
+export function cleanCount(text: string | null | undefined): string | null {
+  const value = (text || "").replace(/\s+/g, " ").trim()
+  return value && value !== "-" ? value : null
+}
+
+// Plain trend names ("Taylor Swift") are shown as hashtags, like the sources' own hashtag trends
+export function toHashtag(name: string): string {
+  const trimmed = name.replace(/\s+/g, " ").trim()
+  return trimmed.startsWith("#") ? trimmed : `#${trimmed}`
+}
+
+// Country slugs (as used by getdaytrends and trends24) to ISO codes, for sources keyed by country code
+export const COUNTRY_CODES: Record<string, string> = {
+  "united-states": "US",
+  "united-kingdom": "GB",
+  canada: "CA",
+  australia: "AU",
+  india: "IN",
+  japan: "JP",
+  brazil: "BR",
+  germany: "DE",
+  france: "FR",
+  spain: "ES",
+  italy: "IT",
+  mexico: "MX",
+  argentina: "AR",
+  netherlands: "NL",
+  ireland: "IE",
+  "new-zealand": "NZ",
+  philippines: "PH",
+  singapore: "SG",
+  "south-africa": "ZA",
+  turkey: "TR",
+  indonesia: "ID",
+  nigeria: "NG",
+}
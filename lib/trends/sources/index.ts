@@ -0,0 +1,84 @@
+import { fetchPageWithRetry } from "./http"
+import { getDayTrendsSource } from "./getdaytrends"
+import { googleTrendsSource } from "./google-trends"
+import { mergeTrends, toTrendItems, type SourceTrendList } from "./merge"
+import { redditSource } from "./reddit"
+import { trends24Source } from "./trends24"
+import type { TrendCategory, TrendsResponse } from "../types"
+import type { TrendQuery, TrendSource, TrendSourceName, TrendSourceResult } from "./types"
+
+// Trend lists fanned out over several sources and merged
+// TRENDS_SOURCES is a comma-separated list of source names (default: all, in the order below)
+
+// Priority order: earlier sources win ties and provide display names and counts
+export const TREND_SOURCES: TrendSource[] = [getDayTrendsSource, trends24Source, googleTrendsSource, redditSource]
+
+export function enabledTrendSources(): TrendSource[] {
+  const names = process.env.TRENDS_SOURCES?.split(",").map((name) => name.trim())
+  if (!names || names.every((name) => !name)) return TREND_SOURCES
+  return TREND_SOURCES.filter((source) => names.includes(source.name))
+}
+
+export interface TrendFetchResult {
+  trends: Pick<TrendsResponse, TrendCategory>
+  count: number
+  sources: TrendSourceResult[]
+}
+
+// Fetches the first URL that responds and parses it; throws when none respond
+async function fetchFromSource(source: TrendSource, query: TrendQuery) {
+  let lastError: unknown = null
+
+  for (const url of source.urls(query)) {
+    try {
+      return source.parse(await fetchPageWithRetry(url, 2), query)
+    } catch (error) {
+      lastError = error
+      console.log(`Failed to load ${source.name} from ${url}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`No ${source.name} URL for this query`)
+}
+
+// Never throws: sources that fail are reported in `sources`, and an empty merge means nothing usable was found
+export async function fetchTrends(
+  query: TrendQuery,
+  sources: TrendSource[] = enabledTrendSources(),
+): Promise<TrendFetchResult> {
+  const supported = sources.filter((source) => source.supports(query))
+  const settled = await Promise.allSettled(supported.map((source) => fetchFromSource(source, query)))
+
+  const lists: SourceTrendList[] = []
+  const results: TrendSourceResult[] = settled.map((outcome, index) => {
+    const source = supported[index]
+    const name: TrendSourceName = source.name
+
+    if (outcome.status === "rejected") {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : "Unknown error"
+      console.error(`❌ Trend source ${name} failed:`, error)
+      return { source: name, status: "failed", count: 0, error }
+    }
+
+    // A page that loads but parses to nothing usually means its layout changed
+    if (outcome.value.length === 0) {
+      console.warn(`⚠️ Trend source ${name} returned no trends`)
+      return { source: name, status: "empty", count: 0 }
+    }
+
+    lists.push({ source, trends: outcome.value })
+    return { source: name, status: "ok", count: outcome.value.length }
+  })
+
+  const merged = mergeTrends(lists)
+  console.log(
+    `Merged ${merged.length} ${query.category} trends from`,
+    results.map((result) => `${result.source}:${result.status}`).join(", ") || "no sources",
+  )
+
+  return { trends: toTrendItems(query, merged), count: merged.length, sources: results }
+}
+
+export { extractCountriesFromSite, getDefaultCountries } from "./getdaytrends"
+export { filterByPlatform, mergeTrends, toTrendItems } from "./merge"
+export * from "./types"
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { filterByPlatform, mergeTrends, toTrendItems } from "./merge"
+import { getDayTrendsSource } from "./getdaytrends"
+import { googleTrendsSource } from "./google-trends"
+import { redditSource } from "./reddit"
+import type { SourceTrend, TrendQuery } from "./types"
+
+const query: TrendQuery = { country: "united-states", category: "trending", timeFilter: "now" }
+
+function trend(hashtag: string, rank: number, tweetCount: string | null = null): SourceTrend {
+  return { hashtag, rank, tweetCount, duration: null }
+}
+
+describe("mergeTrends", () => {
+  const merged = mergeTrends([
+    { source: getDayTrendsSource, trends: [trend("#AI", 1, "215K"), trend("Celtics", 2)] },
+    { source: googleTrendsSource, trends: [trend("#celtics", 1), trend("#taylor swift", 2)] },
+    { source: redditSource, trends: [trend("#nba", 1)] },
+  ])
+
+  it("records the sources and platforms that listed each trend", () => {
+    const celtics = merged.find((item) => item.hashtag === "Celtics")
+    expect(celtics?.sources).toEqual(["getdaytrends", "google-trends"])
+    expect(celtics?.platforms).toEqual(["twitter", "google"])
+    expect(merged.find((item) => item.hashtag === "#nba")?.platforms).toEqual(["reddit"])
+  })
+
+  it("carries the platforms onto the response items", () => {
+    const { trending } = toTrendItems(query, merged)
+    expect(trending?.every((item) => item.platforms && item.platforms.length > 0)).toBe(true)
+  })
+
+  it("keeps only the requested platforms and renumbers the ranks", () => {
+    const { trending = [] } = toTrendItems(query, merged)
+    const xOnly = filterByPlatform(trending, ["twitter"])
+
+    expect(xOnly.map((item) => item.hashtag)).toEqual(["#AI", "Celtics"])
+    expect(xOnly.map((item) => item.rank)).toEqual([1, 2])
+    expect(filterByPlatform(trending, ["twitter", "google", "reddit"])).toHaveLength(trending.length)
+  })
+
+  it("keeps items saved without platforms", () => {
+    const { trending = [] } = toTrendItems(query, merged)
+    const legacy = trending.map(({ platforms: _platforms, ...item }) => item)
+    expect(filterByPlatform(legacy, ["twitter"])).toHaveLength(legacy.length)
+  })
+})
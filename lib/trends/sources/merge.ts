@@ -0,0 +1,127 @@
+import { normalizeHashtag } from "../hashtag"
+import {
+  LongestItemSchema,
+  TopItemSchema,
+  TrendingItemSchema,
+  type TrendCategory,
+  type TrendItem,
+  type TrendPlatform,
+  type TrendsResponse,
+} from "../types"
+import { parseVolume } from "../volume"
+import type { SourceTrend, TrendQuery, TrendSource, TrendSourceName } from "./types"
+
+const MAX_MERGED_TRENDS = 30
+
+// How much a listing counts towards the merged ranking
+const PLATFORM_WEIGHTS: Record<TrendPlatform, number> = {
+  twitter: 1,
+  google: 0.5,
+  reddit: 0.5,
+}
+
+export interface SourceTrendList {
+  source: TrendSource
+  trends: SourceTrend[]
+}
+
+export interface MergedTrend {
+  hashtag: string
+  score: number
+  tweetCount: string | null
+  duration: string | null
+  sources: TrendSourceName[]
+  platforms: TrendPlatform[]
+}
+
+// Deduplicates trends across sources; each listing adds weight / rank, so trends high on several lists come first.
+// Lists are given in source priority order, which decides the display name and which count is kept.
+export function mergeTrends(lists: SourceTrendList[]): MergedTrend[] {
+  const merged = new Map<string, MergedTrend>()
+
+  for (const { source, trends } of lists) {
+    for (const trend of trends) {
+      const key = normalizeHashtag(trend.hashtag)
+      if (!key) continue
+
+      const existing = merged.get(key)
+      const score = PLATFORM_WEIGHTS[source.platform] / trend.rank
+
+      if (!existing) {
+        merged.set(key, {
+          hashtag: trend.hashtag,
+          score,
+          tweetCount: trend.tweetCount,
+          duration: trend.duration,
+          sources: [source.name],
+          platforms: [source.platform],
+        })
+        continue
+      }
+
+      if (existing.sources.includes(source.name)) continue
+      existing.score += score
+      existing.tweetCount = existing.tweetCount ?? trend.tweetCount
+      existing.duration = existing.duration ?? trend.duration
+      existing.sources.push(source.name)
+      if (!existing.platforms.includes(source.platform)) existing.platforms.push(source.platform)
+    }
+  }
+
+  // Map keeps insertion order, and sort is stable, so ties stay in source priority order
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MERGED_TRENDS)
+}
+
+// Normalizes merged trends into the response schema for the query's category, dropping anything invalid
+export function toTrendItems(
+  { category, timeFilter }: TrendQuery,
+  trends: MergedTrend[],
+): Pick<TrendsResponse, TrendCategory> {
+  const base = (trend: MergedTrend, index: number) => ({
+    rank: index + 1,
+    hashtag: trend.hashtag,
+    dataSource: "scraped" as const,
+    sources: trend.sources,
+    platforms: trend.platforms,
+  })
+
+  if (category === "longest") {
+    return {
+      longest: trends
+        .map((trend, index) =>
+          LongestItemSchema.safeParse({ ...base(trend, index), duration: trend.duration, lastSeen: timeFilter }),
+        )
+        .flatMap((result) => (result.success ? [result.data] : [])),
+    }
+  }
+
+  const counts = (trend: MergedTrend) => ({ tweetCount: trend.tweetCount, volume: parseVolume(trend.tweetCount) })
+
+  if (category === "top") {
+    return {
+      top: trends
+        .map((trend, index) =>
+          TopItemSchema.safeParse({ ...base(trend, index), ...counts(trend), recordedAt: timeFilter }),
+        )
+        .flatMap((result) => (result.success ? [result.data] : [])),
+    }
+  }
+
+  return {
+    trending: trends
+      .map((trend, index) =>
+        TrendingItemSchema.safeParse({ ...base(trend, index), ...counts(trend), time: timeFilter }),
+      )
+      .flatMap((result) => (result.success ? [result.data] : [])),
+  }
+}
+
+// Keeps the items listed on at least one of the platforms and renumbers them.
+// Items that carry no platforms (mock data, snapshots saved before platforms were recorded) are kept.
+export function filterByPlatform<T extends TrendItem>(items: T[], platforms: TrendPlatform[]): T[] {
+  return items
+    .filter((item) => !item.platforms || item.platforms.some((platform) => platforms.includes(platform)))
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+}
@@ -0,0 +1,47 @@
+import { COUNTRY_CODES, toHashtag } from "./http"
+import type { SourceTrend, TrendQuery, TrendSource } from "./types"
+
+// Reddit r/popular JSON feed: the communities with the hottest posts right now
+// Upvotes aren't tweets, so no volume is reported
+
+// Countries Reddit's geo_filter accepts
+const REDDIT_REGIONS = new Set([
+  "US", "GB", "CA", "AU", "IN", "JP", "BR", "DE", "FR", "ES", "IT", "MX", "AR", "IE", "NZ", "PH", "SG", "TR",
+])
+
+interface RedditListing {
+  data?: {
+    children?: { data?: { subreddit?: string; score?: number; over_18?: boolean } }[]
+  }
+}
+
+function regionFor(country: string): string | null {
+  if (country === "worldwide") return "GLOBAL"
+  const code = COUNTRY_CODES[country]
+  return code && REDDIT_REGIONS.has(code) ? code : null
+}
+
+// Ranks communities by the combined score of their posts on the popular page
+function parseReddit(body: string, _query: TrendQuery): SourceTrend[] {
+  const listing: RedditListing = JSON.parse(body)
+  const scores = new Map<string, number>()
+
+  for (const child of listing.data?.children || []) {
+    const post = child.data
+    if (!post?.subreddit || post.over_18) continue
+    scores.set(post.subreddit, (scores.get(post.subreddit) || 0) + (post.score || 0))
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([subreddit], index) => ({ hashtag: toHashtag(subreddit), rank: index + 1, tweetCount: null, duration: null }))
+}
+
+export const redditSource: TrendSource = {
+  name: "reddit",
+  platform: "reddit",
+  supports: ({ country, category, timeFilter }) =>
+    category === "trending" && timeFilter === "now" && regionFor(country) !== null,
+  urls: ({ country }) => [`https://www.reddit.com/r/popular.json?limit=50&geo_filter=${regionFor(country)}`],
+  parse: parseReddit,
+}
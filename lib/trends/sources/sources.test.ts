@@ -0,0 +1,74 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { getDayTrendsSource } from "./getdaytrends"
+import { googleTrendsSource } from "./google-trends"
+import { redditSource } from "./reddit"
+import { trends24Source } from "./trends24"
+import type { TrendQuery } from "./types"
+
+// Each adapter against the page it was written for, saved in ./fixtures
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, "fixtures", name), "utf8")
+}
+
+const trending: TrendQuery = { country: "united-states", category: "trending", timeFilter: "now" }
+
+describe("getdaytrends", () => {
+  it("reads names and tweet counts from the trending table", () => {
+    expect(getDayTrendsSource.parse(fixture("getdaytrends-trending.html"), trending)).toEqual([
+      { hashtag: "#MondayMotivation", rank: 1, tweetCount: "48.2K", duration: null },
+      { hashtag: "#Taylor Swift", rank: 2, tweetCount: "1.2M", duration: null },
+      { hashtag: "#NBAFinals", rank: 3, tweetCount: "Under 10K", duration: null },
+      { hashtag: "#Good Monday", rank: 4, tweetCount: null, duration: null },
+      { hashtag: "#AI", rank: 5, tweetCount: "215K", duration: null },
+    ])
+  })
+
+  it("reads durations, not tweet counts, from the longest table", () => {
+    const query: TrendQuery = { ...trending, category: "longest", timeFilter: "24h" }
+    expect(getDayTrendsSource.parse(fixture("getdaytrends-longest.html"), query)).toEqual([
+      { hashtag: "#WorldCup", rank: 1, tweetCount: null, duration: "3 days 4 hrs" },
+      { hashtag: "#Elections", rank: 2, tweetCount: null, duration: "2 days 11 hrs" },
+      { hashtag: "#FridayFeeling", rank: 3, tweetCount: null, duration: null },
+    ])
+  })
+})
+
+describe("trends24", () => {
+  it("prefers the exact data-count and falls back to the abbreviated text", () => {
+    expect(trends24Source.parse(fixture("trends24.html"), trending)).toEqual([
+      { hashtag: "#MondayMotivation", rank: 1, tweetCount: "48213", duration: null },
+      { hashtag: "#AI", rank: 2, tweetCount: "215K", duration: null },
+      { hashtag: "#Celtics", rank: 3, tweetCount: null, duration: null },
+      { hashtag: "#Taylor Swift", rank: 4, tweetCount: "1204511", duration: null },
+    ])
+  })
+
+  it("reads the list for the requested hour", () => {
+    const hashtags = trends24Source.parse(fixture("trends24.html"), { ...trending, timeFilter: "1h" })
+    expect(hashtags.map((trend) => trend.hashtag)).toEqual(["#NationalDonutDay", "#MondayMotivation"])
+  })
+})
+
+describe("google-trends", () => {
+  it("reads item titles and never reports search traffic as tweets", () => {
+    expect(googleTrendsSource.parse(fixture("google-trends.xml"), trending)).toEqual([
+      { hashtag: "#taylor swift", rank: 1, tweetCount: null, duration: null },
+      { hashtag: "#celtics", rank: 2, tweetCount: null, duration: null },
+      { hashtag: "#national donut day", rank: 3, tweetCount: null, duration: null },
+    ])
+  })
+})
+
+describe("reddit", () => {
+  it("ranks subreddits by combined score and skips NSFW posts", () => {
+    expect(redditSource.parse(fixture("reddit-popular.json"), trending)).toEqual([
+      { hashtag: "#nba", rank: 1, tweetCount: null, duration: null },
+      { hashtag: "#pics", rank: 2, tweetCount: null, duration: null },
+      { hashtag: "#TaylorSwift", rank: 3, tweetCount: null, duration: null },
+      { hashtag: "#AskReddit", rank: 4, tweetCount: null, duration: null },
+    ])
+  })
+})
@@ -0,0 +1,44 @@
+import * as cheerio from "cheerio"
+import { cleanCount, toHashtag } from "./http"
+import type { SourceTrend, TrendQuery, TrendSource } from "./types"
+
+// trends24.in: hourly X/Twitter trend lists per country, newest first
+
+const TIME_FILTER_HOURS: Record<string, number> = { now: 0, "1h": 1, "6h": 6, "12h": 12, "24h": 24 }
+
+function parseTrends24(body: string, { timeFilter }: TrendQuery): SourceTrend[] {
+  const $ = cheerio.load(body)
+
+  // Each hour is its own ordered list; pick the one for the requested time, or the oldest shown
+  const cards = $("ol.trend-card__list")
+  if (cards.length === 0) return []
+  const card = cards.eq(Math.min(TIME_FILTER_HOURS[timeFilter] ?? 0, cards.length - 1))
+
+  const trends: SourceTrend[] = []
+  card.find("li").each((_, element) => {
+    const $item = $(element)
+    const name = $item.find("a").first().text().trim()
+    if (!name) return
+
+    // data-count carries the exact figure when the page has one; the text is abbreviated ("12K")
+    const $count = $item.find(".tweet-count").first()
+    const exact = $count.attr("data-count")
+
+    trends.push({
+      hashtag: toHashtag(name),
+      rank: trends.length + 1,
+      tweetCount: exact && /^\d+$/.test(exact) ? exact : cleanCount($count.text()),
+      duration: null,
+    })
+  })
+
+  return trends
+}
+
+export const trends24Source: TrendSource = {
+  name: "trends24",
+  platform: "twitter",
+  supports: ({ category, timeFilter }) => category === "trending" && timeFilter in TIME_FILTER_HOURS,
+  urls: ({ country }) => [country === "worldwide" ? "https://trends24.in/" : `https://trends24.in/${country}/`],
+  parse: parseTrends24,
+}
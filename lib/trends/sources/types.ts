@@ -0,0 +1,35 @@
+import type { TrendCategory, TrendPlatform } from "../types"
+
+export type TrendSourceName = "getdaytrends" | "trends24" | "google-trends" | "reddit"
+
+export interface TrendQuery {
+  country: string // Country slug, "worldwide" for global lists
+  category: TrendCategory
+  timeFilter: string
+}
+
+// One trend as a source lists it, before merging. tweetCount is only set by sources that report X/Twitter volume.
+export interface SourceTrend {
+  hashtag: string
+  rank: number
+  tweetCount: string | null
+  duration: string | null
+}
+
+export interface TrendSource {
+  name: TrendSourceName
+  // X/Twitter sources rank above search and Reddit signals when lists are merged
+  platform: TrendPlatform
+  supports(query: TrendQuery): boolean
+  // Tried in order until one responds
+  urls(query: TrendQuery): string[]
+  // Pure parser over the fetched body, so adapters can be checked against the saved fixtures offline
+  parse(body: string, query: TrendQuery): SourceTrend[]
+}
+
+export interface TrendSourceResult {
+  source: TrendSourceName
+  status: "ok" | "empty" | "failed"
+  count: number
+  error?: string
+}
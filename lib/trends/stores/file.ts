@@ -0,0 +1,80 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { TrendHistoryPoint, TrendSnapshot, TrendSnapshotRepository } from "../types"
+
+interface TrendFileData {
+  latest: Record<string, TrendSnapshot>
+  history: Record<string, TrendHistoryPoint[]>
+}
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileTrendSnapshotStore implements TrendSnapshotRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private filePath: string,
+    private retentionMs: number,
+  ) {}
+
+  async getLatest(key: string): Promise<TrendSnapshot | null> {
+    const data = await this.read()
+    return data.latest[key] || null
+  }
+
+  async saveLatest(key: string, snapshot: TrendSnapshot): Promise<void> {
+    await this.update((data) => ({ ...data, latest: { ...data.latest, [key]: snapshot } }))
+  }
+
+  async appendHistory(points: Record<string, TrendHistoryPoint>): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs
+
+    await this.update((data) => {
+      const history = { ...data.history }
+      for (const [key, point] of Object.entries(points)) {
+        history[key] = [...(history[key] || []), point]
+      }
+
+      // Drop expired points, and hashtags that haven't trended within the retention window
+      for (const key of Object.keys(history)) {
+        history[key] = history[key].filter((point) => new Date(point.timestamp).getTime() >= cutoff)
+        if (history[key].length === 0) delete history[key]
+      }
+
+      return { ...data, history }
+    })
+  }
+
+  async getHistory(key: string, since: string): Promise<TrendHistoryPoint[]> {
+    const data = await this.read()
+    const from = new Date(since).getTime()
+    return (data.history[key] || []).filter((point) => new Date(point.timestamp).getTime() >= from)
+  }
+
+  private async read(): Promise<TrendFileData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      return { latest: data?.latest || {}, history: data?.history || {} }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { latest: {}, history: {} }
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  private update(change: (data: TrendFileData) => TrendFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
@@ -0,0 +1,65 @@
+import type { Redis } from "@upstash/redis"
+import type { TrendHistoryPoint, TrendSnapshot, TrendSnapshotRepository } from "../types"
+
+// Latest snapshot per country/category/time filter under its own key;
+// history is a sorted set per country and hashtag, scored by observation time
+export class RedisTrendSnapshotStore implements TrendSnapshotRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private retentionMs: number,
+    private prefix = "altreach:trends",
+  ) {}
+
+  async getLatest(key: string): Promise<TrendSnapshot | null> {
+    return this.deserialize<TrendSnapshot>(await this.client.get(`${this.prefix}:latest:${key}`))
+  }
+
+  async saveLatest(key: string, snapshot: TrendSnapshot): Promise<void> {
+    await this.client.set(`${this.prefix}:latest:${key}`, JSON.stringify(snapshot))
+  }
+
+  async appendHistory(points: Record<string, TrendHistoryPoint>): Promise<void> {
+    const entries = Object.entries(points)
+    if (entries.length === 0) return
+
+    const cutoff = Date.now() - this.retentionMs
+    const pipeline = this.client.pipeline()
+
+    for (const [key, point] of entries) {
+      const historyKey = `${this.prefix}:history:${key}`
+      pipeline.zadd(historyKey, { score: new Date(point.timestamp).getTime(), member: JSON.stringify(point) })
+      pipeline.zremrangebyscore(historyKey, 0, cutoff)
+      // Hashtags that stop trending expire on their own
+      pipeline.pexpire(historyKey, this.retentionMs)
+    }
+
+    await pipeline.exec()
+  }
+
+  async getHistory(key: string, since: string): Promise<TrendHistoryPoint[]> {
+    const members = await this.client.zrange<unknown[]>(
+      `${this.prefix}:history:${key}`,
+      new Date(since).getTime(),
+      "+inf",
+      { byScore: true },
+    )
+    return members
+      .map((member) => this.deserialize<TrendHistoryPoint>(member))
+      .filter((point): point is TrendHistoryPoint => point !== null)
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize<T>(value: unknown): T | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as T
+      } catch {
+        return null
+      }
+    }
+    return value as T
+  }
+}
@@ -0,0 +1,112 @@
+import { z } from "zod"
+
+export const TREND_CATEGORIES = ["trending", "top", "longest"] as const
+export type TrendCategory = (typeof TREND_CATEGORIES)[number]
+
+// scraped: fetched just now; cached: last good scrape, served because the live fetch failed; mock: placeholders
+export const TREND_DATA_SOURCES = ["scraped", "cached", "mock"] as const
+export type TrendDataSource = (typeof TREND_DATA_SOURCES)[number]
+
+// Where a trend source's lists come from; only "twitter" sources list actual X trends
+export const TREND_PLATFORMS = ["twitter", "google", "reddit"] as const
+export type TrendPlatform = (typeof TREND_PLATFORMS)[number]
+
+export const CountrySchema = z.object({
+  label: z.string(),
+  slug: z.string(),
+  url: z.string().url(),
+})
+
+// tweetCount is the label as shown by the source; volume is null whenever the source gave no exact figure
+export const TrendingItemSchema = z.object({
+  rank: z.number(),
+  hashtag: z.string(),
+  tweetCount: z.string().nullable(),
+  volume: z.number().nullable(),
+  time: z.string(),
+  dataSource: z.enum(TREND_DATA_SOURCES),
+  sources: z.array(z.string()).optional(), // Which trend sources listed it
+  platforms: z.array(z.enum(TREND_PLATFORMS)).optional(), // Platforms of those sources
+})
+
+export const TopItemSchema = z.object({
+  rank: z.number(),
+  hashtag: z.string(),
+  tweetCount: z.string().nullable(),
+  volume: z.number().nullable(),
+  recordedAt: z.string(),
+  dataSource: z.enum(TREND_DATA_SOURCES),
+  sources: z.array(z.string()).optional(), // Which trend sources listed it
+  platforms: z.array(z.enum(TREND_PLATFORMS)).optional(), // Platforms of those sources
+})
+
+export const LongestItemSchema = z.object({
+  rank: z.number(),
+  hashtag: z.string(),
+  duration: z.string().nullable(),
+  lastSeen: z.string(),
+  dataSource: z.enum(TREND_DATA_SOURCES),
+  sources: z.array(z.string()).optional(), // Which trend sources listed it
+  platforms: z.array(z.enum(TREND_PLATFORMS)).optional(), // Platforms of those sources
+})
+
+export const TrendsResponseSchema = z.object({
+  country: z.string(),
+  timeFilter: z.string(),
+  date: z.string(),
+  dataSource: z.enum(TREND_DATA_SOURCES).optional(),
+  fetchedAt: z.string().nullable().optional(), // When the items were scraped; null for mock data
+  sources: z
+    .array(
+      z.object({
+        source: z.string(),
+        status: z.enum(["ok", "empty", "failed"]),
+        count: z.number(),
+        error: z.string().optional(),
+      }),
+    )
+    .optional(),
+  trending: z.array(TrendingItemSchema).optional(),
+  top: z.array(TopItemSchema).optional(),
+  longest: z.array(LongestItemSchema).optional(),
+  countries: z.array(CountrySchema).optional(),
+})
+
+export type Country = z.infer<typeof CountrySchema>
+export type TrendingItem = z.infer<typeof TrendingItemSchema>
+export type TopItem = z.infer<typeof TopItemSchema>
+export type LongestItem = z.infer<typeof LongestItemSchema>
+export type TrendsResponse = z.infer<typeof TrendsResponseSchema>
+
+export type TrendItem = TrendingItem | TopItem | LongestItem
+
+// The last successful scrape for one country/category/time filter
+export interface TrendSnapshot {
+  country: string
+  category: TrendCategory
+  timeFilter: string
+  fetchedAt: string
+  items: TrendItem[]
+}
+
+// One scheduled observation of a hashtag in a country's trending list
+export interface TrendHistoryPoint {
+  timestamp: string
+  rank: number
+  volume: number | null
+}
+
+export interface TrendHistory {
+  hashtag: string
+  country: string
+  points: TrendHistoryPoint[] // Oldest first
+}
+
+export interface TrendSnapshotRepository {
+  readonly name: string
+  getLatest(key: string): Promise<TrendSnapshot | null>
+  saveLatest(key: string, snapshot: TrendSnapshot): Promise<void>
+  // History keys are per country and hashtag; points older than the store's retention are dropped
+  appendHistory(points: Record<string, TrendHistoryPoint>): Promise<void>
+  getHistory(key: string, since: string): Promise<TrendHistoryPoint[]>
+}
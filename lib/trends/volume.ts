@@ -0,0 +1,25 @@
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+}
+
+// Parses volume labels like "12.3K", "1.2M tweets" or "45,678"; bounds ("Under 10K") and blanks are null
+export function parseVolume(label: string | null | undefined): number | null {
+  const text = (label || "").trim().toLowerCase()
+  if (!text || /^(under|less than|<|~)/.test(text)) return null
+
+  const match = text.match(/^(\d[\d.,]*)\s*([kmb])?(?![\d.,a-z])/)
+  if (!match) return null
+
+  // "12,345" uses thousands separators; "1,2K" uses a decimal comma
+  const digits = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(match[1]) ? match[1].replace(/,/g, "") : match[1].replace(",", ".")
+  const value = Number(digits)
+  if (!Number.isFinite(value)) return null
+
+  return Math.round(value * (match[2] ? MULTIPLIERS[match[2]] : 1))
+}
+
+export function formatVolume(volume: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(volume)
+}
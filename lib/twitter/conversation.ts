@@ -0,0 +1,60 @@
+import type { TweetContent, TweetEngagement, TweetPost } from "./types"
+
+// Generation routes accept anything from plain text to a fully extracted conversation
+export type TweetContentInput = Pick<TweetContent, "text"> & Partial<Omit<TweetContent, "text">>
+
+const MAX_CONTEXT_TEXT = 400
+
+function clip(text: string, max = MAX_CONTEXT_TEXT): string {
+  return text.length > max ? `${text.substring(0, max)}...` : text
+}
+
+function byline(post: Pick<TweetPost, "author" | "username">): string {
+  if (post.author && post.username) return `${post.author} (@${post.username})`
+  if (post.username) return `@${post.username}`
+  return post.author || "Unknown author"
+}
+
+export function formatEngagement(engagement: TweetEngagement): string | null {
+  const parts = [
+    engagement.likes !== null ? `${engagement.likes} likes` : null,
+    engagement.reposts !== null ? `${engagement.reposts} reposts` : null,
+    engagement.replies !== null ? `${engagement.replies} replies` : null,
+    engagement.views !== null ? `${engagement.views} views` : null,
+  ].filter(Boolean)
+
+  return parts.length > 0 ? parts.join(", ") : null
+}
+
+// Prompt block describing the conversation around a tweet; empty when only the text is known
+export function buildConversationContext(tweet: TweetContentInput): string {
+  const sections: string[] = []
+
+  if (tweet.inReplyTo) {
+    sections.push(`This tweet is a reply to ${byline(tweet.inReplyTo)}:\n"${clip(tweet.inReplyTo.text)}"`)
+  }
+
+  if (tweet.thread && tweet.thread.length > 1) {
+    const position = tweet.thread.findIndex((post) => post.id && post.id === tweet.id)
+    const lines = tweet.thread.map(
+      (post, index) => `${index + 1}. ${index === position ? "[THIS TWEET] " : ""}${clip(post.text)}`,
+    )
+    sections.push(`It is part of a ${tweet.thread.length}-tweet thread by the same author:\n${lines.join("\n")}`)
+  }
+
+  if (tweet.quoted) {
+    sections.push(`It quotes a tweet by ${byline(tweet.quoted)}:\n"${clip(tweet.quoted.text)}"`)
+  }
+
+  const engagement = tweet.engagement ? formatEngagement(tweet.engagement) : null
+  if (engagement) {
+    sections.push(`Engagement so far: ${engagement}`)
+  }
+
+  if (tweet.replies && tweet.replies.length > 0) {
+    const lines = tweet.replies.map((reply) => `- ${byline(reply)}: "${clip(reply.text, 200)}"`)
+    sections.push(`Top replies already posted (add something new rather than repeating them):\n${lines.join("\n")}`)
+  }
+
+  return sections.join("\n\n")
+}
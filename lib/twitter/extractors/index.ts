@@ -0,0 +1,75 @@
+import { metaTagsExtractor } from "./meta-tags"
+import { oembedExtractor } from "./oembed"
+import { sessionExtractor } from "./session"
+import { syndicationExtractor } from "./syndication"
+import type { ExtractionAttempt, ExtractorContext, TweetExtractionResult, TweetExtractor, TweetTarget } from "./types"
+
+export type {
+  ExtractionAttempt,
+  ExtractorContext,
+  ExtractorSource,
+  TweetExtractionResult,
+  TweetExtractor,
+  TweetTarget,
+} from "./types"
+
+// Cheapest and most exact sources first; the session browser is the last resort
+export const EXTRACTOR_CHAIN: TweetExtractor[] = [
+  oembedExtractor,
+  syndicationExtractor,
+  metaTagsExtractor,
+  sessionExtractor,
+]
+
+export const MANUAL_ENTRY_MESSAGE =
+  "Could not read this tweet from any source. Please paste the tweet text manually."
+
+export function parseTweetUrl(url: string): TweetTarget | null {
+  const match = url.match(/(?:twitter\.com|x\.com)\/([^/]+)\/status(?:es)?\/(\d+)/i)
+  return match ? { url, username: match[1], tweetId: match[2] } : null
+}
+
+// Tries each source in order and returns the first real tweet text; never invents content
+export async function extractTweet(
+  target: TweetTarget,
+  context: ExtractorContext = {},
+  chain: TweetExtractor[] = EXTRACTOR_CHAIN,
+): Promise<TweetExtractionResult> {
+  const attempts: ExtractionAttempt[] = []
+
+  for (const extractor of chain) {
+    if (extractor.source === "session" && !context.session) {
+      attempts.push({ source: extractor.source, status: "skipped", error: "No X session connected" })
+      continue
+    }
+
+    try {
+      const result = await extractor.extract(target, context)
+
+      if (!result) {
+        console.log(`⚠️ ${extractor.source}: no tweet content`)
+        attempts.push({ source: extractor.source, status: "empty" })
+        continue
+      }
+
+      console.log(`✅ Tweet extracted via ${extractor.source} (confidence ${result.confidence})`)
+      attempts.push({ source: extractor.source, status: "success", confidence: result.confidence })
+
+      return {
+        status: "extracted",
+        source: extractor.source,
+        confidence: result.confidence,
+        tweet: result.tweet,
+        attempts,
+      }
+    } catch (error) {
+      if (context.signal?.aborted) throw error
+
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.error(`❌ ${extractor.source} extraction failed:`, message)
+      attempts.push({ source: extractor.source, status: "failed", error: message })
+    }
+  }
+
+  return { status: "manual-entry-required", source: null, confidence: 0, tweet: null, attempts }
+}
@@ -0,0 +1,108 @@
+import * as cheerio from "cheerio"
+import { BROWSER_HEADERS, createTweetContent, fetchWithTimeout, normalizeText } from "./shared"
+import type { TweetExtractor } from "./types"
+
+// Logged-out shells and interstitials that carry generic descriptions instead of the tweet
+const BOILERPLATE = [
+  /javascript is not available/i,
+  /something went wrong/i,
+  /this (post|tweet) (is unavailable|was deleted)/i,
+  /^from breaking news and entertainment/i,
+  /^the latest posts from/i,
+  /log in to (twitter|x)/i,
+]
+
+function isBoilerplate(text: string): boolean {
+  return BOILERPLATE.some((pattern) => pattern.test(text))
+}
+
+function cleanText(text: string): string {
+  return normalizeText(
+    text
+      .replace(/^["'“]|["'”]$/g, "") // Remove quotes
+      .replace(/\s*\|\s*(Twitter|X)\s*$/, "")
+      .replace(/\s*on\s+(Twitter|X)\s*$/, ""),
+  )
+}
+
+// Link preview tags from the tweet page; often truncated or missing, hence the lower confidence
+export const metaTagsExtractor: TweetExtractor = {
+  source: "meta-tags",
+
+  async extract(target, { signal }) {
+    const response = await fetchWithTimeout(target.url, { headers: BROWSER_HEADERS }, signal)
+    if (response.status === 404) return null
+    if (!response.ok) throw new Error(`Tweet page returned ${response.status}`)
+
+    const $ = cheerio.load(await response.text())
+
+    // Redirects to the home page or a login wall keep their own og:url
+    const ogUrl = $('meta[property="og:url"]').attr("content")
+    if (ogUrl && !ogUrl.includes(target.tweetId)) return null
+
+    const images: string[] = []
+    const addImage = (src: string | undefined) => {
+      if (src && !src.includes("twitter_logo") && !src.includes("/profile_images/") && !images.includes(src)) {
+        images.push(src)
+      }
+    }
+
+    addImage($('meta[property="og:image"]').attr("content"))
+    addImage($('meta[name="twitter:image"]').attr("content"))
+    $("img").each((_, element) => {
+      const src = $(element).attr("src")
+      if (src && (src.includes("pbs.twimg.com/media") || src.includes("media.x.com"))) addImage(src)
+    })
+
+    let text: string | null = null
+    let author: string | null = null
+    let confidence = 0.7
+
+    // Method 1: Open Graph and Twitter card tags
+    const description =
+      $('meta[property="og:description"]').attr("content") || $('meta[name="twitter:description"]').attr("content")
+    const title = $('meta[property="og:title"]').attr("content") || $('meta[name="twitter:title"]').attr("content")
+
+    if (description?.trim()) text = description
+    author = title?.match(/(.*?) on (Twitter|X)/)?.[1] || null
+
+    // Method 2: JSON-LD
+    if (!text) {
+      $('script[type="application/ld+json"]').each((_, element) => {
+        try {
+          const jsonData = JSON.parse($(element).html() || "")
+          if (!text && (jsonData.text || jsonData.description)) {
+            text = jsonData.text || jsonData.description
+            author = author || jsonData.author?.name || null
+            confidence = 0.6
+            const jsonImages: string[] = Array.isArray(jsonData.image) ? jsonData.image : [jsonData.image]
+            jsonImages.filter((image) => typeof image === "string").forEach(addImage)
+          }
+        } catch {
+          // Ignore JSON parsing errors
+        }
+      })
+    }
+
+    // Method 3: Page title ("Author on X: "Tweet"")
+    if (!text) {
+      const match = $("title").text().match(/^(.*?) on (?:Twitter|X): ([\s\S]+)$/)
+      if (match) {
+        author = author || match[1].trim()
+        text = match[2]
+        confidence = 0.5
+      }
+    }
+
+    if (!text) return null
+    const cleaned = cleanText(text)
+
+    // Anything shorter than this is almost always a label rather than the tweet
+    if (cleaned.length < 10 || isBoilerplate(cleaned)) return null
+
+    return {
+      tweet: createTweetContent(target, { text: cleaned, author, images }),
+      confidence,
+    }
+  },
+}
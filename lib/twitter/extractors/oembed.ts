@@ -0,0 +1,48 @@
+import * as cheerio from "cheerio"
+import { createTweetContent, fetchWithTimeout, normalizeText, toIsoDate } from "./shared"
+import type { TweetExtractor } from "./types"
+
+interface OEmbedResponse {
+  author_name?: string
+  author_url?: string
+  html?: string
+}
+
+// Official oEmbed endpoint: exact text, but t.co links and no media or counts
+export const oembedExtractor: TweetExtractor = {
+  source: "oembed",
+
+  async extract(target, { signal }) {
+    const endpoint = `https://publish.twitter.com/oembed?omit_script=1&dnt=true&url=${encodeURIComponent(target.url)}`
+    const response = await fetchWithTimeout(endpoint, {}, signal)
+
+    // Deleted, private and age-restricted tweets are 404/403
+    if (response.status === 404 || response.status === 403) return null
+    if (!response.ok) throw new Error(`oEmbed returned ${response.status}`)
+
+    const data: OEmbedResponse = await response.json()
+    if (!data.html) return null
+
+    const $ = cheerio.load(data.html)
+    const paragraph = $("blockquote p").first()
+    paragraph.find("br").replaceWith("\n")
+
+    // Attached media show up as trailing pic.twitter.com links
+    paragraph.find("a").each((_, link) => {
+      if ($(link).text().startsWith("pic.twitter.com")) $(link).remove()
+    })
+
+    const text = normalizeText(paragraph.text())
+    if (!text) return null
+
+    return {
+      tweet: createTweetContent(target, {
+        text,
+        author: data.author_name || null,
+        username: data.author_url?.split("/").pop() || target.username,
+        timestamp: toIsoDate($("blockquote > a").last().text()),
+      }),
+      confidence: 0.9,
+    }
+  },
+}
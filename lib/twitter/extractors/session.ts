@@ -0,0 +1,20 @@
+import { DEFAULT_MAX_REPLIES, extractConversation, withSessionPage } from "../session-extractor"
+import type { TweetExtractor } from "./types"
+
+// Logged-in browser render: the full conversation, but slow and needs one of the user's vaulted X sessions
+export const sessionExtractor: TweetExtractor = {
+  source: "session",
+
+  async extract(target, { session, signal }) {
+    if (!session) return null
+
+    const tweet = await withSessionPage(
+      session,
+      (page) => extractConversation(page, target.url, DEFAULT_MAX_REPLIES),
+      signal,
+    )
+    if (!tweet?.text) return null
+
+    return { tweet, confidence: 1 }
+  },
+}
@@ -0,0 +1,58 @@
+import type { TweetContent, TweetEngagement } from "../types"
+import type { TweetTarget } from "./types"
+
+export const EMPTY_ENGAGEMENT: TweetEngagement = {
+  replies: null,
+  reposts: null,
+  likes: null,
+  bookmarks: null,
+  views: null,
+}
+
+const FETCH_TIMEOUT = 8000
+
+export const BROWSER_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+}
+
+export function fetchWithTimeout(url: string, init: RequestInit = {}, signal?: AbortSignal): Promise<Response> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT)
+  return fetch(url, { ...init, signal: signal ? AbortSignal.any([signal, timeout]) : timeout })
+}
+
+// Fills the conversation fields that single-tweet sources can't provide
+export function createTweetContent(
+  target: TweetTarget,
+  fields: Pick<TweetContent, "text"> & Partial<TweetContent>,
+): TweetContent {
+  return {
+    id: target.tweetId,
+    url: target.url,
+    author: null,
+    username: target.username,
+    timestamp: null,
+    images: [],
+    engagement: EMPTY_ENGAGEMENT,
+    quoted: null,
+    inReplyTo: null,
+    thread: [],
+    replies: [],
+    ...fields,
+  }
+}
+
+export function normalizeText(text: string): string {
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+export function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
@@ -0,0 +1,85 @@
+import type { TweetPost } from "../types"
+import { createTweetContent, EMPTY_ENGAGEMENT, fetchWithTimeout, normalizeText, toIsoDate } from "./shared"
+import type { TweetExtractor, TweetTarget } from "./types"
+
+interface SyndicationTweet {
+  __typename?: string
+  id_str?: string
+  text?: string
+  display_text_range?: [number, number]
+  created_at?: string
+  favorite_count?: number
+  conversation_count?: number
+  user?: { name?: string; screen_name?: string }
+  photos?: { url: string }[]
+  mediaDetails?: { type: string; media_url_https: string }[]
+  quoted_tweet?: SyndicationTweet
+  parent?: SyndicationTweet
+}
+
+// The embed CDN rejects requests without the token its widget derives from the tweet id
+function syndicationToken(tweetId: string): string {
+  return ((Number(tweetId) / 1e15) * Math.PI).toString(36).replace(/(0+|\.)/g, "")
+}
+
+function toPost(tweet: SyndicationTweet): TweetPost {
+  // display_text_range drops the leading @mentions and trailing media links; it counts code points
+  const chars = Array.from(tweet.text || "")
+  const [start, end] = tweet.display_text_range || [0, chars.length]
+  const username = tweet.user?.screen_name || null
+
+  const images =
+    tweet.mediaDetails?.filter((media) => media.type === "photo").map((media) => media.media_url_https) ||
+    tweet.photos?.map((photo) => photo.url) ||
+    []
+
+  return {
+    id: tweet.id_str || null,
+    url: username && tweet.id_str ? `https://x.com/${username}/status/${tweet.id_str}` : null,
+    text: normalizeText(chars.slice(start, end).join("")),
+    author: tweet.user?.name || null,
+    username,
+    timestamp: toIsoDate(tweet.created_at),
+    images,
+    engagement: {
+      ...EMPTY_ENGAGEMENT,
+      likes: tweet.favorite_count ?? null,
+      replies: tweet.conversation_count ?? null,
+    },
+  }
+}
+
+// Embed widget data: exact text, media, like/reply counts and the parent/quoted tweet
+export const syndicationExtractor: TweetExtractor = {
+  source: "syndication",
+
+  async extract(target: TweetTarget, { signal }) {
+    const endpoint = `https://cdn.syndication.twimg.com/tweet-result?id=${target.tweetId}&lang=en&token=${syndicationToken(target.tweetId)}`
+    const response = await fetchWithTimeout(endpoint, {}, signal)
+
+    if (response.status === 404) return null
+    if (!response.ok) throw new Error(`Syndication returned ${response.status}`)
+
+    // Empty bodies come back for protected accounts
+    const body = await response.text()
+    if (!body.trim()) return null
+
+    const data: SyndicationTweet = JSON.parse(body)
+    if (data.__typename === "TweetTombstone" || !data.text) return null
+
+    const post = toPost(data)
+    if (!post.text) return null
+
+    return {
+      tweet: createTweetContent(target, {
+        ...post,
+        id: post.id || target.tweetId,
+        url: target.url,
+        username: post.username || target.username,
+        quoted: data.quoted_tweet?.text ? toPost(data.quoted_tweet) : null,
+        inReplyTo: data.parent?.text ? toPost(data.parent) : null,
+      }),
+      confidence: 0.95,
+    }
+  },
+}
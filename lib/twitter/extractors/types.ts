@@ -0,0 +1,51 @@
+import type { TweetContent } from "../types"
+import type { TwitterSessionCookies } from "../vault/types"
+
+export type ExtractorSource = "oembed" | "syndication" | "meta-tags" | "session"
+
+export interface TweetTarget {
+  url: string
+  tweetId: string
+  username: string
+}
+
+export interface ExtractorContext {
+  signal?: AbortSignal
+  session?: TwitterSessionCookies | null // Decrypted from the vault; enables the session browser extractor
+}
+
+// confidence: 0-1, how sure we are the text is exactly what the tweet says
+export interface ExtractedTweet {
+  tweet: TweetContent
+  confidence: number
+}
+
+export interface TweetExtractor {
+  source: ExtractorSource
+  // Resolves null when the source answered but had no usable tweet; throws when it couldn't be reached
+  extract(target: TweetTarget, context: ExtractorContext): Promise<ExtractedTweet | null>
+}
+
+export interface ExtractionAttempt {
+  source: ExtractorSource
+  status: "success" | "empty" | "failed" | "skipped"
+  confidence?: number
+  error?: string
+}
+
+export type TweetExtractionResult =
+  | {
+      status: "extracted"
+      source: ExtractorSource
+      confidence: number
+      tweet: TweetContent
+      attempts: ExtractionAttempt[]
+    }
+  | {
+      // Every real source failed; the user has to paste the tweet text
+      status: "manual-entry-required"
+      source: null
+      confidence: 0
+      tweet: null
+      attempts: ExtractionAttempt[]
+    }
@@ -0,0 +1,183 @@
+import type { Page } from "puppeteer-core"
+import browserPool from "@/lib/browser-pool"
+import twitterSessions from "../vault"
+import { readUsername, submitStep, waitForFirstStep, type PageState } from "./page"
+import {
+  LoginStepInputSchema,
+  type LoginFlow,
+  type LoginFlowView,
+  type LoginStep,
+  type LoginStepInput,
+} from "./types"
+
+// Headless X login driven one step per request: the client submits each screen's value and gets the next screen back
+// The page stays open in the browser pool between requests, so every step of a flow has to reach the same instance
+// TWITTER_LOGIN_URL overrides X's login page, e.g. to run the flow against a local mock page
+
+const DEFAULT_LOGIN_URL = "https://x.com/i/flow/login"
+const FLOW_TTL = 5 * 60 * 1000
+
+// Expired, cancelled or another user's flow
+export class LoginFlowNotFoundError extends Error {
+  constructor(public flowId: string) {
+    super(`Login flow not found: ${flowId}`)
+    this.name = "LoginFlowNotFoundError"
+  }
+}
+
+// The client submitted a value for a different screen than the one X is showing, or while a step is still in progress
+export class LoginFlowStateError extends Error {
+  constructor(
+    public flowId: string,
+    public step: LoginStep,
+  ) {
+    super(`Login flow ${flowId} is at step ${step}`)
+    this.name = "LoginFlowStateError"
+  }
+}
+
+function toView(flow: LoginFlow, error: string | null): LoginFlowView {
+  return { flowId: flow.id, step: flow.step, error, expiresAt: flow.expiresAt }
+}
+
+class TwitterLoginService {
+  private flows = new Map<string, LoginFlow>()
+
+  // Opens X's login page; a user has at most one flow, so starting again abandons the previous one
+  async start(userId: string): Promise<LoginFlowView> {
+    for (const flow of this.flows.values()) {
+      if (flow.userId === userId) await this.close(flow.id)
+    }
+
+    const browser = await browserPool.acquire()
+    let page: Page | null = null
+    // Once held, closing the flow releases the browser; cleaning up here as well would release it twice
+    let held = false
+
+    try {
+      // Its own context, so no cookies from other users' session pages leak into the login. X's login is an SPA
+      // that stalls without its scripts and styles, so only trackers are blocked.
+      page = await browserPool.createPage(await browser.createBrowserContext(), { profile: "full" })
+      await page.goto(process.env.TWITTER_LOGIN_URL || DEFAULT_LOGIN_URL, {
+        waitUntil: "domcontentloaded",
+        timeout: 30000,
+      })
+
+      const state = await waitForFirstStep(page)
+      const now = Date.now()
+      const flow: LoginFlow = {
+        id: crypto.randomUUID(),
+        userId,
+        step: state.step ?? "username",
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + FLOW_TTL).toISOString(),
+      }
+
+      this.flows.set(flow.id, flow)
+      browserPool.hold(flow.id, browser, page, FLOW_TTL)
+      held = true
+      console.log(`🔐 Started X login flow ${flow.id} at step ${flow.step}`)
+
+      // A login URL that lands signed in (e.g. a mock page) finishes straight away
+      return flow.step === "done" ? await this.finish(flow, page) : toView(flow, state.error)
+    } catch (error) {
+      if (!held) {
+        if (page) await page.browserContext().close().catch(() => undefined)
+        await browserPool.release(browser)
+      }
+      throw error
+    }
+  }
+
+  // Throws a ZodError when the input is invalid
+  async submit(userId: string, flowId: string, input: LoginStepInput): Promise<LoginFlowView> {
+    const { step, value } = LoginStepInputSchema.parse(input)
+    const flow = this.getOwned(userId, flowId)
+
+    const page = browserPool.getHeld(flowId)
+    if (!page) {
+      await this.close(flowId)
+      throw new LoginFlowNotFoundError(flowId)
+    }
+
+    // A second submit while the page is still working on the first would type into the same form
+    if (flow.step !== step || flow.submitting) {
+      throw new LoginFlowStateError(flowId, flow.step)
+    }
+
+    this.flows.set(flowId, { ...flow, submitting: true })
+    let state: PageState
+    try {
+      state = await submitStep(page, step, value)
+    } catch (error) {
+      if (this.flows.has(flowId)) this.flows.set(flowId, flow)
+      throw error
+    }
+
+    const next: LoginFlow = { ...flow, step: state.step ?? flow.step }
+    // The flow may have been cancelled while X was answering
+    if (!this.flows.has(flowId)) throw new LoginFlowNotFoundError(flowId)
+    this.flows.set(flowId, next)
+
+    console.log(`🔐 X login flow ${flowId}: ${step} → ${next.step}${state.error ? " (rejected)" : ""}`)
+    return next.step === "done" ? this.finish(next, page) : toView(next, state.error)
+  }
+
+  async cancel(userId: string, flowId: string): Promise<void> {
+    this.getOwned(userId, flowId)
+    await this.close(flowId)
+  }
+
+  // Moves the session cookies into the vault and closes the page; only the handle leaves the server
+  private async finish(flow: LoginFlow, page: Page): Promise<LoginFlowView> {
+    try {
+      const cookies = await page.cookies()
+      const authCookie = cookies.find((cookie) => cookie.name === "auth_token")
+      if (!authCookie) {
+        throw new Error("X finished signing in but didn't set a session cookie")
+      }
+
+      // expires is in seconds, -1 for a browser-session cookie
+      const cookieExpiresAt = authCookie.expires > 0 ? new Date(authCookie.expires * 1000) : null
+      const session = await twitterSessions.store(
+        flow.userId,
+        {
+          authToken: authCookie.value,
+          ct0: cookies.find((cookie) => cookie.name === "ct0")?.value || null,
+          username: await readUsername(page),
+        },
+        { cookieExpiresAt },
+      )
+
+      console.log(`✅ X login flow ${flow.id} stored session ${session.id}`)
+      return { ...toView({ ...flow, step: "done" }, null), session }
+    } finally {
+      await this.close(flow.id)
+    }
+  }
+
+  private getOwned(userId: string, flowId: string): LoginFlow {
+    const flow = this.flows.get(flowId)
+    if (!flow || flow.userId !== userId) {
+      throw new LoginFlowNotFoundError(flowId)
+    }
+
+    if (Date.parse(flow.expiresAt) <= Date.now()) {
+      this.flows.delete(flowId)
+      throw new LoginFlowNotFoundError(flowId)
+    }
+    return flow
+  }
+
+  private async close(flowId: string): Promise<void> {
+    this.flows.delete(flowId)
+    await browserPool.releaseHeld(flowId)
+  }
+}
+
+// Create singleton login service
+const twitterLogin = new TwitterLoginService()
+
+export default twitterLogin
+
+export * from "./types"
@@ -0,0 +1,146 @@
+import { randomBytes } from "crypto"
+import { readFileSync } from "fs"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import path from "path"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import browserPool from "@/lib/browser-pool"
+import browserProvider from "@/lib/browser-provider"
+import twitterSessions, { type StoredTwitterSession, type TwitterSessionRepository } from "../vault"
+import twitterLogin, { LoginFlowStateError } from "./index"
+
+// Drives the real login flow in a local browser against ./fixtures/mock-login.html, served over http so it can set
+// cookies. Skipped when no browser can be launched here (e.g. Chromium's system libraries are missing).
+
+const MOCK_AUTH_TOKEN = "0123456789abcdef0123456789abcdef01234567"
+const USER_ID = "user-1"
+
+class MemorySessionStore implements TwitterSessionRepository {
+  readonly name = "memory"
+  private sessions = new Map<string, StoredTwitterSession>()
+
+  async list(userId: string) {
+    return Array.from(this.sessions.values()).filter((session) => session.userId === userId)
+  }
+  async get(id: string) {
+    return this.sessions.get(id) || null
+  }
+  async save(session: StoredTwitterSession) {
+    this.sessions.set(session.id, session)
+  }
+  async delete(id: string) {
+    return this.sessions.delete(id)
+  }
+}
+
+const mockPage = readFileSync(path.join(__dirname, "fixtures", "mock-login.html"), "utf8")
+let server: Server
+let baseUrl: string
+let browserAvailable = false
+
+beforeAll(async () => {
+  browserAvailable = await browserProvider
+    .launch()
+    .then((browser) => browserProvider.close(browser))
+    .then(() => true)
+    .catch(() => false)
+
+  // Every path gets the page, like X's SPA; it moves to /home itself after signing in
+  server = createServer((_request, response) => {
+    response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" })
+    response.end(mockPage)
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/i/flow/login`
+}, 60_000)
+
+afterAll(async () => {
+  await browserPool.destroy()
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(({ skip }) => {
+  skip(!browserAvailable, "No browser could be launched")
+  vi.stubEnv("TWITTER_VAULT_KEY", randomBytes(32).toString("base64"))
+  twitterSessions.setRepository(new MemorySessionStore())
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("twitterLogin against the mock login page", { timeout: 60_000 }, () => {
+  it("signs in with a username and password and stores the session", async () => {
+    vi.stubEnv("TWITTER_LOGIN_URL", baseUrl)
+
+    const started = await twitterLogin.start(USER_ID)
+    expect(started).toMatchObject({ step: "username", error: null })
+
+    const password = await twitterLogin.submit(USER_ID, started.flowId, { step: "username", value: "mockuser" })
+    expect(password).toMatchObject({ step: "password", error: null })
+
+    const done = await twitterLogin.submit(USER_ID, started.flowId, { step: "password", value: "correct-horse" })
+    expect(done).toMatchObject({ step: "done", error: null, session: { username: "mockuser", status: "active" } })
+    expect(await twitterSessions.resolve(USER_ID, done.session!.id)).toEqual({
+      authToken: MOCK_AUTH_TOKEN,
+      ct0: "mock-ct0",
+    })
+  })
+
+  it("stays on the password step with X's error until the password is right", async () => {
+    vi.stubEnv("TWITTER_LOGIN_URL", baseUrl)
+
+    const { flowId } = await twitterLogin.start(USER_ID)
+    await twitterLogin.submit(USER_ID, flowId, { step: "username", value: "mockuser" })
+
+    const rejected = await twitterLogin.submit(USER_ID, flowId, { step: "password", value: "wrong" })
+    expect(rejected).toMatchObject({ step: "password", error: "Wrong password!" })
+
+    const done = await twitterLogin.submit(USER_ID, flowId, { step: "password", value: "correct-horse" })
+    expect(done.step).toBe("done")
+  })
+
+  it("walks through the challenge and 2FA steps", async () => {
+    vi.stubEnv("TWITTER_LOGIN_URL", `${baseUrl}?challenge=1&otp=1`)
+
+    const { flowId } = await twitterLogin.start(USER_ID)
+    const steps = [
+      await twitterLogin.submit(USER_ID, flowId, { step: "username", value: "mockuser" }),
+      await twitterLogin.submit(USER_ID, flowId, { step: "identifier", value: "mock@example.com" }),
+      await twitterLogin.submit(USER_ID, flowId, { step: "password", value: "correct-horse" }),
+    ].map((view) => view.step)
+    expect(steps).toEqual(["identifier", "password", "otp"])
+
+    const rejected = await twitterLogin.submit(USER_ID, flowId, { step: "otp", value: "000000" })
+    expect(rejected).toMatchObject({ step: "otp", error: "Your code is incorrect. Please try again." })
+
+    const done = await twitterLogin.submit(USER_ID, flowId, { step: "otp", value: "123456" })
+    expect(done).toMatchObject({ step: "done", session: { username: "mockuser" } })
+  })
+
+  it("refuses a value for a step the page isn't showing", async () => {
+    vi.stubEnv("TWITTER_LOGIN_URL", baseUrl)
+
+    const { flowId } = await twitterLogin.start(USER_ID)
+    await expect(
+      twitterLogin.submit(USER_ID, flowId, { step: "password", value: "correct-horse" }),
+    ).rejects.toBeInstanceOf(LoginFlowStateError)
+
+    await twitterLogin.cancel(USER_ID, flowId)
+  })
+
+  it("refuses a second submit while the first is still on the page", async () => {
+    vi.stubEnv("TWITTER_LOGIN_URL", baseUrl)
+
+    const { flowId } = await twitterLogin.start(USER_ID)
+    const [first, second] = await Promise.allSettled([
+      twitterLogin.submit(USER_ID, flowId, { step: "username", value: "mockuser" }),
+      twitterLogin.submit(USER_ID, flowId, { step: "username", value: "mockuser" }),
+    ])
+
+    expect(first).toMatchObject({ status: "fulfilled", value: { step: "password" } })
+    expect(second).toMatchObject({ status: "rejected", reason: expect.any(LoginFlowStateError) })
+
+    await twitterLogin.cancel(USER_ID, flowId)
+  })
+})
@@ -0,0 +1,96 @@
+import type { Page } from "puppeteer-core"
+import type { LoginInputStep, LoginStep } from "./types"
+
+// Page automation for X's login form. Selectors match x.com's markup; a mock login page only needs the same ones.
+
+const STEP_TIMEOUT = 20_000
+const POLL_INTERVAL = 500
+// X can take a moment to show an error under the field just submitted
+const SETTLE_TIME = 1500
+
+const SELECTORS: Record<LoginInputStep, string> = {
+  username: 'input[autocomplete="username"]',
+  identifier: 'input[data-testid="ocfEnterTextTextInput"]',
+  password: 'input[name="password"]',
+  otp: 'input[data-testid="ocfEnterTextTextInput"]',
+}
+
+export interface PageState {
+  step: LoginStep | null // null while X is between screens
+  error: string | null
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Reads which screen X is showing. Runs in the browser, so it must stay self-contained.
+export function readPageState(page: Page): Promise<PageState> {
+  return page.evaluate((selectors) => {
+    const error = document.querySelector('[role="alert"], [data-testid="toast"]')?.textContent?.trim() || null
+
+    if (
+      document.querySelector('[data-testid="AppTabBar_Home_Link"]') ||
+      /\/home\/?$/.test(window.location.pathname)
+    ) {
+      return { step: "done" as const, error: null }
+    }
+    if (document.querySelector(selectors.password)) {
+      return { step: "password" as const, error }
+    }
+    // The challenge and 2FA screens share an input; the heading tells them apart
+    if (document.querySelector(selectors.otp)) {
+      const heading = document.querySelector("h1, h2")?.textContent || document.body.innerText.slice(0, 300)
+      return { step: /code|authenticat|verification/i.test(heading) ? ("otp" as const) : ("identifier" as const), error }
+    }
+    if (document.querySelector(selectors.username)) {
+      return { step: "username" as const, error }
+    }
+    return { step: null, error }
+  }, SELECTORS)
+}
+
+// Waits for X to show the first login screen
+export async function waitForFirstStep(page: Page): Promise<PageState> {
+  const deadline = Date.now() + STEP_TIMEOUT
+
+  while (Date.now() < deadline) {
+    const state = await readPageState(page)
+    if (state.step) return state
+    await sleep(POLL_INTERVAL)
+  }
+
+  throw new Error("X's login page didn't load")
+}
+
+// Types the value into the current screen's field and waits for X to move on or reject it
+export async function submitStep(page: Page, step: LoginInputStep, value: string): Promise<PageState> {
+  const selector = SELECTORS[step]
+  await page.waitForSelector(selector, { timeout: STEP_TIMEOUT })
+  await page.$eval(selector, (input) => {
+    ;(input as HTMLInputElement).value = ""
+  })
+  await page.type(selector, value, { delay: 40 })
+  await page.keyboard.press("Enter")
+
+  const submittedAt = Date.now()
+  const deadline = submittedAt + STEP_TIMEOUT
+
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL)
+    const state = await readPageState(page)
+
+    if (state.step && state.step !== step) return { step: state.step, error: null }
+    if (state.step === step && state.error && Date.now() - submittedAt >= SETTLE_TIME) return state
+  }
+
+  return { step, error: "X didn't respond in time. Please try again." }
+}
+
+// The profile link in the side nav points at the signed-in account, e.g. /jack
+export function readUsername(page: Page): Promise<string | null> {
+  return page
+    .evaluate(() => {
+      const href = document.querySelector('[data-testid="AppTabBar_Profile_Link"]')?.getAttribute("href") || ""
+      return href.match(/^\/(\w{1,15})$/)?.[1] || null
+    })
+    .catch(() => null)
+}
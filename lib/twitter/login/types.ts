@@ -0,0 +1,41 @@
+import { z } from "zod"
+import type { TwitterSessionSummary } from "../vault/types"
+
+// X's login flow: username, sometimes a phone/email challenge ("unusual activity"), password, then 2FA if enabled
+export const LOGIN_INPUT_STEPS = ["username", "identifier", "password", "otp"] as const
+export type LoginInputStep = (typeof LOGIN_INPUT_STEPS)[number]
+export type LoginStep = LoginInputStep | "done"
+
+// What the client renders; error is X's message for the step just submitted, e.g. a wrong password
+export interface LoginFlowView {
+  flowId: string
+  step: LoginStep
+  error: string | null
+  expiresAt: string
+  session?: TwitterSessionSummary // Set once the flow reaches done
+}
+
+export interface LoginFlow {
+  id: string
+  userId: string
+  step: LoginStep
+  createdAt: string
+  expiresAt: string
+  submitting?: boolean // A step is being typed into X's form
+}
+
+// Values are typed into X's own form as-is; passwords aren't trimmed
+export const LoginStepInputSchema = z.discriminatedUnion("step", [
+  z.object({ step: z.literal("username"), value: z.string().trim().min(1, "Enter your username or email").max(254) }),
+  z.object({ step: z.literal("identifier"), value: z.string().trim().min(1, "Enter your phone or email").max(254) }),
+  z.object({ step: z.literal("password"), value: z.string().min(1, "Enter your password").max(256) }),
+  z.object({
+    step: z.literal("otp"),
+    value: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9]{6,12}$/i, "Enter the code from your authenticator app"),
+  }),
+])
+
+export type LoginStepInput = z.input<typeof LoginStepInputSchema>
@@ -0,0 +1,208 @@
+import type { BrowserContext, Page } from "puppeteer-core"
+import browserPool from "@/lib/browser-pool"
+import { HarRecorder, harMode } from "@/lib/browser-har"
+import type { TweetContent, TweetPost } from "./types"
+import type { TwitterSessionCookies } from "./vault/types"
+
+export const DEFAULT_MAX_REPLIES = 5
+export const MAX_REPLIES = 20
+
+// Raw article data read from the conversation page; quoted is read from the embedded card
+interface ScrapedTweet extends TweetPost {
+  quoted: TweetPost | null
+}
+
+export function statusIdFromUrl(url: string): string | null {
+  return url.match(/\/status(?:es)?\/(\d+)/)?.[1] || null
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Runs fn on a pooled page carrying the session cookies for both Twitter domains. Images load (tweet photos are
+// lazy img elements), and with BROWSER_HAR set the session is recorded when fn throws or comes back empty.
+// Each call gets its own browser context: a browser serves several users at once, and their cookies mustn't mix.
+// signal only covers the wait for a browser; once the page is open fn runs to completion
+export async function withSessionPage<T>(
+  session: TwitterSessionCookies,
+  fn: (page: Page) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const browser = await browserPool.acquire({ signal })
+  let context: BrowserContext | null = null
+  let recorder: HarRecorder | null = null
+  let failed = true
+
+  try {
+    context = await browser.createBrowserContext()
+    const page = await browserPool.createPage(context, { profile: "with-media" })
+    if (harMode() !== "off") recorder = new HarRecorder(page, "session extraction")
+
+    console.log("🍪 Injecting session cookies...")
+    const cookies = [
+      { name: "auth_token", value: session.authToken, httpOnly: true },
+      ...(session.ct0 ? [{ name: "ct0", value: session.ct0, httpOnly: false }] : []),
+    ]
+    await page.setCookie(
+      ...[".twitter.com", ".x.com"].flatMap((domain) =>
+        cookies.map((cookie) => ({ ...cookie, domain, path: "/", secure: true, sameSite: "None" as const })),
+      ),
+    )
+
+    const result = await fn(page)
+    failed = result == null
+    return result
+  } finally {
+    if (recorder && (failed || harMode() === "all")) {
+      await recorder.save(failed ? "session-failed" : "session")
+    }
+
+    // Closing the context closes the page and drops the session cookies with it
+    if (context) {
+      await context.close().catch((closeError) => console.error("⚠️ Error closing page context:", closeError))
+    }
+    await browserPool.release(browser).catch((releaseError) => console.error("⚠️ Error releasing browser:", releaseError))
+  }
+}
+
+// Reads every rendered tweet article. Runs in the browser, so it must stay self-contained.
+function scrapeArticles(page: Page): Promise<ScrapedTweet[]> {
+  return page.evaluate(() => {
+    const parseCount = (element: Element | null | undefined): number | null => {
+      const label = element?.getAttribute("aria-label") || ""
+      const match = label.replace(/,/g, "").match(/(\d+)/)
+      return match ? Number(match[1]) : null
+    }
+
+    const readPost = (root: Element, quote: Element | null) => {
+      // Skip anything inside the quoted tweet card when reading the outer tweet
+      const find = (selector: string) =>
+        Array.from(root.querySelectorAll(selector)).find((element) => !quote || !quote.contains(element)) || null
+
+      const userName = find('div[data-testid="User-Name"]')
+      const spans = userName ? Array.from(userName.querySelectorAll("span")) : []
+      const handle = spans.map((span) => span.textContent?.trim() || "").find((text) => text.startsWith("@"))
+
+      const time = find("time")
+      const href =
+        time?.closest("a")?.getAttribute("href") ||
+        Array.from(root.querySelectorAll('a[href*="/status/"]'))
+          .map((link) => link.getAttribute("href") || "")
+          .find((link) => /^\/[^/]+\/status\/\d+$/.test(link)) ||
+        null
+      const id = href?.match(/\/status\/(\d+)/)?.[1] || null
+
+      const images = Array.from(root.querySelectorAll('div[data-testid="tweetPhoto"] img'))
+        .filter((img) => !quote || !quote.contains(img))
+        .map((img) => (img as HTMLImageElement).src.replace(/&name=\w+$/, "&name=large"))
+        .filter(Boolean)
+
+      return {
+        id,
+        url: href ? `https://x.com${href}` : null,
+        text: find('div[data-testid="tweetText"]')?.textContent?.trim() || "",
+        author: spans[0]?.textContent?.trim() || null,
+        username: handle ? handle.slice(1) : null,
+        timestamp: time?.getAttribute("datetime") || null,
+        images,
+        engagement: {
+          replies: parseCount(find('[data-testid="reply"]')),
+          reposts: parseCount(find('[data-testid="retweet"], [data-testid="unretweet"]')),
+          likes: parseCount(find('[data-testid="like"], [data-testid="unlike"]')),
+          bookmarks: parseCount(find('[data-testid="bookmark"], [data-testid="removeBookmark"]')),
+          views: parseCount(find('a[href$="/analytics"]')),
+        },
+      }
+    }
+
+    return Array.from(document.querySelectorAll('article[data-testid="tweet"]')).map((article) => {
+      // A quoted tweet is rendered as a link card with its own author line
+      const quote =
+        Array.from(article.querySelectorAll('div[role="link"]')).find((card) =>
+          card.querySelector('div[data-testid="User-Name"]'),
+        ) || null
+
+      return {
+        ...readPost(article, quote),
+        quoted: quote ? { ...readPost(quote, null), id: null, url: null } : null,
+      }
+    })
+  })
+}
+
+// Twitter virtualizes the timeline, so scrolled-away articles disappear; merge snapshots by id in page order
+function mergeSnapshots(snapshots: ScrapedTweet[][]): ScrapedTweet[] {
+  const seen = new Set<string>()
+  const merged: ScrapedTweet[] = []
+
+  for (const snapshot of snapshots) {
+    for (const tweet of snapshot) {
+      // Promoted tweets and tombstones have no status link
+      if (!tweet.id || seen.has(tweet.id)) continue
+      seen.add(tweet.id)
+      merged.push(tweet)
+    }
+  }
+
+  return merged
+}
+
+function toPost({ quoted: _quoted, ...post }: ScrapedTweet): TweetPost {
+  return post
+}
+
+// Splits the page's tweets into the focal tweet, its author's thread, the tweet it replies to and other replies
+export function assembleConversation(
+  tweets: ScrapedTweet[],
+  statusId: string | null,
+  maxReplies = DEFAULT_MAX_REPLIES,
+): TweetContent | null {
+  if (tweets.length === 0) return null
+
+  // Fall back to the first article if the URL's status isn't on the page (e.g. a redirect)
+  const focusIndex = Math.max(0, tweets.findIndex((tweet) => tweet.id === statusId))
+  const focus = tweets[focusIndex]
+  const handle = focus.username?.toLowerCase()
+  const isAuthor = (tweet: ScrapedTweet) => !!handle && tweet.username?.toLowerCase() === handle
+
+  let threadStart = focusIndex
+  while (threadStart > 0 && isAuthor(tweets[threadStart - 1])) threadStart--
+
+  let threadEnd = focusIndex
+  while (threadEnd < tweets.length - 1 && isAuthor(tweets[threadEnd + 1])) threadEnd++
+
+  const thread = threadEnd > threadStart ? tweets.slice(threadStart, threadEnd + 1).map(toPost) : []
+  const inReplyTo = threadStart > 0 ? toPost(tweets[threadStart - 1]) : null
+
+  const replies = tweets
+    .slice(threadEnd + 1)
+    .filter((tweet) => !isAuthor(tweet) && tweet.text)
+    .slice(0, maxReplies)
+    .map(toPost)
+
+  return { ...focus, inReplyTo, thread, replies }
+}
+
+// Collects the conversation around the tweet at url; the page must already carry the session cookie
+export async function extractConversation(
+  page: Page,
+  url: string,
+  maxReplies = DEFAULT_MAX_REPLIES,
+): Promise<TweetContent | null> {
+  await page.goto(url, { waitUntil: "networkidle2", timeout: 20000 })
+  await page.waitForSelector('div[data-testid="tweetText"]', { timeout: 10000 })
+
+  const statusId = statusIdFromUrl(url)
+  const snapshots = [await scrapeArticles(page)]
+
+  // Replies load below the fold; scroll a couple of screens to pick them up
+  for (let pass = 0; pass < 2 && maxReplies > 0; pass++) {
+    const current = assembleConversation(mergeSnapshots(snapshots), statusId, maxReplies)
+    if (current && current.replies.length >= maxReplies) break
+
+    await page.evaluate(() => window.scrollBy(0, window.innerHeight * 2))
+    await sleep(1200)
+    snapshots.push(await scrapeArticles(page))
+  }
+
+  return assembleConversation(mergeSnapshots(snapshots), statusId, maxReplies)
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { splitToFit, weightedLength } from "./text"
+
+describe("splitToFit", () => {
+  it("splits at sentence boundaries first", () => {
+    const sentence = `${"word ".repeat(25).trim()}.`
+    const chunks = splitToFit(`${sentence} ${sentence} ${sentence}`)
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks.every((chunk) => weightedLength(chunk) <= 280)).toBe(true)
+  })
+
+  it("cuts a word longer than the limit by grapheme instead of dropping the rest", () => {
+    const text = "日本語".repeat(100)
+    const chunks = splitToFit(text)
+
+    expect(weightedLength(text)).toBe(600)
+    expect(chunks).toHaveLength(3)
+    expect(chunks.join("")).toBe(text)
+    expect(chunks.every((chunk) => weightedLength(chunk) <= 280)).toBe(true)
+  })
+
+  it("never splits an emoji sequence", () => {
+    const family = "👨‍👩‍👧‍👦"
+    const chunks = splitToFit(family.repeat(150))
+
+    expect(chunks.join("")).toBe(family.repeat(150))
+    expect(chunks.every((chunk) => chunk.length % family.length === 0)).toBe(true)
+  })
+})
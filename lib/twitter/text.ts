@@ -0,0 +1,138 @@
+// X's weighted character counting (twitter-text v3): most Latin-script characters count 1,
+// CJK and other scripts count 2, every emoji sequence counts 2 and every URL counts 23
+
+export const MAX_TWEET_LENGTH = 280
+export const URL_LENGTH = 23
+
+// Code point ranges that count as a single character; everything else counts double
+const LIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+]
+
+const URL_PATTERN =
+  /(?:https?:\/\/|www\.)[^\s]*[^\s.,!?;:)\]'"]|\b(?:[a-z0-9-]+\.)+(?:com|org|net|io|co|dev|ai|app|me|ly|gg|xyz|edu|gov|uk|de)\b(?:\/[^\s]*[^\s.,!?;:)\]'"])?/gi
+
+// A pictograph with its variation selectors, skin tones and ZWJ-joined parts, or a flag (two regional indicators)
+const EMOJI_PATTERN =
+  /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*|\p{Regional_Indicator}{2}/gu
+
+function codePointWeight(codePoint: number): number {
+  return LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2
+}
+
+export function weightedLength(text: string): number {
+  let length = 0
+
+  const withoutUrls = text.normalize("NFC").replace(URL_PATTERN, () => {
+    length += URL_LENGTH
+    return ""
+  })
+
+  const rest = withoutUrls.replace(EMOJI_PATTERN, () => {
+    length += 2
+    return ""
+  })
+
+  for (const char of Array.from(rest)) {
+    length += codePointWeight(char.codePointAt(0)!)
+  }
+
+  return length
+}
+
+// Cuts at a word boundary and adds an ellipsis; only for text that can't be split into more posts
+export function truncateToFit(text: string, limit = MAX_TWEET_LENGTH): string {
+  if (weightedLength(text) <= limit) return text
+
+  const words = text.split(/(\s+)/)
+  let result = ""
+  for (const word of words) {
+    if (weightedLength(`${result}${word}…`) > limit) break
+    result += word
+  }
+
+  if (!result.trim()) {
+    // A single huge word: cut it by characters
+    for (const char of Array.from(text)) {
+      if (weightedLength(`${result}${char}…`) > limit) break
+      result += char
+    }
+  }
+
+  return `${result.trimEnd()}…`
+}
+
+// Packs pieces greedily into chunks that fit the limit, joined with the given separator
+function pack(pieces: string[], limit: number, separator: string): string[] {
+  const chunks: string[] = []
+  let current = ""
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece
+    if (weightedLength(candidate) <= limit) {
+      current = candidate
+      continue
+    }
+
+    if (current) chunks.push(current)
+    current = piece
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// Cuts a word too long for one post into chunks that fit, never inside a grapheme (emoji, combining marks)
+function splitGraphemes(word: string, limit: number): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+  return pack(Array.from(segmenter.segment(word), ({ segment }) => segment), limit, "")
+}
+
+// Splits text that is over the limit at sentence boundaries, then words, then graphemes, so nothing is lost
+export function splitToFit(text: string, limit = MAX_TWEET_LENGTH): string[] {
+  const trimmed = text.trim()
+  if (weightedLength(trimmed) <= limit) return [trimmed]
+
+  const sentences = trimmed.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g)?.map((sentence) => sentence.trim()) || [trimmed]
+
+  return pack(sentences.filter(Boolean), limit, " ").flatMap((chunk) => {
+    if (weightedLength(chunk) <= limit) return [chunk]
+    // A single sentence that is still too long; words that don't fit on their own are cut by grapheme
+    const words = chunk
+      .split(/\s+/)
+      .flatMap((word) => (weightedLength(word) > limit ? splitGraphemes(word, limit) : [word]))
+    return pack(words, limit, " ")
+  })
+}
+
+export function threadNumber(index: number, total: number): string {
+  return `${index + 1}/${total}`
+}
+
+// Posts as published; numbering goes at the end of each post ("… 3/7")
+export function formatThread(posts: string[], numbering: boolean): string[] {
+  return numbering ? posts.map((post, index) => `${post} ${threadNumber(index, posts.length)}`) : posts
+}
+
+// Room left for the text of each post once numbering is added
+export function threadPostLimit(total: number, numbering: boolean): number {
+  return numbering ? MAX_TWEET_LENGTH - weightedLength(` ${threadNumber(total - 1, total)}`) : MAX_TWEET_LENGTH
+}
+
+// Splits any post that doesn't fit; splitting can push the count to more digits, so repeat until stable
+export function fitThread(posts: string[], numbering: boolean): string[] {
+  let fitted = posts.map((post) => post.trim()).filter(Boolean)
+
+  for (let pass = 0; pass < 3; pass++) {
+    const limit = threadPostLimit(fitted.length, numbering)
+    const next = fitted.flatMap((post) => splitToFit(post, limit))
+    if (next.length === fitted.length) return next
+    fitted = next
+  }
+
+  const limit = threadPostLimit(fitted.length, numbering)
+  return fitted.map((post) => truncateToFit(post, limit))
+}
@@ -0,0 +1,106 @@
+import { threadPostLimit } from "./text"
+
+// Prompts and options for X thread generation, shared by the generate-posts route and the create view
+
+export const HOOK_STYLES = ["question", "bold-claim", "statistic", "story", "how-to"] as const
+export type HookStyle = (typeof HOOK_STYLES)[number]
+
+export const HOOK_STYLE_LABELS: Record<HookStyle, string> = {
+  question: "Question",
+  "bold-claim": "Bold claim",
+  statistic: "Surprising number",
+  story: "Story",
+  "how-to": "How-to promise",
+}
+
+const HOOK_STYLE_PROMPTS: Record<HookStyle, string> = {
+  question: "Open with a question the reader badly wants answered",
+  "bold-claim": "Open with a bold, slightly contrarian claim the thread then backs up",
+  statistic: "Open with a surprising number or fact (only one you are confident is true)",
+  story: "Open in the middle of a short personal story",
+  "how-to": "Open by promising exactly what the reader will learn or be able to do",
+}
+
+// The post count includes the closing call-to-action post
+export const MIN_THREAD_POSTS = 3
+export const MAX_THREAD_POSTS = 15
+export const DEFAULT_THREAD_POSTS = 7
+
+export interface ThreadPost {
+  content: string // Without numbering
+  isCta: boolean
+}
+
+export interface ThreadPromptOptions {
+  topic: string
+  tone: string
+  postCount: number
+  hookStyle: HookStyle
+  numbering: boolean
+  useEmoji: boolean
+  instructions?: string
+}
+
+function threadRules({ tone, postCount, numbering, useEmoji }: ThreadPromptOptions): string {
+  return `- Write with a ${tone} tone
+- Every post must be under ${threadPostLimit(postCount, numbering) - 10} characters; URLs count as 23 and emojis as 2
+- One idea per post; each post should still make sense if read on its own
+- ${numbering ? "Do not number the posts yourself; numbering is added automatically" : "Do not number the posts"}
+- ${useEmoji ? "Use emojis sparingly, only where they add meaning" : "Do not use emojis"}
+- No hashtags except at most one in the closing post
+- Sound like a real person sharing what they know, not a brand or an AI`
+}
+
+export function buildThreadMessages(options: ThreadPromptOptions) {
+  const bodyPosts = options.postCount - 1
+
+  const systemPrompt = `You write high-performing X (Twitter) threads.
+
+Guidelines:
+- Write ${bodyPosts} posts followed by one closing call-to-action post (${options.postCount} in total)
+- The first post is the hook. ${HOOK_STYLE_PROMPTS[options.hookStyle]}
+- Build the argument post by post, ending on the most useful point before the call to action
+- The closing post asks for one action: follow, repost the first post, reply, or bookmark
+${threadRules(options)}
+${options.instructions ? `\nAdditional instructions: ${options.instructions}` : ""}
+
+You MUST respond with a valid JSON object in this exact format:
+{
+  "posts": ["Hook post", "Second post", "..."],
+  "cta": "Closing call-to-action post"
+}`
+
+  const userPrompt = `Write a ${options.postCount}-post thread about: ${options.topic}`
+
+  return [
+    { role: "system" as const, content: systemPrompt },
+    { role: "user" as const, content: userPrompt },
+  ]
+}
+
+// Rewrites one post in place, with the rest of the thread as context
+export function buildThreadPostMessages(options: ThreadPromptOptions, posts: ThreadPost[], index: number) {
+  const target = posts[index]
+  const role = target.isCta ? "the closing call-to-action post" : index === 0 ? "the hook" : "a body post"
+  const thread = posts.map((post, position) => `${position + 1}. ${post.content}`).join("\n")
+
+  const systemPrompt = `You edit X (Twitter) threads. Rewrite post ${index + 1} of the thread below, which is ${role}.
+
+Guidelines:
+- Keep it consistent with the posts before and after it; don't repeat what they already say
+${index === 0 ? `- ${HOOK_STYLE_PROMPTS[options.hookStyle]}\n` : ""}${threadRules({ ...options, postCount: posts.length })}
+- Write something noticeably different from the current version
+${options.instructions ? `\nAdditional instructions: ${options.instructions}` : ""}
+
+You MUST respond with a valid JSON object in this exact format:
+{
+  "post": "The new post"
+}`
+
+  const userPrompt = `Thread about: ${options.topic}\n\n${thread}\n\nRewrite post ${index + 1}.`
+
+  return [
+    { role: "system" as const, content: systemPrompt },
+    { role: "user" as const, content: userPrompt },
+  ]
+}
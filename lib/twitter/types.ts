@@ -0,0 +1,27 @@
+// Structured tweet content shared by the extractors, the generation routes and the Twitter UI
+
+export interface TweetEngagement {
+  replies: number | null
+  reposts: number | null
+  likes: number | null
+  bookmarks: number | null
+  views: number | null
+}
+
+export interface TweetPost {
+  id: string | null
+  url: string | null
+  text: string
+  author: string | null // Display name
+  username: string | null // Handle without the @
+  timestamp: string | null // ISO 8601
+  images: string[]
+  engagement: TweetEngagement
+}
+
+export interface TweetContent extends TweetPost {
+  quoted: TweetPost | null
+  inReplyTo: TweetPost | null // Closest earlier tweet by someone else when this tweet is a reply
+  thread: TweetPost[] // The author's thread in order, including this tweet; empty when it stands alone
+  replies: TweetPost[] // Top replies by other accounts, in the order X ranks them
+}
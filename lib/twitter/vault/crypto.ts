@@ -0,0 +1,49 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+import type { EncryptedPayload, TwitterSessionCookies } from "./types"
+
+// Cookies are encrypted at rest with AES-256-GCM under TWITTER_VAULT_KEY (32 random bytes, base64),
+// e.g. `openssl rand -base64 32`. Rotating the key makes existing sessions unreadable; users sign in again.
+
+export class VaultKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "VaultKeyError"
+  }
+}
+
+export function isVaultConfigured(): boolean {
+  return !!process.env.TWITTER_VAULT_KEY
+}
+
+function getKey(): Buffer {
+  const encoded = process.env.TWITTER_VAULT_KEY
+  if (!encoded) {
+    throw new VaultKeyError("TWITTER_VAULT_KEY is not set")
+  }
+
+  const key = Buffer.from(encoded, "base64")
+  if (key.length !== 32) {
+    throw new VaultKeyError("TWITTER_VAULT_KEY must be 32 bytes, base64 encoded")
+  }
+  return key
+}
+
+// The associated data binds the ciphertext to its owner and handle, so records can't be swapped between users
+export function encryptCookies(cookies: TwitterSessionCookies, associatedData: string): EncryptedPayload {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv)
+  cipher.setAAD(Buffer.from(associatedData))
+
+  const data = Buffer.concat([cipher.update(JSON.stringify(cookies), "utf8"), cipher.final()])
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") }
+}
+
+// Throws when the key or associated data don't match
+export function decryptCookies(payload: EncryptedPayload, associatedData: string): TwitterSessionCookies {
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), Buffer.from(payload.iv, "base64"))
+  decipher.setAAD(Buffer.from(associatedData))
+  decipher.setAuthTag(Buffer.from(payload.tag, "base64"))
+
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(payload.data, "base64")), decipher.final()])
+  return JSON.parse(plaintext.toString("utf8")) as TwitterSessionCookies
+}
@@ -0,0 +1,180 @@
+import path from "path"
+import redis from "@/lib/redis"
+import { decryptCookies, encryptCookies } from "./crypto"
+import { probeSession } from "./probe"
+import { FileTwitterSessionStore } from "./stores/file"
+import { RedisTwitterSessionStore } from "./stores/redis"
+import {
+  TwitterSessionInputSchema,
+  type StoredTwitterSession,
+  type TwitterSessionCookies,
+  type TwitterSessionInput,
+  type TwitterSessionRepository,
+  type TwitterSessionStatus,
+  type TwitterSessionSummary,
+} from "./types"
+
+// Server-side vault for X sessions: cookies are encrypted at rest and the browser only ever holds an opaque handle
+// Each user can connect several X accounts; handles are scoped to the user that created them
+// TWITTER_SESSION_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+// TWITTER_SESSION_TTL_DAYS caps how long a stored session is used (default 30), whatever X's cookie says
+
+const DEFAULT_TTL_DAYS = 30
+
+export class TwitterSessionNotFoundError extends Error {
+  constructor(public sessionId: string) {
+    super(`Twitter session not found: ${sessionId}`)
+    this.name = "TwitterSessionNotFoundError"
+  }
+}
+
+// The session exists but can't be used; the user has to sign in to X again
+export class TwitterSessionUnavailableError extends Error {
+  constructor(
+    public sessionId: string,
+    public status: TwitterSessionStatus,
+  ) {
+    super(`Twitter session ${sessionId} is ${status}`)
+    this.name = "TwitterSessionUnavailableError"
+  }
+}
+
+function sessionTtlMs(): number {
+  const days = Number(process.env.TWITTER_SESSION_TTL_DAYS)
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS) * 24 * 60 * 60 * 1000
+}
+
+// Binds each ciphertext to its owner and handle
+function associatedData(session: Pick<StoredTwitterSession, "id" | "userId">): string {
+  return `${session.userId}:${session.id}`
+}
+
+function withCurrentStatus(session: StoredTwitterSession): StoredTwitterSession {
+  return session.status === "active" && Date.parse(session.expiresAt) <= Date.now()
+    ? { ...session, status: "expired" }
+    : session
+}
+
+function toSummary(session: StoredTwitterSession): TwitterSessionSummary {
+  const { id, username, status, createdAt, expiresAt, lastCheckedAt, lastUsedAt } = withCurrentStatus(session)
+  return { id, username, status, createdAt, expiresAt, lastCheckedAt, lastUsedAt }
+}
+
+class TwitterSessionVault {
+  constructor(private repository: TwitterSessionRepository) {}
+
+  setRepository(repository: TwitterSessionRepository): void {
+    this.repository = repository
+  }
+
+  // Newest first
+  async list(userId: string): Promise<TwitterSessionSummary[]> {
+    const sessions = await this.repository.list(userId)
+    return sessions.map(toSummary).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  // Signing in again to an account that's already connected replaces its session, keeping one handle per account
+  // cookieExpiresAt is auth_token's own expiry when known. Throws a ZodError when the input is invalid.
+  async store(
+    userId: string,
+    input: TwitterSessionInput,
+    { cookieExpiresAt }: { cookieExpiresAt?: Date | null } = {},
+  ): Promise<TwitterSessionSummary> {
+    const { authToken, ct0 = null, username = null } = TwitterSessionInputSchema.parse(input)
+    const existing = username
+      ? (await this.repository.list(userId)).find(
+          (session) => session.username?.toLowerCase() === username.toLowerCase(),
+        )
+      : undefined
+
+    const now = new Date()
+    const maxExpiry = now.getTime() + sessionTtlMs()
+    const expiresAt = new Date(cookieExpiresAt ? Math.min(cookieExpiresAt.getTime(), maxExpiry) : maxExpiry)
+
+    const id = existing?.id ?? crypto.randomUUID()
+    const session: StoredTwitterSession = {
+      id,
+      userId,
+      username,
+      status: "active",
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      lastCheckedAt: null,
+      lastUsedAt: null,
+      cookies: encryptCookies({ authToken, ct0 }, associatedData({ id, userId })),
+    }
+
+    await this.repository.save(session)
+    return toSummary(session)
+  }
+
+  // Decrypts a handle's cookies for server-side use only; never send the result to the browser
+  async resolve(userId: string, id: string): Promise<TwitterSessionCookies> {
+    const session = await this.getOwned(userId, id)
+    if (session.status !== "active") {
+      throw new TwitterSessionUnavailableError(id, session.status)
+    }
+
+    const cookies = decryptCookies(session.cookies, associatedData(session))
+    await this.repository.save({ ...session, lastUsedAt: new Date().toISOString() })
+    return cookies
+  }
+
+  // Asks X whether the cookies still work; a revoked session stays listed until the user removes it
+  async check(userId: string, id: string): Promise<TwitterSessionSummary> {
+    const session = await this.getOwned(userId, id)
+    if (session.status === "expired") return toSummary(session)
+
+    const result = await probeSession(decryptCookies(session.cookies, associatedData(session)))
+    if (result === "unknown") {
+      console.warn(`⚠️ Could not verify Twitter session ${id}; keeping status ${session.status}`)
+      return toSummary(session)
+    }
+
+    const checked: StoredTwitterSession = {
+      ...session,
+      status: result === "valid" ? "active" : "revoked",
+      lastCheckedAt: new Date().toISOString(),
+    }
+    await this.repository.save(checked)
+    return toSummary(checked)
+  }
+
+  // Deletes the session and its ciphertext
+  async revoke(userId: string, id: string): Promise<void> {
+    await this.getOwned(userId, id)
+    await this.repository.delete(id)
+  }
+
+  // Other users' handles look exactly like missing ones
+  private async getOwned(userId: string, id: string): Promise<StoredTwitterSession> {
+    const session = await this.repository.get(id)
+    if (!session || session.userId !== userId) {
+      throw new TwitterSessionNotFoundError(id)
+    }
+    return withCurrentStatus(session)
+  }
+}
+
+function createDefaultRepository(): TwitterSessionRepository {
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.TWITTER_SESSION_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisTwitterSessionStore(redis)
+  }
+
+  const filePath = process.env.TWITTER_SESSION_FILE_PATH || path.join(process.cwd(), ".data", "twitter-sessions.json")
+  console.warn(`⚠️ Using file-based Twitter session store at ${filePath}`)
+  return new FileTwitterSessionStore(filePath)
+}
+
+// Create singleton vault
+const twitterSessions = new TwitterSessionVault(createDefaultRepository())
+
+export default twitterSessions
+
+export { isVaultConfigured, VaultKeyError } from "./crypto"
+export { FileTwitterSessionStore } from "./stores/file"
+export { RedisTwitterSessionStore } from "./stores/redis"
+export * from "./types"
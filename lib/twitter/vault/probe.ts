@@ -0,0 +1,36 @@
+import type { TwitterSessionCookies } from "./types"
+
+const PROBE_URL = "https://x.com/settings/account"
+const PROBE_TIMEOUT = 10_000
+
+// valid: X served the signed-in page; revoked: X redirected to login; unknown: network or rate-limit trouble
+export type ProbeResult = "valid" | "revoked" | "unknown"
+
+// A plain HTTP request with the session cookies, no browser needed
+export async function probeSession(cookies: TwitterSessionCookies): Promise<ProbeResult> {
+  const cookieHeader = [`auth_token=${cookies.authToken}`, cookies.ct0 ? `ct0=${cookies.ct0}` : null]
+    .filter(Boolean)
+    .join("; ")
+
+  try {
+    const response = await fetch(PROBE_URL, {
+      headers: {
+        Cookie: cookieHeader,
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      },
+      redirect: "manual",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    })
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get("location") || ""
+      return /login|logout|flow/.test(location) ? "revoked" : "unknown"
+    }
+    if (response.status === 401 || response.status === 403) return "revoked"
+    return response.ok ? "valid" : "unknown"
+  } catch (error) {
+    console.error("⚠️ Twitter session probe failed:", error)
+    return "unknown"
+  }
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { StoredTwitterSession, TwitterSessionRepository } from "../types"
+
+interface TwitterSessionFileData {
+  sessions: Record<string, StoredTwitterSession>
+}
+
+// JSON file store for local development (serverless filesystems are read-only)
+// Cookies are already encrypted by the vault; the file only ever holds ciphertext
+export class FileTwitterSessionStore implements TwitterSessionRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async list(userId: string): Promise<StoredTwitterSession[]> {
+    const data = await this.read()
+    return Object.values(data.sessions).filter((session) => session.userId === userId)
+  }
+
+  async get(id: string): Promise<StoredTwitterSession | null> {
+    const data = await this.read()
+    return data.sessions[id] || null
+  }
+
+  async save(session: StoredTwitterSession): Promise<void> {
+    await this.update((data) => ({ ...data, sessions: { ...data.sessions, [session.id]: session } }))
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false
+    await this.update((data) => {
+      const { [id]: removed, ...sessions } = data.sessions
+      deleted = !!removed
+      return { ...data, sessions }
+    })
+    return deleted
+  }
+
+  private async read(): Promise<TwitterSessionFileData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      return { sessions: data?.sessions || {} }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { sessions: {} }
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  private update(change: (data: TwitterSessionFileData) => TwitterSessionFileData): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const data = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { encoding: "utf8", mode: 0o600 })
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
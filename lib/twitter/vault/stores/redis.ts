@@ -0,0 +1,57 @@
+import type { Redis } from "@upstash/redis"
+import type { StoredTwitterSession, TwitterSessionRepository } from "../types"
+
+// Sessions live in a hash keyed by handle, with a per-user set of handles
+export class RedisTwitterSessionStore implements TwitterSessionRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private prefix = "altreach:twitter-sessions",
+  ) {}
+
+  async list(userId: string): Promise<StoredTwitterSession[]> {
+    const ids = await this.client.smembers(`${this.prefix}:user:${userId}`)
+    if (ids.length === 0) return []
+
+    const values = await this.client.hmget<Record<string, unknown>>(`${this.prefix}:items`, ...ids)
+    return Object.values(values || {})
+      .map((value) => this.deserialize(value))
+      .filter((session): session is StoredTwitterSession => session !== null)
+  }
+
+  async get(id: string): Promise<StoredTwitterSession | null> {
+    return this.deserialize(await this.client.hget(`${this.prefix}:items`, id))
+  }
+
+  async save(session: StoredTwitterSession): Promise<void> {
+    const pipeline = this.client.pipeline()
+    pipeline.hset(`${this.prefix}:items`, { [session.id]: JSON.stringify(session) })
+    pipeline.sadd(`${this.prefix}:user:${session.userId}`, session.id)
+    await pipeline.exec()
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const session = await this.get(id)
+    if (!session) return false
+
+    const pipeline = this.client.pipeline()
+    pipeline.hdel(`${this.prefix}:items`, id)
+    pipeline.srem(`${this.prefix}:user:${session.userId}`, id)
+    await pipeline.exec()
+    return true
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize(value: unknown): StoredTwitterSession | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as StoredTwitterSession
+      } catch {
+        return null
+      }
+    }
+    return value as StoredTwitterSession
+  }
+}
@@ -0,0 +1,57 @@
+import { z } from "zod"
+
+// active: usable; expired: past expiresAt; revoked: X rejected the cookies (logged out elsewhere or password changed)
+export const TWITTER_SESSION_STATUSES = ["active", "expired", "revoked"] as const
+export type TwitterSessionStatus = (typeof TWITTER_SESSION_STATUSES)[number]
+
+// The cookies X sets on sign-in; ct0 is the CSRF token paired with auth_token
+export interface TwitterSessionCookies {
+  authToken: string
+  ct0: string | null
+}
+
+// AES-256-GCM output, base64 encoded
+export interface EncryptedPayload {
+  iv: string
+  tag: string
+  data: string
+}
+
+// What the browser sees: the id is the opaque handle it sends back instead of the cookies
+export interface TwitterSessionSummary {
+  id: string
+  username: string | null // X handle without the @, when it could be read at sign-in
+  status: TwitterSessionStatus
+  createdAt: string
+  expiresAt: string
+  lastCheckedAt: string | null
+  lastUsedAt: string | null
+}
+
+export interface StoredTwitterSession extends TwitterSessionSummary {
+  userId: string
+  cookies: EncryptedPayload
+}
+
+// Manual entry for when the login browser can't run (e.g. serverless)
+export const TwitterSessionInputSchema = z.object({
+  authToken: z.string().trim().regex(/^[a-f0-9]{20,80}$/i, "That doesn't look like an auth_token cookie value"),
+  ct0: z.string().trim().max(400).nullable().optional(),
+  username: z
+    .string()
+    .trim()
+    .transform((value) => value.replace(/^@/, ""))
+    .pipe(z.string().regex(/^\w{1,15}$/, "Enter a valid X username"))
+    .nullable()
+    .optional(),
+})
+
+export type TwitterSessionInput = z.input<typeof TwitterSessionInputSchema>
+
+export interface TwitterSessionRepository {
+  readonly name: string
+  list(userId: string): Promise<StoredTwitterSession[]>
+  get(id: string): Promise<StoredTwitterSession | null>
+  save(session: StoredTwitterSession): Promise<void>
+  delete(id: string): Promise<boolean>
+}
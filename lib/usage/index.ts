@@ -0,0 +1,165 @@
+import { NextResponse } from "next/server"
+import redis from "@/lib/redis"
+import { getSessionUser } from "@/lib/auth/session"
+import { getClientId } from "@/lib/rate-limit"
+import { defaultPlanId, FEATURE_LABELS, isPlanId, PLANS } from "./plans"
+import { MemoryUsageStore } from "./stores/memory"
+import { RedisUsageStore } from "./stores/redis"
+import {
+  USAGE_FEATURES,
+  type FeatureUsage,
+  type Plan,
+  type QuotaCheck,
+  type UsageFeature,
+  type UsageStore,
+  type UsageSummary,
+} from "./types"
+
+// Monthly usage quotas per plan, metered per signed-in user (or per IP for anonymous calls)
+// Routes validate the request first, consume just before generating and refund when nothing was generated
+// Backed by Upstash Redis when configured, otherwise by an in-memory store
+
+// Counters outlive their month briefly so late requests near the boundary still read consistently
+const COUNTER_GRACE_MS = 7 * 24 * 60 * 60 * 1000
+
+function currentPeriod(now = new Date()): { period: string; resetsAt: Date } {
+  const period = now.toISOString().slice(0, 7)
+  const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  return { period, resetsAt }
+}
+
+function featureUsage(used: number, limit: number | null): FeatureUsage {
+  return { used, limit, remaining: limit === null ? null : Math.max(0, limit - used) }
+}
+
+class UsageService {
+  constructor(private store: UsageStore) {}
+
+  setStore(store: UsageStore): void {
+    this.store = store
+  }
+
+  // Signed-in users are metered on their account and plan; everyone else on their IP and the default plan
+  async identify(request: Request): Promise<{ identity: string; plan: Plan }> {
+    const user = await getSessionUser(request)
+    if (!user) {
+      return { identity: `ip:${getClientId(request)}`, plan: PLANS[defaultPlanId()] }
+    }
+    return { identity: `user:${user.id}`, plan: PLANS[isPlanId(user.plan) ? user.plan : defaultPlanId()] }
+  }
+
+  // Counts amount against the feature's quota unless that would exceed it
+  async consume(request: Request, feature: UsageFeature, amount = 1): Promise<QuotaCheck> {
+    const { identity, plan } = await this.identify(request)
+    const { period, resetsAt } = currentPeriod()
+    const limit = plan.monthlyQuotas[feature]
+    const counterKey = `${period}:${identity}`
+
+    try {
+      const { allowed, used } = await this.store.consume(
+        counterKey,
+        feature,
+        amount,
+        limit,
+        resetsAt.getTime() + COUNTER_GRACE_MS,
+      )
+      return {
+        allowed,
+        feature,
+        plan,
+        resetsAt: resetsAt.toISOString(),
+        counterKey,
+        charged: allowed ? amount : 0,
+        ...featureUsage(used, limit),
+      }
+    } catch (error) {
+      console.error("❌ Error metering usage:", error)
+      // Allow on error so a Redis outage doesn't take the API down
+      return {
+        allowed: true,
+        feature,
+        plan,
+        resetsAt: resetsAt.toISOString(),
+        counterKey,
+        charged: 0,
+        ...featureUsage(0, limit),
+      }
+    }
+  }
+
+  // Gives back what a consume charged (or part of it) when the generation failed. Never throws.
+  async refund(check: QuotaCheck, amount = check.charged): Promise<void> {
+    const refunded = Math.min(amount, check.charged)
+    if (refunded <= 0) return
+
+    try {
+      await this.store.refund(check.counterKey, check.feature, refunded)
+      check.charged -= refunded
+    } catch (error) {
+      console.error("❌ Error refunding usage:", error)
+    }
+  }
+
+  async summary(request: Request): Promise<UsageSummary> {
+    const { identity, plan } = await this.identify(request)
+    const { period, resetsAt } = currentPeriod()
+    const counts = await this.store.get(`${period}:${identity}`)
+
+    return {
+      identity,
+      plan: { id: plan.id, name: plan.name },
+      period,
+      resetsAt: resetsAt.toISOString(),
+      features: Object.fromEntries(
+        USAGE_FEATURES.map((feature) => [feature, featureUsage(counts[feature] || 0, plan.monthlyQuotas[feature])]),
+      ) as Record<UsageFeature, FeatureUsage>,
+    }
+  }
+}
+
+// 402 rather than 429: waiting a few seconds won't help, the plan or the month has to change
+export function quotaExceededResponse(check: QuotaCheck): NextResponse {
+  const label = FEATURE_LABELS[check.feature].toLowerCase()
+  const resetsOn = new Date(check.resetsAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+  // A batch can ask for more than is left even when the quota isn't used up
+  const summary = check.remaining
+    ? `Not enough ${label} left on the ${check.plan.name} plan this month (${check.remaining} of ${check.limit})`
+    : `You've used all ${check.limit} ${label} on the ${check.plan.name} plan this month`
+  const error = `${summary}. Your quota resets on ${resetsOn}.`
+
+  return NextResponse.json(
+    {
+      error,
+      quotaExceeded: true,
+      feature: check.feature,
+      plan: check.plan.id,
+      used: check.used,
+      limit: check.limit,
+      resetsAt: check.resetsAt,
+    },
+    { status: 402 },
+  )
+}
+
+function createDefaultStore(): UsageStore {
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    return new RedisUsageStore(redis)
+  }
+
+  console.warn("⚠️ Upstash Redis not configured, metering usage in memory")
+  return new MemoryUsageStore()
+}
+
+// Create singleton usage service
+const usage = new UsageService(createDefaultStore())
+
+export default usage
+
+export { FEATURE_LABELS, PLANS, isComplexRequest, selectModelTier } from "./plans"
+export { MemoryUsageStore } from "./stores/memory"
+export { RedisUsageStore } from "./stores/redis"
+export * from "./types"
@@ -0,0 +1,61 @@
+import type { ModelTier } from "@/lib/llm/types"
+import { PLAN_IDS, type Plan, type PlanId, type UsageFeature } from "./types"
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: "free",
+    name: "Free",
+    monthlyQuotas: { comments: 50, "connection-messages": 25, posts: 20, images: 5, trends: 100 },
+    models: "fast",
+  },
+  pro: {
+    id: "pro",
+    name: "Pro",
+    monthlyQuotas: { comments: 1000, "connection-messages": 500, posts: 300, images: 100, trends: 2000 },
+    models: "adaptive",
+  },
+  team: {
+    id: "team",
+    name: "Team",
+    monthlyQuotas: { comments: 10000, "connection-messages": 5000, posts: 3000, images: 1000, trends: null },
+    models: "smart",
+  },
+}
+
+export const FEATURE_LABELS: Record<UsageFeature, string> = {
+  comments: "Comments",
+  "connection-messages": "Connection messages",
+  posts: "Posts",
+  images: "Images",
+  trends: "Trend lookups",
+}
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === "string" && (PLAN_IDS as readonly string[]).includes(value)
+}
+
+// Plan for visitors and accounts without one; DEFAULT_PLAN overrides it for self-hosted installs
+export function defaultPlanId(): PlanId {
+  return isPlanId(process.env.DEFAULT_PLAN) ? process.env.DEFAULT_PLAN : "free"
+}
+
+// Long or analytical requests benefit from the smart tier
+export function isComplexRequest(text: string, instructions?: string | null): boolean {
+  const hasComplexInstructions =
+    !!instructions &&
+    (instructions.length > 100 || instructions.includes("technical") || instructions.includes("analyze"))
+
+  return (
+    hasComplexInstructions ||
+    text.length > 500 ||
+    text.includes("code") ||
+    text.includes("technical") ||
+    /\b(analyze|analyse|explain|compare|contrast)\b/i.test(text)
+  )
+}
+
+export function selectModelTier(plan: Plan, isComplex = false): ModelTier {
+  if (plan.models === "smart") return "smart"
+  if (plan.models === "adaptive" && isComplex) return "smart"
+  return "fast"
+}
@@ -0,0 +1,45 @@
+import type { UsageFeature, UsageStore } from "../types"
+
+// In-memory counters (single instance only, used locally and in tests)
+export class MemoryUsageStore implements UsageStore {
+  private counters = new Map<string, { counts: Partial<Record<UsageFeature, number>>; expiresAt: number }>()
+
+  async consume(key: string, feature: UsageFeature, amount: number, limit: number | null, expiresAt: number) {
+    this.cleanup()
+    const entry = this.counters.get(key) || { counts: {}, expiresAt }
+    const used = entry.counts[feature] || 0
+
+    if (limit !== null && used + amount > limit) {
+      return { allowed: false, used }
+    }
+
+    entry.counts[feature] = used + amount
+    this.counters.set(key, entry)
+    return { allowed: true, used: used + amount }
+  }
+
+  async refund(key: string, feature: UsageFeature, amount: number): Promise<void> {
+    const entry = this.counters.get(key)
+    if (!entry) return
+    entry.counts[feature] = Math.max(0, (entry.counts[feature] || 0) - amount)
+  }
+
+  async get(key: string): Promise<Partial<Record<UsageFeature, number>>> {
+    this.cleanup()
+    return { ...this.counters.get(key)?.counts }
+  }
+
+  reset(): void {
+    this.counters.clear()
+  }
+
+  // Drop counters from past months
+  private cleanup(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.counters.entries()) {
+      if (entry.expiresAt <= now) {
+        this.counters.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import type { Redis } from "@upstash/redis"
+import type { UsageFeature, UsageStore } from "../types"
+
+// Check and increment in one script so concurrent requests can't overshoot the quota
+const CONSUME_SCRIPT = `
+local key = KEYS[1]
+local feature = ARGV[1]
+local amount = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local expiresAt = tonumber(ARGV[4])
+
+local used = tonumber(redis.call("HGET", key, feature) or "0")
+if limit >= 0 and used + amount > limit then
+  return { 0, used }
+end
+
+used = redis.call("HINCRBY", key, feature, amount)
+redis.call("PEXPIREAT", key, expiresAt)
+return { 1, used }
+`
+
+const REFUND_SCRIPT = `
+local used = tonumber(redis.call("HGET", KEYS[1], ARGV[1]) or "0")
+if used > 0 then
+  redis.call("HSET", KEYS[1], ARGV[1], math.max(0, used - tonumber(ARGV[2])))
+end
+return 1
+`
+
+// One hash per identity and month, keyed by feature; it expires shortly after the month ends
+export class RedisUsageStore implements UsageStore {
+  constructor(
+    private client: Redis,
+    private prefix = "altreach:usage",
+  ) {}
+
+  async consume(key: string, feature: UsageFeature, amount: number, limit: number | null, expiresAt: number) {
+    const [allowed, used] = await this.client.eval<(string | number)[], [number, number]>(
+      CONSUME_SCRIPT,
+      [`${this.prefix}:${key}`],
+      [feature, amount, limit ?? -1, expiresAt],
+    )
+    return { allowed: allowed === 1, used }
+  }
+
+  async refund(key: string, feature: UsageFeature, amount: number): Promise<void> {
+    await this.client.eval(REFUND_SCRIPT, [`${this.prefix}:${key}`], [feature, amount])
+  }
+
+  async get(key: string): Promise<Partial<Record<UsageFeature, number>>> {
+    const values = await this.client.hgetall<Record<string, number | string>>(`${this.prefix}:${key}`)
+    return Object.fromEntries(Object.entries(values || {}).map(([feature, count]) => [feature, Number(count)]))
+  }
+}
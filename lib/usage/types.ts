@@ -0,0 +1,52 @@
+export const PLAN_IDS = ["free", "pro", "team"] as const
+export type PlanId = (typeof PLAN_IDS)[number]
+
+export const USAGE_FEATURES = ["comments", "connection-messages", "posts", "images", "trends"] as const
+export type UsageFeature = (typeof USAGE_FEATURES)[number]
+
+// fast: always the fast tier; adaptive: the smart tier for complex requests; smart: always the smart tier
+export type ModelPolicy = "fast" | "adaptive" | "smart"
+
+export interface Plan {
+  id: PlanId
+  name: string
+  monthlyQuotas: Record<UsageFeature, number | null> // null means unlimited
+  models: ModelPolicy
+}
+
+export interface FeatureUsage {
+  used: number
+  limit: number | null
+  remaining: number | null
+}
+
+export interface UsageSummary {
+  identity: string // "user:<id>" when signed in, otherwise "ip:<address>"
+  plan: { id: PlanId; name: string }
+  period: string // Calendar month in UTC, e.g. "2026-10"
+  resetsAt: string
+  features: Record<UsageFeature, FeatureUsage>
+}
+
+export interface QuotaCheck extends FeatureUsage {
+  allowed: boolean
+  feature: UsageFeature
+  plan: Plan
+  resetsAt: string
+  counterKey: string
+  charged: number // What refund gives back: 0 when denied or when metering failed
+}
+
+export interface UsageStore {
+  // Adds amount unless that would exceed limit; returns the count after the attempt
+  consume(
+    key: string,
+    feature: UsageFeature,
+    amount: number,
+    limit: number | null,
+    expiresAt: number,
+  ): Promise<{ allowed: boolean; used: number }>
+  // Takes back amount, never going below zero
+  refund(key: string, feature: UsageFeature, amount: number): Promise<void>
+  get(key: string): Promise<Partial<Record<UsageFeature, number>>>
+}
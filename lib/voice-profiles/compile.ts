@@ -0,0 +1,74 @@
+import type { ChatMessage } from "@/lib/llm"
+import type { EmojiPolicy, ReadingLevel, VoiceProfile } from "./types"
+
+const EMOJI_GUIDANCE: Record<EmojiPolicy, string> = {
+  none: "Do not use emojis.",
+  sparing: "Use at most one emoji, and only when it adds meaning.",
+  expressive: "Emojis are welcome where they fit naturally.",
+}
+
+const READING_LEVEL_GUIDANCE: Record<ReadingLevel, string> = {
+  simple: "Write at a simple reading level: short sentences and everyday words.",
+  conversational: "Write at a conversational reading level, like talking to a colleague.",
+  professional: "Write at a professional reading level: precise, polished, no slang.",
+  expert: "Write for an expert audience: domain terminology is fine, skip the basics.",
+}
+
+// Compiles a profile into the block appended to every system prompt, so all routes describe a voice the same way
+export function compileVoiceProfile(profile: VoiceProfile): string {
+  const lines = [`Brand voice: "${profile.name}". This voice takes priority over any other style guidance.`]
+
+  if (profile.description) {
+    lines.push(profile.description)
+  }
+
+  lines.push(`- ${READING_LEVEL_GUIDANCE[profile.readingLevel]}`)
+  lines.push(`- ${EMOJI_GUIDANCE[profile.emojiPolicy]}`)
+
+  if (profile.preferredVocabulary.length > 0) {
+    lines.push(`- Prefer this vocabulary where it fits: ${profile.preferredVocabulary.join(", ")}`)
+  }
+
+  if (profile.bannedPhrases.length > 0) {
+    lines.push(
+      `- Never use these words or phrases: ${profile.bannedPhrases.map((phrase) => `"${phrase}"`).join(", ")}`,
+    )
+  }
+
+  if (profile.sampleWriting) {
+    lines.push(`Sample writing in this voice (match the style, not the content):\n"""\n${profile.sampleWriting}\n"""`)
+  }
+
+  return lines.join("\n")
+}
+
+// Appends the compiled voice to the system message (or adds one)
+export function applyVoiceProfile(messages: ChatMessage[], profile: VoiceProfile | null): ChatMessage[] {
+  if (!profile) return messages
+
+  const voice = compileVoiceProfile(profile)
+  const systemIndex = messages.findIndex((message) => message.role === "system")
+
+  if (systemIndex === -1) {
+    return [{ role: "system", content: voice }, ...messages]
+  }
+
+  return messages.map((message, index) =>
+    index === systemIndex ? { ...message, content: `${message.content}\n\n${voice}` } : message,
+  )
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Case-insensitive, whole-word where the phrase starts/ends with a word character
+export function findBannedPhrases(text: string, bannedPhrases: string[]): string[] {
+  return bannedPhrases.filter((phrase) => {
+    const pattern = escapeRegExp(phrase.trim())
+    if (!pattern) return false
+    const start = /^\w/.test(phrase) ? "\\b" : ""
+    const end = /\w$/.test(phrase) ? "\\b" : ""
+    return new RegExp(`${start}${pattern}${end}`, "i").test(text)
+  })
+}
@@ -0,0 +1,105 @@
+import path from "path"
+import redis from "@/lib/redis"
+import { FileVoiceProfileStore } from "./stores/file"
+import { RedisVoiceProfileStore } from "./stores/redis"
+import { VoiceProfileInputSchema, type VoiceProfile, type VoiceProfileInput, type VoiceProfileRepository } from "./types"
+
+// Saved brand voices, compiled into the system prompt of every generation route
+// Profiles belong to the account that created them; every method takes the signed-in user's id and treats other
+// accounts' profiles as missing
+// VOICE_PROFILE_STORE picks the backend ("redis" or "file"); defaults to Redis when Upstash is configured
+
+export class VoiceProfileNotFoundError extends Error {
+  constructor(public profileId: string) {
+    super(`Voice profile not found: ${profileId}`)
+    this.name = "VoiceProfileNotFoundError"
+  }
+}
+
+class VoiceProfileService {
+  constructor(private repository: VoiceProfileRepository) {}
+
+  setRepository(repository: VoiceProfileRepository): void {
+    this.repository = repository
+  }
+
+  async list(userId: string): Promise<VoiceProfile[]> {
+    const profiles = await this.repository.list()
+    return profiles.filter((profile) => profile.userId === userId).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async get(id: string, userId: string): Promise<VoiceProfile | null> {
+    const profile = await this.repository.get(id)
+    return profile?.userId === userId ? profile : null
+  }
+
+  // Resolves the optional voiceProfileId accepted by the generation routes
+  async resolve(id: string | null | undefined, userId: string): Promise<VoiceProfile | null> {
+    if (!id) return null
+
+    const profile = await this.get(id, userId)
+    if (!profile) {
+      throw new VoiceProfileNotFoundError(id)
+    }
+    return profile
+  }
+
+  // Throws a ZodError when the input is invalid
+  async create(input: VoiceProfileInput, userId: string): Promise<VoiceProfile> {
+    const now = new Date().toISOString()
+    const profile: VoiceProfile = {
+      ...VoiceProfileInputSchema.parse(input),
+      id: crypto.randomUUID(),
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.repository.save(profile)
+    return profile
+  }
+
+  async update(id: string, input: VoiceProfileInput, userId: string): Promise<VoiceProfile> {
+    const existing = await this.get(id, userId)
+    if (!existing) {
+      throw new VoiceProfileNotFoundError(id)
+    }
+
+    const profile: VoiceProfile = {
+      ...existing,
+      ...VoiceProfileInputSchema.parse(input),
+      updatedAt: new Date().toISOString(),
+    }
+
+    await this.repository.save(profile)
+    return profile
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const existing = await this.get(id, userId)
+    return !!existing && (await this.repository.delete(id))
+  }
+}
+
+function createDefaultRepository(): VoiceProfileRepository {
+  const hasRedis = !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
+  const store = process.env.VOICE_PROFILE_STORE || (hasRedis ? "redis" : "file")
+
+  if (store === "redis") {
+    return new RedisVoiceProfileStore(redis)
+  }
+
+  const filePath = process.env.VOICE_PROFILE_FILE_PATH || path.join(process.cwd(), ".data", "voice-profiles.json")
+  console.warn(`⚠️ Using file-based voice profile store at ${filePath}`)
+  return new FileVoiceProfileStore(filePath)
+}
+
+// Create singleton voice profile service
+const voiceProfiles = new VoiceProfileService(createDefaultRepository())
+
+export default voiceProfiles
+
+export { applyVoiceProfile, compileVoiceProfile, findBannedPhrases } from "./compile"
+export { FileVoiceProfileStore } from "./stores/file"
+export { RedisVoiceProfileStore } from "./stores/redis"
+export * from "./types"
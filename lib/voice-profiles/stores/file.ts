@@ -0,0 +1,66 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { VoiceProfile, VoiceProfileRepository } from "../types"
+
+// JSON file store for local development (serverless filesystems are read-only)
+export class FileVoiceProfileStore implements VoiceProfileRepository {
+  readonly name = "file"
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async list(): Promise<VoiceProfile[]> {
+    return this.read()
+  }
+
+  async get(id: string): Promise<VoiceProfile | null> {
+    const profiles = await this.read()
+    return profiles.find((profile) => profile.id === id) || null
+  }
+
+  async save(profile: VoiceProfile): Promise<void> {
+    await this.update((profiles) => {
+      const exists = profiles.some((existing) => existing.id === profile.id)
+      return exists
+        ? profiles.map((existing) => (existing.id === profile.id ? profile : existing))
+        : [...profiles, profile]
+    })
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false
+    await this.update((profiles) => {
+      const remaining = profiles.filter((profile) => profile.id !== id)
+      deleted = remaining.length !== profiles.length
+      return remaining
+    })
+    return deleted
+  }
+
+  private async read(): Promise<VoiceProfile[]> {
+    try {
+      const profiles = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+      return Array.isArray(profiles) ? profiles : []
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+  }
+
+  // Serialize read-modify-write cycles so concurrent requests don't drop changes
+  private update(change: (profiles: VoiceProfile[]) => VoiceProfile[]): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const profiles = change(await this.read())
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+      const tempPath = `${this.filePath}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(profiles, null, 2), "utf8")
+      await fs.rename(tempPath, this.filePath)
+    })
+
+    this.writeQueue = next.catch(() => undefined)
+    return next
+  }
+}
@@ -0,0 +1,44 @@
+import type { Redis } from "@upstash/redis"
+import type { VoiceProfile, VoiceProfileRepository } from "../types"
+
+// All profiles live in a single hash keyed by id
+export class RedisVoiceProfileStore implements VoiceProfileRepository {
+  readonly name = "redis"
+
+  constructor(
+    private client: Redis,
+    private key = "altreach:voice-profiles",
+  ) {}
+
+  async list(): Promise<VoiceProfile[]> {
+    const values = await this.client.hgetall<Record<string, unknown>>(this.key)
+    return Object.values(values || {})
+      .map((value) => this.deserialize(value))
+      .filter((profile): profile is VoiceProfile => profile !== null)
+  }
+
+  async get(id: string): Promise<VoiceProfile | null> {
+    return this.deserialize(await this.client.hget(this.key, id))
+  }
+
+  async save(profile: VoiceProfile): Promise<void> {
+    await this.client.hset(this.key, { [profile.id]: JSON.stringify(profile) })
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return (await this.client.hdel(this.key, id)) > 0
+  }
+
+  // Upstash deserializes JSON automatically; handle raw strings too
+  private deserialize(value: unknown): VoiceProfile | null {
+    if (!value) return null
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as VoiceProfile
+      } catch {
+        return null
+      }
+    }
+    return value as VoiceProfile
+  }
+}
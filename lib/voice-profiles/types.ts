@@ -0,0 +1,40 @@
+import { z } from "zod"
+
+export const EMOJI_POLICIES = ["none", "sparing", "expressive"] as const
+export const READING_LEVELS = ["simple", "conversational", "professional", "expert"] as const
+
+export type EmojiPolicy = (typeof EMOJI_POLICIES)[number]
+export type ReadingLevel = (typeof READING_LEVELS)[number]
+
+// Accepts newline/comma separated strings from forms as well as arrays
+const phraseList = z
+  .union([z.array(z.string()), z.string()])
+  .transform((value) => (Array.isArray(value) ? value : value.split(/[\n,]/)))
+  .transform((values) => Array.from(new Set(values.map((phrase) => phrase.trim()).filter(Boolean))))
+
+export const VoiceProfileInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  description: z.string().trim().max(1000).default(""),
+  bannedPhrases: phraseList.default([]),
+  preferredVocabulary: phraseList.default([]),
+  emojiPolicy: z.enum(EMOJI_POLICIES).default("sparing"),
+  sampleWriting: z.string().trim().max(3000).default(""),
+  readingLevel: z.enum(READING_LEVELS).default("conversational"),
+})
+
+export type VoiceProfileInput = z.input<typeof VoiceProfileInputSchema>
+
+export interface VoiceProfile extends z.output<typeof VoiceProfileInputSchema> {
+  id: string
+  userId?: string | null // Owning account; profiles from before accounts have none and aren't shown to anyone
+  createdAt: string
+  updatedAt: string
+}
+
+export interface VoiceProfileRepository {
+  readonly name: string
+  list(): Promise<VoiceProfile[]>
+  get(id: string): Promise<VoiceProfile | null>
+  save(profile: VoiceProfile): Promise<void>
+  delete(id: string): Promise<boolean>
+}
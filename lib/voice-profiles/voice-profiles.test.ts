@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import voiceProfiles, { VoiceProfileNotFoundError } from "./index"
+import type { VoiceProfile, VoiceProfileRepository } from "./types"
+
+class MemoryVoiceProfileStore implements VoiceProfileRepository {
+  readonly name = "memory"
+  private profiles = new Map<string, VoiceProfile>()
+
+  async list() {
+    return Array.from(this.profiles.values())
+  }
+  async get(id: string) {
+    return this.profiles.get(id) || null
+  }
+  async save(profile: VoiceProfile) {
+    this.profiles.set(profile.id, profile)
+  }
+  async delete(id: string) {
+    return this.profiles.delete(id)
+  }
+}
+
+beforeEach(() => {
+  voiceProfiles.setRepository(new MemoryVoiceProfileStore())
+})
+
+describe("voice profiles", () => {
+  it("keeps each account's profiles to itself", async () => {
+    const profile = await voiceProfiles.create({ name: "Founder" }, "owner")
+
+    expect(await voiceProfiles.list("owner")).toHaveLength(1)
+    expect(await voiceProfiles.list("other")).toEqual([])
+    expect(await voiceProfiles.get(profile.id, "other")).toBeNull()
+    await expect(voiceProfiles.update(profile.id, { name: "Mine now" }, "other")).rejects.toBeInstanceOf(
+      VoiceProfileNotFoundError,
+    )
+    expect(await voiceProfiles.delete(profile.id, "other")).toBe(false)
+  })
+
+  it("only resolves the caller's profile for generation", async () => {
+    const profile = await voiceProfiles.create({ name: "Founder" }, "owner")
+
+    expect((await voiceProfiles.resolve(profile.id, "owner"))?.name).toBe("Founder")
+    await expect(voiceProfiles.resolve(profile.id, "other")).rejects.toBeInstanceOf(VoiceProfileNotFoundError)
+    expect(await voiceProfiles.resolve(undefined, "other")).toBeNull()
+  })
+})
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SESSION_COOKIE } from "@/lib/auth/cookies"
+
+// Fast path for signed-out visitors: pages redirect to /login and APIs get a 401
+// Only checks that a session cookie is present; withAuth validates the session in the route itself
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next()
+  }
+
+  const { pathname, search } = request.nextUrl
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Please sign in to continue.", unauthenticated: true }, { status: 401 })
+  }
+
+  const loginUrl = new URL("/login", request.url)
+  loginUrl.searchParams.set("next", `${pathname}${search}`)
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  matcher: [
+    "/",
+    "/history",
+    "/schedule",
+    "/reviews",
+    "/api/generate-comments/:path*",
+    "/api/generate-connection-message",
+    "/api/compose",
+    "/api/detect-tone",
+    "/api/twitter/detect-tone",
+    "/api/twitter/generate-comments",
+    "/api/twitter/generate-posts",
+    "/api/twitter/generate-image",
+    "/api/twitter/login-session/:path*",
+    "/api/twitter/extract-with-session",
+    "/api/twitter/sessions/:path*",
+    "/api/history/:path*",
+    "/api/reviews/:path*",
+    "/api/voice-profiles/:path*",
+    // The dispatch and evaluate cron jobs authenticate with CRON_SECRET instead of a session
+    "/api/schedule",
+    "/api/schedule/((?!dispatch).*)",
+    "/api/trend-alerts",
+    "/api/trend-alerts/((?!evaluate).*)",
+  ],
+}
@@ -9,6 +9,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Loads instrumentation.ts (starts the trend snapshotter when configured)
+    instrumentationHook: true,
+  },
 }
 
 export default nextConfig